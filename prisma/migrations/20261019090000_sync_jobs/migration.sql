@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "sync_jobs" (
+    "id" SERIAL NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "start_date" DATE NOT NULL,
+    "end_date" DATE NOT NULL,
+    "current_stage" TEXT,
+    "progress_json" JSONB,
+    "error_message" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "locked_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "started_at" TIMESTAMP(3),
+    "finished_at" TIMESTAMP(3),
+
+    CONSTRAINT "sync_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_sync_jobs_status_created" ON "sync_jobs"("status", "created_at");
+
+-- CreateIndex
+CREATE INDEX "idx_sync_jobs_user_created" ON "sync_jobs"("user_id", "created_at" DESC);
+
+-- AddForeignKey
+ALTER TABLE "sync_jobs" ADD CONSTRAINT "sync_jobs_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
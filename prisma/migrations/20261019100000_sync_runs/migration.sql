@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "sync_jobs" ADD COLUMN     "trigger" TEXT NOT NULL DEFAULT 'manual';
+
+-- CreateTable
+CREATE TABLE "sync_runs" (
+    "id" SERIAL NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "job_id" INTEGER,
+    "trigger" TEXT NOT NULL DEFAULT 'manual',
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "start_date" DATE NOT NULL,
+    "end_date" DATE NOT NULL,
+    "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finished_at" TIMESTAMP(3),
+    "duration_ms" INTEGER,
+    "activities_synced" INTEGER,
+    "health_days_synced" INTEGER,
+    "health_days_existing" INTEGER,
+    "health_days_skipped" INTEGER,
+    "fitness_synced" BOOLEAN,
+    "stage_results_json" JSONB,
+    "error_message" TEXT,
+
+    CONSTRAINT "sync_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_sync_runs_user_started" ON "sync_runs"("user_id", "started_at" DESC);
+
+-- AddForeignKey
+ALTER TABLE "sync_runs" ADD CONSTRAINT "sync_runs_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sync_runs" ADD CONSTRAINT "sync_runs_job_id_fkey" FOREIGN KEY ("job_id") REFERENCES "sync_jobs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
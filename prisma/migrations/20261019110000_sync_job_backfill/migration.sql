@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "sync_jobs" ADD COLUMN     "cursor_date" DATE,
+ADD COLUMN     "kind" TEXT NOT NULL DEFAULT 'sync';
+
+-- AlterTable
+ALTER TABLE "sync_runs" ADD COLUMN     "kind" TEXT NOT NULL DEFAULT 'sync';
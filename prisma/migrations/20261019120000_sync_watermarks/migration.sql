@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "activity_watermark_date" TIMESTAMP(3),
+ADD COLUMN     "activity_watermark_id" BIGINT,
+ADD COLUMN     "health_watermark_date" DATE;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "activities" ADD COLUMN     "sport_category" TEXT;
+
+-- AlterTable
+ALTER TABLE "user_running_fitness" ADD COLUMN     "weekly_cross_training_minutes_avg" DOUBLE PRECISION,
+ADD COLUMN     "weekly_training_minutes_avg" DOUBLE PRECISION;
+
+-- Backfill existing rows (previous syncs only stored runs)
+UPDATE "activities" SET "sport_category" = 'running' WHERE "sport_category" IS NULL AND "activity_type" ILIKE '%run%';
+
+-- CreateIndex
+CREATE INDEX "idx_activities_user_sport_date" ON "activities"("user_id", "sport_category", "activity_date");
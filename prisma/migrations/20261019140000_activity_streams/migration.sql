@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "activity_streams" (
+    "id" SERIAL NOT NULL,
+    "activity_id" INTEGER NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "source" TEXT NOT NULL DEFAULT 'garmin',
+    "channels" TEXT[],
+    "sample_count" INTEGER NOT NULL,
+    "encoding" TEXT NOT NULL,
+    "data" BYTEA NOT NULL,
+    "fetched_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "activity_streams_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "activity_streams_activity_id_key" ON "activity_streams"("activity_id");
+
+-- CreateIndex
+CREATE INDEX "idx_activity_streams_user" ON "activity_streams"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "activity_streams" ADD CONSTRAINT "activity_streams_activity_id_fkey" FOREIGN KEY ("activity_id") REFERENCES "activities"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "activity_streams" ADD CONSTRAINT "activity_streams_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
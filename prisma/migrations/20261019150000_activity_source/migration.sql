@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "activities" ADD COLUMN     "source" TEXT NOT NULL DEFAULT 'garmin';
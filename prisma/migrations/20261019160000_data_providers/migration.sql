@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "activities" ADD COLUMN     "external_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "daily_health_readings" ADD COLUMN     "source" TEXT NOT NULL DEFAULT 'garmin';
+
+-- CreateTable
+CREATE TABLE "user_data_providers" (
+    "id" SERIAL NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "provider" TEXT NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "linked_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_data_providers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "activities_user_id_source_external_id_key" ON "activities"("user_id", "source", "external_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_data_providers_user_id_provider_key" ON "user_data_providers"("user_id", "provider");
+
+-- CreateIndex
+CREATE INDEX "idx_user_data_providers_user_priority" ON "user_data_providers"("user_id", "priority");
+
+-- AddForeignKey
+ALTER TABLE "user_data_providers" ADD CONSTRAINT "user_data_providers_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: synced Garmin activities are keyed by their Garmin id.
+UPDATE "activities"
+SET "external_id" = "garmin_activity_id"::TEXT
+WHERE "source" = 'garmin' AND "garmin_activity_id" IS NOT NULL;
+
+-- Backfill: users who already connected Garmin have it linked as their only provider.
+INSERT INTO "user_data_providers" ("user_id", "provider", "priority")
+SELECT "id", 'garmin', 0 FROM "users" WHERE "garmin_connected" = true;
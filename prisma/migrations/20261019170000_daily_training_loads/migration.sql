@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "daily_training_loads" (
+    "id" SERIAL NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "load_date" DATE NOT NULL,
+    "load" DOUBLE PRECISION NOT NULL,
+    "activity_count" INTEGER NOT NULL,
+    "acute_load" DOUBLE PRECISION NOT NULL,
+    "chronic_load" DOUBLE PRECISION NOT NULL,
+    "acwr" DOUBLE PRECISION,
+    "fitness" DOUBLE PRECISION NOT NULL,
+    "fatigue" DOUBLE PRECISION NOT NULL,
+    "form" DOUBLE PRECISION NOT NULL,
+    "computed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "daily_training_loads_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "daily_training_loads_user_id_load_date_key" ON "daily_training_loads"("user_id", "load_date");
+
+-- AddForeignKey
+ALTER TABLE "daily_training_loads" ADD CONSTRAINT "daily_training_loads_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "user_running_fitness" ADD COLUMN "vdot_source" TEXT;
+
+-- CreateTable
+CREATE TABLE "race_results" (
+    "id" SERIAL NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "race_name" TEXT,
+    "race_date" DATE NOT NULL,
+    "distance_meters" DOUBLE PRECISION NOT NULL,
+    "time_seconds" INTEGER NOT NULL,
+    "conditions" TEXT,
+    "course_profile" TEXT NOT NULL DEFAULT 'flat',
+    "notes" TEXT,
+    "vdot" DOUBLE PRECISION,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "race_results_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_race_results_user_date" ON "race_results"("user_id", "race_date");
+
+-- AddForeignKey
+ALTER TABLE "race_results" ADD CONSTRAINT "race_results_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
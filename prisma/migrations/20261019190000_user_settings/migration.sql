@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "user_settings" (
+    "id" SERIAL NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "easy_pace_low_override" INTEGER,
+    "easy_pace_high_override" INTEGER,
+    "long_run_pace_override" INTEGER,
+    "tempo_pace_override" INTEGER,
+    "threshold_pace_override" INTEGER,
+    "interval_pace_override" INTEGER,
+    "repetition_pace_override" INTEGER,
+    "hr_zone_method" TEXT NOT NULL DEFAULT 'max_hr',
+    "max_heart_rate" INTEGER,
+    "lactate_threshold_heart_rate" INTEGER,
+    "custom_hr_zone_floors" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_settings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_settings_user_id_key" ON "user_settings"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "user_settings" ADD CONSTRAINT "user_settings_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
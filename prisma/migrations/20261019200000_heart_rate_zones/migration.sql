@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "user_running_fitness" ADD COLUMN     "estimated_max_hr" INTEGER,
+ADD COLUMN     "estimated_lthr" INTEGER,
+ADD COLUMN     "resting_hr" INTEGER,
+ADD COLUMN     "hr_zone_method" TEXT,
+ADD COLUMN     "hr_zones_json" JSONB;
+
+-- AlterTable
+ALTER TABLE "user_settings" ADD COLUMN     "resting_heart_rate" INTEGER;
@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "workouts" ADD COLUMN     "training_plan_id" INTEGER,
+ADD COLUMN     "plan_week" INTEGER;
+
+-- CreateTable
+CREATE TABLE "training_plans" (
+    "id" SERIAL NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "goal_race_name" TEXT,
+    "goal_race_date" DATE NOT NULL,
+    "goal_distance_meters" DOUBLE PRECISION NOT NULL,
+    "goal_time_seconds" INTEGER,
+    "available_days" INTEGER[],
+    "long_run_day" INTEGER,
+    "start_date" DATE NOT NULL,
+    "weeks_json" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "training_plans_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_workouts_training_plan" ON "workouts"("training_plan_id");
+
+-- CreateIndex
+CREATE INDEX "idx_training_plans_user_status" ON "training_plans"("user_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "workouts" ADD CONSTRAINT "workouts_training_plan_id_fkey" FOREIGN KEY ("training_plan_id") REFERENCES "training_plans"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "training_plans" ADD CONSTRAINT "training_plans_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
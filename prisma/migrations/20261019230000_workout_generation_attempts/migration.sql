@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "workouts" ADD COLUMN     "ai_provider" TEXT,
+ADD COLUMN     "generation_attempts" INTEGER;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "workout_versions" (
+    "id" SERIAL NOT NULL,
+    "workout_id" INTEGER NOT NULL,
+    "version" INTEGER NOT NULL,
+    "workout_json" JSONB NOT NULL,
+    "total_distance_km" DOUBLE PRECISION,
+    "estimated_duration_minutes" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "workout_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "workout_versions_workout_id_version_key" ON "workout_versions"("workout_id", "version");
+
+-- AddForeignKey
+ALTER TABLE "workout_versions" ADD CONSTRAINT "workout_versions_workout_id_fkey" FOREIGN KEY ("workout_id") REFERENCES "workouts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "activities" ADD COLUMN     "start_time_gmt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "idx_activities_user_start_gmt" ON "activities"("user_id", "start_time_gmt");
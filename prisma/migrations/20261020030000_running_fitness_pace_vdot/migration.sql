@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "user_running_fitness" ADD COLUMN     "pace_vdot" DOUBLE PRECISION;
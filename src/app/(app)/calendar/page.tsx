@@ -0,0 +1,48 @@
+import { redirect } from "next/navigation";
+import { getServerSession } from "next-auth";
+import { TrainingCalendar } from "@/components/calendar/training-calendar";
+import { authOptions } from "@/lib/auth";
+import { getCalendarData, resolveCalendarRange } from "@/server/workout-calendar";
+
+type CalendarPageProps = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+function firstParam(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+export default async function CalendarPage({ searchParams }: CalendarPageProps) {
+  const session = await getServerSession(authOptions);
+  const userId = Number(session?.user?.id);
+
+  if (!Number.isInteger(userId) || userId <= 0) {
+    redirect("/login");
+  }
+
+  const params = await searchParams;
+  const range = resolveCalendarRange(firstParam(params.view), firstParam(params.date));
+  const calendar = await getCalendarData(userId, range);
+
+  return (
+    <main className="mx-auto min-h-[calc(100vh-8rem)] w-full max-w-6xl px-4 py-8 sm:py-10">
+      <header className="mb-6 rounded-xl border border-border bg-card p-5 sm:p-6">
+        <h1 className="text-3xl font-semibold tracking-tight text-foreground">Calendar</h1>
+        <p className="mt-2 text-sm text-muted-foreground">
+          Planned workouts next to what you actually did, with planned and completed running
+          distance for every week.
+        </p>
+      </header>
+
+      <TrainingCalendar
+        view={range.view}
+        anchorDate={range.anchorDate}
+        today={new Date().toISOString().slice(0, 10)}
+        workouts={calendar.workouts}
+        unscheduledWorkouts={calendar.unscheduledWorkouts}
+        activities={calendar.activities}
+        weeks={calendar.weeks}
+      />
+    </main>
+  );
+}
@@ -3,18 +3,24 @@ import { getServerSession } from "next-auth";
 import { CreateWorkoutCard } from "@/components/dashboard/create-workout-card";
 import { FitnessProfileCard } from "@/components/dashboard/fitness-profile-card";
 import { HealthMetricsCard } from "@/components/dashboard/health-metrics-card";
+import { ImportActivityCard } from "@/components/dashboard/import-activity-card";
 import { RecentActivitiesTable } from "@/components/dashboard/recent-activities-table";
 import { SyncButton } from "@/components/dashboard/sync-button";
+import { SyncHistoryTable } from "@/components/dashboard/sync-history-table";
+import { TrainingLoadCard } from "@/components/dashboard/training-load-card";
 import { WorkoutHistoryTable } from "@/components/dashboard/workout-history-table";
 import type {
   ActivityRow,
   FitnessProfile,
   HealthReading,
+  SyncRunRow,
+  TrainingLoadRow,
   WorkoutRow,
 } from "@/components/dashboard/types";
 import { authOptions } from "@/lib/auth";
 import { formatDateTime } from "@/lib/utils";
 import { prisma } from "@/lib/prisma";
+import { parseHrZones } from "@/server/hr-zones";
 
 function toIsoDateOnly(value: Date): string {
   return value.toISOString().slice(0, 10);
@@ -28,87 +34,133 @@ export default async function DashboardPage() {
     redirect("/login");
   }
 
-  const [user, activities, latestHealth, fitness, workoutsRaw] = await Promise.all([
-    prisma.user.findUnique({
-      where: { id: userId },
-      select: {
-        email: true,
-        garminConnected: true,
-        lastSyncAt: true,
-      },
-    }),
-    prisma.activity.findMany({
-      where: { userId },
-      orderBy: [{ activityDate: "desc" }, { id: "desc" }],
-      take: 7,
-      select: {
-        id: true,
-        activityDate: true,
-        activityName: true,
-        activityType: true,
-        distanceMeters: true,
-        durationSeconds: true,
-        averagePaceSecondsPerKm: true,
-        averageHrBpm: true,
-        maxHrBpm: true,
-      },
-    }),
-    prisma.dailyHealthReading.findFirst({
-      where: { userId },
-      orderBy: { readingDate: "desc" },
-      select: {
-        readingDate: true,
-        sleepScore: true,
-        totalSleepSeconds: true,
-        sleepStress: true,
-        avgOvernightHrv: true,
-        hrvStatus: true,
-        hrv7dayAvg: true,
-        restingHr: true,
-        restingHr7dayAvg: true,
-        bodyBatteryStart: true,
-        bodyBatteryEnd: true,
-        dataSyncedAt: true,
-      },
-    }),
-    prisma.userRunningFitness.findUnique({
-      where: { userId },
-      select: {
-        predicted5kSeconds: true,
-        predicted10kSeconds: true,
-        predictedHalfSeconds: true,
-        predictedMarathonSeconds: true,
-        easyPaceLow: true,
-        easyPaceHigh: true,
-        tempoPace: true,
-        thresholdPace: true,
-        intervalPace: true,
-        repetitionPace: true,
-        weeklyVolumeAvgKm: true,
-        longestRunKm: true,
-        runningDistanceAvgKm: true,
-        racePredictionsLastUpdate: true,
-      },
-    }),
-    prisma.workout.findMany({
-      where: { userId },
-      orderBy: { createdAt: "desc" },
-      take: 50,
-      select: {
-        id: true,
-        workoutType: true,
-        title: true,
-        aiDescription: true,
-        workoutJson: true,
-        totalDistanceKm: true,
-        estimatedDurationMinutes: true,
-        status: true,
-        scheduledDate: true,
-        garminWorkoutId: true,
-        createdAt: true,
-      },
-    }),
-  ]);
+  const [user, activities, latestHealth, fitness, workoutsRaw, syncRuns, trainingLoads] =
+    await Promise.all([
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: {
+          email: true,
+          garminConnected: true,
+          lastSyncAt: true,
+        },
+      }),
+      prisma.activity.findMany({
+        where: { userId },
+        orderBy: [{ activityDate: "desc" }, { id: "desc" }],
+        take: 7,
+        select: {
+          id: true,
+          activityDate: true,
+          activityName: true,
+          activityType: true,
+          sportCategory: true,
+          source: true,
+          distanceMeters: true,
+          durationSeconds: true,
+          averagePaceSecondsPerKm: true,
+          averageHrBpm: true,
+          maxHrBpm: true,
+        },
+      }),
+      prisma.dailyHealthReading.findFirst({
+        where: { userId },
+        orderBy: { readingDate: "desc" },
+        select: {
+          readingDate: true,
+          sleepScore: true,
+          totalSleepSeconds: true,
+          sleepStress: true,
+          avgOvernightHrv: true,
+          hrvStatus: true,
+          hrv7dayAvg: true,
+          restingHr: true,
+          restingHr7dayAvg: true,
+          bodyBatteryStart: true,
+          bodyBatteryEnd: true,
+          dataSyncedAt: true,
+        },
+      }),
+      prisma.userRunningFitness.findUnique({
+        where: { userId },
+        select: {
+          predicted5kSeconds: true,
+          predicted10kSeconds: true,
+          predictedHalfSeconds: true,
+          predictedMarathonSeconds: true,
+          vo2Max: true,
+          vdotSource: true,
+          easyPaceLow: true,
+          easyPaceHigh: true,
+          tempoPace: true,
+          thresholdPace: true,
+          intervalPace: true,
+          repetitionPace: true,
+          weeklyVolumeAvgKm: true,
+          longestRunKm: true,
+          runningDistanceAvgKm: true,
+          weeklyTrainingMinutesAvg: true,
+          weeklyCrossTrainingMinutesAvg: true,
+          racePredictionsLastUpdate: true,
+          hrZoneMethod: true,
+          hrZonesJson: true,
+        },
+      }),
+      prisma.workout.findMany({
+        where: { userId },
+        orderBy: { createdAt: "desc" },
+        take: 50,
+        select: {
+          id: true,
+          workoutType: true,
+          title: true,
+          aiDescription: true,
+          workoutJson: true,
+          totalDistanceKm: true,
+          estimatedDurationMinutes: true,
+          status: true,
+          scheduledDate: true,
+          garminWorkoutId: true,
+          createdAt: true,
+        },
+      }),
+      prisma.syncRun.findMany({
+        where: { userId },
+        orderBy: [{ startedAt: "desc" }, { id: "desc" }],
+        take: 10,
+        select: {
+          id: true,
+          kind: true,
+          trigger: true,
+          status: true,
+          startDate: true,
+          endDate: true,
+          startedAt: true,
+          durationMs: true,
+          activitiesSynced: true,
+          healthDaysSynced: true,
+          healthDaysExisting: true,
+          healthDaysSkipped: true,
+          fitnessSynced: true,
+          stageResultsJson: true,
+          errorMessage: true,
+        },
+      }),
+      prisma.dailyTrainingLoad.findMany({
+        where: { userId },
+        orderBy: { loadDate: "desc" },
+        take: 42,
+        select: {
+          loadDate: true,
+          load: true,
+          acuteLoad: true,
+          chronicLoad: true,
+          acwr: true,
+          fitness: true,
+          fatigue: true,
+          form: true,
+        },
+      }),
+    ]);
 
   if (!user) {
     redirect("/login");
@@ -120,8 +172,14 @@ export default async function DashboardPage() {
   }));
 
   const activitiesData: ActivityRow[] = activities;
-  const fitnessData: FitnessProfile | null = fitness;
+  let fitnessData: FitnessProfile | null = null;
+  if (fitness) {
+    const { hrZonesJson, ...profile } = fitness;
+    fitnessData = { ...profile, hrZones: parseHrZones(hrZonesJson) };
+  }
   const latestHealthData: HealthReading | null = latestHealth;
+  const syncRunsData: SyncRunRow[] = syncRuns;
+  const trainingLoadData: TrainingLoadRow[] = [...trainingLoads].reverse();
 
   const initialHealthDate = latestHealthData
     ? toIsoDateOnly(latestHealthData.readingDate)
@@ -161,8 +219,11 @@ export default async function DashboardPage() {
       </section>
 
       <section className="mt-6 space-y-6">
+        <TrainingLoadCard loads={trainingLoadData} />
         <RecentActivitiesTable activities={activitiesData} />
+        <ImportActivityCard />
         <WorkoutHistoryTable workouts={workouts} />
+        <SyncHistoryTable runs={syncRunsData} />
       </section>
     </main>
   );
@@ -0,0 +1,71 @@
+import { redirect } from "next/navigation";
+import { getServerSession } from "next-auth";
+import { PlanForm } from "@/components/plan/plan-form";
+import { PlanWeekList } from "@/components/plan/plan-week-list";
+import type { TrainingPlanItem } from "@/components/plan/types";
+import { authOptions } from "@/lib/auth";
+import { formatDate, formatDistanceMeters, formatDurationSeconds } from "@/lib/utils";
+import { getActiveTrainingPlan } from "@/server/training-plans";
+
+export default async function PlanPage() {
+  const session = await getServerSession(authOptions);
+  const userId = Number(session?.user?.id);
+
+  if (!Number.isInteger(userId) || userId <= 0) {
+    redirect("/login");
+  }
+
+  const planRaw = await getActiveTrainingPlan(userId);
+
+  const plan: TrainingPlanItem | null = planRaw
+    ? {
+        id: planRaw.id,
+        goalRaceName: planRaw.goalRaceName,
+        goalRaceDate: planRaw.goalRaceDate.toISOString().slice(0, 10),
+        goalDistanceMeters: planRaw.goalDistanceMeters,
+        goalTimeSeconds: planRaw.goalTimeSeconds,
+        availableDays: planRaw.availableDays,
+        longRunDay: planRaw.longRunDay,
+        weeks: planRaw.weeks,
+        workouts: planRaw.workouts.map((workout) => ({
+          ...workout,
+          scheduledDate: workout.scheduledDate?.toISOString().slice(0, 10) ?? null,
+        })),
+      }
+    : null;
+
+  return (
+    <main className="mx-auto min-h-[calc(100vh-8rem)] w-full max-w-6xl px-4 py-8 sm:py-10">
+      <header className="mb-6 rounded-xl border border-border bg-card p-5 sm:p-6">
+        <h1 className="text-3xl font-semibold tracking-tight text-foreground">Training Plan</h1>
+        <p className="mt-2 text-sm text-muted-foreground">
+          A periodized plan toward your goal race, built week by week from your paces and recent
+          training. Regenerate from any week when training goes off script.
+        </p>
+        {plan && (
+          <p className="mt-2 text-sm text-muted-foreground">
+            Goal:{" "}
+            <span className="font-medium text-foreground">
+              {plan.goalRaceName ?? formatDistanceMeters(plan.goalDistanceMeters)}
+            </span>{" "}
+            on {formatDate(plan.goalRaceDate)}
+            {plan.goalTimeSeconds !== null &&
+              ` in ${formatDurationSeconds(plan.goalTimeSeconds)}`}
+            .
+          </p>
+        )}
+      </header>
+
+      <div className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_minmax(0,2fr)]">
+        <PlanForm hasActivePlan={plan !== null} />
+        {plan ? (
+          <PlanWeekList plan={plan} today={new Date().toISOString().slice(0, 10)} />
+        ) : (
+          <p className="rounded-xl border border-border bg-card p-5 text-sm text-muted-foreground">
+            No active training plan yet.
+          </p>
+        )}
+      </div>
+    </main>
+  );
+}
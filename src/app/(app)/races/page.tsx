@@ -0,0 +1,75 @@
+import { redirect } from "next/navigation";
+import { getServerSession } from "next-auth";
+import { RaceResultsManager } from "@/components/races/race-results-manager";
+import type { RaceResultItem } from "@/components/races/types";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { formatPaceSecondsPerKm } from "@/lib/utils";
+
+export default async function RacesPage() {
+  const session = await getServerSession(authOptions);
+  const userId = Number(session?.user?.id);
+
+  if (!Number.isInteger(userId) || userId <= 0) {
+    redirect("/login");
+  }
+
+  const [raceResultsRaw, fitness] = await Promise.all([
+    prisma.raceResult.findMany({
+      where: { userId },
+      orderBy: [{ raceDate: "desc" }, { id: "desc" }],
+      select: {
+        id: true,
+        raceName: true,
+        raceDate: true,
+        distanceMeters: true,
+        timeSeconds: true,
+        conditions: true,
+        courseProfile: true,
+        notes: true,
+        vdot: true,
+      },
+    }),
+    prisma.userRunningFitness.findUnique({
+      where: { userId },
+      select: {
+        vo2Max: true,
+        vdotSource: true,
+        thresholdPace: true,
+      },
+    }),
+  ]);
+
+  const raceResults: RaceResultItem[] = raceResultsRaw.map((raceResult) => ({
+    ...raceResult,
+    raceDate: raceResult.raceDate.toISOString().slice(0, 10),
+  }));
+
+  const paceSourceLabel =
+    fitness?.vdotSource === "race_result"
+      ? "your best race in the last 90 days"
+      : fitness?.vdotSource === "predictions"
+        ? "Garmin race predictions"
+        : null;
+
+  return (
+    <main className="mx-auto min-h-[calc(100vh-8rem)] w-full max-w-6xl px-4 py-8 sm:py-10">
+      <header className="mb-6 rounded-xl border border-border bg-card p-5 sm:p-6">
+        <h1 className="text-3xl font-semibold tracking-tight text-foreground">Race Results</h1>
+        <p className="mt-2 text-sm text-muted-foreground">
+          Log real race performances. A race from the last 90 days replaces Garmin&apos;s
+          predictions when training paces are calculated.
+        </p>
+        {fitness?.vo2Max && paceSourceLabel && (
+          <p className="mt-2 text-sm text-muted-foreground">
+            Current VDOT{" "}
+            <span className="font-medium text-foreground">{fitness.vo2Max}</span> from{" "}
+            {paceSourceLabel} (threshold {formatPaceSecondsPerKm(fitness.thresholdPace)}).
+          </p>
+        )}
+      </header>
+
+      <RaceResultsManager raceResults={raceResults} />
+    </main>
+  );
+}
@@ -0,0 +1,63 @@
+import { redirect } from "next/navigation";
+import { getServerSession } from "next-auth";
+import { SettingsForm } from "@/components/settings/settings-form";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { isHrZoneMethod, parseHrZones } from "@/server/hr-zones";
+import { getUserSettings } from "@/server/user-settings";
+
+export default async function SettingsPage() {
+  const session = await getServerSession(authOptions);
+  const userId = Number(session?.user?.id);
+
+  if (!Number.isInteger(userId) || userId <= 0) {
+    redirect("/login");
+  }
+
+  const [settings, fitness] = await Promise.all([
+    getUserSettings(userId),
+    prisma.userRunningFitness.findUnique({
+      where: { userId },
+      select: {
+        easyPaceLow: true,
+        easyPaceHigh: true,
+        longRunPace: true,
+        tempoPace: true,
+        thresholdPace: true,
+        intervalPace: true,
+        repetitionPace: true,
+        estimatedMaxHr: true,
+        estimatedLthr: true,
+        restingHr: true,
+        hrZoneMethod: true,
+        hrZonesJson: true,
+      },
+    }),
+  ]);
+
+  const hrZoneMethod =
+    fitness?.hrZoneMethod && isHrZoneMethod(fitness.hrZoneMethod) ? fitness.hrZoneMethod : null;
+
+  return (
+    <main className="mx-auto min-h-[calc(100vh-8rem)] w-full max-w-6xl px-4 py-8 sm:py-10">
+      <header className="mb-6 rounded-xl border border-border bg-card p-5 sm:p-6">
+        <h1 className="text-3xl font-semibold tracking-tight text-foreground">Settings</h1>
+        <p className="mt-2 text-sm text-muted-foreground">
+          Override calculated training paces and choose how heart rate zones are calculated.
+        </p>
+      </header>
+
+      <SettingsForm
+        initialSettings={settings}
+        initialHrZoneMethod={hrZoneMethod}
+        initialHrZones={parseHrZones(fitness?.hrZonesJson)}
+        currentPaces={fitness}
+        estimates={{
+          maxHeartRate: fitness?.estimatedMaxHr ?? null,
+          restingHeartRate: fitness?.restingHr ?? null,
+          lactateThresholdHeartRate: fitness?.estimatedLthr ?? null,
+        }}
+      />
+    </main>
+  );
+}
@@ -0,0 +1,42 @@
+import { redirect } from "next/navigation";
+import { getServerSession } from "next-auth";
+import { TeamManager } from "@/components/templates/team-manager";
+import { WorkoutTemplateLibrary } from "@/components/templates/workout-template-library";
+import type { TeamItem, WorkoutTemplateItem } from "@/components/templates/types";
+import { authOptions } from "@/lib/auth";
+import { listTeams } from "@/server/teams";
+import { listWorkoutTemplates } from "@/server/workout-templates";
+
+export default async function TemplatesPage() {
+  const session = await getServerSession(authOptions);
+  const userId = Number(session?.user?.id);
+
+  if (!Number.isInteger(userId) || userId <= 0) {
+    redirect("/login");
+  }
+
+  const templates: WorkoutTemplateItem[] = (await listWorkoutTemplates(userId)).map(
+    (template) => ({
+      ...template,
+      updatedAt: template.updatedAt.toISOString().slice(0, 10),
+    }),
+  );
+  const teams: TeamItem[] = await listTeams(userId);
+
+  return (
+    <main className="mx-auto min-h-[calc(100vh-8rem)] w-full max-w-6xl px-4 py-8 sm:py-10">
+      <header className="mb-6 rounded-xl border border-border bg-card p-5 sm:p-6">
+        <h1 className="text-3xl font-semibold tracking-tight text-foreground">Workout Templates</h1>
+        <p className="mt-2 text-sm text-muted-foreground">
+          Save sessions you run again and again with paces relative to your zones, such as
+          &quot;@T&quot; or &quot;@E+15&quot;. Using a template fills in your current paces.
+        </p>
+      </header>
+
+      <div className="space-y-6">
+        <WorkoutTemplateLibrary templates={templates} teams={teams} />
+        <TeamManager teams={teams} currentUserId={userId} />
+      </div>
+    </main>
+  );
+}
@@ -3,11 +3,18 @@ import { getServerSession } from "next-auth";
 import { WorkoutHistoryTable } from "@/components/dashboard/workout-history-table";
 import type { WorkoutRow } from "@/components/dashboard/types";
 import { WorkoutActions } from "@/components/workout/workout-actions";
-import { WorkoutForm } from "@/components/workout/workout-form";
+import { WorkoutFormPanel } from "@/components/workout/workout-form-panel";
 import { WorkoutPreview } from "@/components/workout/workout-preview";
-import type { WorkoutPreviewItem } from "@/components/workout/types";
+import { WorkoutStepEditor } from "@/components/workout/workout-step-editor";
+import type {
+  PaceZoneItem,
+  WorkoutPreviewItem,
+  WorkoutVersionItem,
+} from "@/components/workout/types";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { parseHrZones } from "@/server/hr-zones";
+import { listWorkoutVersions } from "@/server/workout-editor";
 
 export default async function WorkoutPage() {
   const session = await getServerSession(authOptions);
@@ -17,24 +24,48 @@ export default async function WorkoutPage() {
     redirect("/login");
   }
 
-  const workoutsRaw = await prisma.workout.findMany({
-    where: { userId },
-    orderBy: { createdAt: "desc" },
-    take: 50,
-    select: {
-      id: true,
-      workoutType: true,
-      title: true,
-      aiDescription: true,
-      workoutJson: true,
-      totalDistanceKm: true,
-      estimatedDurationMinutes: true,
-      status: true,
-      scheduledDate: true,
-      garminWorkoutId: true,
-      createdAt: true,
-    },
-  });
+  const [workoutsRaw, fitness] = await Promise.all([
+    prisma.workout.findMany({
+      where: { userId },
+      orderBy: { createdAt: "desc" },
+      take: 50,
+      select: {
+        id: true,
+        workoutType: true,
+        title: true,
+        aiDescription: true,
+        workoutJson: true,
+        totalDistanceKm: true,
+        estimatedDurationMinutes: true,
+        status: true,
+        scheduledDate: true,
+        garminWorkoutId: true,
+        createdAt: true,
+      },
+    }),
+    prisma.userRunningFitness.findUnique({
+      where: { userId },
+      select: {
+        easyPaceLow: true,
+        easyPaceHigh: true,
+        tempoPace: true,
+        thresholdPace: true,
+        intervalPace: true,
+        repetitionPace: true,
+        hrZonesJson: true,
+      },
+    }),
+  ]);
+
+  // Stored paces already include any pinned overrides.
+  const paceZones: PaceZoneItem[] = [
+    { name: "Easy", pace: fitness?.easyPaceLow ?? null },
+    { name: "Easy", pace: fitness?.easyPaceHigh ?? null },
+    { name: "Tempo", pace: fitness?.tempoPace ?? null },
+    { name: "Threshold", pace: fitness?.thresholdPace ?? null },
+    { name: "Interval", pace: fitness?.intervalPace ?? null },
+    { name: "Repetition", pace: fitness?.repetitionPace ?? null },
+  ].flatMap(({ name, pace }) => (pace ? [{ name, paceSecondsPerKm: pace }] : []));
 
   const previewCandidate =
     workoutsRaw.find((workout) => workout.status.toLowerCase() === "generated") ??
@@ -55,6 +86,17 @@ export default async function WorkoutPage() {
       }
     : null;
 
+  // Only workouts that have not been uploaded can still be edited.
+  const isEditable = previewWorkout?.status.toLowerCase() === "generated";
+  const versions: WorkoutVersionItem[] =
+    previewWorkout && isEditable
+      ? (await listWorkoutVersions(userId, previewWorkout.id)).map((version) => ({
+          ...version,
+          createdAt: version.createdAt.toISOString(),
+        }))
+      : [];
+  const hrZones = parseHrZones(fitness?.hrZonesJson);
+
   const workoutHistory: WorkoutRow[] = workoutsRaw.map((workout) => ({
     ...workout,
     garminWorkoutId: workout.garminWorkoutId ? workout.garminWorkoutId.toString() : null,
@@ -65,15 +107,29 @@ export default async function WorkoutPage() {
       <header className="mb-6 rounded-xl border border-border bg-card p-5 sm:p-6">
         <h1 className="text-3xl font-semibold tracking-tight text-foreground">Workout Builder</h1>
         <p className="mt-2 text-sm text-muted-foreground">
-          Generate AI workouts from your synced Garmin fitness profile, then accept to upload
-          directly to Garmin Connect.
+          Generate AI workouts from your synced Garmin fitness profile or write the steps yourself,
+          then accept to upload directly to Garmin Connect.
         </p>
       </header>
 
       <section className="grid gap-6 lg:grid-cols-2">
-        <WorkoutForm />
+        <WorkoutFormPanel />
         <WorkoutPreview
           workout={previewWorkout}
+          paceZones={paceZones}
+          hrZones={hrZones}
+          steps={
+            previewWorkout && isEditable ? (
+              <WorkoutStepEditor
+                key={previewWorkout.id}
+                workoutId={previewWorkout.id}
+                workoutJson={previewWorkout.workoutJson}
+                versions={versions}
+                paceZones={paceZones}
+                hrZones={hrZones}
+              />
+            ) : undefined
+          }
           actions={
             previewWorkout ? (
               <WorkoutActions workoutId={previewWorkout.id} status={previewWorkout.status} />
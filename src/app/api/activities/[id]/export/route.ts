@@ -0,0 +1,78 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import { exportActivityFile, isExportFormat } from "@/server/activity-export";
+
+function getUserId(
+  session: { user?: { id?: string | null } } | null,
+): number | null {
+  const userIdRaw = session?.user?.id;
+  const userId = Number(userIdRaw);
+
+  if (!Number.isInteger(userId) || userId <= 0) {
+    return null;
+  }
+
+  return userId;
+}
+
+function parseActivityId(url: string): number | null {
+  const match = new URL(url).pathname.match(/^\/api\/activities\/(\d+)\/export\/?$/);
+  if (!match) {
+    return null;
+  }
+
+  const activityId = Number(match[1]);
+  if (!Number.isInteger(activityId) || activityId <= 0) {
+    return null;
+  }
+
+  return activityId;
+}
+
+export async function GET(request: Request) {
+  const session = (await getServerSession(authOptions)) as {
+    user?: { id?: string | null };
+  } | null;
+
+  const userId = getUserId(session);
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: "Unauthorized." },
+      { status: 401 },
+    );
+  }
+
+  const activityId = parseActivityId(request.url);
+  if (!activityId) {
+    return NextResponse.json(
+      { success: false, message: "Invalid activity id." },
+      { status: 400 },
+    );
+  }
+
+  const format = new URL(request.url).searchParams.get("format")?.trim().toLowerCase() || "gpx";
+  if (!isExportFormat(format)) {
+    return NextResponse.json(
+      { success: false, message: "format must be 'gpx' or 'tcx'." },
+      { status: 400 },
+    );
+  }
+
+  const result = await exportActivityFile(userId, activityId, format);
+
+  if (!result.success) {
+    return NextResponse.json(
+      { success: false, message: result.message },
+      { status: result.status },
+    );
+  }
+
+  return new Response(result.body, {
+    status: 200,
+    headers: {
+      "Content-Type": `${result.contentType}; charset=utf-8`,
+      "Content-Disposition": `attachment; filename="${result.fileName}"`,
+    },
+  });
+}
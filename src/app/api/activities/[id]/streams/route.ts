@@ -0,0 +1,122 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import {
+  type DownsampleMode,
+  getActivityStreams,
+  isStreamChannel,
+  type StreamChannel,
+} from "@/server/activity-streams";
+
+const MAX_POINTS_LIMIT = 10_000;
+
+function getUserId(
+  session: { user?: { id?: string | null } } | null,
+): number | null {
+  const userIdRaw = session?.user?.id;
+  const userId = Number(userIdRaw);
+
+  if (!Number.isInteger(userId) || userId <= 0) {
+    return null;
+  }
+
+  return userId;
+}
+
+function parseActivityId(url: string): number | null {
+  const match = new URL(url).pathname.match(/^\/api\/activities\/(\d+)\/streams\/?$/);
+  if (!match) {
+    return null;
+  }
+
+  const activityId = Number(match[1]);
+  if (!Number.isInteger(activityId) || activityId <= 0) {
+    return null;
+  }
+
+  return activityId;
+}
+
+export async function GET(request: Request) {
+  const session = (await getServerSession(authOptions)) as {
+    user?: { id?: string | null };
+  } | null;
+
+  const userId = getUserId(session);
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: "Unauthorized." },
+      { status: 401 },
+    );
+  }
+
+  const activityId = parseActivityId(request.url);
+  if (!activityId) {
+    return NextResponse.json(
+      { success: false, message: "Invalid activity id." },
+      { status: 400 },
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+
+  let channels: StreamChannel[] | undefined;
+  const channelsParam = searchParams.get("channels")?.trim();
+  if (channelsParam) {
+    const requested = channelsParam.split(",").map((value) => value.trim());
+    const unknown = requested.filter((value) => !isStreamChannel(value));
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        { success: false, message: `Unknown stream channel(s): ${unknown.join(", ")}.` },
+        { status: 400 },
+      );
+    }
+    channels = requested as StreamChannel[];
+  }
+
+  let maxPoints: number | undefined;
+  const maxPointsParam = searchParams.get("maxPoints")?.trim();
+  if (maxPointsParam) {
+    const parsed = Number(maxPointsParam);
+    if (!Number.isInteger(parsed) || parsed <= 0 || parsed > MAX_POINTS_LIMIT) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: `maxPoints must be an integer between 1 and ${MAX_POINTS_LIMIT}.`,
+        },
+        { status: 400 },
+      );
+    }
+    maxPoints = parsed;
+  }
+
+  const modeParam = searchParams.get("mode")?.trim() || "average";
+  if (modeParam !== "average" && modeParam !== "sample") {
+    return NextResponse.json(
+      { success: false, message: "mode must be 'average' or 'sample'." },
+      { status: 400 },
+    );
+  }
+
+  const result = await getActivityStreams(userId, activityId, {
+    channels,
+    maxPoints,
+    mode: modeParam as DownsampleMode,
+  });
+
+  if (!result.success) {
+    return NextResponse.json(
+      { success: false, message: result.message },
+      { status: result.status },
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    activityId: result.activityId,
+    source: result.source,
+    sampleCount: result.sampleCount,
+    pointCount: result.pointCount,
+    streams: result.streams,
+  });
+}
@@ -0,0 +1,95 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import { importActivityFile, isValidTimeZone } from "@/server/activity-import";
+
+const MAX_IMPORT_BYTES = 20 * 1024 * 1024;
+
+function getUserId(
+  session: { user?: { id?: string | null } } | null,
+): number | null {
+  const userIdRaw = session?.user?.id;
+  const userId = Number(userIdRaw);
+
+  if (!Number.isInteger(userId) || userId <= 0) {
+    return null;
+  }
+
+  return userId;
+}
+
+export async function POST(request: Request) {
+  const session = (await getServerSession(authOptions)) as {
+    user?: { id?: string | null };
+  } | null;
+
+  const userId = getUserId(session);
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: "Unauthorized." },
+      { status: 401 },
+    );
+  }
+
+  let file: FormDataEntryValue | null;
+  let timeZone: FormDataEntryValue | null;
+  try {
+    const formData = await request.formData();
+    file = formData.get("file");
+    timeZone = formData.get("timeZone");
+  } catch {
+    return NextResponse.json(
+      { success: false, message: "Expected a multipart form with a 'file' field." },
+      { status: 400 },
+    );
+  }
+
+  if (!(file instanceof File) || file.size === 0) {
+    return NextResponse.json(
+      { success: false, message: "No file uploaded." },
+      { status: 400 },
+    );
+  }
+
+  if (file.size > MAX_IMPORT_BYTES) {
+    return NextResponse.json(
+      { success: false, message: "File is too large (max 20 MB)." },
+      { status: 413 },
+    );
+  }
+
+  if (timeZone !== null && (typeof timeZone !== "string" || !isValidTimeZone(timeZone))) {
+    return NextResponse.json(
+      { success: false, message: "timeZone must be an IANA time zone such as Europe/Berlin." },
+      { status: 400 },
+    );
+  }
+
+  const result = await importActivityFile(
+    userId,
+    file.name,
+    new Uint8Array(await file.arrayBuffer()),
+    timeZone,
+  );
+
+  if (!result.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: result.message,
+        duplicateOfActivityId: result.duplicateOfActivityId,
+      },
+      { status: result.status },
+    );
+  }
+
+  return NextResponse.json(
+    {
+      success: true,
+      message: [result.message, result.warning].filter(Boolean).join(" "),
+      activityId: result.activityId,
+      warning: result.warning,
+    },
+    { status: 201 },
+  );
+}
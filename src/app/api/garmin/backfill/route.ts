@@ -0,0 +1,64 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { enqueueBackfillJob, wakeSyncWorker } from "@/server/sync-jobs";
+
+function getUserId(
+  session: { user?: { id?: string | null } } | null,
+): number | null {
+  const userIdRaw = session?.user?.id;
+  const userId = Number(userIdRaw);
+
+  if (!Number.isInteger(userId) || userId <= 0) {
+    return null;
+  }
+
+  return userId;
+}
+
+export async function POST() {
+  const session = (await getServerSession(authOptions)) as {
+    user?: { id?: string | null };
+  } | null;
+  const userId = getUserId(session);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: "Unauthorized." },
+      { status: 401 },
+    );
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { garminConnected: true },
+  });
+
+  if (!user?.garminConnected) {
+    return NextResponse.json(
+      { success: false, message: "Garmin not connected." },
+      { status: 400 },
+    );
+  }
+
+  const { job, reused, resumed } = await enqueueBackfillJob(userId);
+  wakeSyncWorker();
+
+  let message = "Garmin history backfill queued.";
+  if (reused) {
+    message = "A Garmin sync is already in progress.";
+  } else if (resumed) {
+    message = "Resuming Garmin history backfill where it stopped.";
+  }
+
+  return NextResponse.json(
+    {
+      success: true,
+      message,
+      jobId: job.id,
+      job,
+    },
+    { status: 202 },
+  );
+}
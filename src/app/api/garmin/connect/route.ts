@@ -2,11 +2,13 @@ import { getServerSession } from "next-auth";
 import { NextResponse } from "next/server";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { linkDataProvider } from "@/server/data-providers";
 import { createGarminConnection } from "@/server/garmin";
 
 type ConnectBody = {
   email?: unknown;
   password?: unknown;
+  storePassword?: unknown;
 };
 
 function getUserId(
@@ -47,6 +49,7 @@ export async function POST(request: Request) {
 
   const email = typeof body.email === "string" ? body.email.trim() : "";
   const password = typeof body.password === "string" ? body.password : "";
+  const storePassword = typeof body.storePassword === "boolean" ? body.storePassword : true;
 
   if (!email || !password) {
     return NextResponse.json(
@@ -55,7 +58,7 @@ export async function POST(request: Request) {
     );
   }
 
-  const connectResult = await createGarminConnection(email, password);
+  const connectResult = await createGarminConnection(email, password, { storePassword });
   if (!connectResult.success) {
     return NextResponse.json(
       { success: false, message: connectResult.message },
@@ -70,6 +73,7 @@ export async function POST(request: Request) {
       garminOauthToken: new Uint8Array(connectResult.encryptedToken),
     },
   });
+  await linkDataProvider(userId, "garmin");
 
   return NextResponse.json({
     success: true,
@@ -2,6 +2,7 @@ import { getServerSession } from "next-auth";
 import { NextResponse } from "next/server";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { unlinkDataProvider } from "@/server/data-providers";
 
 function getUserId(
   session: { user?: { id?: string | null } } | null,
@@ -36,6 +37,7 @@ export async function POST() {
       garminOauthToken: null,
     },
   });
+  await unlinkDataProvider(userId, "garmin");
 
   return NextResponse.json({
     success: true,
@@ -0,0 +1,66 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import { getSyncJobForUser } from "@/server/sync-jobs";
+
+function getUserId(
+  session: { user?: { id?: string | null } } | null,
+): number | null {
+  const userIdRaw = session?.user?.id;
+  const userId = Number(userIdRaw);
+
+  if (!Number.isInteger(userId) || userId <= 0) {
+    return null;
+  }
+
+  return userId;
+}
+
+function parseJobId(url: string): number | null {
+  const match = new URL(url).pathname.match(/^\/api\/garmin\/sync\/(\d+)\/?$/);
+  if (!match) {
+    return null;
+  }
+
+  const jobId = Number(match[1]);
+  if (!Number.isInteger(jobId) || jobId <= 0) {
+    return null;
+  }
+
+  return jobId;
+}
+
+export async function GET(request: Request) {
+  const session = (await getServerSession(authOptions)) as {
+    user?: { id?: string | null };
+  } | null;
+
+  const userId = getUserId(session);
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: "Unauthorized." },
+      { status: 401 },
+    );
+  }
+
+  const jobId = parseJobId(request.url);
+  if (!jobId) {
+    return NextResponse.json(
+      { success: false, message: "Invalid sync job id." },
+      { status: 400 },
+    );
+  }
+
+  const job = await getSyncJobForUser(userId, jobId);
+  if (!job) {
+    return NextResponse.json(
+      { success: false, message: "Sync job not found." },
+      { status: 404 },
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    job,
+  });
+}
@@ -2,12 +2,8 @@ import { getServerSession } from "next-auth";
 import { NextResponse } from "next/server";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
-import {
-  createSyncContext,
-  syncDailyHealthData,
-  syncUserActivities,
-  syncUserRunningFitness,
-} from "@/server/sync";
+import { resolveIncrementalSyncRanges } from "@/server/sync";
+import { enqueueSyncJob, wakeSyncWorker } from "@/server/sync-jobs";
 
 type SyncBody = {
   startDate?: unknown;
@@ -74,18 +70,26 @@ export async function POST(request: Request) {
     );
   }
 
+  const hasStartDate = typeof body.startDate === "string" && body.startDate.trim() !== "";
+  const hasEndDate = typeof body.endDate === "string" && body.endDate.trim() !== "";
+
   const today = new Date();
   const defaultEndDate = formatDate(today);
   const defaultStartDate = formatDate(new Date(today.getTime() - 30 * 86400000));
 
-  const startDate =
-    typeof body.startDate === "string" && body.startDate.trim() !== ""
-      ? body.startDate
-      : defaultStartDate;
-  const endDate =
-    typeof body.endDate === "string" && body.endDate.trim() !== ""
-      ? body.endDate
-      : defaultEndDate;
+  // Without an explicit range the sync only covers what changed since the last one.
+  const isIncremental = !hasStartDate && !hasEndDate;
+
+  let startDate = hasStartDate ? (body.startDate as string) : defaultStartDate;
+  const endDate = hasEndDate ? (body.endDate as string) : defaultEndDate;
+
+  if (isIncremental) {
+    const ranges = await resolveIncrementalSyncRanges(userId, endDate);
+    startDate =
+      ranges.activities.startDate < ranges.health.startDate
+        ? ranges.activities.startDate
+        : ranges.health.startDate;
+  }
 
   let parsedStart: Date;
   let parsedEnd: Date;
@@ -112,51 +116,30 @@ export async function POST(request: Request) {
     );
   }
 
-  const syncContextResult = await createSyncContext(userId);
-  if (!syncContextResult.success) {
-    return NextResponse.json(
-      {
-        success: false,
-        message: syncContextResult.message,
-      },
-      { status: syncContextResult.status ?? 400 },
-    );
-  }
-
-  const [activityResult, healthResult, fitnessResult] = await Promise.all([
-    syncUserActivities(userId, startDate, endDate, syncContextResult.context),
-    syncDailyHealthData(userId, startDate, endDate, syncContextResult.context),
-    syncUserRunningFitness(userId, syncContextResult.context),
-  ]);
-
-  const hasFailure =
-    !activityResult.success || !healthResult.success || !fitnessResult.success;
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { garminConnected: true },
+  });
 
-  if (hasFailure) {
+  if (!user?.garminConnected) {
     return NextResponse.json(
-      {
-        success: false,
-        message: "Garmin sync failed.",
-        details: {
-          activities: activityResult,
-          health: healthResult,
-          fitness: fitnessResult,
-        },
-      },
-      { status: 500 },
+      { success: false, message: "Garmin not connected." },
+      { status: 400 },
     );
   }
 
-  await prisma.user.update({
-    where: { id: userId },
-    data: { lastSyncAt: new Date() },
-  });
-
-  return NextResponse.json({
-    success: true,
-    message: "Garmin sync complete.",
-    activitiesSynced: activityResult.synced,
-    healthDaysSynced: healthResult.synced,
-    fitnessSynced: fitnessResult.synced,
+  const { job, reused } = await enqueueSyncJob(userId, parsedStart, parsedEnd, {
+    kind: isIncremental ? "incremental" : "sync",
   });
+  wakeSyncWorker();
+
+  return NextResponse.json(
+    {
+      success: true,
+      message: reused ? "A Garmin sync is already in progress." : "Garmin sync queued.",
+      jobId: job.id,
+      job,
+    },
+    { status: 202 },
+  );
 }
@@ -0,0 +1,121 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import { regenerateTrainingPlan } from "@/server/training-plans";
+
+type RegeneratePlanBody = {
+  fromWeek?: unknown;
+};
+
+function getUserId(
+  session: { user?: { id?: string | null } } | null,
+): number | null {
+  const userIdRaw = session?.user?.id;
+  const userId = Number(userIdRaw);
+
+  if (!Number.isInteger(userId) || userId <= 0) {
+    return null;
+  }
+
+  return userId;
+}
+
+function parsePlanId(url: string): number | null {
+  const match = new URL(url).pathname.match(/^\/api\/plans\/(\d+)\/regenerate\/?$/);
+  if (!match) {
+    return null;
+  }
+
+  const planId = Number(match[1]);
+  if (!Number.isInteger(planId) || planId <= 0) {
+    return null;
+  }
+
+  return planId;
+}
+
+function getErrorStatus(errorMessage: string): number {
+  const normalized = errorMessage.toLowerCase();
+
+  if (normalized.includes("fitness profile") || normalized.includes("sync garmin")) {
+    return 400;
+  }
+
+  // The provider answered, but not with sessions that could be used.
+  if (normalized.includes("gave up after")) {
+    return 502;
+  }
+
+  if (normalized.includes("rate limit")) {
+    return 503;
+  }
+
+  if (normalized.includes("timed out")) {
+    return 504;
+  }
+
+  return 500;
+}
+
+export async function POST(request: Request) {
+  const session = (await getServerSession(authOptions)) as {
+    user?: { id?: string | null };
+  } | null;
+
+  const userId = getUserId(session);
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: "Unauthorized." },
+      { status: 401 },
+    );
+  }
+
+  const planId = parsePlanId(request.url);
+  if (!planId) {
+    return NextResponse.json(
+      { success: false, message: "Invalid training plan id." },
+      { status: 400 },
+    );
+  }
+
+  let body: RegeneratePlanBody;
+  try {
+    body = (await request.json()) as RegeneratePlanBody;
+  } catch {
+    return NextResponse.json(
+      { success: false, message: "Invalid request payload." },
+      { status: 400 },
+    );
+  }
+
+  if (typeof body.fromWeek !== "number" || !Number.isInteger(body.fromWeek)) {
+    return NextResponse.json(
+      { success: false, message: "fromWeek must be a whole week number." },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const result = await regenerateTrainingPlan(userId, planId, body.fromWeek);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: result.message },
+        { status: result.status },
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      planId: result.planId,
+      workoutCount: result.workoutCount,
+      message: `Regenerated ${result.workoutCount} workouts from week ${body.fromWeek}.`,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Training plan generation failed.";
+
+    return NextResponse.json(
+      { success: false, message },
+      { status: getErrorStatus(message) },
+    );
+  }
+}
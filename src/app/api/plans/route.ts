@@ -0,0 +1,121 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import {
+  createTrainingPlan,
+  getActiveTrainingPlan,
+  validateTrainingPlanInput,
+} from "@/server/training-plans";
+
+function getUserId(
+  session: { user?: { id?: string | null } } | null,
+): number | null {
+  const userIdRaw = session?.user?.id;
+  const userId = Number(userIdRaw);
+
+  if (!Number.isInteger(userId) || userId <= 0) {
+    return null;
+  }
+
+  return userId;
+}
+
+function getErrorStatus(errorMessage: string): number {
+  const normalized = errorMessage.toLowerCase();
+
+  if (normalized.includes("fitness profile") || normalized.includes("sync garmin")) {
+    return 400;
+  }
+
+  // The provider answered, but not with sessions that could be used.
+  if (normalized.includes("gave up after")) {
+    return 502;
+  }
+
+  if (normalized.includes("rate limit")) {
+    return 503;
+  }
+
+  if (normalized.includes("timed out")) {
+    return 504;
+  }
+
+  return 500;
+}
+
+export async function GET() {
+  const session = (await getServerSession(authOptions)) as {
+    user?: { id?: string | null };
+  } | null;
+
+  const userId = getUserId(session);
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: "Unauthorized." },
+      { status: 401 },
+    );
+  }
+
+  const plan = await getActiveTrainingPlan(userId);
+
+  return NextResponse.json({ success: true, plan });
+}
+
+export async function POST(request: Request) {
+  const session = (await getServerSession(authOptions)) as {
+    user?: { id?: string | null };
+  } | null;
+
+  const userId = getUserId(session);
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: "Unauthorized." },
+      { status: 401 },
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, message: "Invalid request payload." },
+      { status: 400 },
+    );
+  }
+
+  const validation = validateTrainingPlanInput(body);
+  if (!validation.success) {
+    return NextResponse.json(
+      { success: false, message: validation.message },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const result = await createTrainingPlan(userId, validation.input);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: result.message },
+        { status: result.status },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        planId: result.planId,
+        workoutCount: result.workoutCount,
+        message: `Training plan created with ${result.workoutCount} workouts.`,
+      },
+      { status: 201 },
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Training plan generation failed.";
+
+    return NextResponse.json(
+      { success: false, message },
+      { status: getErrorStatus(message) },
+    );
+  }
+}
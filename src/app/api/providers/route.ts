@@ -0,0 +1,100 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import {
+  DATA_PROVIDER_IDS,
+  getDataProviderLabel,
+  getLinkedDataProviders,
+  isDataProviderId,
+  setDataProviderPriorities,
+} from "@/server/data-providers";
+
+type PriorityBody = {
+  order?: unknown;
+};
+
+function getUserId(
+  session: { user?: { id?: string | null } } | null,
+): number | null {
+  const userIdRaw = session?.user?.id;
+  const userId = Number(userIdRaw);
+
+  if (!Number.isInteger(userId) || userId <= 0) {
+    return null;
+  }
+
+  return userId;
+}
+
+export async function GET() {
+  const session = (await getServerSession(authOptions)) as {
+    user?: { id?: string | null };
+  } | null;
+
+  const userId = getUserId(session);
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: "Unauthorized." },
+      { status: 401 },
+    );
+  }
+
+  const linked = await getLinkedDataProviders(userId);
+  const linkedIds = new Set(linked.map((entry) => entry.provider));
+
+  return NextResponse.json({
+    success: true,
+    linked,
+    available: DATA_PROVIDER_IDS.filter((provider) => !linkedIds.has(provider)).map(
+      (provider) => ({ provider, label: getDataProviderLabel(provider) }),
+    ),
+  });
+}
+
+export async function PUT(request: Request) {
+  const session = (await getServerSession(authOptions)) as {
+    user?: { id?: string | null };
+  } | null;
+
+  const userId = getUserId(session);
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: "Unauthorized." },
+      { status: 401 },
+    );
+  }
+
+  let body: PriorityBody;
+  try {
+    body = (await request.json()) as PriorityBody;
+  } catch {
+    return NextResponse.json(
+      { success: false, message: "Invalid request payload." },
+      { status: 400 },
+    );
+  }
+
+  if (
+    !Array.isArray(body.order) ||
+    !body.order.every((value) => typeof value === "string" && isDataProviderId(value))
+  ) {
+    return NextResponse.json(
+      { success: false, message: "order must be a list of provider ids, highest priority first." },
+      { status: 400 },
+    );
+  }
+
+  const result = await setDataProviderPriorities(userId, body.order);
+  if (!result.success) {
+    return NextResponse.json(
+      { success: false, message: result.message },
+      { status: result.status },
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    message: "Provider priority updated.",
+    linked: await getLinkedDataProviders(userId),
+  });
+}
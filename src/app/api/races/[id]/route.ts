@@ -0,0 +1,121 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import {
+  deleteRaceResult,
+  updateRaceResult,
+  validateRaceResultInput,
+} from "@/server/race-results";
+
+function getUserId(
+  session: { user?: { id?: string | null } } | null,
+): number | null {
+  const userIdRaw = session?.user?.id;
+  const userId = Number(userIdRaw);
+
+  if (!Number.isInteger(userId) || userId <= 0) {
+    return null;
+  }
+
+  return userId;
+}
+
+function parseRaceResultId(url: string): number | null {
+  const match = new URL(url).pathname.match(/^\/api\/races\/(\d+)\/?$/);
+  if (!match) {
+    return null;
+  }
+
+  const raceResultId = Number(match[1]);
+  if (!Number.isInteger(raceResultId) || raceResultId <= 0) {
+    return null;
+  }
+
+  return raceResultId;
+}
+
+export async function PUT(request: Request) {
+  const session = (await getServerSession(authOptions)) as {
+    user?: { id?: string | null };
+  } | null;
+
+  const userId = getUserId(session);
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: "Unauthorized." },
+      { status: 401 },
+    );
+  }
+
+  const raceResultId = parseRaceResultId(request.url);
+  if (!raceResultId) {
+    return NextResponse.json(
+      { success: false, message: "Invalid race result id." },
+      { status: 400 },
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, message: "Invalid request payload." },
+      { status: 400 },
+    );
+  }
+
+  const validation = validateRaceResultInput(body);
+  if (!validation.success) {
+    return NextResponse.json(
+      { success: false, message: validation.message },
+      { status: 400 },
+    );
+  }
+
+  const result = await updateRaceResult(userId, raceResultId, validation.input);
+  if (!result.success) {
+    return NextResponse.json(
+      { success: false, message: result.message },
+      { status: result.status },
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    message: "Race result updated.",
+    raceResult: result.raceResult,
+  });
+}
+
+export async function DELETE(request: Request) {
+  const session = (await getServerSession(authOptions)) as {
+    user?: { id?: string | null };
+  } | null;
+
+  const userId = getUserId(session);
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: "Unauthorized." },
+      { status: 401 },
+    );
+  }
+
+  const raceResultId = parseRaceResultId(request.url);
+  if (!raceResultId) {
+    return NextResponse.json(
+      { success: false, message: "Invalid race result id." },
+      { status: 400 },
+    );
+  }
+
+  const result = await deleteRaceResult(userId, raceResultId);
+  if (!result.success) {
+    return NextResponse.json(
+      { success: false, message: result.message },
+      { status: result.status },
+    );
+  }
+
+  return NextResponse.json({ success: true, message: "Race result deleted." });
+}
@@ -0,0 +1,79 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import {
+  createRaceResult,
+  listRaceResults,
+  validateRaceResultInput,
+} from "@/server/race-results";
+
+function getUserId(
+  session: { user?: { id?: string | null } } | null,
+): number | null {
+  const userIdRaw = session?.user?.id;
+  const userId = Number(userIdRaw);
+
+  if (!Number.isInteger(userId) || userId <= 0) {
+    return null;
+  }
+
+  return userId;
+}
+
+export async function GET() {
+  const session = (await getServerSession(authOptions)) as {
+    user?: { id?: string | null };
+  } | null;
+
+  const userId = getUserId(session);
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: "Unauthorized." },
+      { status: 401 },
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    raceResults: await listRaceResults(userId),
+  });
+}
+
+export async function POST(request: Request) {
+  const session = (await getServerSession(authOptions)) as {
+    user?: { id?: string | null };
+  } | null;
+
+  const userId = getUserId(session);
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: "Unauthorized." },
+      { status: 401 },
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, message: "Invalid request payload." },
+      { status: 400 },
+    );
+  }
+
+  const validation = validateRaceResultInput(body);
+  if (!validation.success) {
+    return NextResponse.json(
+      { success: false, message: validation.message },
+      { status: 400 },
+    );
+  }
+
+  const raceResult = await createRaceResult(userId, validation.input);
+
+  return NextResponse.json(
+    { success: true, message: "Race result saved.", raceResult },
+    { status: 201 },
+  );
+}
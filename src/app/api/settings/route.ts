@@ -0,0 +1,103 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { refreshHeartRateZones } from "@/server/heart-rate-profile";
+import { isHrZoneMethod, parseHrZones } from "@/server/hr-zones";
+import { refreshRunningFitnessPaces } from "@/server/race-results";
+import { recomputeTrainingLoad } from "@/server/training-load";
+import {
+  getUserSettings,
+  saveUserSettings,
+  validateUserSettingsInput,
+} from "@/server/user-settings";
+
+function getUserId(
+  session: { user?: { id?: string | null } } | null,
+): number | null {
+  const userIdRaw = session?.user?.id;
+  const userId = Number(userIdRaw);
+
+  if (!Number.isInteger(userId) || userId <= 0) {
+    return null;
+  }
+
+  return userId;
+}
+
+export async function GET() {
+  const session = (await getServerSession(authOptions)) as {
+    user?: { id?: string | null };
+  } | null;
+
+  const userId = getUserId(session);
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: "Unauthorized." },
+      { status: 401 },
+    );
+  }
+
+  const [settings, fitness] = await Promise.all([
+    getUserSettings(userId),
+    prisma.userRunningFitness.findUnique({
+      where: { userId },
+      select: { hrZoneMethod: true, hrZonesJson: true },
+    }),
+  ]);
+
+  return NextResponse.json({
+    success: true,
+    settings,
+    hrZoneMethod:
+      fitness?.hrZoneMethod && isHrZoneMethod(fitness.hrZoneMethod) ? fitness.hrZoneMethod : null,
+    hrZones: parseHrZones(fitness?.hrZonesJson),
+  });
+}
+
+export async function PUT(request: Request) {
+  const session = (await getServerSession(authOptions)) as {
+    user?: { id?: string | null };
+  } | null;
+
+  const userId = getUserId(session);
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: "Unauthorized." },
+      { status: 401 },
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, message: "Invalid request payload." },
+      { status: 400 },
+    );
+  }
+
+  const validation = validateUserSettingsInput(body);
+  if (!validation.success) {
+    return NextResponse.json(
+      { success: false, message: validation.message },
+      { status: 400 },
+    );
+  }
+
+  const settings = await saveUserSettings(userId, validation.input);
+  // Pinning or releasing a pace takes effect now rather than at the next sync.
+  await refreshRunningFitnessPaces(userId);
+  // A new max HR changes the intensity of activities without zone times.
+  await recomputeTrainingLoad(userId);
+  const heartRateProfile = await refreshHeartRateZones(userId);
+
+  return NextResponse.json({
+    success: true,
+    message: "Settings saved.",
+    settings,
+    hrZoneMethod: heartRateProfile.method,
+    hrZones: heartRateProfile.zones,
+  });
+}
@@ -0,0 +1,69 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import { removeTeamMember } from "@/server/teams";
+
+function getUserId(
+  session: { user?: { id?: string | null } } | null,
+): number | null {
+  const userIdRaw = session?.user?.id;
+  const userId = Number(userIdRaw);
+
+  if (!Number.isInteger(userId) || userId <= 0) {
+    return null;
+  }
+
+  return userId;
+}
+
+function parseMemberPath(url: string): { teamId: number; memberUserId: number } | null {
+  const match = new URL(url).pathname.match(/^\/api\/teams\/(\d+)\/members\/(\d+)\/?$/);
+  if (!match) {
+    return null;
+  }
+
+  const teamId = Number(match[1]);
+  const memberUserId = Number(match[2]);
+  if (
+    !Number.isInteger(teamId) ||
+    teamId <= 0 ||
+    !Number.isInteger(memberUserId) ||
+    memberUserId <= 0
+  ) {
+    return null;
+  }
+
+  return { teamId, memberUserId };
+}
+
+export async function DELETE(request: Request) {
+  const session = (await getServerSession(authOptions)) as {
+    user?: { id?: string | null };
+  } | null;
+
+  const userId = getUserId(session);
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: "Unauthorized." },
+      { status: 401 },
+    );
+  }
+
+  const path = parseMemberPath(request.url);
+  if (!path) {
+    return NextResponse.json(
+      { success: false, message: "Invalid team member path." },
+      { status: 400 },
+    );
+  }
+
+  const result = await removeTeamMember(userId, path.teamId, path.memberUserId);
+  if (!result.success) {
+    return NextResponse.json(
+      { success: false, message: result.message },
+      { status: result.status },
+    );
+  }
+
+  return NextResponse.json({ success: true, message: "Team member removed." });
+}
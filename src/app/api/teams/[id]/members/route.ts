@@ -0,0 +1,84 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import { addTeamMember, validateTeamMemberInput } from "@/server/teams";
+
+function getUserId(
+  session: { user?: { id?: string | null } } | null,
+): number | null {
+  const userIdRaw = session?.user?.id;
+  const userId = Number(userIdRaw);
+
+  if (!Number.isInteger(userId) || userId <= 0) {
+    return null;
+  }
+
+  return userId;
+}
+
+function parseTeamId(url: string): number | null {
+  const match = new URL(url).pathname.match(/^\/api\/teams\/(\d+)\/members\/?$/);
+  if (!match) {
+    return null;
+  }
+
+  const teamId = Number(match[1]);
+  if (!Number.isInteger(teamId) || teamId <= 0) {
+    return null;
+  }
+
+  return teamId;
+}
+
+export async function POST(request: Request) {
+  const session = (await getServerSession(authOptions)) as {
+    user?: { id?: string | null };
+  } | null;
+
+  const userId = getUserId(session);
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: "Unauthorized." },
+      { status: 401 },
+    );
+  }
+
+  const teamId = parseTeamId(request.url);
+  if (!teamId) {
+    return NextResponse.json(
+      { success: false, message: "Invalid team id." },
+      { status: 400 },
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, message: "Invalid request payload." },
+      { status: 400 },
+    );
+  }
+
+  const validation = validateTeamMemberInput(body);
+  if (!validation.success) {
+    return NextResponse.json(
+      { success: false, message: validation.message },
+      { status: 400 },
+    );
+  }
+
+  const result = await addTeamMember(userId, teamId, validation.email);
+  if (!result.success) {
+    return NextResponse.json(
+      { success: false, message: result.message },
+      { status: result.status },
+    );
+  }
+
+  return NextResponse.json(
+    { success: true, message: "Team member added.", team: result.team },
+    { status: 201 },
+  );
+}
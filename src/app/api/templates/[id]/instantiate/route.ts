@@ -0,0 +1,71 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import { instantiateWorkoutTemplate } from "@/server/workout-templates";
+
+function getUserId(
+  session: { user?: { id?: string | null } } | null,
+): number | null {
+  const userIdRaw = session?.user?.id;
+  const userId = Number(userIdRaw);
+
+  if (!Number.isInteger(userId) || userId <= 0) {
+    return null;
+  }
+
+  return userId;
+}
+
+function parseTemplateId(url: string): number | null {
+  const match = new URL(url).pathname.match(/^\/api\/templates\/(\d+)\/instantiate\/?$/);
+  if (!match) {
+    return null;
+  }
+
+  const templateId = Number(match[1]);
+  if (!Number.isInteger(templateId) || templateId <= 0) {
+    return null;
+  }
+
+  return templateId;
+}
+
+export async function POST(request: Request) {
+  const session = (await getServerSession(authOptions)) as {
+    user?: { id?: string | null };
+  } | null;
+
+  const userId = getUserId(session);
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: "Unauthorized." },
+      { status: 401 },
+    );
+  }
+
+  const templateId = parseTemplateId(request.url);
+  if (!templateId) {
+    return NextResponse.json(
+      { success: false, message: "Invalid workout template id." },
+      { status: 400 },
+    );
+  }
+
+  const result = await instantiateWorkoutTemplate(userId, templateId);
+  if (!result.success) {
+    return NextResponse.json(
+      { success: false, message: result.message },
+      { status: result.status },
+    );
+  }
+
+  return NextResponse.json(
+    {
+      success: true,
+      message: "Workout created from the template. Review it on the Workout page to accept it.",
+      workoutId: result.workoutId,
+      workout: result.workout,
+    },
+    { status: 201 },
+  );
+}
@@ -0,0 +1,121 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import {
+  deleteWorkoutTemplate,
+  updateWorkoutTemplate,
+  validateWorkoutTemplateInput,
+} from "@/server/workout-templates";
+
+function getUserId(
+  session: { user?: { id?: string | null } } | null,
+): number | null {
+  const userIdRaw = session?.user?.id;
+  const userId = Number(userIdRaw);
+
+  if (!Number.isInteger(userId) || userId <= 0) {
+    return null;
+  }
+
+  return userId;
+}
+
+function parseTemplateId(url: string): number | null {
+  const match = new URL(url).pathname.match(/^\/api\/templates\/(\d+)\/?$/);
+  if (!match) {
+    return null;
+  }
+
+  const templateId = Number(match[1]);
+  if (!Number.isInteger(templateId) || templateId <= 0) {
+    return null;
+  }
+
+  return templateId;
+}
+
+export async function PUT(request: Request) {
+  const session = (await getServerSession(authOptions)) as {
+    user?: { id?: string | null };
+  } | null;
+
+  const userId = getUserId(session);
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: "Unauthorized." },
+      { status: 401 },
+    );
+  }
+
+  const templateId = parseTemplateId(request.url);
+  if (!templateId) {
+    return NextResponse.json(
+      { success: false, message: "Invalid workout template id." },
+      { status: 400 },
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, message: "Invalid request payload." },
+      { status: 400 },
+    );
+  }
+
+  const validation = validateWorkoutTemplateInput(body);
+  if (!validation.success) {
+    return NextResponse.json(
+      { success: false, message: validation.message },
+      { status: 400 },
+    );
+  }
+
+  const result = await updateWorkoutTemplate(userId, templateId, validation.input);
+  if (!result.success) {
+    return NextResponse.json(
+      { success: false, message: result.message },
+      { status: result.status },
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    message: "Workout template updated.",
+    template: result.template,
+  });
+}
+
+export async function DELETE(request: Request) {
+  const session = (await getServerSession(authOptions)) as {
+    user?: { id?: string | null };
+  } | null;
+
+  const userId = getUserId(session);
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: "Unauthorized." },
+      { status: 401 },
+    );
+  }
+
+  const templateId = parseTemplateId(request.url);
+  if (!templateId) {
+    return NextResponse.json(
+      { success: false, message: "Invalid workout template id." },
+      { status: 400 },
+    );
+  }
+
+  const result = await deleteWorkoutTemplate(userId, templateId);
+  if (!result.success) {
+    return NextResponse.json(
+      { success: false, message: result.message },
+      { status: result.status },
+    );
+  }
+
+  return NextResponse.json({ success: true, message: "Workout template deleted." });
+}
@@ -1,8 +1,11 @@
 import { getServerSession } from "next-auth";
 import { NextResponse } from "next/server";
+import type { Prisma } from "../../../../../../prisma/generated/prisma/client";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { uploadWorkoutToGarmin } from "@/server/sync";
+import { updateGarminSchedule } from "@/server/workout-calendar";
+import { validateGarminWorkout, WorkoutValidationError } from "@/server/workout-validator";
 
 function getUserId(
   session: { user?: { id?: string | null } } | null,
@@ -74,6 +77,7 @@ export async function POST(request: Request) {
       id: true,
       status: true,
       workoutJson: true,
+      scheduledDate: true,
     },
   });
 
@@ -94,7 +98,19 @@ export async function POST(request: Request) {
     );
   }
 
-  const uploadResult = await uploadWorkoutToGarmin(userId, workout.workoutJson);
+  // Workouts saved before generation validated its output can still carry broken steps.
+  const validation = validateGarminWorkout(workout.workoutJson);
+  if (!validation.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: new WorkoutValidationError(validation.errors).message,
+      },
+      { status: 400 },
+    );
+  }
+
+  const uploadResult = await uploadWorkoutToGarmin(userId, validation.workout);
   if (!uploadResult.success) {
     return NextResponse.json(
       {
@@ -114,14 +130,30 @@ export async function POST(request: Request) {
     where: { id: workout.id },
     data: {
       status: "uploaded",
+      workoutJson: validation.workout as Prisma.InputJsonValue,
       garminWorkoutId:
         garminWorkoutId !== null ? BigInt(garminWorkoutId) : null,
     },
   });
 
+  // The upload already succeeded, so a scheduling failure is reported but does not undo it.
+  const scheduleWarning = workout.scheduledDate
+    ? await updateGarminSchedule(
+        userId,
+        {
+          id: workout.id,
+          garminWorkoutId: garminWorkoutId !== null ? BigInt(garminWorkoutId) : null,
+          garminScheduleId: null,
+        },
+        workout.scheduledDate.toISOString().slice(0, 10),
+      )
+    : null;
+
   return NextResponse.json({
     success: true,
-    message: "Workout uploaded to Garmin.",
+    message: scheduleWarning
+      ? `Workout uploaded to Garmin. ${scheduleWarning}`
+      : "Workout uploaded to Garmin.",
     workoutId: workout.id,
     status: "uploaded",
     garminWorkoutId: garminWorkoutId ?? undefined,
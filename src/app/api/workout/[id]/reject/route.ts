@@ -2,6 +2,7 @@ import { getServerSession } from "next-auth";
 import { NextResponse } from "next/server";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { updateGarminSchedule } from "@/server/workout-calendar";
 
 function getUserId(
   session: { user?: { id?: string | null } } | null,
@@ -58,6 +59,8 @@ export async function POST(request: Request) {
     },
     select: {
       id: true,
+      garminWorkoutId: true,
+      garminScheduleId: true,
     },
   });
 
@@ -75,9 +78,12 @@ export async function POST(request: Request) {
     },
   });
 
+  const unscheduleWarning =
+    workout.garminScheduleId !== null ? await updateGarminSchedule(userId, workout, null) : null;
+
   return NextResponse.json({
     success: true,
-    message: "Workout rejected.",
+    message: unscheduleWarning ? `Workout rejected. ${unscheduleWarning}` : "Workout rejected.",
     workoutId: workout.id,
     status: "rejected",
   });
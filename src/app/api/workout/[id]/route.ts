@@ -0,0 +1,89 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import { updateWorkoutSteps, validateWorkoutEditInput } from "@/server/workout-editor";
+
+function getUserId(
+  session: { user?: { id?: string | null } } | null,
+): number | null {
+  const userIdRaw = session?.user?.id;
+  const userId = Number(userIdRaw);
+
+  if (!Number.isInteger(userId) || userId <= 0) {
+    return null;
+  }
+
+  return userId;
+}
+
+function parseWorkoutId(url: string): number | null {
+  const match = new URL(url).pathname.match(/^\/api\/workout\/(\d+)\/?$/);
+  if (!match) {
+    return null;
+  }
+
+  const workoutId = Number(match[1]);
+  if (!Number.isInteger(workoutId) || workoutId <= 0) {
+    return null;
+  }
+
+  return workoutId;
+}
+
+export async function PATCH(request: Request) {
+  const session = (await getServerSession(authOptions)) as {
+    user?: { id?: string | null };
+  } | null;
+
+  const userId = getUserId(session);
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: "Unauthorized." },
+      { status: 401 },
+    );
+  }
+
+  const workoutId = parseWorkoutId(request.url);
+  if (!workoutId) {
+    return NextResponse.json(
+      { success: false, message: "Invalid workout id." },
+      { status: 400 },
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, message: "Invalid request payload." },
+      { status: 400 },
+    );
+  }
+
+  const validation = validateWorkoutEditInput(body);
+  if (!validation.success) {
+    return NextResponse.json(
+      { success: false, message: validation.message },
+      { status: 400 },
+    );
+  }
+
+  const result = await updateWorkoutSteps(userId, workoutId, validation.workoutJson);
+  if (!result.success) {
+    return NextResponse.json(
+      { success: false, message: result.message, errors: result.errors },
+      { status: result.status },
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    message: `Workout saved as version ${result.version}.`,
+    workoutId,
+    workout: result.workout,
+    version: result.version,
+    totalDistanceKm: result.totalDistanceKm,
+    estimatedDurationMinutes: result.estimatedDurationMinutes,
+  });
+}
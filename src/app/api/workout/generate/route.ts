@@ -79,6 +79,11 @@ function getErrorStatus(errorMessage: string): number {
     return 400;
   }
 
+  // The provider answered, but not with a workout that could be used.
+  if (normalized.includes("gave up after")) {
+    return 502;
+  }
+
   if (normalized.includes("rate limit")) {
     return 503;
   }
@@ -187,6 +192,8 @@ export async function POST(request: Request) {
         estimatedDurationMinutes: getEstimatedDurationMinutes(generated.workout),
         userPrompt: typeof body.userPrompt === "string" ? body.userPrompt.trim() || null : null,
         status: "generated",
+        aiProvider: generated.provider,
+        generationAttempts: generated.attempts,
       },
       select: {
         id: true,
@@ -0,0 +1,302 @@
+"use client";
+
+import { DragEvent, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import type {
+  CalendarActivityItem,
+  CalendarView,
+  CalendarWeekItem,
+  CalendarWorkoutItem,
+  WorkoutScheduleApiResponse,
+} from "@/components/calendar/types";
+import { cn, formatDistanceMeters, formatDurationSeconds } from "@/lib/utils";
+
+const WEEKDAY_LABELS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+const DRAG_DATA_TYPE = "text/plain";
+
+type TrainingCalendarProps = {
+  view: CalendarView;
+  anchorDate: string;
+  today: string;
+  workouts: CalendarWorkoutItem[];
+  unscheduledWorkouts: CalendarWorkoutItem[];
+  activities: CalendarActivityItem[];
+  weeks: CalendarWeekItem[];
+};
+
+function addDays(dateOnly: string, days: number): string {
+  const date = new Date(`${dateOnly}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+function addMonths(dateOnly: string, months: number): string {
+  const date = new Date(`${dateOnly}T00:00:00.000Z`);
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1))
+    .toISOString()
+    .slice(0, 10);
+}
+
+function formatDay(dateOnly: string, options: Intl.DateTimeFormatOptions): string {
+  return new Date(`${dateOnly}T00:00:00.000Z`).toLocaleDateString(undefined, {
+    ...options,
+    timeZone: "UTC",
+  });
+}
+
+function calendarHref(view: CalendarView, date: string): string {
+  return `/calendar?view=${view}&date=${date}`;
+}
+
+export function TrainingCalendar({
+  view,
+  anchorDate,
+  today,
+  workouts,
+  unscheduledWorkouts,
+  activities,
+  weeks,
+}: TrainingCalendarProps) {
+  const router = useRouter();
+
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const anchorMonth = anchorDate.slice(0, 7);
+  const previousDate = view === "week" ? addDays(anchorDate, -7) : addMonths(anchorDate, -1);
+  const nextDate = view === "week" ? addDays(anchorDate, 7) : addMonths(anchorDate, 1);
+  const title =
+    view === "week"
+      ? `Week of ${formatDay(weeks[0]?.weekStart ?? anchorDate, { dateStyle: "medium" })}`
+      : formatDay(anchorDate, { month: "long", year: "numeric" });
+
+  // null clears the date.
+  async function moveWorkout(workoutId: number, scheduledDate: string | null) {
+    const current = [...workouts, ...unscheduledWorkouts].find(
+      (workout) => workout.id === workoutId,
+    );
+    if (!current || current.scheduledDate === scheduledDate) {
+      return;
+    }
+
+    setErrorMessage(null);
+    setIsSaving(true);
+
+    try {
+      const response = await fetch(`/api/workout/${workoutId}/schedule`, {
+        method: scheduledDate ? "PUT" : "DELETE",
+        credentials: "include",
+        headers: scheduledDate ? { "Content-Type": "application/json" } : undefined,
+        body: scheduledDate ? JSON.stringify({ scheduledDate }) : undefined,
+      });
+
+      const payload = (await response.json()) as WorkoutScheduleApiResponse;
+      if (!response.ok || !payload.success) {
+        setErrorMessage(payload.message || "Rescheduling the workout failed.");
+        return;
+      }
+
+      // The move is saved either way; this only says Garmin's calendar is out of step.
+      setErrorMessage(payload.garminWarning);
+      router.refresh();
+    } catch {
+      setErrorMessage("Rescheduling the workout failed. Please retry.");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  function handleDragStart(event: DragEvent<HTMLElement>, workoutId: number) {
+    event.dataTransfer.setData(DRAG_DATA_TYPE, String(workoutId));
+    event.dataTransfer.effectAllowed = "move";
+    setDraggedId(workoutId);
+  }
+
+  function handleDragEnd() {
+    setDraggedId(null);
+    setDropTarget(null);
+  }
+
+  function handleDragOver(event: DragEvent<HTMLElement>, target: string) {
+    if (draggedId === null || isSaving) {
+      return;
+    }
+
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "move";
+    setDropTarget(target);
+  }
+
+  function handleDrop(event: DragEvent<HTMLElement>, scheduledDate: string | null) {
+    event.preventDefault();
+    const workoutId = Number(event.dataTransfer.getData(DRAG_DATA_TYPE));
+    handleDragEnd();
+
+    if (Number.isInteger(workoutId) && workoutId > 0) {
+      void moveWorkout(workoutId, scheduledDate);
+    }
+  }
+
+  function renderWorkout(workout: CalendarWorkoutItem) {
+    return (
+      <div
+        key={workout.id}
+        draggable={!isSaving}
+        onDragStart={(event) => handleDragStart(event, workout.id)}
+        onDragEnd={handleDragEnd}
+        className={cn(
+          "cursor-grab rounded-md border border-primary/40 bg-primary/10 px-2 py-1 text-xs text-foreground",
+          draggedId === workout.id && "opacity-50",
+        )}
+        title={`${workout.title} (${workout.status})`}
+      >
+        <p className="truncate font-medium">{workout.title}</p>
+        <p className="text-muted-foreground">
+          {workout.totalDistanceKm !== null ? `${workout.totalDistanceKm.toFixed(1)} km` : "-"}
+          {workout.estimatedDurationMinutes !== null &&
+            ` · ~${workout.estimatedDurationMinutes} min`}
+        </p>
+      </div>
+    );
+  }
+
+  function renderActivity(activity: CalendarActivityItem) {
+    return (
+      <div
+        key={`activity-${activity.id}`}
+        className="rounded-md border border-border bg-muted px-2 py-1 text-xs text-foreground"
+      >
+        <p className="truncate font-medium">{activity.activityName ?? "Activity"}</p>
+        <p className="text-muted-foreground">
+          {activity.distanceMeters
+            ? formatDistanceMeters(activity.distanceMeters)
+            : formatDurationSeconds(activity.durationSeconds)}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[minmax(0,3fr)_minmax(0,1fr)]">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <CardTitle>{title}</CardTitle>
+              <CardDescription>
+                Drag a workout to another day to reschedule it.
+              </CardDescription>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button asChild variant={view === "week" ? "default" : "outline"} size="sm">
+                <Link href={calendarHref("week", anchorDate)}>Week</Link>
+              </Button>
+              <Button asChild variant={view === "month" ? "default" : "outline"} size="sm">
+                <Link href={calendarHref("month", anchorDate)}>Month</Link>
+              </Button>
+              <Button asChild variant="outline" size="sm">
+                <Link href={calendarHref(view, previousDate)}>Previous</Link>
+              </Button>
+              <Button asChild variant="outline" size="sm">
+                <Link href={calendarHref(view, today)}>Today</Link>
+              </Button>
+              <Button asChild variant="outline" size="sm">
+                <Link href={calendarHref(view, nextDate)}>Next</Link>
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {errorMessage && (
+            <p className="rounded-md border border-destructive/40 bg-destructive/10 p-3 text-sm text-destructive">
+              {errorMessage}
+            </p>
+          )}
+
+          <div className="grid grid-cols-7 gap-2 text-xs font-medium text-muted-foreground">
+            {WEEKDAY_LABELS.map((label) => (
+              <p key={label}>{label}</p>
+            ))}
+          </div>
+
+          {weeks.map((week) => (
+            <div key={week.weekStart} className="space-y-2">
+              <div className="grid grid-cols-7 gap-2">
+                {WEEKDAY_LABELS.map((label, index) => {
+                  const date = addDays(week.weekStart, index);
+                  const dayWorkouts = workouts.filter((workout) => workout.scheduledDate === date);
+                  const dayActivities = activities.filter((activity) => activity.date === date);
+
+                  return (
+                    <div
+                      key={date}
+                      onDragOver={(event) => handleDragOver(event, date)}
+                      onDragLeave={() => setDropTarget(null)}
+                      onDrop={(event) => handleDrop(event, date)}
+                      className={cn(
+                        "space-y-1 rounded-md border border-border p-1.5",
+                        view === "week" ? "min-h-48" : "min-h-24",
+                        view === "month" &&
+                          date.slice(0, 7) !== anchorMonth &&
+                          "bg-muted/40 text-muted-foreground",
+                        date === today && "border-primary",
+                        dropTarget === date && "bg-primary/10",
+                      )}
+                    >
+                      <p className="text-xs font-medium">
+                        {view === "week"
+                          ? formatDay(date, { month: "short", day: "numeric" })
+                          : Number(date.slice(8))}
+                      </p>
+                      {dayWorkouts.map(renderWorkout)}
+                      {dayActivities.map(renderActivity)}
+                    </div>
+                  );
+                })}
+              </div>
+              <p className="text-right text-xs text-muted-foreground">
+                Planned{" "}
+                <span className="font-medium text-foreground">{week.plannedDistanceKm} km</span>
+                {" · "}Run{" "}
+                <span className="font-medium text-foreground">{week.completedDistanceKm} km</span>
+              </p>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card
+        onDragOver={(event) => handleDragOver(event, "unscheduled")}
+        onDragLeave={() => setDropTarget(null)}
+        onDrop={(event) => handleDrop(event, null)}
+        className={cn(dropTarget === "unscheduled" && "border-primary")}
+      >
+        <CardHeader>
+          <CardTitle>Unscheduled</CardTitle>
+          <CardDescription>
+            Drag these onto a day, or drop a scheduled workout here to clear its date.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {unscheduledWorkouts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Every workout has a date.</p>
+          ) : (
+            unscheduledWorkouts.map(renderWorkout)
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
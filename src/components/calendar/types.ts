@@ -0,0 +1,36 @@
+export type CalendarView = "week" | "month";
+
+export type CalendarWorkoutItem = {
+  id: number;
+  title: string;
+  workoutType: string;
+  status: string;
+  scheduledDate: string | null;
+  totalDistanceKm: number | null;
+  estimatedDurationMinutes: number | null;
+};
+
+export type CalendarActivityItem = {
+  id: number;
+  activityName: string | null;
+  sportCategory: string | null;
+  date: string;
+  distanceMeters: number | null;
+  durationSeconds: number | null;
+};
+
+export type CalendarWeekItem = {
+  weekStart: string;
+  plannedDistanceKm: number;
+  completedDistanceKm: number;
+};
+
+export type WorkoutScheduleApiResponse =
+  | {
+      success: true;
+      message: string;
+      workoutId: number;
+      scheduledDate: string | null;
+      garminWarning: string | null;
+    }
+  | { success: false; message: string };
@@ -28,6 +28,24 @@ function formatRaceTime(totalSeconds: number | null): string {
   return `${minutes}:${String(seconds).padStart(2, "0")}`;
 }
 
+function formatWeeklyMinutes(minutes: number | null): string {
+  if (minutes === null) {
+    return "-";
+  }
+
+  const rounded = Math.round(minutes);
+  const hours = Math.floor(rounded / 60);
+  const remainder = rounded % 60;
+  return hours > 0 ? `${hours}h ${remainder}m/week` : `${remainder}m/week`;
+}
+
+const HR_ZONE_METHOD_LABELS: Record<string, string> = {
+  max_hr: "% of max HR",
+  hrr: "% of HR reserve",
+  lthr: "% of threshold HR",
+  custom: "custom",
+};
+
 function metric(label: string, value: string) {
   return (
     <div className="flex items-center justify-between gap-4">
@@ -80,6 +98,14 @@ export function FitnessProfileCard({ fitness }: FitnessProfileCardProps) {
             Training Paces
           </p>
           <div className="space-y-1">
+            {metric(
+              "VDOT",
+              fitness.vo2Max !== null
+                ? `${fitness.vo2Max}${
+                    fitness.vdotSource === "race_result" ? " (from race result)" : ""
+                  }`
+                : "-",
+            )}
             {metric(
               "Easy",
               `${formatPaceSecondsPerKm(fitness.easyPaceLow)} - ${formatPaceSecondsPerKm(
@@ -93,6 +119,28 @@ export function FitnessProfileCard({ fitness }: FitnessProfileCardProps) {
           </div>
         </div>
 
+        <div className="space-y-2">
+          <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+            Heart Rate Zones
+            {fitness.hrZoneMethod && HR_ZONE_METHOD_LABELS[fitness.hrZoneMethod]
+              ? ` (${HR_ZONE_METHOD_LABELS[fitness.hrZoneMethod]})`
+              : ""}
+          </p>
+          {fitness.hrZones ? (
+            <div className="space-y-1">
+              {fitness.hrZones.map((zone) => (
+                <div key={zone.zone}>
+                  {metric(`Zone ${zone.zone}`, `${zone.minBpm}-${zone.maxBpm} bpm`)}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Not enough heart rate data yet. Set your max heart rate in settings.
+            </p>
+          )}
+        </div>
+
         <div className="space-y-2">
           <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
             Recent Volume
@@ -114,6 +162,14 @@ export function FitnessProfileCard({ fitness }: FitnessProfileCardProps) {
                 ? `${fitness.runningDistanceAvgKm.toFixed(2)} km`
                 : "-",
             )}
+            {metric(
+              "Training time (all sports)",
+              formatWeeklyMinutes(fitness.weeklyTrainingMinutesAvg),
+            )}
+            {metric(
+              "Cross-training",
+              formatWeeklyMinutes(fitness.weeklyCrossTrainingMinutesAvg),
+            )}
           </div>
         </div>
       </CardContent>
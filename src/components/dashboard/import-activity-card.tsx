@@ -0,0 +1,106 @@
+"use client";
+
+import { FormEvent, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+type ImportResponse = {
+  success: boolean;
+  message: string;
+  activityId?: number;
+  duplicateOfActivityId?: number;
+};
+
+export function ImportActivityCard() {
+  const router = useRouter();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+
+  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setErrorMessage(null);
+    setStatusMessage(null);
+
+    const file = fileInputRef.current?.files?.[0];
+    if (!file) {
+      setErrorMessage("Choose a file to import.");
+      return;
+    }
+
+    const formData = new FormData();
+    formData.append("file", file);
+    // Lets the server place files without a UTC offset on the right local day.
+    formData.append("timeZone", Intl.DateTimeFormat().resolvedOptions().timeZone);
+
+    setIsImporting(true);
+    try {
+      const response = await fetch("/api/activities/import", {
+        method: "POST",
+        body: formData,
+      });
+
+      let payload: ImportResponse;
+      try {
+        payload = (await response.json()) as ImportResponse;
+      } catch {
+        payload = { success: false, message: "Unexpected response from server." };
+      }
+
+      if (!response.ok || !payload.success) {
+        setErrorMessage(payload.message || "Import failed.");
+        return;
+      }
+
+      setStatusMessage(payload.message);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+      router.refresh();
+    } catch {
+      setErrorMessage("Import failed. Check your connection and try again.");
+    } finally {
+      setIsImporting(false);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Import Activity</CardTitle>
+        <CardDescription>
+          Upload a FIT, GPX, or TCX file from any watch or app. Activities already stored are skipped.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="flex flex-col gap-3 sm:flex-row sm:items-end">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="activity-file">Activity file</Label>
+            <Input
+              id="activity-file"
+              ref={fileInputRef}
+              type="file"
+              accept=".fit,.gpx,.tcx"
+            />
+          </div>
+          <Button type="submit" disabled={isImporting}>
+            {isImporting ? "Importing..." : "Import"}
+          </Button>
+        </form>
+
+        {statusMessage && <p className="mt-3 text-sm text-muted-foreground">{statusMessage}</p>}
+        {errorMessage && <p className="mt-3 text-sm text-destructive">{errorMessage}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -19,8 +19,22 @@ import {
   formatDurationSeconds,
   formatPaceSecondsPerKm,
 } from "@/lib/utils";
+import { SPORT_CATEGORY_LABELS, type SportCategory } from "@/lib/constants";
 import type { ActivityRow } from "@/components/dashboard/types";
 
+function formatActivityType(activity: ActivityRow): string {
+  const label = activity.sportCategory
+    ? SPORT_CATEGORY_LABELS[activity.sportCategory as SportCategory]
+    : undefined;
+
+  const parts = [label, activity.activityType].filter(Boolean);
+  if (activity.source !== "garmin") {
+    parts.push(`${activity.source.toUpperCase()} import`);
+  }
+
+  return parts.length > 0 ? parts.join(" · ") : "Unknown type";
+}
+
 type RecentActivitiesTableProps = {
   activities: ActivityRow[];
 };
@@ -32,7 +46,7 @@ export function RecentActivitiesTable({
     <Card>
       <CardHeader>
         <CardTitle>Recent Activities</CardTitle>
-        <CardDescription>Last 7 activities synced from Garmin.</CardDescription>
+        <CardDescription>Last 7 activities synced from Garmin or imported.</CardDescription>
       </CardHeader>
       <CardContent>
         <Table>
@@ -64,7 +78,7 @@ export function RecentActivitiesTable({
                       {activity.activityName ?? "Untitled activity"}
                     </span>
                     <span className="text-xs text-muted-foreground">
-                      {activity.activityType ?? "Unknown type"}
+                      {formatActivityType(activity)}
                     </span>
                   </div>
                 </TableCell>
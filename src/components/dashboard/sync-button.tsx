@@ -1,27 +1,17 @@
 "use client";
 
-import { useState } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
+import { describeSyncJob, useSyncJob } from "@/components/garmin/use-sync-job";
 
 type SyncButtonProps = {
   garminConnected: boolean;
 };
 
-type SyncResponse = {
-  success: boolean;
-  message: string;
-  activitiesSynced?: number;
-  healthDaysSynced?: number;
-  fitnessSynced?: boolean;
-};
-
 export function SyncButton({ garminConnected }: SyncButtonProps) {
   const router = useRouter();
-  const [isSyncing, setIsSyncing] = useState(false);
-  const [statusMessage, setStatusMessage] = useState<string | null>(null);
-  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const { job, isSyncing, errorMessage, startSync } = useSyncJob();
 
   if (!garminConnected) {
     return (
@@ -37,34 +27,14 @@ export function SyncButton({ garminConnected }: SyncButtonProps) {
   }
 
   async function handleSync() {
-    setStatusMessage(null);
-    setErrorMessage(null);
-
-    setIsSyncing(true);
-
-    try {
-      const response = await fetch("/api/garmin/sync", {
-        method: "POST",
-      });
-
-      const payload = (await response.json()) as SyncResponse;
-      if (!response.ok || !payload.success) {
-        setErrorMessage(payload.message || "Sync failed.");
-        return;
-      }
-
-      setStatusMessage(
-        `${payload.message} Activities: ${payload.activitiesSynced ?? 0}, Health days: ${payload.healthDaysSynced ?? 0}, Fitness synced: ${payload.fitnessSynced ? "yes" : "no"}.`,
-      );
-
+    const finishedJob = await startSync();
+    if (finishedJob?.status === "succeeded") {
       router.refresh();
-    } catch {
-      setErrorMessage("Sync failed. Please retry.");
-    } finally {
-      setIsSyncing(false);
     }
   }
 
+  const statusMessage = job && job.status !== "failed" ? describeSyncJob(job) : null;
+
   return (
     <div className="flex flex-col items-start gap-2">
       <Button onClick={handleSync} disabled={isSyncing || !garminConnected}>
@@ -0,0 +1,116 @@
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatDate, formatDateTime, formatElapsedMs } from "@/lib/utils";
+import { SyncRunDetailDialog } from "@/components/dashboard/sync-run-detail-dialog";
+import type { SyncRunRow } from "@/components/dashboard/types";
+
+function statusVariant(status: string): "default" | "secondary" | "destructive" | "outline" {
+  if (status === "succeeded") {
+    return "default";
+  }
+  if (status === "failed") {
+    return "destructive";
+  }
+  if (status === "running") {
+    return "secondary";
+  }
+
+  return "outline";
+}
+
+function formatCount(value: number | null): string {
+  return value === null ? "-" : String(value);
+}
+
+type SyncHistoryTableProps = {
+  runs: SyncRunRow[];
+};
+
+export function SyncHistoryTable({ runs }: SyncHistoryTableProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sync History</CardTitle>
+        <CardDescription>Recent Garmin sync runs and their results.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Started</TableHead>
+              <TableHead>Range</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Duration</TableHead>
+              <TableHead>Activities</TableHead>
+              <TableHead>Health Days</TableHead>
+              <TableHead className="text-right">Details</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {runs.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={8} className="py-6 text-center text-muted-foreground">
+                  No sync runs yet. Use Sync Garmin to start one.
+                </TableCell>
+              </TableRow>
+            )}
+
+            {runs.map((run) => (
+              <TableRow key={run.id}>
+                <TableCell>{formatDateTime(run.startedAt)}</TableCell>
+                <TableCell>
+                  {formatDate(run.startDate)} - {formatDate(run.endDate)}
+                </TableCell>
+                <TableCell className="capitalize">
+                  {run.kind} · {run.trigger}
+                </TableCell>
+                <TableCell>
+                  <Badge variant={statusVariant(run.status)}>{run.status}</Badge>
+                </TableCell>
+                <TableCell>{formatElapsedMs(run.durationMs)}</TableCell>
+                <TableCell>{formatCount(run.activitiesSynced)}</TableCell>
+                <TableCell>{formatCount(run.healthDaysSynced)}</TableCell>
+                <TableCell className="text-right">
+                  <SyncRunDetailDialog
+                    run={{
+                      id: run.id,
+                      kind: run.kind,
+                      trigger: run.trigger,
+                      status: run.status,
+                      startDate: run.startDate.toISOString(),
+                      endDate: run.endDate.toISOString(),
+                      startedAt: run.startedAt.toISOString(),
+                      durationMs: run.durationMs,
+                      activitiesSynced: run.activitiesSynced,
+                      healthDaysSynced: run.healthDaysSynced,
+                      healthDaysExisting: run.healthDaysExisting,
+                      healthDaysSkipped: run.healthDaysSkipped,
+                      fitnessSynced: run.fitnessSynced,
+                      stageResultsJson: run.stageResultsJson,
+                      errorMessage: run.errorMessage,
+                    }}
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,152 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { formatDate, formatDateTime, formatElapsedMs } from "@/lib/utils";
+
+type SyncRunDialogData = {
+  id: number;
+  kind: string;
+  trigger: string;
+  status: string;
+  startDate: string;
+  endDate: string;
+  startedAt: string;
+  durationMs: number | null;
+  activitiesSynced: number | null;
+  healthDaysSynced: number | null;
+  healthDaysExisting: number | null;
+  healthDaysSkipped: number | null;
+  fitnessSynced: boolean | null;
+  stageResultsJson: unknown;
+  errorMessage: string | null;
+};
+
+type SyncRunDetailDialogProps = {
+  run: SyncRunDialogData;
+};
+
+type StageResult = {
+  stage: string;
+  status: string;
+  message: string | null;
+};
+
+const STAGE_ORDER = ["activities", "streams", "health", "fitness"];
+
+function parseStageResults(stageResultsJson: unknown): StageResult[] {
+  if (
+    typeof stageResultsJson !== "object" ||
+    stageResultsJson === null ||
+    Array.isArray(stageResultsJson)
+  ) {
+    return [];
+  }
+
+  const source = stageResultsJson as Record<string, unknown>;
+  return STAGE_ORDER.flatMap((stage) => {
+    const value = source[stage];
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return [];
+    }
+
+    const record = value as Record<string, unknown>;
+    return [
+      {
+        stage,
+        status: typeof record.status === "string" ? record.status : "unknown",
+        message: typeof record.message === "string" ? record.message : null,
+      },
+    ];
+  });
+}
+
+function formatCount(value: number | null): string {
+  return value === null ? "-" : String(value);
+}
+
+export function SyncRunDetailDialog({ run }: SyncRunDetailDialogProps) {
+  const stages = parseStageResults(run.stageResultsJson);
+  const summary = [
+    { label: "Started", value: formatDateTime(run.startedAt) },
+    { label: "Duration", value: formatElapsedMs(run.durationMs) },
+    { label: "Activities Synced", value: formatCount(run.activitiesSynced) },
+    { label: "Health Days Synced", value: formatCount(run.healthDaysSynced) },
+    { label: "Days Already Stored", value: formatCount(run.healthDaysExisting) },
+    { label: "Days Without Data", value: formatCount(run.healthDaysSkipped) },
+    {
+      label: "Fitness Updated",
+      value: run.fitnessSynced === null ? "-" : run.fitnessSynced ? "Yes" : "No",
+    },
+  ];
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm">
+          View
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {run.kind === "backfill" ? "Backfill" : "Sync"} Run #{run.id}
+          </DialogTitle>
+          <DialogDescription>
+            {formatDate(run.startDate)} - {formatDate(run.endDate)} · {run.trigger} ·{" "}
+            {run.status}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 text-sm">
+          <div className="grid grid-cols-2 gap-3 rounded-md border border-border p-3">
+            {summary.map((item) => (
+              <div key={item.label}>
+                <p className="text-xs uppercase tracking-wide text-muted-foreground">
+                  {item.label}
+                </p>
+                <p className="font-medium text-foreground">{item.value}</p>
+              </div>
+            ))}
+          </div>
+
+          {run.errorMessage && (
+            <div>
+              <p className="mb-1 text-xs uppercase tracking-wide text-muted-foreground">Error</p>
+              <p className="rounded-md border border-destructive/40 bg-destructive/10 p-3 text-destructive">
+                {run.errorMessage}
+              </p>
+            </div>
+          )}
+
+          <div>
+            <p className="mb-1 text-xs uppercase tracking-wide text-muted-foreground">Stages</p>
+
+            {stages.length > 0 ? (
+              <ol className="space-y-2 rounded-md border border-border p-3">
+                {stages.map((stage) => (
+                  <li key={`${run.id}-${stage.stage}`} className="text-foreground">
+                    <span className="font-medium capitalize">{stage.stage}</span>
+                    <span className="text-muted-foreground"> · {stage.status}</span>
+                    {stage.message && (
+                      <span className="text-muted-foreground"> · {stage.message}</span>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            ) : (
+              <p className="text-muted-foreground">No stage results recorded.</p>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,156 @@
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { formatDate } from "@/lib/utils";
+import type { TrainingLoadRow } from "@/components/dashboard/types";
+
+type TrainingLoadCardProps = {
+  loads: TrainingLoadRow[];
+};
+
+const CHART_WIDTH = 280;
+const CHART_HEIGHT = 64;
+
+function describeAcwr(acwr: number | null): string {
+  if (acwr === null) {
+    return "not enough history";
+  }
+  if (acwr < 0.8) {
+    return "detraining";
+  }
+  if (acwr <= 1.3) {
+    return "optimal";
+  }
+  if (acwr <= 1.5) {
+    return "caution";
+  }
+  return "high injury risk";
+}
+
+function describeForm(form: number): string {
+  if (form > 5) {
+    return "fresh";
+  }
+  if (form >= -10) {
+    return "neutral";
+  }
+  if (form >= -30) {
+    return "productive fatigue";
+  }
+  return "overreaching";
+}
+
+function metric(label: string, value: string) {
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <span className="text-sm text-muted-foreground">{label}</span>
+      <span className="text-sm font-medium text-foreground">{value}</span>
+    </div>
+  );
+}
+
+function toPolyline(values: number[], maxValue: number): string {
+  const step = values.length > 1 ? CHART_WIDTH / (values.length - 1) : 0;
+  return values
+    .map((value, index) => {
+      const y = CHART_HEIGHT - (maxValue > 0 ? (value / maxValue) * CHART_HEIGHT : 0);
+      return `${(index * step).toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+}
+
+export function TrainingLoadCard({ loads }: TrainingLoadCardProps) {
+  const latest = loads[loads.length - 1];
+
+  if (!latest) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Training Load</CardTitle>
+          <CardDescription>
+            Sync or import activities to build your fitness, fatigue, and form trend.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground">No training load data yet.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const maxValue = Math.max(...loads.flatMap((day) => [day.fitness, day.fatigue]));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Training Load</CardTitle>
+        <CardDescription>As of {formatDate(latest.loadDate)}</CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6 md:grid-cols-2">
+        <div className="space-y-2">
+          <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+            Fitness / Fatigue / Form
+          </p>
+          <div className="space-y-1">
+            {metric("Fitness (CTL)", latest.fitness.toFixed(1))}
+            {metric("Fatigue (ATL)", latest.fatigue.toFixed(1))}
+            {metric("Form (TSB)", `${latest.form.toFixed(1)} (${describeForm(latest.form)})`)}
+          </div>
+          <svg
+            viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+            className="mt-3 h-16 w-full"
+            preserveAspectRatio="none"
+            role="img"
+            aria-label={`Fitness and fatigue over the last ${loads.length} days`}
+          >
+            <polyline
+              points={toPolyline(
+                loads.map((day) => day.fitness),
+                maxValue,
+              )}
+              fill="none"
+              stroke="currentColor"
+              strokeWidth={2}
+              className="text-primary"
+            />
+            <polyline
+              points={toPolyline(
+                loads.map((day) => day.fatigue),
+                maxValue,
+              )}
+              fill="none"
+              stroke="currentColor"
+              strokeWidth={1.5}
+              strokeDasharray="4 3"
+              className="text-muted-foreground"
+            />
+          </svg>
+          <p className="text-xs text-muted-foreground">
+            Solid: fitness. Dashed: fatigue. Last {loads.length} days.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+            Workload
+          </p>
+          <div className="space-y-1">
+            {metric("Acute (7-day avg)", `${latest.acuteLoad.toFixed(1)}/day`)}
+            {metric("Chronic (28-day avg)", `${latest.chronicLoad.toFixed(1)}/day`)}
+            {metric(
+              "Acute:chronic ratio",
+              latest.acwr !== null
+                ? `${latest.acwr.toFixed(2)} (${describeAcwr(latest.acwr)})`
+                : describeAcwr(null),
+            )}
+            {metric("Today's load", latest.load.toFixed(1))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,6 +3,8 @@ export type FitnessProfile = {
   predicted10kSeconds: number | null;
   predictedHalfSeconds: number | null;
   predictedMarathonSeconds: number | null;
+  vo2Max: number | null;
+  vdotSource: string | null;
   easyPaceLow: number | null;
   easyPaceHigh: number | null;
   tempoPace: number | null;
@@ -12,7 +14,17 @@ export type FitnessProfile = {
   weeklyVolumeAvgKm: number | null;
   longestRunKm: number | null;
   runningDistanceAvgKm: number | null;
+  weeklyTrainingMinutesAvg: number | null;
+  weeklyCrossTrainingMinutesAvg: number | null;
   racePredictionsLastUpdate: Date | null;
+  hrZoneMethod: string | null;
+  hrZones: HrZoneRow[] | null;
+};
+
+export type HrZoneRow = {
+  zone: number;
+  minBpm: number;
+  maxBpm: number;
 };
 
 export type HealthReading = {
@@ -35,6 +47,8 @@ export type ActivityRow = {
   activityDate: Date | null;
   activityName: string | null;
   activityType: string | null;
+  sportCategory: string | null;
+  source: string;
   distanceMeters: number | null;
   durationSeconds: number | null;
   averagePaceSecondsPerKm: number | null;
@@ -55,3 +69,32 @@ export type WorkoutRow = {
   garminWorkoutId: string | null;
   createdAt: Date;
 };
+
+export type SyncRunRow = {
+  id: number;
+  kind: string;
+  trigger: string;
+  status: string;
+  startDate: Date;
+  endDate: Date;
+  startedAt: Date;
+  durationMs: number | null;
+  activitiesSynced: number | null;
+  healthDaysSynced: number | null;
+  healthDaysExisting: number | null;
+  healthDaysSkipped: number | null;
+  fitnessSynced: boolean | null;
+  stageResultsJson: unknown;
+  errorMessage: string | null;
+};
+
+export type TrainingLoadRow = {
+  loadDate: Date;
+  load: number;
+  acuteLoad: number;
+  chronicLoad: number;
+  acwr: number | null;
+  fitness: number;
+  fatigue: number;
+  form: number;
+};
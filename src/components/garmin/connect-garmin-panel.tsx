@@ -11,6 +11,7 @@ import {
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { describeSyncJob, useSyncJob } from "@/components/garmin/use-sync-job";
 
 type ConnectGarminPanelProps = {
   initialConnected: boolean;
@@ -21,9 +22,6 @@ type ConnectGarminPanelProps = {
 type ApiResponse = {
   success: boolean;
   message: string;
-  activitiesSynced?: number;
-  healthDaysSynced?: number;
-  fitnessSynced?: boolean;
 };
 
 function toLocalDateInputValue(date: Date): string {
@@ -38,6 +36,7 @@ export function ConnectGarminPanel({
   const [connected, setConnected] = useState(initialConnected);
   const [garminEmail, setGarminEmail] = useState(initialUserEmail);
   const [garminPassword, setGarminPassword] = useState("");
+  const [storePassword, setStorePassword] = useState(true);
   const [lastSyncAt, setLastSyncAt] = useState<string | null>(initialLastSyncAt);
 
   const [startDate, setStartDate] = useState(() =>
@@ -46,8 +45,14 @@ export function ConnectGarminPanel({
   const [endDate, setEndDate] = useState(() => toLocalDateInputValue(new Date()));
 
   const [isConnecting, setIsConnecting] = useState(false);
-  const [isSyncing, setIsSyncing] = useState(false);
   const [isDisconnecting, setIsDisconnecting] = useState(false);
+  const {
+    job: syncJob,
+    isSyncing,
+    errorMessage: syncErrorMessage,
+    startSync,
+    startBackfill,
+  } = useSyncJob();
 
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
@@ -92,7 +97,11 @@ export function ConnectGarminPanel({
       const response = await fetch("/api/garmin/connect", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ email: garminEmail.trim(), password: garminPassword }),
+        body: JSON.stringify({
+          email: garminEmail.trim(),
+          password: garminPassword,
+          storePassword,
+        }),
       });
 
       const data = await parseResponse(response);
@@ -144,29 +153,19 @@ export function ConnectGarminPanel({
       return;
     }
 
-    setIsSyncing(true);
-
-    try {
-      const response = await fetch("/api/garmin/sync", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ startDate, endDate }),
-      });
-      const data = await parseResponse(response);
+    const finishedJob = await startSync({ startDate, endDate });
+    if (finishedJob?.status === "succeeded") {
+      setLastSyncAt(finishedJob.finishedAt ?? new Date().toISOString());
+    }
+  }
 
-      if (!response.ok || !data.success) {
-        setErrorMessage(data.message || "Garmin sync failed.");
-        return;
-      }
+  async function handleBackfill() {
+    setErrorMessage(null);
+    setStatusMessage(null);
 
-      setLastSyncAt(new Date().toISOString());
-      setStatusMessage(
-        `${data.message} Activities: ${data.activitiesSynced ?? 0}, Health days: ${data.healthDaysSynced ?? 0}, Fitness: ${data.fitnessSynced ? "yes" : "no"}.`,
-      );
-    } catch {
-      setErrorMessage("Garmin sync failed.");
-    } finally {
-      setIsSyncing(false);
+    const finishedJob = await startBackfill();
+    if (finishedJob?.status === "succeeded") {
+      setLastSyncAt(finishedJob.finishedAt ?? new Date().toISOString());
     }
   }
 
@@ -212,6 +211,19 @@ export function ConnectGarminPanel({
                 required
               />
             </div>
+            <div className="flex items-start gap-2">
+              <input
+                id="garmin-store-password"
+                type="checkbox"
+                className="mt-0.5 h-4 w-4 rounded border-border"
+                checked={storePassword}
+                onChange={(event) => setStorePassword(event.target.checked)}
+              />
+              <Label htmlFor="garmin-store-password" className="font-normal leading-snug">
+                Store my Garmin password (encrypted) so the app can sign in again if the saved
+                session expires. Without it you will need to reconnect when that happens.
+              </Label>
+            </div>
             <Button type="submit" disabled={isConnecting}>
               {isConnecting ? "Connecting..." : "Connect Garmin"}
             </Button>
@@ -245,6 +257,14 @@ export function ConnectGarminPanel({
               <Button onClick={handleSync} disabled={isSyncing}>
                 {isSyncing ? "Syncing..." : "Sync Garmin Data"}
               </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleBackfill}
+                disabled={isSyncing}
+              >
+                Backfill Full History
+              </Button>
               <Button
                 type="button"
                 variant="outline"
@@ -257,9 +277,15 @@ export function ConnectGarminPanel({
           </div>
         )}
 
-        {errorMessage && (
+        {(errorMessage ?? syncErrorMessage) && (
           <p className="rounded-md border border-destructive/40 bg-destructive/10 p-3 text-sm text-destructive">
-            {errorMessage}
+            {errorMessage ?? syncErrorMessage}
+          </p>
+        )}
+
+        {syncJob && syncJob.status !== "failed" && !statusMessage && (
+          <p className="rounded-md border border-primary/40 bg-primary/10 p-3 text-sm text-foreground">
+            {describeSyncJob(syncJob)}
           </p>
         )}
 
@@ -0,0 +1,196 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+type SyncStage = "activities" | "streams" | "health" | "fitness";
+
+type SyncStageProgress = {
+  status: "pending" | "running" | "succeeded" | "failed";
+  message?: string;
+  synced?: number | boolean;
+  completed?: number;
+  total?: number;
+};
+
+type BackfillProgress = {
+  monthsCompleted: number;
+  cursorDate: string | null;
+};
+
+export type SyncJobClient = {
+  id: number;
+  kind: "sync" | "incremental" | "backfill";
+  status: "queued" | "running" | "succeeded" | "failed";
+  startDate: string;
+  endDate: string;
+  currentStage: SyncStage | null;
+  progress: Record<SyncStage, SyncStageProgress> & { backfill?: BackfillProgress };
+  errorMessage: string | null;
+  finishedAt: string | null;
+};
+
+type SyncJobResponse = {
+  success: boolean;
+  message?: string;
+  jobId?: number;
+  job?: SyncJobClient;
+};
+
+type SyncRange = {
+  startDate: string;
+  endDate: string;
+};
+
+const POLL_INTERVAL_MS = 2_000;
+
+const STAGE_LABELS: Record<SyncStage, string> = {
+  activities: "Activities",
+  streams: "Streams",
+  health: "Health",
+  fitness: "Fitness",
+};
+
+function describeStage(stage: SyncStage, progress: SyncStageProgress): string {
+  const label = STAGE_LABELS[stage];
+
+  if (progress.status === "running") {
+    if (typeof progress.completed === "number" && typeof progress.total === "number") {
+      return `${label}: ${progress.completed}/${progress.total} days`;
+    }
+
+    return `${label}: running`;
+  }
+
+  if (progress.status === "succeeded") {
+    if (typeof progress.synced === "number") {
+      return `${label}: ${progress.synced}`;
+    }
+
+    if (typeof progress.synced === "boolean") {
+      return `${label}: ${progress.synced ? "yes" : "no"}`;
+    }
+
+    return `${label}: done`;
+  }
+
+  return `${label}: ${progress.status}`;
+}
+
+function describeBackfill(progress?: BackfillProgress): string {
+  if (!progress || progress.monthsCompleted === 0) {
+    return "";
+  }
+
+  const reached = progress.cursorDate ? ` back to ${progress.cursorDate.slice(0, 7)}` : "";
+  return ` ${progress.monthsCompleted} month(s) done${reached}.`;
+}
+
+export function describeSyncJob(job: SyncJobClient): string {
+  const label = job.kind === "backfill" ? "Garmin history backfill" : "Garmin sync";
+  const stages = (Object.keys(STAGE_LABELS) as SyncStage[])
+    .map((stage) => describeStage(stage, job.progress[stage]))
+    .join(", ");
+  const backfill = job.kind === "backfill" ? describeBackfill(job.progress.backfill) : "";
+
+  if (job.status === "queued") {
+    return `${label} queued.`;
+  }
+
+  if (job.status === "running") {
+    return `${label} running.${backfill} ${stages}.`;
+  }
+
+  if (job.status === "succeeded") {
+    return `${label} complete.${backfill} ${stages}.`;
+  }
+
+  return job.errorMessage ?? `${label} failed.`;
+}
+
+async function readResponse(response: Response): Promise<SyncJobResponse> {
+  try {
+    return (await response.json()) as SyncJobResponse;
+  } catch {
+    return { success: false, message: "Unexpected response from server." };
+  }
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function useSyncJob() {
+  const [job, setJob] = useState<SyncJobClient | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const mountedRef = useRef(true);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  async function runJob(url: string, range?: SyncRange): Promise<SyncJobClient | null> {
+    setErrorMessage(null);
+    setJob(null);
+    setIsSyncing(true);
+
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: range ? { "Content-Type": "application/json" } : undefined,
+        body: range ? JSON.stringify(range) : undefined,
+      });
+      const payload = await readResponse(response);
+
+      if (!response.ok || !payload.success || !payload.job) {
+        setErrorMessage(payload.message || "Garmin sync failed.");
+        return null;
+      }
+
+      let current = payload.job;
+      setJob(current);
+
+      while (mountedRef.current && (current.status === "queued" || current.status === "running")) {
+        await wait(POLL_INTERVAL_MS);
+
+        const pollResponse = await fetch(`/api/garmin/sync/${current.id}`);
+        const pollPayload = await readResponse(pollResponse);
+        if (!pollResponse.ok || !pollPayload.success || !pollPayload.job) {
+          setErrorMessage(pollPayload.message || "Unable to load sync status.");
+          return null;
+        }
+
+        current = pollPayload.job;
+        if (mountedRef.current) {
+          setJob(current);
+        }
+      }
+
+      if (current.status === "failed") {
+        setErrorMessage(current.errorMessage || "Garmin sync failed.");
+      }
+
+      return current;
+    } catch {
+      setErrorMessage("Garmin sync failed. Please retry.");
+      return null;
+    } finally {
+      if (mountedRef.current) {
+        setIsSyncing(false);
+      }
+    }
+  }
+
+  function startSync(range?: SyncRange): Promise<SyncJobClient | null> {
+    return runJob("/api/garmin/sync", range);
+  }
+
+  function startBackfill(): Promise<SyncJobClient | null> {
+    return runJob("/api/garmin/backfill");
+  }
+
+  return { job, isSyncing, errorMessage, startSync, startBackfill };
+}
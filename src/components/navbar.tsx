@@ -24,6 +24,21 @@ export async function Navbar() {
               <Button asChild variant="ghost" size="sm">
                 <Link href="/workout">Workout</Link>
               </Button>
+              <Button asChild variant="ghost" size="sm">
+                <Link href="/templates">Templates</Link>
+              </Button>
+              <Button asChild variant="ghost" size="sm">
+                <Link href="/calendar">Calendar</Link>
+              </Button>
+              <Button asChild variant="ghost" size="sm">
+                <Link href="/plan">Plan</Link>
+              </Button>
+              <Button asChild variant="ghost" size="sm">
+                <Link href="/races">Races</Link>
+              </Button>
+              <Button asChild variant="ghost" size="sm">
+                <Link href="/settings">Settings</Link>
+              </Button>
               <Button asChild variant="ghost" size="sm">
                 <Link href="/connect-garmin">Connect Garmin</Link>
               </Button>
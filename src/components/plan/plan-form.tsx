@@ -0,0 +1,302 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import type { PlanMutationApiResponse } from "@/components/plan/types";
+
+const DISTANCE_OPTIONS: Array<{ value: string; label: string; meters: number | null }> = [
+  { value: "5000", label: "5K", meters: 5000 },
+  { value: "10000", label: "10K", meters: 10000 },
+  { value: "21097.5", label: "Half marathon", meters: 21097.5 },
+  { value: "42195", label: "Marathon", meters: 42195 },
+  { value: "custom", label: "Other distance", meters: null },
+];
+
+// ISO weekday numbers, matching the API.
+const WEEKDAY_OPTIONS = [
+  { value: 1, label: "Mon" },
+  { value: 2, label: "Tue" },
+  { value: 3, label: "Wed" },
+  { value: 4, label: "Thu" },
+  { value: 5, label: "Fri" },
+  { value: 6, label: "Sat" },
+  { value: 7, label: "Sun" },
+];
+
+type PlanFormProps = {
+  hasActivePlan: boolean;
+};
+
+type FormState = {
+  goalRaceName: string;
+  goalRaceDate: string;
+  distance: string;
+  customDistanceKm: string;
+  goalTime: string;
+  availableDays: number[];
+  longRunDay: string;
+};
+
+type TextField = Exclude<keyof FormState, "availableDays">;
+
+function emptyForm(): FormState {
+  return {
+    goalRaceName: "",
+    goalRaceDate: "",
+    distance: "10000",
+    customDistanceKm: "",
+    goalTime: "",
+    availableDays: [2, 4, 6, 7],
+    longRunDay: "7",
+  };
+}
+
+// Accepts h:mm:ss or mm:ss.
+function parseGoalTime(value: string): number | null {
+  const match = /^(?:(\d+):)?(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const hours = Number(match[1] ?? 0);
+  const minutes = Number(match[2]);
+  const seconds = Number(match[3]);
+  if (seconds >= 60 || (match[1] !== undefined && minutes >= 60)) {
+    return null;
+  }
+
+  const total = hours * 3600 + minutes * 60 + seconds;
+  return total > 0 ? total : null;
+}
+
+export function PlanForm({ hasActivePlan }: PlanFormProps) {
+  const router = useRouter();
+
+  const [form, setForm] = useState<FormState>(emptyForm);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+
+  function updateField(field: TextField, value: string) {
+    setForm((current) => ({ ...current, [field]: value }));
+  }
+
+  function toggleDay(day: number) {
+    setForm((current) => {
+      const availableDays = current.availableDays.includes(day)
+        ? current.availableDays.filter((value) => value !== day)
+        : [...current.availableDays, day].sort((a, b) => a - b);
+
+      return {
+        ...current,
+        availableDays,
+        longRunDay: availableDays.includes(Number(current.longRunDay)) ? current.longRunDay : "",
+      };
+    });
+  }
+
+  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+
+    setErrorMessage(null);
+    setStatusMessage(null);
+
+    const goalDistanceMeters =
+      form.distance === "custom" ? Number(form.customDistanceKm) * 1000 : Number(form.distance);
+    if (!Number.isFinite(goalDistanceMeters) || goalDistanceMeters <= 0) {
+      setErrorMessage("Distance must be a positive number.");
+      return;
+    }
+
+    let goalTimeSeconds: number | null = null;
+    if (form.goalTime.trim()) {
+      goalTimeSeconds = parseGoalTime(form.goalTime);
+      if (!goalTimeSeconds) {
+        setErrorMessage("Enter the goal time as h:mm:ss or mm:ss.");
+        return;
+      }
+    }
+
+    if (form.availableDays.length < 2) {
+      setErrorMessage("Pick at least two training days.");
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch("/api/plans", {
+        method: "POST",
+        credentials: "include",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          goalRaceName: form.goalRaceName.trim() || null,
+          goalRaceDate: form.goalRaceDate,
+          goalDistanceMeters: Number(goalDistanceMeters.toFixed(1)),
+          goalTimeSeconds,
+          availableDays: form.availableDays,
+          longRunDay: form.longRunDay ? Number(form.longRunDay) : null,
+        }),
+      });
+
+      const payload = (await response.json()) as PlanMutationApiResponse;
+      if (!response.ok || !payload.success) {
+        setErrorMessage(payload.message || "Training plan generation failed.");
+        return;
+      }
+
+      setStatusMessage(payload.message);
+      setForm(emptyForm());
+      router.refresh();
+    } catch {
+      setErrorMessage("Training plan generation failed. Please retry.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{hasActivePlan ? "Start a New Plan" : "Create a Plan"}</CardTitle>
+        <CardDescription>
+          {hasActivePlan
+            ? "A new plan archives the current one and removes its upcoming unsent workouts."
+            : "Plans run from this week to race day, between 3 and 24 weeks."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form className="space-y-4" onSubmit={handleSubmit}>
+          <div className="space-y-2">
+            <Label htmlFor="plan-race-name">Goal race (optional)</Label>
+            <Input
+              id="plan-race-name"
+              value={form.goalRaceName}
+              onChange={(event) => updateField("goalRaceName", event.target.value)}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="plan-race-date">Race date</Label>
+            <Input
+              id="plan-race-date"
+              type="date"
+              value={form.goalRaceDate}
+              onChange={(event) => updateField("goalRaceDate", event.target.value)}
+              disabled={isSubmitting}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="plan-distance">Distance</Label>
+            <Select
+              id="plan-distance"
+              value={form.distance}
+              onChange={(event) => updateField("distance", event.target.value)}
+              disabled={isSubmitting}
+            >
+              {DISTANCE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </Select>
+            {form.distance === "custom" && (
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                inputMode="decimal"
+                placeholder="Distance in km"
+                value={form.customDistanceKm}
+                onChange={(event) => updateField("customDistanceKm", event.target.value)}
+                disabled={isSubmitting}
+              />
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="plan-goal-time">Target time (optional)</Label>
+            <Input
+              id="plan-goal-time"
+              placeholder="e.g. 48:00 or 3:45:00"
+              value={form.goalTime}
+              onChange={(event) => updateField("goalTime", event.target.value)}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-medium text-foreground">Training days</legend>
+            <div className="flex flex-wrap gap-3">
+              {WEEKDAY_OPTIONS.map((day) => (
+                <label
+                  key={day.value}
+                  className="flex items-center gap-1.5 text-sm text-foreground"
+                >
+                  <input
+                    type="checkbox"
+                    checked={form.availableDays.includes(day.value)}
+                    onChange={() => toggleDay(day.value)}
+                    disabled={isSubmitting}
+                  />
+                  {day.label}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <div className="space-y-2">
+            <Label htmlFor="plan-long-run-day">Long run day</Label>
+            <Select
+              id="plan-long-run-day"
+              value={form.longRunDay}
+              onChange={(event) => updateField("longRunDay", event.target.value)}
+              disabled={isSubmitting}
+            >
+              <option value="">Any training day</option>
+              {WEEKDAY_OPTIONS.filter((day) => form.availableDays.includes(day.value)).map(
+                (day) => (
+                  <option key={day.value} value={String(day.value)}>
+                    {day.label}
+                  </option>
+                ),
+              )}
+            </Select>
+          </div>
+
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? "Generating plan..." : "Generate Plan"}
+          </Button>
+
+          {errorMessage && (
+            <p className="rounded-md border border-destructive/40 bg-destructive/10 p-3 text-sm text-destructive">
+              {errorMessage}
+            </p>
+          )}
+
+          {statusMessage && (
+            <p className="rounded-md border border-primary/40 bg-primary/10 p-3 text-sm text-foreground">
+              {statusMessage}
+            </p>
+          )}
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
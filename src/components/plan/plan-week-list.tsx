@@ -0,0 +1,181 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import type {
+  PlanMutationApiResponse,
+  PlanPhase,
+  PlanWorkoutItem,
+  TrainingPlanItem,
+} from "@/components/plan/types";
+import { formatDate } from "@/lib/utils";
+
+const PHASE_LABELS: Record<PlanPhase, string> = {
+  base: "Base",
+  build: "Build",
+  peak: "Peak",
+  taper: "Taper",
+};
+
+type PlanWeekListProps = {
+  plan: TrainingPlanItem;
+  today: string;
+};
+
+function badgeVariant(status: string): "default" | "secondary" | "destructive" | "outline" {
+  const normalized = status.toLowerCase();
+  if (normalized === "uploaded" || normalized === "accepted") {
+    return "default";
+  }
+
+  if (normalized === "rejected") {
+    return "destructive";
+  }
+
+  if (normalized === "generated") {
+    return "secondary";
+  }
+
+  return "outline";
+}
+
+function addDays(dateOnly: string, days: number): string {
+  const date = new Date(`${dateOnly}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+function plannedDistanceKm(workouts: PlanWorkoutItem[]): number {
+  return workouts.reduce((total, workout) => total + (workout.totalDistanceKm ?? 0), 0);
+}
+
+export function PlanWeekList({ plan, today }: PlanWeekListProps) {
+  const router = useRouter();
+
+  const [regeneratingWeek, setRegeneratingWeek] = useState<number | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+
+  async function handleRegenerate(fromWeek: number) {
+    setErrorMessage(null);
+    setStatusMessage(null);
+    setRegeneratingWeek(fromWeek);
+
+    try {
+      const response = await fetch(`/api/plans/${plan.id}/regenerate`, {
+        method: "POST",
+        credentials: "include",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ fromWeek }),
+      });
+
+      const payload = (await response.json()) as PlanMutationApiResponse;
+      if (!response.ok || !payload.success) {
+        setErrorMessage(payload.message || "Regenerating the plan failed.");
+        return;
+      }
+
+      setStatusMessage(payload.message);
+      router.refresh();
+    } catch {
+      setErrorMessage("Regenerating the plan failed. Please retry.");
+    } finally {
+      setRegeneratingWeek(null);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {errorMessage && (
+        <p className="rounded-md border border-destructive/40 bg-destructive/10 p-3 text-sm text-destructive">
+          {errorMessage}
+        </p>
+      )}
+
+      {statusMessage && (
+        <p className="rounded-md border border-primary/40 bg-primary/10 p-3 text-sm text-foreground">
+          {statusMessage}
+        </p>
+      )}
+
+      {plan.weeks.map((week) => {
+        const workouts = plan.workouts.filter((workout) => workout.planWeek === week.week);
+        const weekEnd = addDays(week.startDate, 6);
+        // Weeks that are already over have nothing left to regenerate.
+        const isPast = weekEnd < today;
+
+        return (
+          <Card key={week.week}>
+            <CardHeader>
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div>
+                  <CardTitle>
+                    Week {week.week} · {PHASE_LABELS[week.phase]}
+                  </CardTitle>
+                  <CardDescription>
+                    {formatDate(week.startDate)} - {formatDate(weekEnd)} · target{" "}
+                    {week.targetDistanceKm} km · planned{" "}
+                    {plannedDistanceKm(workouts).toFixed(1)} km
+                  </CardDescription>
+                </div>
+                {!isPast && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRegenerate(week.week)}
+                    disabled={regeneratingWeek !== null}
+                  >
+                    {regeneratingWeek === week.week
+                      ? "Regenerating..."
+                      : "Regenerate from this week"}
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              {workouts.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No workouts scheduled.</p>
+              ) : (
+                <ul className="space-y-3">
+                  {workouts.map((workout) => (
+                    <li
+                      key={workout.id}
+                      className="flex flex-wrap items-start justify-between gap-3 rounded-md border border-border p-3"
+                    >
+                      <div className="space-y-1">
+                        <p className="text-sm font-medium text-foreground">{workout.title}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatDate(workout.scheduledDate)} · {workout.workoutType}
+                          {workout.totalDistanceKm !== null &&
+                            ` · ${workout.totalDistanceKm.toFixed(1)} km`}
+                          {workout.estimatedDurationMinutes !== null &&
+                            ` · ~${workout.estimatedDurationMinutes} min`}
+                        </p>
+                        {workout.aiDescription && (
+                          <p className="text-sm text-muted-foreground">{workout.aiDescription}</p>
+                        )}
+                      </div>
+                      <Badge variant={badgeVariant(workout.status)}>{workout.status}</Badge>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+export type PlanPhase = "base" | "build" | "peak" | "taper";
+
+export type PlanWeekItem = {
+  week: number;
+  startDate: string;
+  phase: PlanPhase;
+  targetDistanceKm: number;
+};
+
+export type PlanWorkoutItem = {
+  id: number;
+  title: string;
+  workoutType: string;
+  status: string;
+  aiDescription: string | null;
+  scheduledDate: string | null;
+  planWeek: number | null;
+  totalDistanceKm: number | null;
+  estimatedDurationMinutes: number | null;
+};
+
+export type TrainingPlanItem = {
+  id: number;
+  goalRaceName: string | null;
+  goalRaceDate: string;
+  goalDistanceMeters: number;
+  goalTimeSeconds: number | null;
+  availableDays: number[];
+  longRunDay: number | null;
+  weeks: PlanWeekItem[];
+  workouts: PlanWorkoutItem[];
+};
+
+export type PlanMutationApiResponse =
+  | { success: true; planId: number; workoutCount: number; message: string }
+  | { success: false; message: string };
@@ -0,0 +1,473 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import type { RaceResultApiResponse, RaceResultItem } from "@/components/races/types";
+import { formatDate, formatDistanceMeters, formatPaceSecondsPerKm } from "@/lib/utils";
+
+const DISTANCE_OPTIONS: Array<{ value: string; label: string; meters: number | null }> = [
+  { value: "5000", label: "5K", meters: 5000 },
+  { value: "10000", label: "10K", meters: 10000 },
+  { value: "21097.5", label: "Half marathon", meters: 21097.5 },
+  { value: "42195", label: "Marathon", meters: 42195 },
+  { value: "custom", label: "Other distance", meters: null },
+];
+
+const CONDITION_OPTIONS = [
+  { value: "", label: "Not recorded" },
+  { value: "ideal", label: "Ideal" },
+  { value: "hot", label: "Hot" },
+  { value: "cold", label: "Cold" },
+  { value: "windy", label: "Windy" },
+  { value: "wet", label: "Wet" },
+];
+
+const COURSE_OPTIONS = [
+  { value: "flat", label: "Flat" },
+  { value: "rolling", label: "Rolling" },
+  { value: "hilly", label: "Hilly" },
+  { value: "trail", label: "Trail" },
+];
+
+type RaceResultsManagerProps = {
+  raceResults: RaceResultItem[];
+};
+
+type FormState = {
+  raceName: string;
+  raceDate: string;
+  distance: string;
+  customDistanceKm: string;
+  time: string;
+  conditions: string;
+  courseProfile: string;
+  notes: string;
+};
+
+function todayDateOnly(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function emptyForm(): FormState {
+  return {
+    raceName: "",
+    raceDate: todayDateOnly(),
+    distance: "5000",
+    customDistanceKm: "",
+    time: "",
+    conditions: "",
+    courseProfile: "flat",
+    notes: "",
+  };
+}
+
+function formatRaceTime(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) {
+    return `${hours}:${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}`;
+  }
+
+  return `${minutes}:${String(seconds).padStart(2, "0")}`;
+}
+
+// Accepts h:mm:ss or mm:ss.
+function parseRaceTime(value: string): number | null {
+  const match = /^(?:(\d+):)?(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const hours = Number(match[1] ?? 0);
+  const minutes = Number(match[2]);
+  const seconds = Number(match[3]);
+  if (seconds >= 60 || (match[1] !== undefined && minutes >= 60)) {
+    return null;
+  }
+
+  const total = hours * 3600 + minutes * 60 + seconds;
+  return total > 0 ? total : null;
+}
+
+function toFormState(raceResult: RaceResultItem): FormState {
+  const preset = DISTANCE_OPTIONS.find((option) => option.meters === raceResult.distanceMeters);
+
+  return {
+    raceName: raceResult.raceName ?? "",
+    raceDate: raceResult.raceDate,
+    distance: preset ? preset.value : "custom",
+    customDistanceKm: preset ? "" : String(raceResult.distanceMeters / 1000),
+    time: formatRaceTime(raceResult.timeSeconds),
+    conditions: raceResult.conditions ?? "",
+    courseProfile: raceResult.courseProfile,
+    notes: raceResult.notes ?? "",
+  };
+}
+
+function optionLabel(options: Array<{ value: string; label: string }>, value: string | null) {
+  return options.find((option) => option.value === (value ?? ""))?.label ?? value ?? "-";
+}
+
+export function RaceResultsManager({ raceResults }: RaceResultsManagerProps) {
+  const router = useRouter();
+
+  const [form, setForm] = useState<FormState>(emptyForm);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+
+  function updateField(field: keyof FormState, value: string) {
+    setForm((current) => ({ ...current, [field]: value }));
+  }
+
+  function startEditing(raceResult: RaceResultItem) {
+    setEditingId(raceResult.id);
+    setForm(toFormState(raceResult));
+    setErrorMessage(null);
+    setStatusMessage(null);
+  }
+
+  function cancelEditing() {
+    setEditingId(null);
+    setForm(emptyForm());
+  }
+
+  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+
+    setErrorMessage(null);
+    setStatusMessage(null);
+
+    const distanceMeters =
+      form.distance === "custom" ? Number(form.customDistanceKm) * 1000 : Number(form.distance);
+    if (!Number.isFinite(distanceMeters) || distanceMeters <= 0) {
+      setErrorMessage("Distance must be a positive number.");
+      return;
+    }
+
+    const timeSeconds = parseRaceTime(form.time);
+    if (!timeSeconds) {
+      setErrorMessage("Enter the finish time as h:mm:ss or mm:ss.");
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(editingId ? `/api/races/${editingId}` : "/api/races", {
+        method: editingId ? "PUT" : "POST",
+        credentials: "include",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          raceName: form.raceName.trim() || null,
+          raceDate: form.raceDate,
+          distanceMeters: Number(distanceMeters.toFixed(1)),
+          timeSeconds,
+          conditions: form.conditions || null,
+          courseProfile: form.courseProfile,
+          notes: form.notes.trim() || null,
+        }),
+      });
+
+      const payload = (await response.json()) as RaceResultApiResponse;
+      if (!response.ok || !payload.success) {
+        setErrorMessage(payload.message || "Saving the race result failed.");
+        return;
+      }
+
+      setStatusMessage(payload.message);
+      setEditingId(null);
+      setForm(emptyForm());
+      router.refresh();
+    } catch {
+      setErrorMessage("Saving the race result failed. Please retry.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  async function handleDelete(raceResultId: number) {
+    setErrorMessage(null);
+    setStatusMessage(null);
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(`/api/races/${raceResultId}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+
+      const payload = (await response.json()) as RaceResultApiResponse;
+      if (!response.ok || !payload.success) {
+        setErrorMessage(payload.message || "Deleting the race result failed.");
+        return;
+      }
+
+      if (editingId === raceResultId) {
+        cancelEditing();
+      }
+      setStatusMessage(payload.message);
+      router.refresh();
+    } catch {
+      setErrorMessage("Deleting the race result failed. Please retry.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_minmax(0,2fr)]">
+      <Card>
+        <CardHeader>
+          <CardTitle>{editingId ? "Edit Race Result" : "Add Race Result"}</CardTitle>
+          <CardDescription>
+            Recent road races set your training paces ahead of Garmin predictions.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form className="space-y-4" onSubmit={handleSubmit}>
+            <div className="space-y-2">
+              <Label htmlFor="race-name">Race name (optional)</Label>
+              <Input
+                id="race-name"
+                value={form.raceName}
+                onChange={(event) => updateField("raceName", event.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="race-date">Date</Label>
+              <Input
+                id="race-date"
+                type="date"
+                max={todayDateOnly()}
+                value={form.raceDate}
+                onChange={(event) => updateField("raceDate", event.target.value)}
+                disabled={isSubmitting}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="race-distance">Distance</Label>
+              <Select
+                id="race-distance"
+                value={form.distance}
+                onChange={(event) => updateField("distance", event.target.value)}
+                disabled={isSubmitting}
+              >
+                {DISTANCE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </Select>
+              {form.distance === "custom" && (
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  inputMode="decimal"
+                  placeholder="Distance in km"
+                  value={form.customDistanceKm}
+                  onChange={(event) => updateField("customDistanceKm", event.target.value)}
+                  disabled={isSubmitting}
+                />
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="race-time">Finish time</Label>
+              <Input
+                id="race-time"
+                placeholder="e.g. 42:30 or 1:35:10"
+                value={form.time}
+                onChange={(event) => updateField("time", event.target.value)}
+                disabled={isSubmitting}
+                required
+              />
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="race-conditions">Conditions</Label>
+                <Select
+                  id="race-conditions"
+                  value={form.conditions}
+                  onChange={(event) => updateField("conditions", event.target.value)}
+                  disabled={isSubmitting}
+                >
+                  {CONDITION_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="race-course">Course</Label>
+                <Select
+                  id="race-course"
+                  value={form.courseProfile}
+                  onChange={(event) => updateField("courseProfile", event.target.value)}
+                  disabled={isSubmitting}
+                >
+                  {COURSE_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="race-notes">Notes (optional)</Label>
+              <Textarea
+                id="race-notes"
+                value={form.notes}
+                onChange={(event) => updateField("notes", event.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="flex flex-wrap gap-3">
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "Saving..." : editingId ? "Save Changes" : "Add Result"}
+              </Button>
+              {editingId && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={cancelEditing}
+                  disabled={isSubmitting}
+                >
+                  Cancel
+                </Button>
+              )}
+            </div>
+
+            {errorMessage && (
+              <p className="rounded-md border border-destructive/40 bg-destructive/10 p-3 text-sm text-destructive">
+                {errorMessage}
+              </p>
+            )}
+
+            {statusMessage && (
+              <p className="rounded-md border border-primary/40 bg-primary/10 p-3 text-sm text-foreground">
+                {statusMessage}
+              </p>
+            )}
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Race Log</CardTitle>
+          <CardDescription>
+            Trail races are kept in the log but never used for paces.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {raceResults.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No race results recorded yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Race</TableHead>
+                  <TableHead className="text-right">Time</TableHead>
+                  <TableHead className="text-right">Pace</TableHead>
+                  <TableHead className="text-right">VDOT</TableHead>
+                  <TableHead>Conditions</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {raceResults.map((raceResult) => (
+                  <TableRow key={raceResult.id}>
+                    <TableCell>{formatDate(raceResult.raceDate)}</TableCell>
+                    <TableCell>
+                      <p className="font-medium text-foreground">
+                        {raceResult.raceName ?? "Untitled race"}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDistanceMeters(raceResult.distanceMeters)} ·{" "}
+                        {optionLabel(COURSE_OPTIONS, raceResult.courseProfile)}
+                      </p>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatRaceTime(raceResult.timeSeconds)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatPaceSecondsPerKm(
+                        Math.round(raceResult.timeSeconds / (raceResult.distanceMeters / 1000)),
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {raceResult.vdot !== null ? raceResult.vdot.toFixed(1) : "-"}
+                    </TableCell>
+                    <TableCell>
+                      {raceResult.conditions
+                        ? optionLabel(CONDITION_OPTIONS, raceResult.conditions)
+                        : "-"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => startEditing(raceResult)}
+                          disabled={isSubmitting}
+                        >
+                          Edit
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleDelete(raceResult.id)}
+                          disabled={isSubmitting}
+                        >
+                          Delete
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+export type RaceResultItem = {
+  id: number;
+  raceName: string | null;
+  // YYYY-MM-DD
+  raceDate: string;
+  distanceMeters: number;
+  timeSeconds: number;
+  conditions: string | null;
+  courseProfile: string;
+  notes: string | null;
+  vdot: number | null;
+};
+
+export type RaceResultApiResponse =
+  | { success: true; message: string; raceResult?: unknown }
+  | { success: false; message: string };
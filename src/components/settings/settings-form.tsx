@@ -0,0 +1,366 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import type {
+  CurrentPaces,
+  HeartRateEstimates,
+  HrZoneItem,
+  HrZoneMethod,
+  SettingsApiResponse,
+  UserSettingsItem,
+} from "@/components/settings/types";
+import { formatPaceSecondsPerKm } from "@/lib/utils";
+
+type PaceOverrideField = Exclude<
+  keyof UserSettingsItem,
+  | "hrZoneMethod"
+  | "maxHeartRate"
+  | "restingHeartRate"
+  | "lactateThresholdHeartRate"
+  | "customHrZoneFloors"
+>;
+
+type HeartRateField = keyof HeartRateEstimates;
+
+const PACE_FIELDS: Array<{ field: PaceOverrideField; pace: keyof CurrentPaces; label: string }> = [
+  { field: "easyPaceLowOverride", pace: "easyPaceLow", label: "Easy (fast end)" },
+  { field: "easyPaceHighOverride", pace: "easyPaceHigh", label: "Easy (slow end)" },
+  { field: "longRunPaceOverride", pace: "longRunPace", label: "Long run" },
+  { field: "tempoPaceOverride", pace: "tempoPace", label: "Tempo" },
+  { field: "thresholdPaceOverride", pace: "thresholdPace", label: "Threshold" },
+  { field: "intervalPaceOverride", pace: "intervalPace", label: "Interval" },
+  { field: "repetitionPaceOverride", pace: "repetitionPace", label: "Repetition" },
+];
+
+const HEART_RATE_FIELDS: Array<{ field: HeartRateField; label: string }> = [
+  { field: "maxHeartRate", label: "Max heart rate (bpm)" },
+  { field: "restingHeartRate", label: "Resting heart rate (bpm)" },
+  { field: "lactateThresholdHeartRate", label: "Lactate threshold HR (bpm)" },
+];
+
+const HR_METHOD_OPTIONS: Array<{ value: HrZoneMethod; label: string }> = [
+  { value: "max_hr", label: "% of max heart rate" },
+  { value: "hrr", label: "% of heart rate reserve (Karvonen)" },
+  { value: "lthr", label: "% of lactate threshold heart rate" },
+  { value: "custom", label: "Custom zone boundaries" },
+];
+
+type SettingsFormProps = {
+  initialSettings: UserSettingsItem;
+  initialHrZoneMethod: HrZoneMethod | null;
+  initialHrZones: HrZoneItem[] | null;
+  currentPaces: CurrentPaces | null;
+  estimates: HeartRateEstimates;
+};
+
+function formatPaceInput(seconds: number | null): string {
+  if (seconds === null) {
+    return "";
+  }
+
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+// Accepts m:ss per km; blank means not pinned.
+function parsePaceInput(value: string): number | null | undefined {
+  const trimmed = value.trim();
+  if (trimmed === "") {
+    return null;
+  }
+
+  const match = /^(\d{1,2}):(\d{2})$/.exec(trimmed);
+  if (!match || Number(match[2]) >= 60) {
+    return undefined;
+  }
+
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+function parseBpmInput(value: string): number | null | undefined {
+  const trimmed = value.trim();
+  if (trimmed === "") {
+    return null;
+  }
+
+  const parsed = Number(trimmed);
+  return Number.isInteger(parsed) ? parsed : undefined;
+}
+
+export function SettingsForm({
+  initialSettings,
+  initialHrZoneMethod,
+  initialHrZones,
+  currentPaces,
+  estimates,
+}: SettingsFormProps) {
+  const router = useRouter();
+
+  const [paceInputs, setPaceInputs] = useState<Record<PaceOverrideField, string>>(() =>
+    Object.fromEntries(
+      PACE_FIELDS.map(({ field }) => [field, formatPaceInput(initialSettings[field])]),
+    ) as Record<PaceOverrideField, string>,
+  );
+  const [hrZoneMethod, setHrZoneMethod] = useState<HrZoneMethod>(initialSettings.hrZoneMethod);
+  const [heartRateInputs, setHeartRateInputs] = useState<Record<HeartRateField, string>>(() =>
+    Object.fromEntries(
+      HEART_RATE_FIELDS.map(({ field }) => [
+        field,
+        initialSettings[field] !== null ? String(initialSettings[field]) : "",
+      ]),
+    ) as Record<HeartRateField, string>,
+  );
+  const [zoneFloors, setZoneFloors] = useState<string[]>(() =>
+    Array.from({ length: 5 }, (_, index) =>
+      initialSettings.customHrZoneFloors[index] !== undefined
+        ? String(initialSettings.customHrZoneFloors[index])
+        : "",
+    ),
+  );
+  const [savedHrZoneMethod, setSavedHrZoneMethod] = useState<HrZoneMethod>(
+    initialSettings.hrZoneMethod,
+  );
+  const [zoneMethodInUse, setZoneMethodInUse] = useState<HrZoneMethod | null>(
+    initialHrZoneMethod,
+  );
+  const [hrZones, setHrZones] = useState<HrZoneItem[] | null>(initialHrZones);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+
+  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+
+    setErrorMessage(null);
+    setStatusMessage(null);
+
+    const paceOverrides: Partial<Record<PaceOverrideField, number | null>> = {};
+    for (const { field, label } of PACE_FIELDS) {
+      const parsed = parsePaceInput(paceInputs[field]);
+      if (parsed === undefined) {
+        setErrorMessage(`${label} pace must be m:ss per km, or blank to calculate it.`);
+        return;
+      }
+      paceOverrides[field] = parsed;
+    }
+
+    const heartRates: Partial<Record<HeartRateField, number | null>> = {};
+    for (const { field } of HEART_RATE_FIELDS) {
+      const parsed = parseBpmInput(heartRateInputs[field]);
+      if (parsed === undefined) {
+        setErrorMessage("Heart rates must be whole numbers in bpm.");
+        return;
+      }
+      heartRates[field] = parsed;
+    }
+
+    const floors = zoneFloors.map(parseBpmInput);
+    const filledFloors = floors.filter((floor): floor is number => typeof floor === "number");
+    if (floors.includes(undefined) || (filledFloors.length > 0 && filledFloors.length < 5)) {
+      setErrorMessage("Custom zones need a whole-number lower bound for each of the 5 zones.");
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch("/api/settings", {
+        method: "PUT",
+        credentials: "include",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          ...paceOverrides,
+          hrZoneMethod,
+          ...heartRates,
+          customHrZoneFloors: filledFloors,
+        }),
+      });
+
+      const payload = (await response.json()) as SettingsApiResponse;
+      if (!response.ok || !payload.success) {
+        setErrorMessage(payload.message || "Saving settings failed.");
+        return;
+      }
+
+      setSavedHrZoneMethod(payload.settings.hrZoneMethod);
+      setZoneMethodInUse(payload.hrZoneMethod);
+      setHrZones(payload.hrZones);
+      setStatusMessage(payload.message);
+      router.refresh();
+    } catch {
+      setErrorMessage("Saving settings failed. Please retry.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <form className="grid gap-6 lg:grid-cols-2" onSubmit={handleSubmit}>
+      <Card>
+        <CardHeader>
+          <CardTitle>Pace Zones</CardTitle>
+          <CardDescription>
+            Pin a pace to stop syncs and race results from changing it. Leave blank to use the
+            calculated pace.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {PACE_FIELDS.map(({ field, pace, label }) => (
+            <div key={field} className="grid grid-cols-[minmax(0,1fr)_8rem] items-center gap-3">
+              <div>
+                <Label htmlFor={field}>{label}</Label>
+                <p className="text-xs text-muted-foreground">
+                  Current: {formatPaceSecondsPerKm(currentPaces?.[pace] ?? null)}
+                </p>
+              </div>
+              <Input
+                id={field}
+                placeholder="Auto"
+                value={paceInputs[field]}
+                onChange={(event) =>
+                  setPaceInputs((current) => ({ ...current, [field]: event.target.value }))
+                }
+                disabled={isSubmitting}
+              />
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Heart Rate Zones</CardTitle>
+          <CardDescription>
+            Used for heart-rate targets in generated workouts and in the workout preview.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="hr-zone-method">Zone calculation</Label>
+            <Select
+              id="hr-zone-method"
+              value={hrZoneMethod}
+              onChange={(event) => setHrZoneMethod(event.target.value as HrZoneMethod)}
+              disabled={isSubmitting}
+            >
+              {HR_METHOD_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </Select>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            {HEART_RATE_FIELDS.map(({ field, label }) => (
+              <div key={field} className="space-y-2">
+                <Label htmlFor={field}>{label}</Label>
+                <Input
+                  id={field}
+                  type="number"
+                  inputMode="numeric"
+                  placeholder={
+                    estimates[field] !== null ? `Estimated ${estimates[field]}` : "Unknown"
+                  }
+                  value={heartRateInputs[field]}
+                  onChange={(event) =>
+                    setHeartRateInputs((current) => ({ ...current, [field]: event.target.value }))
+                  }
+                  disabled={isSubmitting}
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Leave a heart rate blank to use the estimate from your activities and resting HR
+            readings.
+          </p>
+
+          {hrZoneMethod === "custom" && (
+            <div className="space-y-2">
+              <Label>Zone lower bounds (bpm)</Label>
+              <div className="grid grid-cols-5 gap-2">
+                {zoneFloors.map((floor, index) => (
+                  <Input
+                    key={index}
+                    type="number"
+                    inputMode="numeric"
+                    aria-label={`Zone ${index + 1} lower bound`}
+                    placeholder={`Z${index + 1}`}
+                    value={floor}
+                    onChange={(event) =>
+                      setZoneFloors((current) =>
+                        current.map((value, position) =>
+                          position === index ? event.target.value : value,
+                        ),
+                      )
+                    }
+                    disabled={isSubmitting}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+              Saved zones
+            </p>
+            {hrZones && zoneMethodInUse && zoneMethodInUse !== savedHrZoneMethod && (
+              <p className="text-xs text-muted-foreground">
+                Using{" "}
+                {HR_METHOD_OPTIONS.find((option) => option.value === zoneMethodInUse)?.label}{" "}
+                until the heart rates for the saved method are known.
+              </p>
+            )}
+            {hrZones ? (
+              hrZones.map((zone) => (
+                <div key={zone.zone} className="flex items-center justify-between gap-4">
+                  <span className="text-sm text-muted-foreground">Zone {zone.zone}</span>
+                  <span className="text-sm font-medium text-foreground">
+                    {zone.minBpm}-{zone.maxBpm} bpm
+                  </span>
+                </div>
+              ))
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Sync activities with heart rate or set your max heart rate to see zones.
+              </p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="space-y-3 lg:col-span-2">
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? "Saving..." : "Save Settings"}
+        </Button>
+
+        {errorMessage && (
+          <p className="rounded-md border border-destructive/40 bg-destructive/10 p-3 text-sm text-destructive">
+            {errorMessage}
+          </p>
+        )}
+
+        {statusMessage && (
+          <p className="rounded-md border border-primary/40 bg-primary/10 p-3 text-sm text-foreground">
+            {statusMessage}
+          </p>
+        )}
+      </div>
+    </form>
+  );
+}
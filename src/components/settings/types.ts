@@ -0,0 +1,50 @@
+export type HrZoneMethod = "max_hr" | "hrr" | "lthr" | "custom";
+
+export type UserSettingsItem = {
+  easyPaceLowOverride: number | null;
+  easyPaceHighOverride: number | null;
+  longRunPaceOverride: number | null;
+  tempoPaceOverride: number | null;
+  thresholdPaceOverride: number | null;
+  intervalPaceOverride: number | null;
+  repetitionPaceOverride: number | null;
+  hrZoneMethod: HrZoneMethod;
+  maxHeartRate: number | null;
+  restingHeartRate: number | null;
+  lactateThresholdHeartRate: number | null;
+  customHrZoneFloors: number[];
+};
+
+export type HrZoneItem = {
+  zone: number;
+  minBpm: number;
+  maxBpm: number;
+};
+
+// Paces currently stored on the fitness profile, pinned or calculated.
+export type CurrentPaces = {
+  easyPaceLow: number | null;
+  easyPaceHigh: number | null;
+  longRunPace: number | null;
+  tempoPace: number | null;
+  thresholdPace: number | null;
+  intervalPace: number | null;
+  repetitionPace: number | null;
+};
+
+// Heart rates the zones fall back to when the matching setting is blank.
+export type HeartRateEstimates = {
+  maxHeartRate: number | null;
+  restingHeartRate: number | null;
+  lactateThresholdHeartRate: number | null;
+};
+
+export type SettingsApiResponse =
+  | {
+      success: true;
+      message: string;
+      settings: UserSettingsItem;
+      hrZoneMethod: HrZoneMethod | null;
+      hrZones: HrZoneItem[] | null;
+    }
+  | { success: false; message: string };
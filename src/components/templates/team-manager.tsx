@@ -0,0 +1,206 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { TeamApiResponse, TeamItem } from "@/components/templates/types";
+
+type TeamManagerProps = {
+  teams: TeamItem[];
+  currentUserId: number;
+};
+
+export function TeamManager({ teams, currentUserId }: TeamManagerProps) {
+  const router = useRouter();
+
+  const [teamName, setTeamName] = useState("");
+  const [memberEmails, setMemberEmails] = useState<Record<number, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+
+  async function sendRequest(
+    url: string,
+    init: RequestInit,
+    fallbackMessage: string,
+  ): Promise<boolean> {
+    setErrorMessage(null);
+    setStatusMessage(null);
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(url, { ...init, credentials: "include" });
+
+      const payload = (await response.json()) as TeamApiResponse;
+      if (!response.ok || !payload.success) {
+        setErrorMessage(payload.message || fallbackMessage);
+        return false;
+      }
+
+      setStatusMessage(payload.message);
+      router.refresh();
+      return true;
+    } catch {
+      setErrorMessage(`${fallbackMessage} Please retry.`);
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  async function handleCreateTeam(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+
+    const created = await sendRequest(
+      "/api/teams",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: teamName.trim() }),
+      },
+      "Creating the team failed.",
+    );
+    if (created) {
+      setTeamName("");
+    }
+  }
+
+  async function handleAddMember(event: FormEvent<HTMLFormElement>, teamId: number) {
+    event.preventDefault();
+
+    const added = await sendRequest(
+      `/api/teams/${teamId}/members`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: memberEmails[teamId] ?? "" }),
+      },
+      "Adding the team member failed.",
+    );
+    if (added) {
+      setMemberEmails({ ...memberEmails, [teamId]: "" });
+    }
+  }
+
+  async function handleRemoveMember(teamId: number, memberUserId: number) {
+    await sendRequest(
+      `/api/teams/${teamId}/members/${memberUserId}`,
+      { method: "DELETE" },
+      "Removing the team member failed.",
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Teams</CardTitle>
+        <CardDescription>
+          Templates shared to a team are visible to its members only. Add athletes by the email
+          they signed up with.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {errorMessage && (
+          <p className="rounded-md border border-destructive/40 bg-destructive/10 p-3 text-sm text-destructive">
+            {errorMessage}
+          </p>
+        )}
+
+        {statusMessage && (
+          <p className="rounded-md border border-primary/40 bg-primary/10 p-3 text-sm text-foreground">
+            {statusMessage}
+          </p>
+        )}
+
+        {teams.map((team) => (
+          <div key={team.id} className="space-y-3 rounded-md border border-border p-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="font-medium text-foreground">{team.name}</p>
+              <Badge variant={team.role === "owner" ? "secondary" : "outline"}>
+                {team.role === "owner" ? "Owner" : "Member"}
+              </Badge>
+            </div>
+
+            <ul className="space-y-2">
+              {team.members.map((member) => (
+                <li
+                  key={member.userId}
+                  className="flex flex-wrap items-center justify-between gap-2 text-sm"
+                >
+                  <span className="text-foreground">
+                    {member.email}
+                    {member.role === "owner" && (
+                      <span className="text-muted-foreground"> · owner</span>
+                    )}
+                  </span>
+                  {member.role !== "owner" &&
+                    (team.role === "owner" || member.userId === currentUserId) && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleRemoveMember(team.id, member.userId)}
+                        disabled={isSubmitting}
+                      >
+                        {member.userId === currentUserId ? "Leave" : "Remove"}
+                      </Button>
+                    )}
+                </li>
+              ))}
+            </ul>
+
+            {team.role === "owner" && (
+              <form
+                className="flex flex-wrap gap-2"
+                onSubmit={(event) => handleAddMember(event, team.id)}
+              >
+                <Input
+                  type="email"
+                  className="flex-1"
+                  placeholder="athlete@example.com"
+                  aria-label={`Add a member to ${team.name}`}
+                  value={memberEmails[team.id] ?? ""}
+                  onChange={(event) =>
+                    setMemberEmails({ ...memberEmails, [team.id]: event.target.value })
+                  }
+                  disabled={isSubmitting}
+                  required
+                />
+                <Button type="submit" size="sm" disabled={isSubmitting}>
+                  Add
+                </Button>
+              </form>
+            )}
+          </div>
+        ))}
+
+        <form className="space-y-2" onSubmit={handleCreateTeam}>
+          <Label htmlFor="team-name">New team</Label>
+          <div className="flex flex-wrap gap-2">
+            <Input
+              id="team-name"
+              className="flex-1"
+              placeholder="e.g. Tuesday track group"
+              value={teamName}
+              onChange={(event) => setTeamName(event.target.value)}
+              disabled={isSubmitting}
+              required
+            />
+            <Button type="submit" disabled={isSubmitting}>
+              Create Team
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,34 @@
+export type WorkoutTemplateItem = {
+  id: number;
+  name: string;
+  description: string | null;
+  workoutType: string;
+  definition: string;
+  teamId: number | null;
+  teamName: string | null;
+  isOwner: boolean;
+  // YYYY-MM-DD
+  updatedAt: string;
+};
+
+export type TeamMemberItem = {
+  userId: number;
+  email: string;
+  role: string;
+};
+
+export type TeamItem = {
+  id: number;
+  name: string;
+  // The viewer's role: "owner" or "member".
+  role: string;
+  members: TeamMemberItem[];
+};
+
+export type WorkoutTemplateApiResponse =
+  | { success: true; message: string; template?: unknown; workoutId?: number }
+  | { success: false; message: string };
+
+export type TeamApiResponse =
+  | { success: true; message: string; team?: unknown }
+  | { success: false; message: string };
@@ -0,0 +1,396 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import type {
+  TeamItem,
+  WorkoutTemplateApiResponse,
+  WorkoutTemplateItem,
+} from "@/components/templates/types";
+import type { WorkoutType } from "@/components/workout/types";
+import { formatDate } from "@/lib/utils";
+
+const WORKOUT_TYPE_OPTIONS: Array<{ value: WorkoutType; label: string }> = [
+  { value: "easy", label: "Easy" },
+  { value: "tempo", label: "Tempo" },
+  { value: "interval", label: "Interval" },
+  { value: "long-run", label: "Long Run" },
+  { value: "recovery", label: "Recovery" },
+];
+
+type WorkoutTemplateLibraryProps = {
+  templates: WorkoutTemplateItem[];
+  teams: TeamItem[];
+};
+
+type FormState = {
+  name: string;
+  workoutType: WorkoutType;
+  definition: string;
+  description: string;
+  // Select value: "" keeps the template private, otherwise the team id.
+  teamId: string;
+};
+
+function emptyForm(): FormState {
+  return {
+    name: "",
+    workoutType: "interval",
+    definition: "",
+    description: "",
+    teamId: "",
+  };
+}
+
+function toFormState(template: WorkoutTemplateItem): FormState {
+  const workoutType = WORKOUT_TYPE_OPTIONS.find(
+    (option) => option.value === template.workoutType,
+  );
+
+  return {
+    name: template.name,
+    workoutType: workoutType ? workoutType.value : "easy",
+    definition: template.definition,
+    description: template.description ?? "",
+    teamId: template.teamId === null ? "" : String(template.teamId),
+  };
+}
+
+function workoutTypeLabel(value: string): string {
+  return WORKOUT_TYPE_OPTIONS.find((option) => option.value === value)?.label ?? value;
+}
+
+export function WorkoutTemplateLibrary({ templates, teams }: WorkoutTemplateLibraryProps) {
+  const router = useRouter();
+
+  const [form, setForm] = useState<FormState>(emptyForm);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  const [createdWorkout, setCreatedWorkout] = useState(false);
+
+  function resetMessages() {
+    setErrorMessage(null);
+    setStatusMessage(null);
+    setCreatedWorkout(false);
+  }
+
+  function startEditing(template: WorkoutTemplateItem) {
+    setEditingId(template.id);
+    setForm(toFormState(template));
+    resetMessages();
+  }
+
+  function cancelEditing() {
+    setEditingId(null);
+    setForm(emptyForm());
+  }
+
+  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    resetMessages();
+
+    if (form.name.trim() === "" || form.definition.trim() === "") {
+      setErrorMessage("A template needs a name and steps.");
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(editingId ? `/api/templates/${editingId}` : "/api/templates", {
+        method: editingId ? "PUT" : "POST",
+        credentials: "include",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          name: form.name.trim(),
+          workoutType: form.workoutType,
+          definition: form.definition,
+          description: form.description.trim() || null,
+          teamId: form.teamId === "" ? null : Number(form.teamId),
+        }),
+      });
+
+      const payload = (await response.json()) as WorkoutTemplateApiResponse;
+      if (!response.ok || !payload.success) {
+        setErrorMessage(payload.message || "Saving the template failed.");
+        return;
+      }
+
+      setStatusMessage(payload.message);
+      setEditingId(null);
+      setForm(emptyForm());
+      router.refresh();
+    } catch {
+      setErrorMessage("Saving the template failed. Please retry.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  async function handleDelete(templateId: number) {
+    resetMessages();
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(`/api/templates/${templateId}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+
+      const payload = (await response.json()) as WorkoutTemplateApiResponse;
+      if (!response.ok || !payload.success) {
+        setErrorMessage(payload.message || "Deleting the template failed.");
+        return;
+      }
+
+      if (editingId === templateId) {
+        cancelEditing();
+      }
+      setStatusMessage(payload.message);
+      router.refresh();
+    } catch {
+      setErrorMessage("Deleting the template failed. Please retry.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  async function handleInstantiate(templateId: number) {
+    resetMessages();
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(`/api/templates/${templateId}/instantiate`, {
+        method: "POST",
+        credentials: "include",
+      });
+
+      const payload = (await response.json()) as WorkoutTemplateApiResponse;
+      if (!response.ok || !payload.success) {
+        setErrorMessage(payload.message || "Creating a workout from the template failed.");
+        return;
+      }
+
+      setStatusMessage(payload.message);
+      setCreatedWorkout(true);
+    } catch {
+      setErrorMessage("Creating a workout from the template failed. Please retry.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_minmax(0,2fr)]">
+      <Card>
+        <CardHeader>
+          <CardTitle>{editingId ? "Edit Template" : "New Template"}</CardTitle>
+          <CardDescription>
+            Steps use the workout builder syntax. Named paces stay relative, so the template fits
+            every athlete who uses it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form className="space-y-4" onSubmit={handleSubmit}>
+            <div className="space-y-2">
+              <Label htmlFor="template-name">Name</Label>
+              <Input
+                id="template-name"
+                placeholder="e.g. Cruise intervals"
+                value={form.name}
+                onChange={(event) => setForm({ ...form, name: event.target.value })}
+                disabled={isSubmitting}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="template-workout-type">Workout Type</Label>
+              <Select
+                id="template-workout-type"
+                value={form.workoutType}
+                onChange={(event) =>
+                  setForm({ ...form, workoutType: event.target.value as WorkoutType })
+                }
+                disabled={isSubmitting}
+              >
+                {WORKOUT_TYPE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="template-definition">Steps</Label>
+              <Textarea
+                id="template-definition"
+                className="font-mono"
+                placeholder="2km WU @E; 4x(1.6km @T, 1min jog); 10min CD @E+15"
+                value={form.definition}
+                onChange={(event) => setForm({ ...form, definition: event.target.value })}
+                disabled={isSubmitting}
+                required
+              />
+              <p className="text-xs text-muted-foreground">
+                Paces: @E, @L, @tempo, @T, @I, @R, @rec, optionally shifted like @E+15 or @T-5.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="template-description">Notes (optional)</Label>
+              <Textarea
+                id="template-description"
+                value={form.description}
+                onChange={(event) => setForm({ ...form, description: event.target.value })}
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="template-team">Share with</Label>
+              <Select
+                id="template-team"
+                value={form.teamId}
+                onChange={(event) => setForm({ ...form, teamId: event.target.value })}
+                disabled={isSubmitting}
+              >
+                <option value="">Only me</option>
+                {teams.map((team) => (
+                  <option key={team.id} value={String(team.id)}>
+                    {team.name}
+                  </option>
+                ))}
+              </Select>
+            </div>
+
+            <div className="flex flex-wrap gap-3">
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "Saving..." : editingId ? "Save Changes" : "Save Template"}
+              </Button>
+              {editingId && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={cancelEditing}
+                  disabled={isSubmitting}
+                >
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Library</CardTitle>
+          <CardDescription>
+            Your templates first, then the ones teammates shared. &quot;Use&quot; creates a
+            workout with your current paces, ready to accept.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {errorMessage && (
+            <p className="rounded-md border border-destructive/40 bg-destructive/10 p-3 text-sm text-destructive">
+              {errorMessage}
+            </p>
+          )}
+
+          {statusMessage && (
+            <p className="rounded-md border border-primary/40 bg-primary/10 p-3 text-sm text-foreground">
+              {statusMessage}{" "}
+              {createdWorkout && (
+                <Link href="/workout" className="font-medium underline">
+                  Open Workout
+                </Link>
+              )}
+            </p>
+          )}
+
+          {templates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No templates yet.</p>
+          ) : (
+            templates.map((template) => (
+              <div key={template.id} className="space-y-2 rounded-md border border-border p-3">
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div>
+                    <p className="font-medium text-foreground">{template.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {workoutTypeLabel(template.workoutType)} · updated{" "}
+                      {formatDate(template.updatedAt)}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {template.teamName && (
+                      <Badge variant={template.isOwner ? "secondary" : "outline"}>
+                        {template.teamName}
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+
+                <p className="break-words font-mono text-xs text-foreground">
+                  {template.definition}
+                </p>
+                {template.description && (
+                  <p className="text-sm text-muted-foreground">{template.description}</p>
+                )}
+
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    size="sm"
+                    onClick={() => handleInstantiate(template.id)}
+                    disabled={isSubmitting}
+                  >
+                    Use
+                  </Button>
+                  {template.isOwner && (
+                    <>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => startEditing(template)}
+                        disabled={isSubmitting}
+                      >
+                        Edit
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleDelete(template.id)}
+                        disabled={isSubmitting}
+                      >
+                        Delete
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -28,3 +28,39 @@ export type GenerateWorkoutApiError = {
 export type GenerateWorkoutApiResponse =
   | GenerateWorkoutApiSuccess
   | GenerateWorkoutApiError;
+
+// The user's effective training paces, used to name the zone a pace target falls in.
+export type PaceZoneItem = {
+  name: string;
+  paceSecondsPerKm: number;
+};
+
+export type HrZoneRange = {
+  zone: number;
+  minBpm: number;
+  maxBpm: number;
+};
+
+export type WorkoutVersionItem = {
+  version: number;
+  workoutJson: unknown;
+  totalDistanceKm: number | null;
+  estimatedDurationMinutes: number | null;
+  createdAt: string;
+};
+
+export type WorkoutEditApiResponse =
+  | {
+      success: true;
+      message: string;
+      workoutId: number;
+      workout: unknown;
+      version: number;
+      totalDistanceKm: number | null;
+      estimatedDurationMinutes: number | null;
+    }
+  | {
+      success: false;
+      message: string;
+      errors?: Array<{ path: string; message: string }>;
+    };
@@ -0,0 +1,182 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import type { GenerateWorkoutApiResponse, WorkoutType } from "@/components/workout/types";
+
+const WORKOUT_TYPE_OPTIONS: Array<{ value: WorkoutType; label: string }> = [
+  { value: "easy", label: "Easy" },
+  { value: "tempo", label: "Tempo" },
+  { value: "interval", label: "Interval" },
+  { value: "long-run", label: "Long Run" },
+  { value: "recovery", label: "Recovery" },
+];
+
+const SYNTAX_HELP = [
+  { example: "2km, 800m, 10min, 90s, 4:00", meaning: "Step distance or duration" },
+  { example: "WU, CD, jog, rest", meaning: "Warm-up, cool-down, recovery, rest (default: run)" },
+  { example: "@E @L @tempo @T @I @R @rec", meaning: "Your stored training paces" },
+  { example: "@E+15 or @T-5", meaning: "A stored pace shifted by seconds per km" },
+  { example: "@4:30 or @4:20-4:35", meaning: "An exact pace or pace range per km" },
+  { example: "6x(800m @I, 400m jog)", meaning: "Repeat a group of steps" },
+];
+
+export function WorkoutBuilderForm() {
+  const router = useRouter();
+
+  const [workoutType, setWorkoutType] = useState<WorkoutType>("interval");
+  const [title, setTitle] = useState("");
+  const [definition, setDefinition] = useState("");
+  const [description, setDescription] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+
+  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+
+    setErrorMessage(null);
+    setStatusMessage(null);
+
+    if (definition.trim() === "") {
+      setErrorMessage("Write the workout steps first.");
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch("/api/workout/build", {
+        method: "POST",
+        credentials: "include",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          workoutType,
+          title: title.trim() || undefined,
+          definition,
+          description: description.trim() || undefined,
+        }),
+      });
+
+      const payload = (await response.json()) as GenerateWorkoutApiResponse;
+      if (!response.ok || !payload.success) {
+        setErrorMessage(
+          payload.success ? "Building the workout failed." : payload.message,
+        );
+        return;
+      }
+
+      setStatusMessage(`Workout built (ID: ${payload.workoutId}).`);
+      router.refresh();
+    } catch {
+      setErrorMessage("Building the workout failed. Please retry.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Build Workout</CardTitle>
+        <CardDescription>
+          Write the exact session yourself. Paces come from your training paces, no AI involved.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form className="space-y-4" onSubmit={handleSubmit}>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="builder-title">Title (optional)</Label>
+              <Input
+                id="builder-title"
+                placeholder="e.g. 6 x 800m"
+                value={title}
+                onChange={(event) => setTitle(event.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="builder-workout-type">Workout Type</Label>
+              <Select
+                id="builder-workout-type"
+                value={workoutType}
+                onChange={(event) => setWorkoutType(event.target.value as WorkoutType)}
+                disabled={isSubmitting}
+              >
+                {WORKOUT_TYPE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="builder-definition">Steps</Label>
+            <Textarea
+              id="builder-definition"
+              className="font-mono"
+              placeholder="2km WU @E; 6x(800m @I, 400m jog); 1.5km CD"
+              value={definition}
+              onChange={(event) => setDefinition(event.target.value)}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <dl className="grid gap-1 rounded-md border border-border p-3 text-xs sm:grid-cols-[auto_1fr] sm:gap-x-4">
+            {SYNTAX_HELP.map((item) => (
+              <div key={item.example} className="contents">
+                <dt className="font-mono text-foreground">{item.example}</dt>
+                <dd className="text-muted-foreground">{item.meaning}</dd>
+              </div>
+            ))}
+          </dl>
+
+          <div className="space-y-2">
+            <Label htmlFor="builder-description">Notes (optional)</Label>
+            <Textarea
+              id="builder-description"
+              placeholder="e.g. Flat loop, keep the recoveries truly easy"
+              value={description}
+              onChange={(event) => setDescription(event.target.value)}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? "Building..." : "Build Workout"}
+          </Button>
+
+          {errorMessage && (
+            <p className="rounded-md border border-destructive/40 bg-destructive/10 p-3 text-sm text-destructive">
+              {errorMessage}
+            </p>
+          )}
+
+          {statusMessage && (
+            <p className="rounded-md border border-primary/40 bg-primary/10 p-3 text-sm text-foreground">
+              {statusMessage}
+            </p>
+          )}
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,37 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { WorkoutBuilderForm } from "@/components/workout/workout-builder-form";
+import { WorkoutForm } from "@/components/workout/workout-form";
+
+type WorkoutFormMode = "ai" | "builder";
+
+export function WorkoutFormPanel() {
+  const [mode, setMode] = useState<WorkoutFormMode>("ai");
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          size="sm"
+          variant={mode === "ai" ? "default" : "outline"}
+          onClick={() => setMode("ai")}
+        >
+          AI
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant={mode === "builder" ? "default" : "outline"}
+          onClick={() => setMode("builder")}
+        >
+          Builder
+        </Button>
+      </div>
+
+      {mode === "ai" ? <WorkoutForm /> : <WorkoutBuilderForm />}
+    </div>
+  );
+}
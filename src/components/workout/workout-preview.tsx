@@ -8,11 +8,19 @@ import {
 } from "@/components/ui/card";
 import { formatDateTime } from "@/lib/utils";
 import { WorkoutStepList } from "@/components/workout/workout-step-list";
-import type { WorkoutPreviewItem } from "@/components/workout/types";
+import type {
+  HrZoneRange,
+  PaceZoneItem,
+  WorkoutPreviewItem,
+} from "@/components/workout/types";
 
 type WorkoutPreviewProps = {
   workout: WorkoutPreviewItem | null;
   actions?: React.ReactNode;
+  // Replaces the read-only step list, e.g. with the step editor for workouts not yet uploaded.
+  steps?: React.ReactNode;
+  paceZones?: PaceZoneItem[];
+  hrZones?: HrZoneRange[] | null;
 };
 
 function badgeVariant(status: string): "default" | "secondary" | "destructive" | "outline" {
@@ -32,7 +40,13 @@ function badgeVariant(status: string): "default" | "secondary" | "destructive" |
   return "outline";
 }
 
-export function WorkoutPreview({ workout, actions }: WorkoutPreviewProps) {
+export function WorkoutPreview({
+  workout,
+  actions,
+  steps,
+  paceZones,
+  hrZones,
+}: WorkoutPreviewProps) {
   if (!workout) {
     return (
       <Card>
@@ -96,7 +110,13 @@ export function WorkoutPreview({ workout, actions }: WorkoutPreviewProps) {
 
         <div>
           <p className="mb-2 text-xs uppercase tracking-wide text-muted-foreground">Workout Steps</p>
-          <WorkoutStepList workoutJson={workout.workoutJson} />
+          {steps ?? (
+            <WorkoutStepList
+              workoutJson={workout.workoutJson}
+              paceZones={paceZones}
+              hrZones={hrZones}
+            />
+          )}
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,371 @@
+// Editable form of a Garmin workout. Amounts and targets stay as the strings the user typed until
+// the draft is turned back into workout JSON; the server validator fills in the reference ids.
+
+export type DraftStepType = "warmup" | "cooldown" | "interval" | "recovery" | "rest";
+
+export type DraftEndCondition = "time" | "distance";
+
+export type DraftTargetType = "no.target" | "pace.zone" | "heart.rate.zone" | "cadence";
+
+export type DraftStep = {
+  kind: "step";
+  key: string;
+  stepType: DraftStepType;
+  endCondition: DraftEndCondition;
+  // "m:ss" for time steps, meters for distance steps.
+  amount: string;
+  targetType: DraftTargetType;
+  // Pace targets: the slower and faster pace as "m:ss" per km. Cadence: steps per minute.
+  targetLow: string;
+  targetHigh: string;
+  zoneNumber: string;
+  description: string;
+};
+
+export type DraftRepeat = {
+  kind: "repeat";
+  key: string;
+  iterations: string;
+  steps: DraftStep[];
+};
+
+export type DraftItem = DraftStep | DraftRepeat;
+
+export type WorkoutDraft = {
+  name: string;
+  description: string;
+  segments: DraftItem[][];
+};
+
+export type DraftConversion =
+  | { success: true; workoutJson: Record<string, unknown> }
+  | { success: false; message: string };
+
+export const DRAFT_STEP_TYPES: Array<{ value: DraftStepType; label: string }> = [
+  { value: "warmup", label: "Warm-up" },
+  { value: "interval", label: "Interval" },
+  { value: "recovery", label: "Recovery" },
+  { value: "rest", label: "Rest" },
+  { value: "cooldown", label: "Cool-down" },
+];
+
+export const DRAFT_TARGET_TYPES: Array<{ value: DraftTargetType; label: string }> = [
+  { value: "no.target", label: "No target" },
+  { value: "pace.zone", label: "Pace" },
+  { value: "heart.rate.zone", label: "HR zone" },
+  { value: "cadence", label: "Cadence" },
+];
+
+const EXECUTABLE_STEP = "ExecutableStepDTO";
+const REPEAT_GROUP = "RepeatGroupDTO";
+
+let draftKeyCounter = 0;
+
+function nextDraftKey(): string {
+  draftKeyCounter += 1;
+  return `draft-${draftKeyCounter}`;
+}
+
+function asObject(value: unknown): Record<string, unknown> | null {
+  if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+    return value as Record<string, unknown>;
+  }
+
+  return null;
+}
+
+function asNumber(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+function referenceKey(value: unknown, field: string): string | null {
+  const key = asObject(value)?.[field];
+  return typeof key === "string" ? key : null;
+}
+
+function isDraftStepType(value: unknown): value is DraftStepType {
+  return DRAFT_STEP_TYPES.some((option) => option.value === value);
+}
+
+function isDraftTargetType(value: unknown): value is DraftTargetType {
+  return DRAFT_TARGET_TYPES.some((option) => option.value === value);
+}
+
+function formatClock(totalSeconds: number): string {
+  const seconds = Math.round(totalSeconds);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+// "m:ss", "h:mm:ss" or plain seconds.
+function parseClock(value: string): number | null {
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed);
+  }
+
+  if (!/^\d+(:[0-5]\d){1,2}$/.test(trimmed)) {
+    return null;
+  }
+
+  return trimmed.split(":").reduce((total, part) => total * 60 + Number(part), 0);
+}
+
+function formatPace(speedMetersPerSecond: number): string {
+  return formatClock(1000 / speedMetersPerSecond);
+}
+
+export function createDraftStep(stepType: DraftStepType = "interval"): DraftStep {
+  return {
+    kind: "step",
+    key: nextDraftKey(),
+    stepType,
+    endCondition: "time",
+    amount: "5:00",
+    targetType: "no.target",
+    targetLow: "",
+    targetHigh: "",
+    zoneNumber: "",
+    description: "",
+  };
+}
+
+export function createDraftRepeat(): DraftRepeat {
+  return {
+    kind: "repeat",
+    key: nextDraftKey(),
+    iterations: "4",
+    steps: [
+      { ...createDraftStep("interval"), endCondition: "distance", amount: "400" },
+      { ...createDraftStep("recovery"), amount: "1:30" },
+    ],
+  };
+}
+
+function toDraftStep(step: Record<string, unknown>): DraftStep {
+  const stepTypeKey = referenceKey(step.stepType, "stepTypeKey");
+  const conditionKey = referenceKey(step.endCondition, "conditionTypeKey");
+  const targetKey = referenceKey(step.targetType, "workoutTargetTypeKey");
+  const value = asNumber(step.endConditionValue);
+  const low = asNumber(step.targetValueOne);
+  const high = asNumber(step.targetValueTwo);
+  const zone = asNumber(step.zoneNumber);
+
+  const draft: DraftStep = {
+    ...createDraftStep(isDraftStepType(stepTypeKey) ? stepTypeKey : "interval"),
+    endCondition: conditionKey === "distance" ? "distance" : "time",
+    // Lap-button and other open-ended steps come in blank and must be given a length.
+    amount: "",
+    targetType: isDraftTargetType(targetKey) ? targetKey : "no.target",
+    zoneNumber: zone !== null ? String(zone) : "",
+    description: typeof step.description === "string" ? step.description : "",
+  };
+
+  if (value !== null && value > 0) {
+    if (conditionKey === "distance") {
+      draft.amount = String(Math.round(value));
+    } else if (conditionKey === "time") {
+      draft.amount = formatClock(value);
+    }
+  }
+
+  if (low !== null && high !== null) {
+    if (draft.targetType === "pace.zone" && low > 0 && high > 0) {
+      draft.targetLow = formatPace(Math.min(low, high));
+      draft.targetHigh = formatPace(Math.max(low, high));
+    } else if (draft.targetType === "cadence") {
+      draft.targetLow = String(Math.round(Math.min(low, high)));
+      draft.targetHigh = String(Math.round(Math.max(low, high)));
+    }
+  }
+
+  return draft;
+}
+
+function getSteps(container: Record<string, unknown>): Array<Record<string, unknown>> {
+  return Array.isArray(container.workoutSteps)
+    ? container.workoutSteps
+        .map(asObject)
+        .filter((step): step is Record<string, unknown> => step !== null)
+    : [];
+}
+
+function getSegments(workoutJson: unknown): Array<Record<string, unknown>> {
+  const segments = asObject(workoutJson)?.workoutSegments;
+  return Array.isArray(segments)
+    ? segments
+        .map(asObject)
+        .filter((segment): segment is Record<string, unknown> => segment !== null)
+    : [];
+}
+
+export function toWorkoutDraft(workoutJson: unknown): WorkoutDraft {
+  const workout = asObject(workoutJson) ?? {};
+  const segments = getSegments(workoutJson);
+
+  return {
+    name: typeof workout.workoutName === "string" ? workout.workoutName : "",
+    description: typeof workout.description === "string" ? workout.description : "",
+    segments: (segments.length > 0 ? segments : [{}]).map((segment) =>
+      getSteps(segment).map((step): DraftItem => {
+        if (step.type === REPEAT_GROUP || Array.isArray(step.workoutSteps)) {
+          const iterations = asNumber(step.numberOfIterations) ?? asNumber(step.endConditionValue);
+          return {
+            kind: "repeat",
+            key: nextDraftKey(),
+            iterations: iterations !== null ? String(iterations) : "",
+            steps: getSteps(step).map(toDraftStep),
+          };
+        }
+
+        return toDraftStep(step);
+      }),
+    ),
+  };
+}
+
+function stepLabel(position: string, step: DraftStep): string {
+  const type = DRAFT_STEP_TYPES.find((option) => option.value === step.stepType)?.label;
+  return `Step ${position} (${type ?? step.stepType})`;
+}
+
+function fromDraftStep(
+  step: DraftStep,
+  stepOrder: number,
+  position: string,
+): { success: true; step: Record<string, unknown> } | { success: false; message: string } {
+  const label = stepLabel(position, step);
+  const amount =
+    step.endCondition === "time" ? parseClock(step.amount) : Number(step.amount.trim());
+  if (amount === null || !Number.isFinite(amount) || amount <= 0) {
+    return {
+      success: false,
+      message:
+        step.endCondition === "time"
+          ? `${label}: enter a duration such as 5:00.`
+          : `${label}: enter a distance in meters such as 800.`,
+    };
+  }
+
+  const garminStep: Record<string, unknown> = {
+    type: EXECUTABLE_STEP,
+    stepOrder,
+    stepType: { stepTypeKey: step.stepType },
+    endCondition: { conditionTypeKey: step.endCondition },
+    endConditionValue: amount,
+    targetType: { workoutTargetTypeKey: step.targetType },
+  };
+
+  if (step.description.trim() !== "") {
+    garminStep.description = step.description.trim();
+  }
+
+  if (step.targetType === "heart.rate.zone") {
+    const zone = Number(step.zoneNumber);
+    if (!Number.isInteger(zone) || zone < 1 || zone > 5) {
+      return { success: false, message: `${label}: pick a heart rate zone from 1 to 5.` };
+    }
+    garminStep.zoneNumber = zone;
+  }
+
+  if (step.targetType === "pace.zone") {
+    const slowPace = parseClock(step.targetLow);
+    const fastPace = parseClock(step.targetHigh);
+    if (!slowPace || !fastPace) {
+      return { success: false, message: `${label}: enter both paces per km, such as 5:10.` };
+    }
+    // Garmin wants speeds in m/s with the slower pace first.
+    garminStep.targetValueOne = Number((1000 / Math.max(slowPace, fastPace)).toFixed(3));
+    garminStep.targetValueTwo = Number((1000 / Math.min(slowPace, fastPace)).toFixed(3));
+  }
+
+  if (step.targetType === "cadence") {
+    const low = Number(step.targetLow);
+    const high = Number(step.targetHigh);
+    if (step.targetLow.trim() === "" || step.targetHigh.trim() === "" || !low || !high) {
+      return { success: false, message: `${label}: enter a cadence range such as 170-180.` };
+    }
+    garminStep.targetValueOne = Math.min(low, high);
+    garminStep.targetValueTwo = Math.max(low, high);
+  }
+
+  return { success: true, step: garminStep };
+}
+
+// Rebuilds the workout JSON from the draft, keeping the top-level fields of the original (sport
+// type, previous estimates) so the server can recompute from a sensible fallback pace.
+export function fromWorkoutDraft(draft: WorkoutDraft, original: unknown): DraftConversion {
+  if (draft.name.trim() === "") {
+    return { success: false, message: "The workout needs a name." };
+  }
+
+  const workoutSegments: Array<Record<string, unknown>> = [];
+  for (const [segmentIndex, items] of draft.segments.entries()) {
+    if (items.length === 0) {
+      return { success: false, message: "Every segment needs at least one step." };
+    }
+
+    const workoutSteps: Array<Record<string, unknown>> = [];
+    for (const [index, item] of items.entries()) {
+      const position = String(index + 1);
+
+      if (item.kind === "step") {
+        const converted = fromDraftStep(item, index + 1, position);
+        if (!converted.success) {
+          return converted;
+        }
+        workoutSteps.push(converted.step);
+        continue;
+      }
+
+      const iterations = Number(item.iterations);
+      if (!Number.isInteger(iterations) || iterations < 1 || iterations > 50) {
+        return {
+          success: false,
+          message: `Repeat ${position}: repeat between 1 and 50 times.`,
+        };
+      }
+
+      if (item.steps.length === 0) {
+        return { success: false, message: `Repeat ${position} needs at least one step.` };
+      }
+
+      const nestedSteps: Array<Record<string, unknown>> = [];
+      for (const [childIndex, child] of item.steps.entries()) {
+        const converted = fromDraftStep(child, childIndex + 1, `${position}.${childIndex + 1}`);
+        if (!converted.success) {
+          return converted;
+        }
+        nestedSteps.push(converted.step);
+      }
+
+      workoutSteps.push({
+        type: REPEAT_GROUP,
+        stepOrder: index + 1,
+        numberOfIterations: iterations,
+        smartRepeat: false,
+        endCondition: { conditionTypeKey: "iterations" },
+        endConditionValue: iterations,
+        workoutSteps: nestedSteps,
+      });
+    }
+
+    workoutSegments.push({
+      ...getSegments(original)[segmentIndex],
+      segmentOrder: segmentIndex + 1,
+      workoutSteps,
+    });
+  }
+
+  const workoutJson: Record<string, unknown> = {
+    ...asObject(original),
+    workoutName: draft.name.trim(),
+    workoutSegments,
+  };
+  if (draft.description.trim() !== "") {
+    workoutJson.description = draft.description.trim();
+  } else {
+    delete workoutJson.description;
+  }
+
+  return { success: true, workoutJson };
+}
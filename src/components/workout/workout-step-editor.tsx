@@ -0,0 +1,598 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { WorkoutStepList } from "@/components/workout/workout-step-list";
+import {
+  DRAFT_STEP_TYPES,
+  DRAFT_TARGET_TYPES,
+  createDraftRepeat,
+  createDraftStep,
+  fromWorkoutDraft,
+  toWorkoutDraft,
+  type DraftEndCondition,
+  type DraftItem,
+  type DraftStep,
+  type DraftStepType,
+  type DraftTargetType,
+  type WorkoutDraft,
+} from "@/components/workout/workout-step-draft";
+import type {
+  HrZoneRange,
+  PaceZoneItem,
+  WorkoutEditApiResponse,
+  WorkoutVersionItem,
+} from "@/components/workout/types";
+import { formatDateTime } from "@/lib/utils";
+
+type WorkoutStepEditorProps = {
+  workoutId: number;
+  workoutJson: unknown;
+  versions: WorkoutVersionItem[];
+  paceZones?: PaceZoneItem[];
+  hrZones?: HrZoneRange[] | null;
+};
+
+// Where a step sits: its segment, its top-level position, and its position inside a repeat.
+type StepPath = {
+  segment: number;
+  index: number;
+  child: number | null;
+};
+
+const HR_ZONE_NUMBERS = [1, 2, 3, 4, 5];
+
+function moveInList<T>(items: T[], index: number, offset: number): T[] {
+  const target = index + offset;
+  if (target < 0 || target >= items.length) {
+    return items;
+  }
+
+  const next = [...items];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
+
+export function WorkoutStepEditor({
+  workoutId,
+  workoutJson,
+  versions,
+  paceZones,
+  hrZones,
+}: WorkoutStepEditorProps) {
+  const router = useRouter();
+
+  // null while the saved steps are shown read-only.
+  const [draft, setDraft] = useState<WorkoutDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+
+  const preview = draft ? fromWorkoutDraft(draft, workoutJson) : null;
+
+  function resetMessages() {
+    setErrorMessage(null);
+    setStatusMessage(null);
+  }
+
+  function startEditing() {
+    resetMessages();
+    setDraft(toWorkoutDraft(workoutJson));
+  }
+
+  function loadVersion(version: WorkoutVersionItem) {
+    resetMessages();
+    setDraft(toWorkoutDraft(version.workoutJson));
+    setStatusMessage(`Version ${version.version} loaded. Save to make it the current workout.`);
+  }
+
+  function updateSegment(segment: number, update: (items: DraftItem[]) => DraftItem[]) {
+    setDraft((current) =>
+      current
+        ? {
+            ...current,
+            segments: current.segments.map((items, index) =>
+              index === segment ? update(items) : items,
+            ),
+          }
+        : current,
+    );
+  }
+
+  function updateStep(path: StepPath, patch: Partial<DraftStep>) {
+    const { index, child } = path;
+    updateSegment(path.segment, (items) =>
+      items.map((item, itemIndex) => {
+        if (itemIndex !== index) {
+          return item;
+        }
+
+        if (item.kind === "step") {
+          return { ...item, ...patch };
+        }
+
+        return {
+          ...item,
+          steps: item.steps.map((step, stepIndex) =>
+            stepIndex === child ? { ...step, ...patch } : step,
+          ),
+        };
+      }),
+    );
+  }
+
+  function moveStep(path: StepPath, offset: number) {
+    const { index, child } = path;
+    updateSegment(path.segment, (items) =>
+      child === null
+        ? moveInList(items, index, offset)
+        : items.map((item, itemIndex) =>
+            itemIndex === index && item.kind === "repeat"
+              ? { ...item, steps: moveInList(item.steps, child, offset) }
+              : item,
+          ),
+    );
+  }
+
+  function removeStep(path: StepPath) {
+    const { index, child } = path;
+    updateSegment(path.segment, (items) =>
+      child === null
+        ? items.filter((_, itemIndex) => itemIndex !== index)
+        : items.map((item, itemIndex) =>
+            itemIndex === index && item.kind === "repeat"
+              ? { ...item, steps: item.steps.filter((_, stepIndex) => stepIndex !== child) }
+              : item,
+          ),
+    );
+  }
+
+  function addStep(segment: number, repeatIndex: number | null) {
+    updateSegment(segment, (items) =>
+      repeatIndex === null
+        ? [...items, createDraftStep()]
+        : items.map((item, itemIndex) =>
+            itemIndex === repeatIndex && item.kind === "repeat"
+              ? { ...item, steps: [...item.steps, createDraftStep("recovery")] }
+              : item,
+          ),
+    );
+  }
+
+  function updateIterations(segment: number, repeatIndex: number, iterations: string) {
+    updateSegment(segment, (items) =>
+      items.map((item, itemIndex) =>
+        itemIndex === repeatIndex && item.kind === "repeat" ? { ...item, iterations } : item,
+      ),
+    );
+  }
+
+  async function handleSave() {
+    if (!draft) {
+      return;
+    }
+
+    resetMessages();
+    const converted = fromWorkoutDraft(draft, workoutJson);
+    if (!converted.success) {
+      setErrorMessage(converted.message);
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const response = await fetch(`/api/workout/${workoutId}`, {
+        method: "PATCH",
+        credentials: "include",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ workoutJson: converted.workoutJson }),
+      });
+
+      const payload = (await response.json()) as WorkoutEditApiResponse;
+      if (!response.ok || !payload.success) {
+        setErrorMessage(payload.message || "Saving the workout failed.");
+        return;
+      }
+
+      setDraft(null);
+      setStatusMessage(payload.message);
+      router.refresh();
+    } catch {
+      setErrorMessage("Saving the workout failed. Please retry.");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  function renderTargetFields(step: DraftStep, path: StepPath, position: string) {
+    if (step.targetType === "heart.rate.zone") {
+      return (
+        <Select
+          aria-label={`Step ${position} heart rate zone`}
+          value={step.zoneNumber}
+          onChange={(event) => updateStep(path, { zoneNumber: event.target.value })}
+          disabled={isSaving}
+        >
+          <option value="">Zone</option>
+          {HR_ZONE_NUMBERS.map((zone) => {
+            const range = hrZones?.find((entry) => entry.zone === zone);
+            return (
+              <option key={zone} value={String(zone)}>
+                {range ? `Zone ${zone} (${range.minBpm}-${range.maxBpm} bpm)` : `Zone ${zone}`}
+              </option>
+            );
+          })}
+        </Select>
+      );
+    }
+
+    if (step.targetType === "pace.zone" || step.targetType === "cadence") {
+      const isPace = step.targetType === "pace.zone";
+      return (
+        <div className="grid grid-cols-2 gap-2">
+          <Input
+            aria-label={`Step ${position} ${isPace ? "slowest pace per km" : "lowest cadence"}`}
+            placeholder={isPace ? "Slow 5:30" : "Low 170"}
+            value={step.targetLow}
+            onChange={(event) => updateStep(path, { targetLow: event.target.value })}
+            disabled={isSaving}
+          />
+          <Input
+            aria-label={`Step ${position} ${isPace ? "fastest pace per km" : "highest cadence"}`}
+            placeholder={isPace ? "Fast 5:10" : "High 180"}
+            value={step.targetHigh}
+            onChange={(event) => updateStep(path, { targetHigh: event.target.value })}
+            disabled={isSaving}
+          />
+        </div>
+      );
+    }
+
+    return null;
+  }
+
+  function renderStep(step: DraftStep, path: StepPath, position: string) {
+    return (
+      <div key={step.key} className="space-y-2 rounded-md border border-border p-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <p className="text-sm font-medium text-foreground">Step {position}</p>
+          <div className="flex gap-1">
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              onClick={() => moveStep(path, -1)}
+              disabled={isSaving}
+            >
+              Up
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              onClick={() => moveStep(path, 1)}
+              disabled={isSaving}
+            >
+              Down
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              onClick={() => removeStep(path)}
+              disabled={isSaving}
+            >
+              Remove
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid gap-2 sm:grid-cols-3">
+          <Select
+            aria-label={`Step ${position} type`}
+            value={step.stepType}
+            onChange={(event) =>
+              updateStep(path, { stepType: event.target.value as DraftStepType })
+            }
+            disabled={isSaving}
+          >
+            {DRAFT_STEP_TYPES.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </Select>
+          <Select
+            aria-label={`Step ${position} ends on`}
+            value={step.endCondition}
+            onChange={(event) =>
+              updateStep(path, {
+                endCondition: event.target.value as DraftEndCondition,
+                amount: "",
+              })
+            }
+            disabled={isSaving}
+          >
+            <option value="time">Time</option>
+            <option value="distance">Distance</option>
+          </Select>
+          <Input
+            aria-label={
+              step.endCondition === "time"
+                ? `Step ${position} duration`
+                : `Step ${position} distance in meters`
+            }
+            placeholder={step.endCondition === "time" ? "5:00" : "800 m"}
+            value={step.amount}
+            onChange={(event) => updateStep(path, { amount: event.target.value })}
+            disabled={isSaving}
+          />
+        </div>
+
+        <div className="grid gap-2 sm:grid-cols-[minmax(0,1fr)_minmax(0,2fr)]">
+          <Select
+            aria-label={`Step ${position} target`}
+            value={step.targetType}
+            onChange={(event) =>
+              updateStep(path, {
+                targetType: event.target.value as DraftTargetType,
+                targetLow: "",
+                targetHigh: "",
+                zoneNumber: "",
+              })
+            }
+            disabled={isSaving}
+          >
+            {DRAFT_TARGET_TYPES.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </Select>
+          {renderTargetFields(step, path, position)}
+        </div>
+
+        <Input
+          aria-label={`Step ${position} description`}
+          placeholder="Description (optional)"
+          value={step.description}
+          onChange={(event) => updateStep(path, { description: event.target.value })}
+          disabled={isSaving}
+        />
+      </div>
+    );
+  }
+
+  function renderItem(item: DraftItem, segment: number, index: number) {
+    const position = String(index + 1);
+    if (item.kind === "step") {
+      return renderStep(item, { segment, index, child: null }, position);
+    }
+
+    return (
+      <div key={item.key} className="space-y-2 rounded-md border border-primary/40 p-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <p className="text-sm font-medium text-foreground">Repeat</p>
+            <Input
+              aria-label={`Repeat ${position} iterations`}
+              className="h-8 w-16"
+              inputMode="numeric"
+              value={item.iterations}
+              onChange={(event) => updateIterations(segment, index, event.target.value)}
+              disabled={isSaving}
+            />
+            <p className="text-sm text-muted-foreground">times</p>
+          </div>
+          <div className="flex gap-1">
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              onClick={() => moveStep({ segment, index, child: null }, -1)}
+              disabled={isSaving}
+            >
+              Up
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              onClick={() => moveStep({ segment, index, child: null }, 1)}
+              disabled={isSaving}
+            >
+              Down
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              onClick={() => removeStep({ segment, index, child: null })}
+              disabled={isSaving}
+            >
+              Remove Repeat
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-2 border-l border-border pl-3">
+          {item.steps.map((step, child) =>
+            renderStep(step, { segment, index, child }, `${position}.${child + 1}`),
+          )}
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() => addStep(segment, index)}
+            disabled={isSaving}
+          >
+            Add Step to Repeat
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!draft) {
+    const latest = versions[0];
+    return (
+      <div className="space-y-3">
+        <WorkoutStepList workoutJson={workoutJson} paceZones={paceZones} hrZones={hrZones} />
+        <div className="flex flex-wrap items-center gap-3">
+          <Button type="button" size="sm" variant="outline" onClick={startEditing}>
+            Edit Steps
+          </Button>
+          {latest && (
+            <p className="text-xs text-muted-foreground">
+              Version {latest.version} · edited {formatDateTime(latest.createdAt)}
+            </p>
+          )}
+        </div>
+        {statusMessage && (
+          <p className="rounded-md border border-primary/40 bg-primary/10 p-3 text-sm text-foreground">
+            {statusMessage}
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="workout-edit-name">Name</Label>
+        <Input
+          id="workout-edit-name"
+          value={draft.name}
+          onChange={(event) => setDraft({ ...draft, name: event.target.value })}
+          disabled={isSaving}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="workout-edit-description">Description</Label>
+        <Textarea
+          id="workout-edit-description"
+          value={draft.description}
+          onChange={(event) => setDraft({ ...draft, description: event.target.value })}
+          disabled={isSaving}
+        />
+      </div>
+
+      {draft.segments.map((items, segment) => (
+        <div key={segment} className="space-y-2">
+          {draft.segments.length > 1 && (
+            <p className="text-xs uppercase tracking-wide text-muted-foreground">
+              Segment {segment + 1}
+            </p>
+          )}
+          {items.map((item, index) => renderItem(item, segment, index))}
+          <div className="flex flex-wrap gap-2">
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => addStep(segment, null)}
+              disabled={isSaving}
+            >
+              Add Step
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => updateSegment(segment, (current) => [...current, createDraftRepeat()])}
+              disabled={isSaving}
+            >
+              Add Repeat
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <div>
+        <p className="mb-2 text-xs uppercase tracking-wide text-muted-foreground">Preview</p>
+        {preview?.success ? (
+          <WorkoutStepList
+            workoutJson={preview.workoutJson}
+            paceZones={paceZones}
+            hrZones={hrZones}
+          />
+        ) : (
+          <p className="rounded-md border border-border bg-muted/20 p-3 text-sm text-muted-foreground">
+            {preview?.message}
+          </p>
+        )}
+      </div>
+
+      {errorMessage && (
+        <p className="rounded-md border border-destructive/40 bg-destructive/10 p-3 text-sm text-destructive">
+          {errorMessage}
+        </p>
+      )}
+
+      {statusMessage && (
+        <p className="rounded-md border border-primary/40 bg-primary/10 p-3 text-sm text-foreground">
+          {statusMessage}
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-3">
+        <Button type="button" onClick={handleSave} disabled={isSaving}>
+          {isSaving ? "Saving..." : "Save Steps"}
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => {
+            resetMessages();
+            setDraft(null);
+          }}
+          disabled={isSaving}
+        >
+          Cancel
+        </Button>
+      </div>
+
+      {versions.length > 0 && (
+        <div>
+          <p className="mb-2 text-xs uppercase tracking-wide text-muted-foreground">History</p>
+          <ul className="space-y-1">
+            {versions.map((version) => (
+              <li
+                key={version.version}
+                className="flex flex-wrap items-center justify-between gap-2 text-sm text-foreground"
+              >
+                <span>
+                  Version {version.version} · {formatDateTime(version.createdAt)}
+                  <span className="text-muted-foreground">
+                    {version.totalDistanceKm !== null && ` · ${version.totalDistanceKm} km`}
+                    {version.estimatedDurationMinutes !== null &&
+                      ` · ${version.estimatedDurationMinutes} min`}
+                  </span>
+                </span>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => loadVersion(version)}
+                  disabled={isSaving}
+                >
+                  Load
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
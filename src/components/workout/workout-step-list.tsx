@@ -1,7 +1,15 @@
-import { cn } from "@/lib/utils";
+import type { HrZoneRange, PaceZoneItem } from "@/components/workout/types";
+import { cn, formatPaceSecondsPerKm } from "@/lib/utils";
+
+type StepZones = {
+  paceZones: PaceZoneItem[];
+  hrZones: HrZoneRange[] | null;
+};
 
 type WorkoutStepListProps = {
   workoutJson: unknown;
+  paceZones?: PaceZoneItem[];
+  hrZones?: HrZoneRange[] | null;
   className?: string;
 };
 
@@ -111,7 +119,26 @@ function formatEndCondition(step: Record<string, unknown>): string | null {
   return `${endConditionValue} ${conditionKey}`;
 }
 
-function formatTarget(step: Record<string, unknown>): string | null {
+function formatPaceClock(paceSeconds: number): string {
+  return `${Math.floor(paceSeconds / 60)}:${String(paceSeconds % 60).padStart(2, "0")}`;
+}
+
+function nearestPaceZone(paceSecondsPerKm: number, paceZones: PaceZoneItem[]): string | null {
+  let nearest: PaceZoneItem | null = null;
+  for (const zone of paceZones) {
+    if (
+      !nearest ||
+      Math.abs(zone.paceSecondsPerKm - paceSecondsPerKm) <
+        Math.abs(nearest.paceSecondsPerKm - paceSecondsPerKm)
+    ) {
+      nearest = zone;
+    }
+  }
+
+  return nearest?.name ?? null;
+}
+
+function formatTarget(step: Record<string, unknown>, zones: StepZones): string | null {
   const targetTypeRaw = asObject(step.targetType);
   const targetKey =
     (targetTypeRaw && typeof targetTypeRaw.workoutTargetTypeKey === "string"
@@ -125,14 +152,27 @@ function formatTarget(step: Record<string, unknown>): string | null {
 
   if (targetKey === "heart.rate.zone") {
     const zoneNumber = asNumber(step.zoneNumber);
-    return zoneNumber !== null ? `HR Zone ${zoneNumber}` : "HR Zone";
+    if (zoneNumber === null) {
+      return "HR Zone";
+    }
+
+    const range = zones.hrZones?.find((zone) => zone.zone === zoneNumber);
+    return range
+      ? `HR Zone ${zoneNumber} (${range.minBpm}-${range.maxBpm} bpm)`
+      : `HR Zone ${zoneNumber}`;
   }
 
   if (targetKey === "pace.zone") {
     const lower = asNumber(step.targetValueOne);
     const upper = asNumber(step.targetValueTwo);
-    if (lower !== null && upper !== null) {
-      return `Pace ${lower.toFixed(3)}-${upper.toFixed(3)} m/s`;
+    if (lower !== null && upper !== null && lower > 0 && upper > 0) {
+      // Garmin stores pace targets as speeds in m/s; the lower speed is the slower pace.
+      const fastPace = Math.round(1000 / Math.max(lower, upper));
+      const slowPace = Math.round(1000 / Math.min(lower, upper));
+      const zoneName = nearestPaceZone((fastPace + slowPace) / 2, zones.paceZones);
+      const paceRange = `Pace ${formatPaceClock(fastPace)}-${formatPaceSecondsPerKm(slowPace)}`;
+
+      return zoneName ? `${paceRange} (${zoneName})` : paceRange;
     }
 
     return "Pace zone";
@@ -151,13 +191,18 @@ function formatTarget(step: Record<string, unknown>): string | null {
   return targetKey;
 }
 
-function renderStep(step: Record<string, unknown>, index: number, keyPrefix: string): React.ReactNode {
+function renderStep(
+  step: Record<string, unknown>,
+  index: number,
+  keyPrefix: string,
+  zones: StepZones,
+): React.ReactNode {
   const description =
     typeof step.description === "string" && step.description.trim() !== ""
       ? step.description.trim()
       : null;
   const endCondition = formatEndCondition(step);
-  const target = formatTarget(step);
+  const target = formatTarget(step, zones);
 
   if (isRepeatGroup(step)) {
     const iterations = asNumber(step.numberOfIterations);
@@ -175,7 +220,7 @@ function renderStep(step: Record<string, unknown>, index: number, keyPrefix: str
         {nestedSteps.length > 0 && (
           <ol className="mt-2 space-y-2 pl-4 text-sm">
             {nestedSteps.map((nestedStep, nestedIndex) =>
-              renderStep(nestedStep, nestedIndex, `${keyPrefix}-repeat-${index}`),
+              renderStep(nestedStep, nestedIndex, `${keyPrefix}-repeat-${index}`, zones),
             )}
           </ol>
         )}
@@ -198,8 +243,14 @@ function renderStep(step: Record<string, unknown>, index: number, keyPrefix: str
   );
 }
 
-export function WorkoutStepList({ workoutJson, className }: WorkoutStepListProps) {
+export function WorkoutStepList({
+  workoutJson,
+  paceZones = [],
+  hrZones = null,
+  className,
+}: WorkoutStepListProps) {
   const segments = getSegments(workoutJson);
+  const zones: StepZones = { paceZones, hrZones };
 
   if (segments.length === 0) {
     return (
@@ -220,7 +271,7 @@ export function WorkoutStepList({ workoutJson, className }: WorkoutStepListProps
               Segment {segmentIndex + 1}
             </p>
             {steps.length > 0 ? (
-              <ol className="space-y-2">{steps.map((step, index) => renderStep(step, index, `segment-${segmentIndex}`))}</ol>
+              <ol className="space-y-2">{steps.map((step, index) => renderStep(step, index, `segment-${segmentIndex}`, zones))}</ol>
             ) : (
               <p className="rounded-md border border-border bg-muted/20 p-3 text-sm text-muted-foreground">
                 No steps in this segment.
@@ -0,0 +1,12 @@
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") {
+    return;
+  }
+
+  if (process.env.SYNC_WORKER_ENABLED === "false") {
+    return;
+  }
+
+  const { startSyncWorker } = await import("@/server/sync-jobs");
+  startSyncWorker();
+}
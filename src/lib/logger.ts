@@ -0,0 +1,17 @@
+// The one place server code writes diagnostics. It is only for failures that have no row to be
+// recorded on (the sync worker's own queue errors); anything tied to a job, run or request is
+// stored there instead. Lines are JSON so a log collector can pick out the scope.
+
+export function logError(scope: string, message: string, error?: unknown): void {
+  const entry: Record<string, unknown> = {
+    level: "error",
+    scope,
+    message,
+    time: new Date().toISOString(),
+  };
+  if (error !== undefined) {
+    entry.error = error instanceof Error ? error.message : String(error);
+  }
+
+  console.error(JSON.stringify(entry));
+}
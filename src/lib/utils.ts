@@ -64,3 +64,18 @@ export function formatDateTime(value?: Date | string | null): string {
 
   return parsed.toLocaleString();
 }
+
+export function formatElapsedMs(durationMs?: number | null): string {
+  if (durationMs === null || durationMs === undefined || durationMs < 0) {
+    return "-";
+  }
+
+  const totalSeconds = Math.round(durationMs / 1000);
+  if (totalSeconds < 60) {
+    return `${totalSeconds}s`;
+  }
+
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}m ${String(seconds).padStart(2, "0")}s`;
+}
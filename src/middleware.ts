@@ -7,5 +7,14 @@ export default withAuth({
 });
 
 export const config = {
-  matcher: ["/dashboard/:path*", "/workout/:path*", "/connect-garmin/:path*"],
+  matcher: [
+    "/dashboard/:path*",
+    "/workout/:path*",
+    "/templates/:path*",
+    "/calendar/:path*",
+    "/plan/:path*",
+    "/races/:path*",
+    "/settings/:path*",
+    "/connect-garmin/:path*",
+  ],
 };
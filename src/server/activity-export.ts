@@ -0,0 +1,99 @@
+import { prisma } from "@/lib/prisma";
+import { getActivityStreams, type ActivityStreams } from "@/server/activity-streams";
+import { buildGpx, buildTcx, type TrackPoint } from "@/server/gpx-tcx";
+
+export type ExportFormat = "gpx" | "tcx";
+
+export type ActivityExportResult =
+  | { success: true; fileName: string; contentType: string; body: string }
+  | { success: false; message: string; status: number };
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  gpx: "application/gpx+xml",
+  tcx: "application/vnd.garmin.tcx+xml",
+};
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return value === "gpx" || value === "tcx";
+}
+
+function buildTrackPoints(startTime: Date, streams: ActivityStreams): TrackPoint[] {
+  const time = streams.time ?? [];
+  const startMs = startTime.getTime();
+  const valueAt = (channel: keyof ActivityStreams, index: number) =>
+    streams[channel]?.[index] ?? null;
+
+  return time.map((offsetSeconds, index) => ({
+    time: offsetSeconds === null ? null : new Date(startMs + offsetSeconds * 1000),
+    latitude: valueAt("latitude", index),
+    longitude: valueAt("longitude", index),
+    elevation: valueAt("elevation", index),
+    heartRate: valueAt("heartRate", index),
+    cadence: valueAt("cadence", index),
+    power: valueAt("power", index),
+    distance: valueAt("distance", index),
+    speed: valueAt("speed", index),
+  }));
+}
+
+function buildFileName(activityId: number, activityDate: Date, format: ExportFormat): string {
+  return `activity-${activityId}-${activityDate.toISOString().slice(0, 10)}.${format}`;
+}
+
+export async function exportActivityFile(
+  userId: number,
+  activityId: number,
+  format: ExportFormat,
+): Promise<ActivityExportResult> {
+  const activity = await prisma.activity.findFirst({
+    where: { id: activityId, userId },
+    select: {
+      id: true,
+      activityDate: true,
+      startTimeGmt: true,
+      activityName: true,
+      activityType: true,
+      sportCategory: true,
+      distanceMeters: true,
+      durationSeconds: true,
+      averageHrBpm: true,
+      maxHrBpm: true,
+    },
+  });
+
+  if (!activity) {
+    return { success: false, message: "Activity not found.", status: 404 };
+  }
+
+  if (!activity.activityDate) {
+    return { success: false, message: "Activity has no start time to export.", status: 422 };
+  }
+
+  // A missing stream still exports as a summary-only file; any other failure is surfaced.
+  const streamsResult = await getActivityStreams(userId, activity.id);
+  if (!streamsResult.success && streamsResult.status !== 404) {
+    return streamsResult;
+  }
+
+  const streams = streamsResult.success ? streamsResult.streams : {};
+  // GPX and TCX times are UTC; the local start is only a fallback for rows synced before it was kept.
+  const startTime = activity.startTimeGmt ?? activity.activityDate;
+  const exportable = {
+    name: activity.activityName ?? `Activity ${activity.id}`,
+    activityType: activity.activityType,
+    sportCategory: activity.sportCategory,
+    startTime,
+    durationSeconds: activity.durationSeconds,
+    distanceMeters: activity.distanceMeters,
+    averageHrBpm: activity.averageHrBpm,
+    maxHrBpm: activity.maxHrBpm,
+    points: buildTrackPoints(startTime, streams),
+  };
+
+  return {
+    success: true,
+    fileName: buildFileName(activity.id, activity.activityDate, format),
+    contentType: CONTENT_TYPES[format],
+    body: format === "gpx" ? buildGpx(exportable) : buildTcx(exportable),
+  };
+}
@@ -0,0 +1,539 @@
+import type { Prisma } from "../../prisma/generated/prisma/client";
+import { SPORT_CATEGORY_LABELS } from "@/lib/constants";
+import { prisma } from "@/lib/prisma";
+import { type ActivityStreams, saveActivityStreams } from "@/server/activity-streams";
+import { decodeFitFile, FitDecodeError, type FitActivity } from "@/server/fit-decoder";
+import { mapActivity, mapSportCategory } from "@/server/garmin-field-mapper";
+import {
+  type ParsedTrack,
+  parseGpx,
+  parseTcx,
+  TrackFileError,
+} from "@/server/gpx-tcx";
+import {
+  calculatePaceSecondsPerKm,
+  FILE_IMPORT_SOURCES,
+  findDuplicateActivity,
+} from "@/server/sync";
+import { updateHeartRateProfile } from "@/server/heart-rate-profile";
+import { recomputeTrainingLoad } from "@/server/training-load";
+
+export type ActivitySource = "garmin" | (typeof FILE_IMPORT_SOURCES)[number];
+
+export type ImportedActivity = {
+  source: ActivitySource;
+  // Summary in the shape of a Garmin activity list entry, so it goes through mapActivity unchanged.
+  summary: Record<string, unknown>;
+  streams: ActivityStreams;
+};
+
+export type ActivityImportResult =
+  | { success: true; activityId: number; message: string; warning: string | null }
+  | {
+      success: false;
+      message: string;
+      status: number;
+      duplicateOfActivityId?: number;
+    };
+
+// GPS altitude jitters by a meter or two; smaller swings are not counted as climbing.
+const ELEVATION_HYSTERESIS_METERS = 2;
+const EARTH_RADIUS_METERS = 6_371_000;
+
+export const IMPORT_FILE_EXTENSIONS = [".fit", ".gpx", ".tcx"] as const;
+
+// FIT sport / sub_sport enums mapped to the Garmin Connect typeKeys the rest of the app uses.
+const FIT_SPORT_TYPE_KEYS: Record<number, string> = {
+  0: "other",
+  1: "running",
+  2: "cycling",
+  4: "fitness_equipment",
+  5: "swimming",
+  10: "training",
+  11: "walking",
+  12: "cross_country_skiing",
+  13: "resort_skiing",
+  15: "rowing",
+  16: "mountaineering",
+  17: "hiking",
+  19: "paddling",
+};
+
+const FIT_SUB_SPORT_TYPE_KEYS: Record<string, string> = {
+  "1:1": "treadmill_running",
+  "1:3": "trail_running",
+  "1:4": "track_running",
+  "2:6": "indoor_cycling",
+  "2:7": "road_biking",
+  "2:8": "mountain_biking",
+  "2:58": "virtual_ride",
+  "4:14": "indoor_rowing",
+  "4:15": "elliptical",
+  "4:16": "stair_climbing",
+  "5:17": "lap_swimming",
+  "5:18": "open_water_swimming",
+  "10:20": "strength_training",
+  "10:26": "indoor_cardio",
+};
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Offset of an IANA zone from UTC at the given instant, so daylight saving time is accounted for.
+function getTimeZoneOffsetSeconds(timeZone: string, at: Date): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((entry) => entry.type === type)?.value ?? 0);
+  const wallClockMs = Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour"),
+    part("minute"),
+    part("second"),
+  );
+
+  return Math.round((wallClockMs - Math.floor(at.getTime() / 1000) * 1000) / 1000);
+}
+
+// Garmin's startTimeLocal shape: the athlete's wall-clock time without a zone.
+function formatLocalStartTime(startTime: Date, utcOffsetSeconds: number): string {
+  return new Date(startTime.getTime() + utcOffsetSeconds * 1000)
+    .toISOString()
+    .slice(0, 19)
+    .replace("T", " ");
+}
+
+function resolveFitTypeKey(sport: number | null, subSport: number | null): string {
+  if (sport === null) {
+    return "other";
+  }
+
+  return FIT_SUB_SPORT_TYPE_KEYS[`${sport}:${subSport}`] ?? FIT_SPORT_TYPE_KEYS[sport] ?? "other";
+}
+
+export function buildImportedActivityName(typeKey: string): string {
+  return `Imported ${SPORT_CATEGORY_LABELS[mapSportCategory(typeKey)]}`;
+}
+
+function fitToImportedActivity(fit: FitActivity, timeZone: string | null): ImportedActivity {
+  const session = fit.sessions[0];
+  const firstRecord = fit.records.find((record) => record.timestamp !== null);
+  const startTime = session?.startTime ?? firstRecord?.timestamp ?? null;
+
+  if (!session || !startTime) {
+    throw new FitDecodeError("FIT file has no session to import.");
+  }
+
+  const typeKey = resolveFitTypeKey(session.sport, session.subSport);
+  const isRun = mapSportCategory(typeKey) === "running";
+
+  // The activity date is local, like synced activities: the device's own offset when it wrote one,
+  // otherwise the uploader's time zone, otherwise UTC.
+  const utcOffsetSeconds =
+    fit.utcOffsetSeconds ?? (timeZone ? getTimeZoneOffsetSeconds(timeZone, startTime) : 0);
+
+  const summary: Record<string, unknown> = {
+    startTimeLocal: formatLocalStartTime(startTime, utcOffsetSeconds),
+    startTimeGMT: startTime.toISOString(),
+    activityName: buildImportedActivityName(typeKey),
+    activityType: { typeKey },
+    distance: session.totalDistanceMeters,
+    duration: session.totalTimerSeconds ?? session.totalElapsedSeconds,
+    averageSpeed: session.avgSpeed,
+    averageHR: session.avgHeartRate,
+    maxHR: session.maxHeartRate,
+    aerobicTrainingEffect: session.aerobicTrainingEffect,
+    anaerobicTrainingEffect: session.anaerobicTrainingEffect,
+    elevationGain: session.totalAscent,
+    elevationLoss: session.totalDescent,
+    splitSummaries: fit.laps.map((lap, index) => ({
+      splitType: "LAP",
+      lapIndex: index + 1,
+      startTimeGMT: lap.startTime?.toISOString() ?? null,
+      distance: lap.totalDistanceMeters,
+      duration: lap.totalElapsedSeconds,
+      movingDuration: lap.totalTimerSeconds,
+      averageSpeed: lap.avgSpeed,
+      maxSpeed: lap.maxSpeed,
+      averageHR: lap.avgHeartRate,
+      maxHR: lap.maxHeartRate,
+      elevationGain: lap.totalAscent,
+      elevationLoss: lap.totalDescent,
+    })),
+  };
+
+  const records = fit.records.filter((record) => record.timestamp !== null);
+  const startMs = startTime.getTime();
+  const streams: ActivityStreams = {};
+
+  if (records.length > 0) {
+    streams.time = records.map((record) =>
+      Math.round(((record.timestamp as Date).getTime() - startMs) / 1000),
+    );
+    streams.distance = records.map((record) => record.distance);
+    streams.heartRate = records.map((record) => record.heartRate);
+    streams.speed = records.map((record) => record.speed);
+    // FIT stores running cadence per leg; steps per minute is what everything else shows.
+    streams.cadence = records.map((record) =>
+      record.cadence !== null && isRun ? record.cadence * 2 : record.cadence,
+    );
+    streams.elevation = records.map((record) => record.altitude);
+    streams.power = records.map((record) => record.power);
+    streams.latitude = records.map((record) => record.latitude);
+    streams.longitude = records.map((record) => record.longitude);
+  }
+
+  return { source: "fit", summary, streams: dropEmptyChannels(streams) };
+}
+
+function dropEmptyChannels(streams: ActivityStreams): ActivityStreams {
+  const result: ActivityStreams = {};
+  for (const [channel, series] of Object.entries(streams) as Array<
+    [keyof ActivityStreams, Array<number | null>]
+  >) {
+    if (series.some((value) => value !== null)) {
+      result[channel] = series;
+    }
+  }
+
+  return result;
+}
+
+function haversineMeters(
+  fromLatitude: number,
+  fromLongitude: number,
+  toLatitude: number,
+  toLongitude: number,
+): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const deltaLatitude = toRadians(toLatitude - fromLatitude);
+  const deltaLongitude = toRadians(toLongitude - fromLongitude);
+  const a =
+    Math.sin(deltaLatitude / 2) ** 2 +
+    Math.cos(toRadians(fromLatitude)) *
+      Math.cos(toRadians(toLatitude)) *
+      Math.sin(deltaLongitude / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+}
+
+function computeElevationChange(elevations: Array<number | null>): {
+  gain: number | null;
+  loss: number | null;
+} {
+  let reference: number | null = null;
+  let gain = 0;
+  let loss = 0;
+
+  for (const elevation of elevations) {
+    if (elevation === null) {
+      continue;
+    }
+    if (reference === null) {
+      reference = elevation;
+      continue;
+    }
+
+    const delta = elevation - reference;
+    if (delta >= ELEVATION_HYSTERESIS_METERS) {
+      gain += delta;
+      reference = elevation;
+    } else if (delta <= -ELEVATION_HYSTERESIS_METERS) {
+      loss -= delta;
+      reference = elevation;
+    }
+  }
+
+  return reference === null ? { gain: null, loss: null } : { gain, loss };
+}
+
+function averageOf(values: Array<number | null>): number | null {
+  const present = values.filter((value): value is number => value !== null);
+  return present.length > 0
+    ? Math.round(present.reduce((sum, value) => sum + value, 0) / present.length)
+    : null;
+}
+
+function maxOf(values: Array<number | null>): number | null {
+  const present = values.filter((value): value is number => value !== null);
+  return present.length > 0 ? Math.max(...present) : null;
+}
+
+function sumOf(values: Array<number | null>): number | null {
+  return values.some((value) => value !== null)
+    ? values.reduce<number>((sum, value) => sum + (value ?? 0), 0)
+    : null;
+}
+
+function normalizeTrackTypeKey(sport: string | null): string {
+  const normalized = (sport ?? "").toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "");
+  if (normalized === "biking") {
+    return "cycling";
+  }
+
+  return normalized || "other";
+}
+
+function trackToImportedActivity(
+  source: "gpx" | "tcx",
+  track: ParsedTrack,
+  timeZone: string | null,
+): ImportedActivity {
+  const points = track.points.filter((point) => point.time !== null);
+  const startTime = points[0]?.time ?? track.laps[0]?.startTime ?? null;
+  if (!startTime) {
+    throw new TrackFileError("File has no timestamps to import.");
+  }
+
+  const startMs = startTime.getTime();
+  const times = points.map((point) => ((point.time as Date).getTime() - startMs) / 1000);
+
+  // Prefer the recorded cumulative distance; fall back to summing great-circle steps.
+  const distances: Array<number | null> = [];
+  let runningDistance = 0;
+  let previous: { latitude: number; longitude: number } | null = null;
+  for (const point of points) {
+    if (point.latitude !== null && point.longitude !== null) {
+      if (previous) {
+        runningDistance += haversineMeters(
+          previous.latitude,
+          previous.longitude,
+          point.latitude,
+          point.longitude,
+        );
+      }
+      previous = { latitude: point.latitude, longitude: point.longitude };
+    }
+    distances.push(point.distance ?? (previous ? runningDistance : null));
+  }
+
+  const typeKey = normalizeTrackTypeKey(track.sport);
+  // GPX cadence follows the Garmin extension, which counts one leg for runs (TCX is handled
+  // by the parser because RunCadence is its own element).
+  const doubleCadence = source === "gpx" && mapSportCategory(typeKey) === "running";
+
+  const speeds = points.map((point, index) => {
+    if (point.speed !== null || index === 0) {
+      return point.speed;
+    }
+
+    const deltaTime = times[index] - times[index - 1];
+    const current = distances[index];
+    const before = distances[index - 1];
+    return deltaTime > 0 && current !== null && before !== null
+      ? Math.max(0, (current - before) / deltaTime)
+      : null;
+  });
+
+  const elevation = computeElevationChange(points.map((point) => point.elevation));
+  const lapDistance = sumOf(track.laps.map((lap) => lap.distanceMeters));
+  const lapDuration = sumOf(track.laps.map((lap) => lap.totalTimeSeconds));
+  const lastDistance = [...distances].reverse().find((value) => value !== null) ?? null;
+  const distance = lapDistance ?? lastDistance;
+  const duration = lapDuration ?? (times.length > 1 ? times[times.length - 1] : null);
+  const heartRates = points.map((point) => point.heartRate);
+
+  // GPX and TCX times are UTC with no offset, so the local date comes from the uploader's zone.
+  const utcOffsetSeconds = timeZone ? getTimeZoneOffsetSeconds(timeZone, startTime) : 0;
+
+  const summary: Record<string, unknown> = {
+    startTimeLocal: formatLocalStartTime(startTime, utcOffsetSeconds),
+    startTimeGMT: startTime.toISOString(),
+    activityName: track.name ?? buildImportedActivityName(typeKey),
+    activityType: { typeKey },
+    distance,
+    duration,
+    averageSpeed: distance !== null && duration ? distance / duration : null,
+    averageHR: averageOf(heartRates),
+    maxHR: maxOf(heartRates),
+    elevationGain: elevation.gain,
+    elevationLoss: elevation.loss,
+    splitSummaries: track.laps.map((lap, index) => ({
+      splitType: "LAP",
+      lapIndex: index + 1,
+      startTimeGMT: lap.startTime?.toISOString() ?? null,
+      distance: lap.distanceMeters,
+      duration: lap.totalTimeSeconds,
+      averageSpeed:
+        lap.distanceMeters !== null && lap.totalTimeSeconds
+          ? lap.distanceMeters / lap.totalTimeSeconds
+          : null,
+      maxSpeed: lap.maxSpeed,
+      averageHR: lap.averageHeartRate,
+      maxHR: lap.maxHeartRate,
+    })),
+  };
+
+  const streams = dropEmptyChannels({
+    time: times.map((value) => Math.round(value)),
+    distance: distances,
+    heartRate: heartRates,
+    speed: speeds,
+    cadence: points.map((point) =>
+      point.cadence !== null && doubleCadence ? point.cadence * 2 : point.cadence,
+    ),
+    elevation: points.map((point) => point.elevation),
+    power: points.map((point) => point.power),
+    latitude: points.map((point) => point.latitude),
+    longitude: points.map((point) => point.longitude),
+  });
+
+  return { source, summary, streams };
+}
+
+export async function saveImportedActivity(
+  userId: number,
+  imported: ImportedActivity,
+): Promise<ActivityImportResult> {
+  const mapped = mapActivity(imported.summary);
+  const activityDate = mapped.activityDate ? new Date(mapped.activityDate) : null;
+
+  if (!activityDate) {
+    return { success: false, message: "Imported activity has no start time.", status: 422 };
+  }
+
+  const duplicate = await findDuplicateActivity(
+    userId,
+    { activityDate, startTimeGmt: mapped.startTimeGmt ? new Date(mapped.startTimeGmt) : null },
+    mapped.distanceMeters ?? null,
+  );
+  if (duplicate) {
+    return {
+      success: false,
+      message: "This activity already exists.",
+      status: 409,
+      duplicateOfActivityId: duplicate.id,
+    };
+  }
+
+  const averagePaceSecondsPerKm =
+    mapped.sportCategory === "running"
+      ? calculatePaceSecondsPerKm(
+          imported.summary,
+          mapped.distanceMeters ?? undefined,
+          mapped.durationSeconds ?? undefined,
+        )
+      : undefined;
+
+  const activity = await prisma.activity.create({
+    data: {
+      ...mapped,
+      userId,
+      source: imported.source,
+      activityDate,
+      averagePaceSecondsPerKm: averagePaceSecondsPerKm ?? null,
+      splitSummariesJson: (mapped.splitSummariesJson ?? undefined) as
+        | Prisma.InputJsonValue
+        | undefined,
+    },
+    select: { id: true },
+  });
+
+  if (Object.keys(imported.streams).length > 0) {
+    await saveActivityStreams(userId, activity.id, imported.source, imported.streams);
+  }
+
+  // The activity is already stored, so a failed rebuild of derived data is only reported; failing
+  // the request would make a retry hit the duplicate check.
+  const derivedErrors: string[] = [];
+  try {
+    await recomputeTrainingLoad(userId);
+  } catch (error) {
+    derivedErrors.push(`Training load recompute failed: ${getErrorMessage(error)}`);
+  }
+
+  try {
+    await updateHeartRateProfile(userId);
+  } catch (error) {
+    derivedErrors.push(`Heart rate zone update failed: ${getErrorMessage(error)}`);
+  }
+
+  return {
+    success: true,
+    activityId: activity.id,
+    message: `Imported ${mapped.activityName ?? "activity"}.`,
+    warning: derivedErrors.length > 0 ? derivedErrors.join(" ") : null,
+  };
+}
+
+export async function importFitActivity(
+  userId: number,
+  data: Uint8Array,
+  timeZone: string | null = null,
+): Promise<ActivityImportResult> {
+  let imported: ImportedActivity;
+  try {
+    imported = fitToImportedActivity(decodeFitFile(data), timeZone);
+  } catch (error) {
+    if (error instanceof FitDecodeError || error instanceof RangeError) {
+      return { success: false, message: `Invalid FIT file: ${error.message}`, status: 422 };
+    }
+    throw error;
+  }
+
+  return await saveImportedActivity(userId, imported);
+}
+
+// timeZone is the uploader's IANA zone, used for files that do not say how local time relates to
+// UTC.
+export async function importActivityFile(
+  userId: number,
+  fileName: string,
+  data: Uint8Array,
+  timeZone: string | null = null,
+): Promise<ActivityImportResult> {
+  const extension = fileName.toLowerCase().slice(fileName.lastIndexOf("."));
+
+  if (extension === ".fit") {
+    return await importFitActivity(userId, data, timeZone);
+  }
+
+  if (extension !== ".gpx" && extension !== ".tcx") {
+    return {
+      success: false,
+      message: `Unsupported file type. Upload one of: ${IMPORT_FILE_EXTENSIONS.join(", ")}.`,
+      status: 415,
+    };
+  }
+
+  const source = extension === ".gpx" ? "gpx" : "tcx";
+  let imported: ImportedActivity;
+  try {
+    const xml = new TextDecoder().decode(data);
+    imported = trackToImportedActivity(
+      source,
+      source === "gpx" ? parseGpx(xml) : parseTcx(xml),
+      timeZone,
+    );
+  } catch (error) {
+    if (error instanceof TrackFileError) {
+      return {
+        success: false,
+        message: `Invalid ${source.toUpperCase()} file: ${error.message}`,
+        status: 422,
+      };
+    }
+    throw error;
+  }
+
+  return await saveImportedActivity(userId, imported);
+}
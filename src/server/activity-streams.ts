@@ -0,0 +1,447 @@
+import { gunzipSync, gzipSync } from "node:zlib";
+import { prisma } from "@/lib/prisma";
+import { getGarminClientForUser, type GarminAdapter } from "@/server/garmin";
+
+type JsonObject = Record<string, unknown>;
+
+export type StreamChannel =
+  | "time"
+  | "distance"
+  | "heartRate"
+  | "speed"
+  | "pace"
+  | "cadence"
+  | "elevation"
+  | "power"
+  | "latitude"
+  | "longitude";
+
+export type StreamSeries = Array<number | null>;
+
+export type ActivityStreams = Partial<Record<StreamChannel, StreamSeries>>;
+
+export type DownsampleMode = "average" | "sample";
+
+export type StreamQueryOptions = {
+  channels?: StreamChannel[];
+  maxPoints?: number;
+  mode?: DownsampleMode;
+};
+
+export type ActivityStreamsResult =
+  | {
+      success: true;
+      activityId: number;
+      source: string;
+      sampleCount: number;
+      pointCount: number;
+      streams: ActivityStreams;
+    }
+  | { success: false; message: string; status: number };
+
+export type StreamFetchResult = {
+  success: boolean;
+  fetched: number;
+  failed: number;
+  message: string;
+};
+
+export const STREAM_CHANNELS: StreamChannel[] = [
+  "time",
+  "distance",
+  "heartRate",
+  "speed",
+  "pace",
+  "cadence",
+  "elevation",
+  "power",
+  "latitude",
+  "longitude",
+];
+
+// Pace is derived from speed on read, so it is never stored.
+const STORED_CHANNELS = STREAM_CHANNELS.filter((channel) => channel !== "pace");
+
+// Garmin activity-details descriptor keys, in order of preference per channel.
+const DESCRIPTOR_KEYS: Record<Exclude<StreamChannel, "pace">, string[]> = {
+  time: ["sumElapsedDuration", "sumDuration"],
+  distance: ["sumDistance"],
+  heartRate: ["directHeartRate"],
+  speed: ["directSpeed", "directEnhancedSpeed"],
+  cadence: ["directDoubleCadence", "directBikeCadence", "directSwimCadence"],
+  elevation: ["directElevation", "directEnhancedElevation"],
+  power: ["directPower"],
+  latitude: ["directLatitude"],
+  longitude: ["directLongitude"],
+};
+
+// Decimal places kept per channel; rounding is what makes the gzipped columns small.
+const CHANNEL_PRECISION: Record<StreamChannel, number> = {
+  time: 0,
+  distance: 1,
+  heartRate: 0,
+  speed: 3,
+  pace: 0,
+  cadence: 0,
+  elevation: 1,
+  power: 0,
+  latitude: 6,
+  longitude: 6,
+};
+
+const STREAM_ENCODING = "gzip-json-v1";
+const STREAM_SYNC_LIMIT = 25;
+
+function asObject(value: unknown): JsonObject | null {
+  if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+    return value as JsonObject;
+  }
+
+  return null;
+}
+
+function roundTo(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export function isStreamChannel(value: string): value is StreamChannel {
+  return STREAM_CHANNELS.includes(value as StreamChannel);
+}
+
+export function parseGarminActivityDetails(raw: unknown): ActivityStreams {
+  const source = asObject(raw);
+  const descriptors = Array.isArray(source?.metricDescriptors) ? source.metricDescriptors : [];
+  const samples = Array.isArray(source?.activityDetailMetrics) ? source.activityDetailMetrics : [];
+
+  const indexByKey = new Map<string, number>();
+  for (const descriptor of descriptors) {
+    const descriptorObject = asObject(descriptor);
+    if (
+      descriptorObject &&
+      typeof descriptorObject.key === "string" &&
+      typeof descriptorObject.metricsIndex === "number"
+    ) {
+      indexByKey.set(descriptorObject.key, descriptorObject.metricsIndex);
+    }
+  }
+
+  const rows = samples.map((sample) => {
+    const metrics = asObject(sample)?.metrics;
+    return Array.isArray(metrics) ? metrics : [];
+  });
+
+  const streams: ActivityStreams = {};
+
+  for (const channel of STORED_CHANNELS) {
+    const key = DESCRIPTOR_KEYS[channel as Exclude<StreamChannel, "pace">].find((candidate) =>
+      indexByKey.has(candidate),
+    );
+    if (key === undefined) {
+      continue;
+    }
+
+    const index = indexByKey.get(key) as number;
+    const series = rows.map((row) => {
+      const value = row[index];
+      return typeof value === "number" && Number.isFinite(value)
+        ? roundTo(value, CHANNEL_PRECISION[channel])
+        : null;
+    });
+
+    if (series.some((value) => value !== null)) {
+      streams[channel] = series;
+    }
+  }
+
+  // Older payloads only carry wall-clock timestamps; turn them into elapsed seconds.
+  if (!streams.time && indexByKey.has("directTimestamp")) {
+    const index = indexByKey.get("directTimestamp") as number;
+    const first = rows.find((row) => typeof row[index] === "number")?.[index] as
+      | number
+      | undefined;
+    if (first !== undefined) {
+      streams.time = rows.map((row) => {
+        const value = row[index];
+        return typeof value === "number" ? Math.round((value - first) / 1000) : null;
+      });
+    }
+  }
+
+  return streams;
+}
+
+export function encodeStreams(streams: ActivityStreams): Buffer {
+  return gzipSync(JSON.stringify(streams));
+}
+
+export function decodeStreams(data: Uint8Array, encoding: string): ActivityStreams {
+  if (encoding !== STREAM_ENCODING) {
+    throw new Error(`Unsupported activity stream encoding '${encoding}'.`);
+  }
+
+  return JSON.parse(gunzipSync(data).toString("utf8")) as ActivityStreams;
+}
+
+function countSamples(streams: ActivityStreams): number {
+  return Object.values(streams).reduce((max, series) => Math.max(max, series?.length ?? 0), 0);
+}
+
+function derivePace(speed: StreamSeries): StreamSeries {
+  // Below ~0.5 m/s the athlete is standing; a pace of 30+ min/km is noise, not data.
+  return speed.map((value) => (value !== null && value > 0.5 ? Math.round(1000 / value) : null));
+}
+
+function averageBucket(values: StreamSeries): number | null {
+  let sum = 0;
+  let count = 0;
+  for (const value of values) {
+    if (value !== null) {
+      sum += value;
+      count += 1;
+    }
+  }
+
+  return count > 0 ? sum / count : null;
+}
+
+export function downsampleStreams(
+  streams: ActivityStreams,
+  maxPoints: number,
+  mode: DownsampleMode = "average",
+): ActivityStreams {
+  const sampleCount = countSamples(streams);
+  if (maxPoints <= 0 || sampleCount <= maxPoints) {
+    return streams;
+  }
+
+  const bucketSize = sampleCount / maxPoints;
+  const result: ActivityStreams = {};
+
+  for (const [channel, series] of Object.entries(streams) as Array<[StreamChannel, StreamSeries]>) {
+    const downsampled: StreamSeries = [];
+
+    for (let bucket = 0; bucket < maxPoints; bucket += 1) {
+      const start = Math.floor(bucket * bucketSize);
+      const end = Math.max(start + 1, Math.floor((bucket + 1) * bucketSize));
+
+      // Positions and elapsed time are picked, not averaged, so the track and axis stay exact.
+      if (
+        mode === "sample" ||
+        channel === "time" ||
+        channel === "latitude" ||
+        channel === "longitude"
+      ) {
+        downsampled.push(series[start] ?? null);
+        continue;
+      }
+
+      const average = averageBucket(series.slice(start, end));
+      downsampled.push(average === null ? null : roundTo(average, CHANNEL_PRECISION[channel]));
+    }
+
+    result[channel] = downsampled;
+  }
+
+  return result;
+}
+
+export async function saveActivityStreams(
+  userId: number,
+  activityId: number,
+  source: string,
+  streams: ActivityStreams,
+): Promise<void> {
+  const rounded: ActivityStreams = {};
+  for (const channel of STORED_CHANNELS) {
+    const series = streams[channel];
+    if (series) {
+      rounded[channel] = series.map((value) =>
+        value === null ? null : roundTo(value, CHANNEL_PRECISION[channel]),
+      );
+    }
+  }
+
+  const stored = {
+    source,
+    channels: Object.keys(rounded),
+    sampleCount: countSamples(rounded),
+    encoding: STREAM_ENCODING,
+    data: new Uint8Array(encodeStreams(rounded)),
+  };
+
+  await prisma.activityStream.upsert({
+    where: { activityId },
+    create: { activityId, userId, ...stored },
+    update: { ...stored, fetchedAt: new Date() },
+  });
+}
+
+export async function fetchActivityStreams(
+  userId: number,
+  activityId: number,
+  client: GarminAdapter,
+): Promise<ActivityStreams | null> {
+  const activity = await prisma.activity.findFirst({
+    where: { id: activityId, userId },
+    select: { garminActivityId: true },
+  });
+
+  if (!activity?.garminActivityId) {
+    return null;
+  }
+
+  const details = await client.getActivityDetails(activity.garminActivityId.toString());
+  const streams = parseGarminActivityDetails(details);
+
+  // Activities without sensor data still get a row, so they are not requested again.
+  await saveActivityStreams(userId, activityId, "garmin", streams);
+  return streams;
+}
+
+export async function syncActivityStreams(
+  userId: number,
+  startDate: Date,
+  endDate: Date,
+  client: GarminAdapter,
+): Promise<StreamFetchResult> {
+  const endExclusive = new Date(endDate.getTime() + 86400000);
+  const pending = await prisma.activity.findMany({
+    where: {
+      userId,
+      garminActivityId: { not: null },
+      activityDate: { gte: startDate, lt: endExclusive },
+      stream: null,
+    },
+    orderBy: [{ activityDate: "desc" }, { id: "desc" }],
+    take: STREAM_SYNC_LIMIT,
+    select: { id: true },
+  });
+
+  let fetched = 0;
+  let failed = 0;
+  let lastError: string | null = null;
+
+  for (const activity of pending) {
+    try {
+      await fetchActivityStreams(userId, activity.id, client);
+      fetched += 1;
+    } catch (error) {
+      failed += 1;
+      lastError = getErrorMessage(error);
+    }
+  }
+
+  if (pending.length > 0 && fetched === 0) {
+    return {
+      success: false,
+      fetched,
+      failed,
+      message: lastError ?? "Activity stream sync failed.",
+    };
+  }
+
+  return {
+    success: true,
+    fetched,
+    failed,
+    message:
+      failed > 0
+        ? `Fetched streams for ${fetched} activities; ${failed} failed (${lastError}).`
+        : `Fetched streams for ${fetched} activities.`,
+  };
+}
+
+export async function getActivityStreams(
+  userId: number,
+  activityId: number,
+  options: StreamQueryOptions = {},
+): Promise<ActivityStreamsResult> {
+  const activity = await prisma.activity.findFirst({
+    where: { id: activityId, userId },
+    select: {
+      id: true,
+      garminActivityId: true,
+      sportCategory: true,
+      stream: { select: { source: true, sampleCount: true, encoding: true, data: true } },
+    },
+  });
+
+  if (!activity) {
+    return { success: false, message: "Activity not found.", status: 404 };
+  }
+
+  const source = activity.stream?.source ?? "garmin";
+  let streams: ActivityStreams | null = null;
+  if (activity.stream) {
+    try {
+      streams = decodeStreams(activity.stream.data, activity.stream.encoding);
+    } catch (error) {
+      return {
+        success: false,
+        message: getErrorMessage(error) || "Stored activity streams could not be decoded.",
+        status: 422,
+      };
+    }
+  }
+
+  if (!streams) {
+    if (!activity.garminActivityId) {
+      return { success: false, message: "No streams stored for this activity.", status: 404 };
+    }
+
+    const clientResult = await getGarminClientForUser(userId);
+    if (!clientResult.success) {
+      return {
+        success: false,
+        message: clientResult.message,
+        status: clientResult.status ?? 502,
+      };
+    }
+
+    try {
+      streams = await fetchActivityStreams(userId, activity.id, clientResult.client);
+    } catch (error) {
+      return {
+        success: false,
+        message: getErrorMessage(error) || "Failed to fetch activity streams from Garmin.",
+        status: 502,
+      };
+    }
+  }
+
+  if (!streams) {
+    return { success: false, message: "No streams stored for this activity.", status: 404 };
+  }
+
+  const sampleCount = countSamples(streams);
+  const withPace: ActivityStreams =
+    streams.speed && activity.sportCategory === "running"
+      ? { ...streams, pace: derivePace(streams.speed) }
+      : streams;
+
+  const selected: ActivityStreams = {};
+  for (const channel of options.channels ?? STREAM_CHANNELS) {
+    const series = withPace[channel];
+    if (series) {
+      selected[channel] = series;
+    }
+  }
+
+  const output = options.maxPoints
+    ? downsampleStreams(selected, options.maxPoints, options.mode)
+    : selected;
+
+  return {
+    success: true,
+    activityId: activity.id,
+    source,
+    sampleCount,
+    pointCount: countSamples(output),
+    streams: output,
+  };
+}
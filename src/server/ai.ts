@@ -2,17 +2,27 @@ import Anthropic from "@anthropic-ai/sdk";
 import OpenAI from "openai";
 import {
   AI_REQUEST_TIMEOUT_MS,
+  AI_WORKOUT_MAX_ATTEMPTS,
   ANTHROPIC_MODEL,
   OPENROUTER_API_URL,
   OPENROUTER_MODEL,
   SYSTEM_PROMPT,
+  TRAINING_PLAN_SYSTEM_PROMPT,
   type GarminWorkoutJson,
   type WorkoutType,
 } from "@/lib/constants";
 import { prisma } from "@/lib/prisma";
+import { parseHrZones, type HrZone } from "@/server/hr-zones";
+import { getPinnedPaces, getUserSettings } from "@/server/user-settings";
+import {
+  calculateTrainingPaceZones,
+  type TrainingPaces,
+  type TrainingPaceZones,
+} from "@/server/vdot";
+import { validateGarminWorkout, WorkoutValidationError } from "@/server/workout-validator";
 
 type AIMessage = {
-  role: "system" | "user";
+  role: "system" | "user" | "assistant";
   content: string;
 };
 
@@ -27,20 +37,37 @@ type WorkoutGenerationResult = {
   explanation: string | null;
 };
 
+type AIProviderName = "openrouter" | "anthropic";
+
+type GeneratedWorkout = WorkoutGenerationResult & {
+  provider: AIProviderName;
+  attempts: number;
+};
+
 type FitnessContext = {
   predicted5kSeconds: number | null;
   predicted10kSeconds: number | null;
   predictedHalfSeconds: number | null;
   predictedMarathonSeconds: number | null;
+  vo2Max: number | null;
+  vdotSource: string | null;
   easyPaceLow: number | null;
   easyPaceHigh: number | null;
   tempoPace: number | null;
   thresholdPace: number | null;
   intervalPace: number | null;
   repetitionPace: number | null;
+  longRunPace: number | null;
+  // Paces the user set by hand; they override anything the profile would suggest.
+  pinnedPaces: string[];
+  // Daniels ranges for the unrounded VDOT behind the calculated paces, which are their midpoints
+  // (tempoPace stands for the marathon (M) range). Zones whose pace is pinned are left out.
+  paceZones: Partial<TrainingPaceZones> | null;
   weeklyVolumeAvgKm: number | null;
   longestRunKm: number | null;
   runningDistanceAvgKm: number | null;
+  weeklyTrainingMinutesAvg: number | null;
+  weeklyCrossTrainingMinutesAvg: number | null;
   racePredictionsLastUpdate: Date | null;
 };
 
@@ -48,6 +75,7 @@ type ActivityContext = {
   activityDate: Date | null;
   activityName: string | null;
   activityType: string | null;
+  sportCategory: string | null;
   distanceMeters: number | null;
   durationSeconds: number | null;
   averagePaceSecondsPerKm: number | null;
@@ -55,6 +83,30 @@ type ActivityContext = {
   maxHrBpm: number | null;
 };
 
+type SportVolumeContext = {
+  sportCategory: string;
+  sessions: number;
+  totalMinutes: number;
+  totalDistanceKm: number | null;
+  avgAerobicTrainingEffect: number | null;
+};
+
+type HrZoneContext = {
+  method: string | null;
+  zones: HrZone[];
+};
+
+type TrainingLoadContext = {
+  loadDate: Date;
+  load: number;
+  acuteLoad: number;
+  chronicLoad: number;
+  acwr: number | null;
+  fitness: number;
+  fatigue: number;
+  form: number;
+};
+
 type HealthContext = {
   readingDate: Date;
   sleepScore: number | null;
@@ -70,6 +122,7 @@ type HealthContext = {
 };
 
 export interface AIProvider {
+  readonly name: AIProviderName;
   generateCompletion(messages: AIMessage[]): Promise<string>;
 }
 
@@ -206,36 +259,8 @@ function stripMarkdownCodeBlock(raw: string): string {
   return withoutOpeningFence.trim();
 }
 
-function validateWorkoutStructure(value: unknown): value is GarminWorkoutJson {
-  if (!isObject(value)) {
-    return false;
-  }
-
-  if (typeof value.workoutName !== "string" || value.workoutName.trim() === "") {
-    return false;
-  }
-
-  if (!isObject(value.sportType)) {
-    return false;
-  }
-
-  if (!Array.isArray(value.workoutSegments) || value.workoutSegments.length === 0) {
-    return false;
-  }
-
-  const firstSegment = value.workoutSegments[0];
-  if (!isObject(firstSegment)) {
-    return false;
-  }
-
-  if (!Array.isArray(firstSegment.workoutSteps) || firstSegment.workoutSteps.length === 0) {
-    return false;
-  }
-
-  return true;
-}
-
 class OpenRouterProvider implements AIProvider {
+  readonly name = "openrouter";
   private readonly client: OpenAI;
 
   constructor(apiKey: string) {
@@ -270,6 +295,7 @@ class OpenRouterProvider implements AIProvider {
 }
 
 class AnthropicProvider implements AIProvider {
+  readonly name = "anthropic";
   private readonly client: Anthropic;
 
   constructor(apiKey: string) {
@@ -286,11 +312,21 @@ class AnthropicProvider implements AIProvider {
       .join("\n\n")
       .trim();
 
-    const userPrompt = messages
-      .filter((message) => message.role === "user")
-      .map((message) => message.content)
-      .join("\n\n")
-      .trim();
+    // Anthropic wants user and assistant turns to alternate, so neighbours with the same role
+    // are merged.
+    const conversation: Array<{ role: "user" | "assistant"; content: string }> = [];
+    for (const message of messages) {
+      if (message.role === "system") {
+        continue;
+      }
+
+      const previous = conversation[conversation.length - 1];
+      if (previous?.role === message.role) {
+        previous.content = `${previous.content}\n\n${message.content}`;
+      } else {
+        conversation.push({ role: message.role, content: message.content });
+      }
+    }
 
     let response;
     try {
@@ -299,7 +335,7 @@ class AnthropicProvider implements AIProvider {
         max_tokens: 8192,
         temperature: 0.7,
         system: systemPrompt,
-        messages: [{ role: "user", content: userPrompt }],
+        messages: conversation,
       });
     } catch (error) {
       throw mapProviderError("anthropic", error);
@@ -349,31 +385,80 @@ function resolveAIProvider(): AIProvider {
   );
 }
 
-function buildModelUserMessage(
+function buildTrainingContextText(
   fitness: FitnessContext,
   activities: ActivityContext[],
+  sportVolume: SportVolumeContext[],
+  trainingLoad: TrainingLoadContext[],
   health: HealthContext[],
-  workoutPrompt: string,
+  hrZones: HrZoneContext | null,
 ): string {
   const activitiesText =
     activities.length > 0
       ? JSON.stringify(activities, null, 2)
       : "No recent activities available.";
 
+  const sportVolumeText =
+    sportVolume.length > 0
+      ? JSON.stringify(sportVolume, null, 2)
+      : "No training recorded in the last 28 days.";
+
+  const trainingLoadText =
+    trainingLoad.length > 0
+      ? JSON.stringify(trainingLoad, null, 2)
+      : "No training load history available.";
+
   const healthText =
     health.length > 0
       ? JSON.stringify(health, null, 2)
       : "No recent health data available.";
 
+  const hrZonesText = hrZones
+    ? JSON.stringify(hrZones, null, 2)
+    : "No heart rate zones configured; prefer pace targets.";
+
   return `## User Fitness Profile
 ${JSON.stringify(fitness, null, 2)}
 
-## User's Last 5 Activities
+## User's Last 5 Activities (All Sports)
 ${activitiesText}
 
+## Training by Sport (Last 28 Days)
+Cross-training adds to fatigue even though it does not count toward running volume.
+${sportVolumeText}
+
+## Training Load (Last 7 Days)
+Daily load is heart-rate-zone TRIMP. acwr is acute (7-day) over chronic (28-day) load: 0.8-1.3 is the safe range and above 1.5 means load is rising too fast. acwr is null until there are 28 days of history. fitness/fatigue/form are CTL/ATL/TSB; negative form means accumulated fatigue.
+${trainingLoadText}
+
 ## User's Health Data (Last 3 Days)
 ${healthText}
 
+## Heart Rate Zones
+Use these zone numbers for heart.rate.zone targets. method is how the bpm ranges were set: max_hr (% of max HR), hrr (% of heart rate reserve), lthr (% of lactate threshold HR), or custom.
+${hrZonesText}`;
+}
+
+function buildModelUserMessage(
+  fitness: FitnessContext,
+  activities: ActivityContext[],
+  sportVolume: SportVolumeContext[],
+  trainingLoad: TrainingLoadContext[],
+  health: HealthContext[],
+  hrZones: HrZoneContext | null,
+  workoutPrompt: string,
+): string {
+  const contextText = buildTrainingContextText(
+    fitness,
+    activities,
+    sportVolume,
+    trainingLoad,
+    health,
+    hrZones,
+  );
+
+  return `${contextText}
+
 ## Workout Request
 ${workoutPrompt}
 
@@ -425,22 +510,52 @@ export function parseWorkoutResponse(raw: string): WorkoutGenerationResult {
     workoutCandidate = parsed;
   }
 
-  if (!validateWorkoutStructure(workoutCandidate)) {
-    throw new Error("Workout is missing required Garmin fields.");
+  const validation = validateGarminWorkout(workoutCandidate);
+  if (!validation.success) {
+    throw new WorkoutValidationError(validation.errors);
   }
 
   return {
-    workout: workoutCandidate,
+    workout: validation.workout,
     explanation,
   };
 }
 
+const PACE_ZONE_FIELDS: Record<keyof TrainingPaceZones, Array<keyof TrainingPaces>> = {
+  easy: ["easyPaceLow", "easyPaceHigh"],
+  marathon: ["tempoPace"],
+  threshold: ["thresholdPace"],
+  interval: ["intervalPace"],
+  repetition: ["repetitionPace"],
+};
+
+// A pinned pace replaces its zone, so that zone's calculated range would contradict it.
+function buildPaceZones(
+  vdot: number,
+  pinnedPaces: Partial<TrainingPaces>,
+): Partial<TrainingPaceZones> {
+  const zones = calculateTrainingPaceZones(vdot);
+  const result: Partial<TrainingPaceZones> = {};
+  for (const zone of Object.keys(PACE_ZONE_FIELDS) as Array<keyof TrainingPaceZones>) {
+    if (!PACE_ZONE_FIELDS[zone].some((field) => pinnedPaces[field] !== undefined)) {
+      result[zone] = zones[zone];
+    }
+  }
+
+  return result;
+}
+
 async function fetchWorkoutGenerationContext(userId: number): Promise<{
   fitness: FitnessContext;
   activities: ActivityContext[];
+  sportVolume: SportVolumeContext[];
+  trainingLoad: TrainingLoadContext[];
   health: HealthContext[];
+  hrZones: HrZoneContext | null;
 }> {
-  const [fitness, activities, health] = await Promise.all([
+  const volumeSince = new Date(Date.now() - 28 * 86400000);
+
+  const [fitness, activities, sportGroups, trainingLoad, health, settings] = await Promise.all([
     prisma.userRunningFitness.findUnique({
       where: { userId },
       select: {
@@ -448,16 +563,24 @@ async function fetchWorkoutGenerationContext(userId: number): Promise<{
         predicted10kSeconds: true,
         predictedHalfSeconds: true,
         predictedMarathonSeconds: true,
+        vo2Max: true,
+        vdotSource: true,
+        paceVdot: true,
         easyPaceLow: true,
         easyPaceHigh: true,
         tempoPace: true,
         thresholdPace: true,
         intervalPace: true,
         repetitionPace: true,
+        longRunPace: true,
         weeklyVolumeAvgKm: true,
         longestRunKm: true,
         runningDistanceAvgKm: true,
+        weeklyTrainingMinutesAvg: true,
+        weeklyCrossTrainingMinutesAvg: true,
         racePredictionsLastUpdate: true,
+        hrZoneMethod: true,
+        hrZonesJson: true,
       },
     }),
     prisma.activity.findMany({
@@ -468,6 +591,7 @@ async function fetchWorkoutGenerationContext(userId: number): Promise<{
         activityDate: true,
         activityName: true,
         activityType: true,
+        sportCategory: true,
         distanceMeters: true,
         durationSeconds: true,
         averagePaceSecondsPerKm: true,
@@ -475,6 +599,28 @@ async function fetchWorkoutGenerationContext(userId: number): Promise<{
         maxHrBpm: true,
       },
     }),
+    prisma.activity.groupBy({
+      by: ["sportCategory"],
+      where: { userId, activityDate: { gte: volumeSince } },
+      _count: { _all: true },
+      _sum: { durationSeconds: true, distanceMeters: true },
+      _avg: { aerobicTrainingEffect: true },
+    }),
+    prisma.dailyTrainingLoad.findMany({
+      where: { userId },
+      orderBy: { loadDate: "desc" },
+      take: 7,
+      select: {
+        loadDate: true,
+        load: true,
+        acuteLoad: true,
+        chronicLoad: true,
+        acwr: true,
+        fitness: true,
+        fatigue: true,
+        form: true,
+      },
+    }),
     prisma.dailyHealthReading.findMany({
       where: { userId },
       orderBy: [{ readingDate: "desc" }, { id: "desc" }],
@@ -493,23 +639,66 @@ async function fetchWorkoutGenerationContext(userId: number): Promise<{
         bodyBatteryEnd: true,
       },
     }),
+    getUserSettings(userId),
   ]);
 
   if (!fitness) {
     throw new Error("No fitness profile found. Please sync Garmin data first.");
   }
 
+  const { hrZoneMethod, hrZonesJson, paceVdot, ...fitnessProfile } = fitness;
+  const pinnedPaces = getPinnedPaces(settings);
+  const zones = parseHrZones(hrZonesJson);
+
+  const sportVolume = sportGroups
+    .map((group) => ({
+      sportCategory: group.sportCategory ?? "other",
+      sessions: group._count._all,
+      totalMinutes: Math.round((group._sum.durationSeconds ?? 0) / 60),
+      totalDistanceKm:
+        group._sum.distanceMeters !== null
+          ? Number((group._sum.distanceMeters / 1000).toFixed(1))
+          : null,
+      avgAerobicTrainingEffect:
+        group._avg.aerobicTrainingEffect !== null
+          ? Number(group._avg.aerobicTrainingEffect.toFixed(1))
+          : null,
+    }))
+    .sort((a, b) => b.totalMinutes - a.totalMinutes);
+
   return {
-    fitness,
+    fitness: {
+      ...fitnessProfile,
+      pinnedPaces: Object.keys(pinnedPaces),
+      paceZones: paceVdot ? buildPaceZones(paceVdot, pinnedPaces) : null,
+    },
     activities,
+    sportVolume,
+    trainingLoad,
     health,
+    hrZones: zones ? { method: hrZoneMethod, zones } : null,
   };
 }
 
+function buildCorrectionMessage(error: unknown, expected: string): string {
+  const problems =
+    error instanceof WorkoutValidationError
+      ? error.errors.map((issue) => `- ${issue.path}: ${issue.message}`)
+      : [`- ${error instanceof Error ? error.message : "The response could not be parsed."}`];
+
+  return [
+    `Your previous response could not be used as ${expected}:`,
+    ...problems,
+    "",
+    "Fix these problems and return the complete corrected response in the same JSON format.",
+    "Return only JSON.",
+  ].join("\n");
+}
+
 export async function generateWorkout(
   userId: number,
   userPrompt: string,
-): Promise<WorkoutGenerationResult> {
+): Promise<GeneratedWorkout> {
   if (!Number.isInteger(userId) || userId <= 0) {
     throw new Error("Invalid user id.");
   }
@@ -529,12 +718,113 @@ export async function generateWorkout(
       content: buildModelUserMessage(
         context.fitness,
         context.activities,
+        context.sportVolume,
+        context.trainingLoad,
         context.health,
+        context.hrZones,
         prompt,
       ),
     },
   ];
 
-  const raw = await provider.generateCompletion(messages);
-  return parseWorkoutResponse(raw);
+  // Provider errors end the loop straight away; only unusable answers are sent back for another
+  // try, together with what was wrong with them.
+  for (let attempt = 1; ; attempt += 1) {
+    const raw = await provider.generateCompletion(messages);
+
+    try {
+      return {
+        ...parseWorkoutResponse(raw),
+        provider: provider.name,
+        attempts: attempt,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Workout could not be parsed.";
+      if (attempt >= AI_WORKOUT_MAX_ATTEMPTS) {
+        throw new Error(`${message} Gave up after ${attempt} attempts.`);
+      }
+
+      messages.push(
+        { role: "assistant", content: raw },
+        { role: "user", content: buildCorrectionMessage(error, "a Garmin workout") },
+      );
+    }
+  }
+}
+
+export type PlanBlockRequest<T> = {
+  prompt: string;
+  // Turns the parsed JSON into the caller's result. Throwing sends the message back to the model.
+  parse: (response: unknown) => T;
+};
+
+export type GeneratedPlanBlock<T> = {
+  result: T;
+  provider: AIProviderName;
+  attempts: number;
+};
+
+// Same retry rules as generateWorkout: an unusable answer goes back with what was wrong with it,
+// up to AI_WORKOUT_MAX_ATTEMPTS answers.
+async function generatePlanBlock<T>(
+  provider: AIProvider,
+  contextText: string,
+  block: PlanBlockRequest<T>,
+): Promise<GeneratedPlanBlock<T>> {
+  const messages: AIMessage[] = [
+    { role: "system", content: TRAINING_PLAN_SYSTEM_PROMPT },
+    { role: "user", content: `${contextText}\n\n${block.prompt}` },
+  ];
+
+  for (let attempt = 1; ; attempt += 1) {
+    const raw = await provider.generateCompletion(messages);
+
+    try {
+      let response: unknown;
+      try {
+        response = JSON.parse(stripMarkdownCodeBlock(raw));
+      } catch {
+        throw new Error("Failed to parse training plan JSON from AI response.");
+      }
+
+      return { result: block.parse(response), provider: provider.name, attempts: attempt };
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Training plan could not be parsed.";
+      if (attempt >= AI_WORKOUT_MAX_ATTEMPTS) {
+        throw new Error(`${message} Gave up after ${attempt} attempts.`);
+      }
+
+      messages.push(
+        { role: "assistant", content: raw },
+        { role: "user", content: buildCorrectionMessage(error, "a training plan block") },
+      );
+    }
+  }
+}
+
+// Generates plan blocks against a single snapshot of the user's context. The blocks do not depend
+// on each other, so they are requested together to keep a whole plan within one request's time.
+export async function generateTrainingPlanBlocks<T>(
+  userId: number,
+  blocks: PlanBlockRequest<T>[],
+): Promise<GeneratedPlanBlock<T>[]> {
+  if (!Number.isInteger(userId) || userId <= 0) {
+    throw new Error("Invalid user id.");
+  }
+
+  const context = await fetchWorkoutGenerationContext(userId);
+  const provider = resolveAIProvider();
+  const contextText = buildTrainingContextText(
+    context.fitness,
+    context.activities,
+    context.sportVolume,
+    context.trainingLoad,
+    context.health,
+    context.hrZones,
+  );
+
+  return await Promise.all(
+    blocks.map((block) => generatePlanBlock(provider, contextText, block)),
+  );
 }
@@ -0,0 +1,265 @@
+import type { Prisma } from "../../prisma/generated/prisma/client";
+import { prisma } from "@/lib/prisma";
+import {
+  GarminCapabilityError,
+  type GarminAdapter,
+  getGarminClientForUser,
+} from "@/server/garmin";
+import { mapDailyHealthReadings, mapRacePredictions } from "@/server/garmin-field-mapper";
+
+export type DataProviderId = "garmin";
+
+export type ProviderActivity = {
+  // Stable id within the provider; stored in activities.external_id.
+  externalId: string;
+  // Summary in the shape of a Garmin activity list entry, the same contract file imports follow,
+  // so every source goes through mapActivity.
+  summary: unknown;
+};
+
+export type ProviderHealthDay = {
+  readings: Partial<Prisma.DailyHealthReadingUncheckedCreateInput>;
+  // Some metrics were unavailable from the provider for this day.
+  partial: boolean;
+};
+
+export type ProviderRacePredictions = Partial<Prisma.UserRunningFitnessUncheckedCreateInput>;
+
+export interface FitnessDataProvider {
+  readonly id: DataProviderId;
+  getActivities(startDate: string, endDate: string): Promise<ProviderActivity[]>;
+  // Sleep, HRV and resting heart rate for one day.
+  getDailyHealth(date: string): Promise<ProviderHealthDay>;
+  // Null when the provider has no predictions for this account.
+  getRacePredictions(): Promise<ProviderRacePredictions | null>;
+}
+
+// Garmin also backs streams and workout upload, which have no provider-agnostic equivalent yet.
+export type GarminDataProvider = FitnessDataProvider & {
+  readonly id: "garmin";
+  readonly client: GarminAdapter;
+};
+
+export type DataProviderResult =
+  | { success: true; provider: FitnessDataProvider }
+  | { success: false; message: string; status?: number };
+
+export type DataProvidersResult =
+  | { success: true; providers: FitnessDataProvider[] }
+  | { success: false; message: string; status?: number };
+
+export type LinkedDataProvider = {
+  provider: DataProviderId;
+  label: string;
+  priority: number;
+  linkedAt: Date;
+};
+
+type DataProviderRegistration = {
+  label: string;
+  create: (userId: number) => Promise<DataProviderResult>;
+};
+
+function asObject(value: unknown): Record<string, unknown> | null {
+  if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+    return value as Record<string, unknown>;
+  }
+
+  return null;
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function isRecoverableGarminDataError(error: unknown): boolean {
+  if (error instanceof GarminCapabilityError) {
+    return true;
+  }
+
+  const message = getErrorMessage(error).toLowerCase();
+  return (
+    message.includes("404") ||
+    message.includes("not found") ||
+    message.includes("notfoundexception") ||
+    message.includes("missing garmin capability")
+  );
+}
+
+export function isGarminDataProvider(
+  provider: FitnessDataProvider,
+): provider is GarminDataProvider {
+  return provider.id === "garmin" && "client" in provider;
+}
+
+export function createGarminDataProvider(client: GarminAdapter): GarminDataProvider {
+  return {
+    id: "garmin",
+    client,
+
+    async getActivities(startDate, endDate) {
+      const rawActivities = await client.getActivities(startDate, endDate);
+      return rawActivities.flatMap((summary) => {
+        const activityId = asObject(summary)?.activityId;
+        return typeof activityId === "number" || typeof activityId === "string"
+          ? [{ externalId: String(activityId), summary }]
+          : [];
+      });
+    },
+
+    async getDailyHealth(date) {
+      const [sleepResult, hrvResult, restingHeartRateResult] = await Promise.allSettled([
+        client.getSleepData(date),
+        client.getHrvData(date),
+        client.getRestingHeartRate(date),
+      ]);
+
+      for (const result of [sleepResult, hrvResult, restingHeartRateResult]) {
+        if (result.status === "rejected" && !isRecoverableGarminDataError(result.reason)) {
+          throw result.reason;
+        }
+      }
+
+      return {
+        readings: mapDailyHealthReadings({
+          date,
+          sleep: sleepResult.status === "fulfilled" ? sleepResult.value : undefined,
+          hrv: hrvResult.status === "fulfilled" ? hrvResult.value : undefined,
+          restingHeartRate:
+            restingHeartRateResult.status === "fulfilled"
+              ? restingHeartRateResult.value
+              : undefined,
+        }),
+        partial:
+          sleepResult.status === "rejected" ||
+          hrvResult.status === "rejected" ||
+          restingHeartRateResult.status === "rejected",
+      };
+    },
+
+    async getRacePredictions() {
+      let predictionsRaw: unknown;
+      try {
+        predictionsRaw = await client.getRacePredictions();
+      } catch (error) {
+        if (isRecoverableGarminDataError(error)) {
+          return null;
+        }
+        throw error;
+      }
+
+      const predictions = Array.isArray(predictionsRaw)
+        ? asObject(predictionsRaw[0])
+        : asObject(predictionsRaw);
+
+      return predictions ? mapRacePredictions(predictions) : null;
+    },
+  };
+}
+
+const DATA_PROVIDERS: Record<DataProviderId, DataProviderRegistration> = {
+  garmin: {
+    label: "Garmin Connect",
+    create: async (userId) => {
+      const clientResult = await getGarminClientForUser(userId);
+      if (!clientResult.success) {
+        return clientResult;
+      }
+
+      return { success: true, provider: createGarminDataProvider(clientResult.client) };
+    },
+  },
+};
+
+export const DATA_PROVIDER_IDS = Object.keys(DATA_PROVIDERS) as DataProviderId[];
+
+export function isDataProviderId(value: string): value is DataProviderId {
+  return DATA_PROVIDER_IDS.includes(value as DataProviderId);
+}
+
+export function getDataProviderLabel(provider: DataProviderId): string {
+  return DATA_PROVIDERS[provider].label;
+}
+
+export async function getLinkedDataProviders(userId: number): Promise<LinkedDataProvider[]> {
+  const rows = await prisma.userDataProvider.findMany({
+    where: { userId },
+    orderBy: [{ priority: "asc" }, { linkedAt: "asc" }],
+    select: { provider: true, priority: true, linkedAt: true },
+  });
+
+  // Rows for providers this build no longer ships are ignored rather than failing every sync.
+  return rows.flatMap((row) =>
+    isDataProviderId(row.provider)
+      ? [{ ...row, provider: row.provider, label: getDataProviderLabel(row.provider) }]
+      : [],
+  );
+}
+
+export async function linkDataProvider(userId: number, provider: DataProviderId): Promise<void> {
+  const lowest = await prisma.userDataProvider.findFirst({
+    where: { userId },
+    orderBy: { priority: "desc" },
+    select: { priority: true },
+  });
+
+  // A newly linked provider fills gaps; it does not take over from the ones already linked.
+  await prisma.userDataProvider.upsert({
+    where: { userId_provider: { userId, provider } },
+    create: { userId, provider, priority: lowest ? lowest.priority + 1 : 0 },
+    update: {},
+  });
+}
+
+export async function unlinkDataProvider(userId: number, provider: DataProviderId): Promise<void> {
+  await prisma.userDataProvider.deleteMany({ where: { userId, provider } });
+}
+
+export async function setDataProviderPriorities(
+  userId: number,
+  order: DataProviderId[],
+): Promise<{ success: true } | { success: false; message: string; status: number }> {
+  const linked = await getLinkedDataProviders(userId);
+  const linkedIds = linked.map((entry) => entry.provider);
+
+  if (
+    order.length !== linkedIds.length ||
+    new Set(order).size !== order.length ||
+    order.some((provider) => !linkedIds.includes(provider))
+  ) {
+    return {
+      success: false,
+      message: "Priority order must list each linked provider exactly once.",
+      status: 400,
+    };
+  }
+
+  await prisma.$transaction(
+    order.map((provider, index) =>
+      prisma.userDataProvider.update({
+        where: { userId_provider: { userId, provider } },
+        data: { priority: index },
+      }),
+    ),
+  );
+
+  return { success: true };
+}
+
+export async function createDataProvidersForUser(userId: number): Promise<DataProvidersResult> {
+  const linked = await getLinkedDataProviders(userId);
+  if (linked.length === 0) {
+    return { success: false, message: "No data provider connected.", status: 400 };
+  }
+
+  const providers: FitnessDataProvider[] = [];
+  for (const entry of linked) {
+    const result = await DATA_PROVIDERS[entry.provider].create(userId);
+    if (!result.success) {
+      return result;
+    }
+    providers.push(result.provider);
+  }
+
+  return { success: true, providers };
+}
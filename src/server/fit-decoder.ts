@@ -0,0 +1,409 @@
+// Minimal decoder for the Garmin FIT binary protocol. It only understands the messages the
+// importer needs (file_id, activity, session, lap, record) and ignores everything else.
+
+export type FitSession = {
+  startTime: Date | null;
+  sport: number | null;
+  subSport: number | null;
+  totalElapsedSeconds: number | null;
+  totalTimerSeconds: number | null;
+  totalDistanceMeters: number | null;
+  avgSpeed: number | null;
+  maxSpeed: number | null;
+  avgHeartRate: number | null;
+  maxHeartRate: number | null;
+  avgCadence: number | null;
+  totalAscent: number | null;
+  totalDescent: number | null;
+  aerobicTrainingEffect: number | null;
+  anaerobicTrainingEffect: number | null;
+};
+
+export type FitLap = {
+  startTime: Date | null;
+  totalElapsedSeconds: number | null;
+  totalTimerSeconds: number | null;
+  totalDistanceMeters: number | null;
+  avgSpeed: number | null;
+  maxSpeed: number | null;
+  avgHeartRate: number | null;
+  maxHeartRate: number | null;
+  totalAscent: number | null;
+  totalDescent: number | null;
+};
+
+export type FitRecord = {
+  timestamp: Date | null;
+  latitude: number | null;
+  longitude: number | null;
+  altitude: number | null;
+  heartRate: number | null;
+  cadence: number | null;
+  distance: number | null;
+  speed: number | null;
+  power: number | null;
+};
+
+export type FitActivity = {
+  fileType: number | null;
+  manufacturer: number | null;
+  // local_timestamp minus timestamp on the activity message; null when the device wrote neither.
+  utcOffsetSeconds: number | null;
+  sessions: FitSession[];
+  laps: FitLap[];
+  records: FitRecord[];
+};
+
+export class FitDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FitDecodeError";
+  }
+}
+
+type FieldDefinition = {
+  number: number;
+  size: number;
+  baseType: number;
+};
+
+type MessageDefinition = {
+  globalNumber: number;
+  littleEndian: boolean;
+  fields: FieldDefinition[];
+  developerDataSize: number;
+};
+
+type FieldValues = Map<number, number | string | null>;
+
+// Seconds between the Unix epoch and the FIT epoch (1989-12-31T00:00:00Z).
+const FIT_EPOCH_OFFSET_SECONDS = 631_065_600;
+const SEMICIRCLES_TO_DEGREES = 180 / 2 ** 31;
+const FIT_FILE_TYPE_ACTIVITY = 4;
+
+const MESG_FILE_ID = 0;
+const MESG_SESSION = 18;
+const MESG_LAP = 19;
+const MESG_RECORD = 20;
+const MESG_ACTIVITY = 34;
+
+const FIELD_TIMESTAMP = 253;
+
+// Base type number (low 5 bits) -> byte size and "invalid" sentinel.
+const BASE_TYPES: Record<number, { size: number; invalid: number | null }> = {
+  0: { size: 1, invalid: 0xff }, // enum
+  1: { size: 1, invalid: 0x7f }, // sint8
+  2: { size: 1, invalid: 0xff }, // uint8
+  3: { size: 2, invalid: 0x7fff }, // sint16
+  4: { size: 2, invalid: 0xffff }, // uint16
+  5: { size: 4, invalid: 0x7fffffff }, // sint32
+  6: { size: 4, invalid: 0xffffffff }, // uint32
+  7: { size: 1, invalid: null }, // string
+  8: { size: 4, invalid: null }, // float32
+  9: { size: 8, invalid: null }, // float64
+  10: { size: 1, invalid: 0 }, // uint8z
+  11: { size: 2, invalid: 0 }, // uint16z
+  12: { size: 4, invalid: 0 }, // uint32z
+  13: { size: 1, invalid: 0xff }, // byte
+  14: { size: 8, invalid: null }, // sint64
+  15: { size: 8, invalid: null }, // uint64
+  16: { size: 8, invalid: null }, // uint64z
+};
+
+function readScalar(
+  view: DataView,
+  offset: number,
+  baseTypeNumber: number,
+  littleEndian: boolean,
+): number | null {
+  let value: number;
+
+  switch (baseTypeNumber) {
+    case 1:
+      value = view.getInt8(offset);
+      break;
+    case 0:
+    case 2:
+    case 10:
+    case 13:
+      value = view.getUint8(offset);
+      break;
+    case 3:
+      value = view.getInt16(offset, littleEndian);
+      break;
+    case 4:
+    case 11:
+      value = view.getUint16(offset, littleEndian);
+      break;
+    case 5:
+      value = view.getInt32(offset, littleEndian);
+      break;
+    case 6:
+    case 12:
+      value = view.getUint32(offset, littleEndian);
+      break;
+    case 8:
+      value = view.getFloat32(offset, littleEndian);
+      return Number.isFinite(value) ? value : null;
+    case 9:
+      value = view.getFloat64(offset, littleEndian);
+      return Number.isFinite(value) ? value : null;
+    case 14: {
+      const raw = view.getBigInt64(offset, littleEndian);
+      return raw === BigInt("9223372036854775807") ? null : Number(raw);
+    }
+    case 15:
+    case 16: {
+      const raw = view.getBigUint64(offset, littleEndian);
+      if (raw === BigInt("18446744073709551615") || (baseTypeNumber === 16 && raw === BigInt(0))) {
+        return null;
+      }
+      return Number(raw);
+    }
+    default:
+      return null;
+  }
+
+  return value === BASE_TYPES[baseTypeNumber]?.invalid ? null : value;
+}
+
+function readField(
+  view: DataView,
+  offset: number,
+  field: FieldDefinition,
+  littleEndian: boolean,
+): number | string | null {
+  const baseTypeNumber = field.baseType & 0x1f;
+
+  if (baseTypeNumber === 7) {
+    const bytes = new Uint8Array(view.buffer, view.byteOffset + offset, field.size);
+    const end = bytes.indexOf(0);
+    const text = new TextDecoder().decode(end === -1 ? bytes : bytes.subarray(0, end));
+    return text === "" ? null : text;
+  }
+
+  const typeInfo = BASE_TYPES[baseTypeNumber];
+  if (!typeInfo || field.size < typeInfo.size) {
+    return null;
+  }
+
+  // Array fields only matter to us through their first element.
+  return readScalar(view, offset, baseTypeNumber, littleEndian);
+}
+
+function numberField(
+  values: FieldValues,
+  fieldNumber: number,
+  scale = 1,
+  offset = 0,
+): number | null {
+  const value = values.get(fieldNumber);
+  return typeof value === "number" ? value / scale - offset : null;
+}
+
+function dateField(values: FieldValues, fieldNumber: number): Date | null {
+  const value = values.get(fieldNumber);
+  return typeof value === "number" ? new Date((value + FIT_EPOCH_OFFSET_SECONDS) * 1000) : null;
+}
+
+function firstNumber(...values: Array<number | null>): number | null {
+  return values.find((value) => value !== null) ?? null;
+}
+
+function toSession(values: FieldValues): FitSession {
+  return {
+    startTime: dateField(values, 2),
+    sport: numberField(values, 5),
+    subSport: numberField(values, 6),
+    totalElapsedSeconds: numberField(values, 7, 1000),
+    totalTimerSeconds: numberField(values, 8, 1000),
+    totalDistanceMeters: numberField(values, 9, 100),
+    avgSpeed: firstNumber(numberField(values, 124, 1000), numberField(values, 14, 1000)),
+    maxSpeed: firstNumber(numberField(values, 125, 1000), numberField(values, 15, 1000)),
+    avgHeartRate: numberField(values, 16),
+    maxHeartRate: numberField(values, 17),
+    avgCadence: numberField(values, 18),
+    totalAscent: numberField(values, 22),
+    totalDescent: numberField(values, 23),
+    aerobicTrainingEffect: numberField(values, 24, 10),
+    anaerobicTrainingEffect: numberField(values, 137, 10),
+  };
+}
+
+function toLap(values: FieldValues): FitLap {
+  return {
+    startTime: dateField(values, 2),
+    totalElapsedSeconds: numberField(values, 7, 1000),
+    totalTimerSeconds: numberField(values, 8, 1000),
+    totalDistanceMeters: numberField(values, 9, 100),
+    avgSpeed: firstNumber(numberField(values, 110, 1000), numberField(values, 13, 1000)),
+    maxSpeed: firstNumber(numberField(values, 111, 1000), numberField(values, 14, 1000)),
+    avgHeartRate: numberField(values, 15),
+    maxHeartRate: numberField(values, 16),
+    totalAscent: numberField(values, 21),
+    totalDescent: numberField(values, 22),
+  };
+}
+
+function toRecord(values: FieldValues): FitRecord {
+  const latitude = numberField(values, 0);
+  const longitude = numberField(values, 1);
+
+  return {
+    timestamp: dateField(values, FIELD_TIMESTAMP),
+    latitude: latitude !== null ? latitude * SEMICIRCLES_TO_DEGREES : null,
+    longitude: longitude !== null ? longitude * SEMICIRCLES_TO_DEGREES : null,
+    altitude: firstNumber(numberField(values, 78, 5, 500), numberField(values, 2, 5, 500)),
+    heartRate: numberField(values, 3),
+    cadence: numberField(values, 4),
+    distance: numberField(values, 5, 100),
+    speed: firstNumber(numberField(values, 73, 1000), numberField(values, 6, 1000)),
+    power: numberField(values, 7),
+  };
+}
+
+export function decodeFitFile(data: Uint8Array): FitActivity {
+  if (data.byteLength < 12) {
+    throw new FitDecodeError("File is too small to be a FIT file.");
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const headerSize = view.getUint8(0);
+  const dataSize = view.getUint32(4, true);
+  const signature = String.fromCharCode(
+    view.getUint8(8),
+    view.getUint8(9),
+    view.getUint8(10),
+    view.getUint8(11),
+  );
+
+  if ((headerSize !== 12 && headerSize !== 14) || signature !== ".FIT") {
+    throw new FitDecodeError("Not a FIT file (missing .FIT header).");
+  }
+
+  const end = headerSize + dataSize;
+  if (end > data.byteLength) {
+    throw new FitDecodeError("FIT file is truncated.");
+  }
+
+  const definitions = new Map<number, MessageDefinition>();
+  const activity: FitActivity = {
+    fileType: null,
+    manufacturer: null,
+    utcOffsetSeconds: null,
+    sessions: [],
+    laps: [],
+    records: [],
+  };
+
+  let offset = headerSize;
+  let lastTimestamp: number | null = null;
+
+  while (offset < end) {
+    const recordHeader = view.getUint8(offset);
+    offset += 1;
+
+    let localType: number;
+    let compressedTimestamp: number | null = null;
+
+    if (recordHeader & 0x80) {
+      // Compressed timestamp header: a data message timed as a 5-bit offset from the last timestamp.
+      localType = (recordHeader >> 5) & 0x03;
+      const timeOffset = recordHeader & 0x1f;
+      if (lastTimestamp !== null) {
+        // Arithmetic instead of bit masks: FIT timestamps are uint32 and would go negative.
+        const lastLowBits: number = lastTimestamp % 0x20;
+        const base: number = lastTimestamp - lastLowBits;
+        compressedTimestamp =
+          timeOffset >= lastLowBits ? base + timeOffset : base + timeOffset + 0x20;
+        lastTimestamp = compressedTimestamp;
+      }
+    } else if (recordHeader & 0x40) {
+      localType = recordHeader & 0x0f;
+      const hasDeveloperData = (recordHeader & 0x20) !== 0;
+      const littleEndian = view.getUint8(offset + 1) === 0;
+      const globalNumber = view.getUint16(offset + 2, littleEndian);
+      const fieldCount = view.getUint8(offset + 4);
+      offset += 5;
+
+      const fields: FieldDefinition[] = [];
+      for (let index = 0; index < fieldCount; index += 1) {
+        fields.push({
+          number: view.getUint8(offset),
+          size: view.getUint8(offset + 1),
+          baseType: view.getUint8(offset + 2),
+        });
+        offset += 3;
+      }
+
+      let developerDataSize = 0;
+      if (hasDeveloperData) {
+        const developerFieldCount = view.getUint8(offset);
+        offset += 1;
+        for (let index = 0; index < developerFieldCount; index += 1) {
+          developerDataSize += view.getUint8(offset + 1);
+          offset += 3;
+        }
+      }
+
+      definitions.set(localType, { globalNumber, littleEndian, fields, developerDataSize });
+      continue;
+    } else {
+      localType = recordHeader & 0x0f;
+    }
+
+    const definition = definitions.get(localType);
+    if (!definition) {
+      throw new FitDecodeError(`Data message for undefined local type ${localType}.`);
+    }
+
+    const values: FieldValues = new Map();
+    for (const field of definition.fields) {
+      if (offset + field.size > end) {
+        throw new FitDecodeError("FIT file is truncated.");
+      }
+      values.set(field.number, readField(view, offset, field, definition.littleEndian));
+      offset += field.size;
+    }
+    offset += definition.developerDataSize;
+
+    const timestamp = values.get(FIELD_TIMESTAMP);
+    if (typeof timestamp === "number") {
+      lastTimestamp = timestamp;
+    } else if (compressedTimestamp !== null) {
+      values.set(FIELD_TIMESTAMP, compressedTimestamp);
+    }
+
+    switch (definition.globalNumber) {
+      case MESG_FILE_ID:
+        activity.fileType = numberField(values, 0);
+        activity.manufacturer = numberField(values, 1);
+        break;
+      case MESG_SESSION:
+        activity.sessions.push(toSession(values));
+        break;
+      case MESG_LAP:
+        activity.laps.push(toLap(values));
+        break;
+      case MESG_RECORD:
+        activity.records.push(toRecord(values));
+        break;
+      case MESG_ACTIVITY: {
+        const localTimestamp = numberField(values, 5);
+        const activityTimestamp = numberField(values, FIELD_TIMESTAMP);
+        if (localTimestamp !== null && activityTimestamp !== null) {
+          activity.utcOffsetSeconds = localTimestamp - activityTimestamp;
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  if (activity.fileType !== null && activity.fileType !== FIT_FILE_TYPE_ACTIVITY) {
+    throw new FitDecodeError("FIT file does not contain an activity.");
+  }
+
+  return activity;
+}
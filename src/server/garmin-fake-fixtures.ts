@@ -0,0 +1,378 @@
+// Payloads recorded from Garmin Connect (identifiers and locations replaced) and replayed by the
+// fake adapter in garmin-fake.ts. Dates and ids are stamped per day so every range returns a
+// stable, realistic history without a Garmin account.
+
+type JsonObject = Record<string, unknown>;
+
+type ActivityTemplate = {
+  activityName: string;
+  activityType: { typeId: number; typeKey: string; parentTypeId: number };
+  startHour: number;
+  distance: number;
+  duration: number;
+  movingDuration: number;
+  elevationGain: number;
+  elevationLoss: number;
+  averageSpeed: number;
+  maxSpeed: number;
+  averageHR: number;
+  maxHR: number;
+  hrTimeInZones: [number, number, number, number, number];
+  aerobicTrainingEffect: number;
+  anaerobicTrainingEffect: number;
+  trainingEffectLabel: string;
+  locationName: string;
+  averageCadence: number | null;
+};
+
+const EASY_RUN: ActivityTemplate = {
+  activityName: "Easy Run",
+  activityType: { typeId: 1, typeKey: "running", parentTypeId: 17 },
+  startHour: 6,
+  distance: 8012.37,
+  duration: 2791.85,
+  movingDuration: 2768.0,
+  elevationGain: 41.0,
+  elevationLoss: 39.0,
+  averageSpeed: 2.87,
+  maxSpeed: 3.46,
+  averageHR: 138,
+  maxHR: 151,
+  hrTimeInZones: [182.0, 1904.0, 705.9, 0, 0],
+  aerobicTrainingEffect: 2.7,
+  anaerobicTrainingEffect: 0.1,
+  trainingEffectLabel: "RECOVERY",
+  locationName: "Riverside",
+  averageCadence: 168,
+};
+
+// Index is the day of the week (0 = Sunday); null is a rest day.
+const WEEKLY_SCHEDULE: Array<ActivityTemplate | null> = [
+  {
+    activityName: "Long Run",
+    activityType: { typeId: 1, typeKey: "running", parentTypeId: 17 },
+    startHour: 7,
+    distance: 18034.62,
+    duration: 5832.41,
+    movingDuration: 5790.0,
+    elevationGain: 126.0,
+    elevationLoss: 124.0,
+    averageSpeed: 3.092,
+    maxSpeed: 3.88,
+    averageHR: 148,
+    maxHR: 166,
+    hrTimeInZones: [240.0, 2105.0, 3011.4, 476.0, 0],
+    aerobicTrainingEffect: 3.8,
+    anaerobicTrainingEffect: 0.4,
+    trainingEffectLabel: "AEROBIC_BASE",
+    locationName: "Riverside",
+    averageCadence: 172,
+  },
+  null,
+  {
+    activityName: "Track Intervals",
+    activityType: { typeId: 1, typeKey: "running", parentTypeId: 17 },
+    startHour: 18,
+    distance: 10210.05,
+    duration: 3164.73,
+    movingDuration: 2911.0,
+    elevationGain: 8.0,
+    elevationLoss: 8.0,
+    averageSpeed: 3.226,
+    maxSpeed: 5.21,
+    averageHR: 155,
+    maxHR: 182,
+    hrTimeInZones: [410.0, 905.0, 688.7, 702.0, 459.0],
+    aerobicTrainingEffect: 3.4,
+    anaerobicTrainingEffect: 2.9,
+    trainingEffectLabel: "VO2MAX",
+    locationName: "City Stadium",
+    averageCadence: 178,
+  },
+  {
+    activityName: "Road Cycling",
+    activityType: { typeId: 10, typeKey: "road_biking", parentTypeId: 2 },
+    startHour: 17,
+    distance: 41267.8,
+    duration: 5403.12,
+    movingDuration: 5288.0,
+    elevationGain: 388.0,
+    elevationLoss: 391.0,
+    averageSpeed: 7.638,
+    maxSpeed: 16.12,
+    averageHR: 131,
+    maxHR: 163,
+    hrTimeInZones: [1180.0, 2950.0, 1101.1, 172.0, 0],
+    aerobicTrainingEffect: 2.9,
+    anaerobicTrainingEffect: 0.6,
+    trainingEffectLabel: "AEROBIC_BASE",
+    locationName: "Hill Loop",
+    averageCadence: 84,
+  },
+  EASY_RUN,
+  {
+    activityName: "Strength",
+    activityType: { typeId: 13, typeKey: "strength_training", parentTypeId: 29 },
+    startHour: 12,
+    distance: 0,
+    duration: 2460.0,
+    movingDuration: 1320.0,
+    elevationGain: 0,
+    elevationLoss: 0,
+    averageSpeed: 0,
+    maxSpeed: 0,
+    averageHR: 104,
+    maxHR: 139,
+    hrTimeInZones: [1510.0, 820.0, 130.0, 0, 0],
+    aerobicTrainingEffect: 1.2,
+    anaerobicTrainingEffect: 0.8,
+    trainingEffectLabel: "RECOVERY",
+    locationName: "Gym",
+    averageCadence: null,
+  },
+  EASY_RUN,
+];
+
+const FAKE_ACTIVITY_ID_BASE = 20_000_000_000;
+const DAY_MS = 86400000;
+// The fake athlete lives at UTC+2, so local and GMT start times differ like they do for real users.
+const FAKE_UTC_OFFSET_SECONDS = 2 * 3600;
+
+// Small, deterministic day-to-day variation so charts do not show flat lines.
+function jitter(dayNumber: number, salt: number, amplitude: number): number {
+  const seed = Math.sin(dayNumber * 12.9898 + salt * 78.233) * 43758.5453;
+  return (seed - Math.floor(seed) - 0.5) * 2 * amplitude;
+}
+
+function toDayNumber(date: string): number {
+  return Math.floor(new Date(`${date}T00:00:00.000Z`).getTime() / DAY_MS);
+}
+
+function fromDayNumber(dayNumber: number): string {
+  return new Date(dayNumber * DAY_MS).toISOString().slice(0, 10);
+}
+
+function isAfterToday(dayNumber: number): boolean {
+  return dayNumber > Math.floor(Date.now() / DAY_MS);
+}
+
+function formatGarminLocal(date: string, seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date} ${pad(hours)}:${pad(minutes)}:${pad(secs)}`;
+}
+
+function formatGarminGmt(date: string, localSeconds: number): string {
+  const start = new Date(
+    new Date(`${date}T00:00:00.000Z`).getTime() + (localSeconds - FAKE_UTC_OFFSET_SECONDS) * 1000,
+  );
+  return start.toISOString().slice(0, 19).replace("T", " ");
+}
+
+function templateForDay(dayNumber: number): ActivityTemplate | null {
+  // 1970-01-01 was a Thursday.
+  return WEEKLY_SCHEDULE[(dayNumber + 4) % 7];
+}
+
+function buildActivitySummary(dayNumber: number, template: ActivityTemplate): JsonObject {
+  const date = fromDayNumber(dayNumber);
+  const scale = 1 + jitter(dayNumber, 1, 0.06);
+  const startSeconds = template.startHour * 3600 + Math.round(Math.abs(jitter(dayNumber, 2, 1500)));
+  const cadenceKey =
+    template.activityType.typeKey === "running"
+      ? "averageRunningCadenceInStepsPerMinute"
+      : "averageBikingCadenceInRevPerMinute";
+
+  return {
+    activityId: FAKE_ACTIVITY_ID_BASE + dayNumber,
+    activityName: template.activityName,
+    startTimeLocal: formatGarminLocal(date, startSeconds),
+    startTimeGMT: formatGarminGmt(date, startSeconds),
+    activityType: template.activityType,
+    distance: Math.round(template.distance * scale * 100) / 100,
+    duration: Math.round(template.duration * scale * 100) / 100,
+    movingDuration: Math.round(template.movingDuration * scale),
+    elevationGain: template.elevationGain,
+    elevationLoss: template.elevationLoss,
+    averageSpeed: template.averageSpeed,
+    maxSpeed: template.maxSpeed,
+    averageHR: template.averageHR + Math.round(jitter(dayNumber, 3, 4)),
+    maxHR: template.maxHR + Math.round(jitter(dayNumber, 4, 3)),
+    hrTimeInZone_1: template.hrTimeInZones[0],
+    hrTimeInZone_2: template.hrTimeInZones[1],
+    hrTimeInZone_3: template.hrTimeInZones[2],
+    hrTimeInZone_4: template.hrTimeInZones[3],
+    hrTimeInZone_5: template.hrTimeInZones[4],
+    aerobicTrainingEffect: template.aerobicTrainingEffect,
+    anaerobicTrainingEffect: template.anaerobicTrainingEffect,
+    trainingEffectLabel: template.trainingEffectLabel,
+    locationName: template.locationName,
+    ...(template.averageCadence !== null ? { [cadenceKey]: template.averageCadence } : {}),
+    manufacturer: "GARMIN",
+    deviceId: 3442765889,
+    hasPolyline: template.distance > 0,
+  };
+}
+
+export function getFixtureActivities(startDate: string, endDate: string): JsonObject[] {
+  const activities: JsonObject[] = [];
+
+  // Garmin lists newest first.
+  for (let day = toDayNumber(endDate); day >= toDayNumber(startDate); day -= 1) {
+    const template = templateForDay(day);
+    if (template && !isAfterToday(day)) {
+      activities.push(buildActivitySummary(day, template));
+    }
+  }
+
+  return activities;
+}
+
+export function getFixtureActivityDetails(activityId: string): JsonObject | null {
+  const dayNumber = Number(activityId) - FAKE_ACTIVITY_ID_BASE;
+  const template = Number.isInteger(dayNumber) ? templateForDay(dayNumber) : null;
+  if (!template) {
+    return null;
+  }
+
+  const summary = buildActivitySummary(dayNumber, template);
+  const duration = Math.round(summary.duration as number);
+  const hasTrack = template.distance > 0;
+  const metricDescriptors = [
+    { metricsIndex: 0, key: "sumElapsedDuration", unit: { key: "second" } },
+    { metricsIndex: 1, key: "directHeartRate", unit: { key: "bpm" } },
+    ...(hasTrack
+      ? [
+          { metricsIndex: 2, key: "sumDistance", unit: { key: "meter" } },
+          { metricsIndex: 3, key: "directSpeed", unit: { key: "mps" } },
+          { metricsIndex: 4, key: "directElevation", unit: { key: "meter" } },
+          { metricsIndex: 5, key: "directLatitude", unit: { key: "dd" } },
+          { metricsIndex: 6, key: "directLongitude", unit: { key: "dd" } },
+          { metricsIndex: 7, key: "directDoubleCadence", unit: { key: "stepsPerMinute" } },
+        ]
+      : []),
+  ];
+
+  const activityDetailMetrics: Array<{ metrics: Array<number | null> }> = [];
+  let distance = 0;
+  for (let second = 0; second <= duration; second += 1) {
+    const speed = template.averageSpeed * (1 + 0.08 * Math.sin(second / 97));
+    distance += second === 0 ? 0 : speed;
+    const heartRate = Math.round(
+      template.averageHR - 18 * Math.exp(-second / 300) + 4 * Math.sin(second / 211),
+    );
+    const metrics: Array<number | null> = [second, heartRate];
+
+    if (hasTrack) {
+      const progress = distance / template.distance;
+      metrics.push(
+        Math.round(distance * 10) / 10,
+        Math.round(speed * 1000) / 1000,
+        Math.round((30 + 12 * Math.sin(progress * Math.PI * 3)) * 10) / 10,
+        52.52 + 0.04 * Math.sin(progress * Math.PI * 2),
+        13.405 + 0.06 * Math.cos(progress * Math.PI * 2),
+        template.averageCadence,
+      );
+    }
+
+    activityDetailMetrics.push({ metrics });
+  }
+
+  return {
+    activityId: summary.activityId,
+    measurementCount: metricDescriptors.length,
+    metricsCount: activityDetailMetrics.length,
+    metricDescriptors,
+    activityDetailMetrics,
+  };
+}
+
+export function getFixtureSleep(date: string): JsonObject {
+  const dayNumber = toDayNumber(date);
+  if (isAfterToday(dayNumber)) {
+    return { dailySleepDTO: { id: null, calendarDate: date } };
+  }
+
+  const score = Math.round(74 + jitter(dayNumber, 5, 12));
+  const sleepTimeSeconds = Math.round(26400 + jitter(dayNumber, 6, 3600));
+  const qualifierKey = score >= 80 ? "GOOD" : score >= 60 ? "FAIR" : "POOR";
+
+  // Garmin moved the score from overallSleepScore to sleepScores.overall; older accounts and
+  // older days still return the first shape, so both are served on alternating days.
+  const dailySleepDTO: JsonObject =
+    dayNumber % 2 === 0
+      ? {
+          id: dayNumber,
+          calendarDate: date,
+          sleepTimeSeconds,
+          sleepStress: Math.round(18 + jitter(dayNumber, 7, 6)),
+          sleepScores: {
+            overall: { value: score, qualifierKey },
+            totalDuration: { qualifierKey: "GOOD" },
+          },
+          sleepScoreFeedback: "POSITIVE_LONG_AND_DEEP",
+        }
+      : {
+          id: dayNumber,
+          calendarDate: date,
+          sleepTimeSeconds,
+          sleepStress: Math.round(18 + jitter(dayNumber, 7, 6)),
+          overallSleepScore: { value: score, qualifierKey },
+          sleepScoreGarminFeedback: "POSITIVE_RESTFUL_EVENING",
+        };
+
+  return {
+    dailySleepDTO,
+    avgOvernightHrv: Math.round((52 + jitter(dayNumber, 8, 8)) * 10) / 10,
+    hrvStatus: "BALANCED",
+    restingHeartRate: Math.round(47 + jitter(dayNumber, 9, 3)),
+  };
+}
+
+export function getFixtureHrv(date: string): JsonObject | null {
+  const dayNumber = toDayNumber(date);
+  if (isAfterToday(dayNumber)) {
+    return null;
+  }
+
+  return {
+    userProfilePk: 90210,
+    hrvSummary: {
+      calendarDate: date,
+      weeklyAvg: Math.round(53 + jitter(dayNumber, 10, 4)),
+      lastNightAvg: Math.round(52 + jitter(dayNumber, 8, 8)),
+      lastNight5MinHigh: Math.round(78 + jitter(dayNumber, 11, 9)),
+      baseline: { lowUpper: 46, balancedLow: 49, balancedUpper: 61, markerValue: 0.42 },
+      status: "BALANCED",
+      feedbackPhrase: "HRV_BALANCED_1",
+    },
+  };
+}
+
+export function getFixtureRestingHeartRate(date: string): JsonObject {
+  const dayNumber = toDayNumber(date);
+  if (isAfterToday(dayNumber)) {
+    return { calendarDate: date };
+  }
+
+  return {
+    calendarDate: date,
+    maxHeartRate: 158,
+    minHeartRate: 44,
+    restingHeartRate: Math.round(47 + jitter(dayNumber, 9, 3)),
+    lastSevenDaysAvgRestingHeartRate: 48,
+  };
+}
+
+export function getFixtureRacePredictions(): JsonObject {
+  return {
+    userId: 90210,
+    calendarDate: new Date().toISOString().slice(0, 10),
+    time5K: 1265,
+    time10K: 2648,
+    timeHalfMarathon: 5902,
+    timeMarathon: 12516,
+  };
+}
@@ -0,0 +1,240 @@
+import {
+  getFixtureActivities,
+  getFixtureActivityDetails,
+  getFixtureHrv,
+  getFixtureRacePredictions,
+  getFixtureRestingHeartRate,
+  getFixtureSleep,
+} from "@/server/garmin-fake-fixtures";
+
+// Stand-in for the garmin-connect module, loaded instead of it when GARMIN_ADAPTER=fake. It exposes
+// the same client surface garmin.ts drives (login, token export/restore, data methods), so
+// connecting, session refresh, retries and field mapping all run against recorded fixtures.
+//
+// GARMIN_FAKE_FAILURES injects errors as comma-separated `operation=kind` or `operation=kind@rate`
+// rules, e.g. "getSleepData=404,getActivities=429@0.5,login=401". Operations are GarminAdapter
+// method names plus "login", or "*" for every call. Kinds are 401, 404, 429, 500 and timeout;
+// rate is the share of calls that fail (default 1). GARMIN_FAKE_TIMEOUT_MS sets how long a
+// simulated timeout hangs before failing (default 2000).
+
+type JsonObject = Record<string, unknown>;
+
+type FakeFailureKind = "401" | "404" | "429" | "500" | "timeout";
+
+type FakeFailureRule = {
+  kind: FakeFailureKind;
+  rate: number;
+};
+
+const FAILURE_KINDS: FakeFailureKind[] = ["401", "404", "429", "500", "timeout"];
+
+const STATUS_TEXT: Record<number, string> = {
+  401: "Unauthorized",
+  404: "Not Found",
+  429: "Too Many Requests",
+  500: "Internal Server Error",
+};
+
+const DEFAULT_TIMEOUT_MS = 2_000;
+const TOKEN_LIFETIME_SECONDS = 3600;
+
+let nextWorkoutId = 900_000_001;
+let nextScheduleId = 800_000_001;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function parseFailureRules(raw: string | undefined): Map<string, FakeFailureRule> {
+  const rules = new Map<string, FakeFailureRule>();
+
+  for (const entry of (raw ?? "").split(",")) {
+    const match = /^\s*([\w*]+)\s*=\s*(\w+)\s*(?:@\s*([\d.]+))?\s*$/.exec(entry);
+    if (!match || !FAILURE_KINDS.includes(match[2] as FakeFailureKind)) {
+      continue;
+    }
+
+    const rate = match[3] === undefined ? 1 : Number(match[3]);
+    rules.set(match[1], {
+      kind: match[2] as FakeFailureKind,
+      rate: Number.isFinite(rate) ? Math.min(1, Math.max(0, rate)) : 1,
+    });
+  }
+
+  return rules;
+}
+
+function getTimeoutMs(): number {
+  const parsed = Number(process.env.GARMIN_FAKE_TIMEOUT_MS?.trim());
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : DEFAULT_TIMEOUT_MS;
+}
+
+// Same shape garmin.ts gives real HTTP failures, so retry and error classification see no difference.
+function createHttpError(status: number): Error & { response?: unknown } {
+  const error = new Error(
+    `ERROR: (${status}), ${STATUS_TEXT[status]}, ${JSON.stringify({
+      message: "Simulated by the fake Garmin adapter.",
+    })}`,
+  ) as Error & { response?: unknown };
+  error.response = { status, headers: status === 429 ? { "retry-after": "1" } : {} };
+  return error;
+}
+
+async function simulateFailure(operation: string): Promise<void> {
+  // Read on every call so a running dev server or test can change the scenario without a restart.
+  const rules = parseFailureRules(process.env.GARMIN_FAKE_FAILURES);
+  const rule = rules.get(operation) ?? rules.get("*");
+  if (!rule || Math.random() >= rule.rate) {
+    return;
+  }
+
+  if (rule.kind === "timeout") {
+    const timeoutMs = getTimeoutMs();
+    await sleep(timeoutMs);
+    throw Object.assign(new Error(`timeout of ${timeoutMs}ms exceeded`), { code: "ECONNABORTED" });
+  }
+
+  throw createHttpError(Number(rule.kind));
+}
+
+function asObject(value: unknown): JsonObject | null {
+  if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+    return value as JsonObject;
+  }
+
+  return null;
+}
+
+function toDateString(value: unknown): string {
+  if (value instanceof Date) {
+    return value.toISOString().slice(0, 10);
+  }
+
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return value;
+  }
+
+  throw new Error("Fake Garmin client expects a Date or YYYY-MM-DD string.");
+}
+
+function issueOauth2Token(): JsonObject {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    access_token: `fake-access-${now}`,
+    refresh_token: `fake-refresh-${now}`,
+    token_type: "Bearer",
+    expires_in: TOKEN_LIFETIME_SECONDS,
+    expires_at: now + TOKEN_LIFETIME_SECONDS,
+  };
+}
+
+class FakeHttpClient {
+  oauth2Token: JsonObject | null = null;
+
+  async refreshOauth2Token(): Promise<void> {
+    await simulateFailure("refreshOauth2Token");
+    this.oauth2Token = issueOauth2Token();
+  }
+}
+
+export class GarminConnect {
+  client = new FakeHttpClient();
+  private oauth1Token: JsonObject | null = null;
+
+  // The real constructor takes credentials; the fake only needs them at login.
+  constructor(...args: unknown[]) {
+    void args;
+  }
+
+  async login(email?: unknown, password?: unknown): Promise<this> {
+    await simulateFailure("login");
+    if (typeof email !== "string" || typeof password !== "string" || password === "") {
+      throw createHttpError(401);
+    }
+
+    this.oauth1Token = { oauth_token: `fake-oauth1-${email}`, oauth_token_secret: "fake-secret" };
+    this.client.oauth2Token = issueOauth2Token();
+    return this;
+  }
+
+  exportToken(): { oauth1: JsonObject; oauth2: JsonObject } {
+    if (!this.oauth1Token || !this.client.oauth2Token) {
+      throw new Error("No OAuth tokens to export.");
+    }
+
+    return { oauth1: this.oauth1Token, oauth2: this.client.oauth2Token };
+  }
+
+  loadToken(oauth1: JsonObject, oauth2: JsonObject): void {
+    this.oauth1Token = oauth1;
+    this.client.oauth2Token = oauth2;
+  }
+
+  // garmin.ts also tries the object-argument form, so both are accepted like the real client.
+  async getActivitiesByDate(startDate: unknown, endDate?: unknown): Promise<unknown[]> {
+    await simulateFailure("getActivities");
+    const range = asObject(startDate);
+    return getFixtureActivities(
+      toDateString(range ? range.startDate : startDate),
+      toDateString(range ? range.endDate : endDate),
+    );
+  }
+
+  async getSleepData(date: unknown): Promise<unknown> {
+    await simulateFailure("getSleepData");
+    return getFixtureSleep(toDateString(date));
+  }
+
+  async getHrvData(date: unknown): Promise<unknown> {
+    await simulateFailure("getHrvData");
+    const hrv = getFixtureHrv(toDateString(date));
+    if (!hrv) {
+      throw createHttpError(404);
+    }
+    return hrv;
+  }
+
+  async getHeartRate(date: unknown): Promise<unknown> {
+    await simulateFailure("getRestingHeartRate");
+    return getFixtureRestingHeartRate(toDateString(date));
+  }
+
+  async getRacePredictions(): Promise<unknown> {
+    await simulateFailure("getRacePredictions");
+    return getFixtureRacePredictions();
+  }
+
+  async getActivityDetails(activityId: unknown): Promise<unknown> {
+    await simulateFailure("getActivityDetails");
+    const id = asObject(activityId)?.activityId ?? activityId;
+    const details = getFixtureActivityDetails(String(id));
+    if (!details) {
+      throw createHttpError(404);
+    }
+    return details;
+  }
+
+  async uploadWorkout(workoutJson: unknown): Promise<unknown> {
+    await simulateFailure("uploadWorkout");
+    const workoutId = nextWorkoutId;
+    nextWorkoutId += 1;
+    return { ...asObject(workoutJson), workoutId, createdDate: new Date().toISOString() };
+  }
+
+  async scheduleWorkout(workoutId: unknown, date: unknown): Promise<unknown> {
+    await simulateFailure("scheduleWorkout");
+    const workoutScheduleId = nextScheduleId;
+    nextScheduleId += 1;
+    return {
+      workoutScheduleId,
+      workout: { workoutId: Number(workoutId) },
+      calendarDate: toDateString(date),
+      createdDate: new Date().toISOString(),
+    };
+  }
+
+  async unscheduleWorkout(scheduleId: unknown): Promise<void> {
+    await simulateFailure("unscheduleWorkout");
+    void scheduleId;
+  }
+}
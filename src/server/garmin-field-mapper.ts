@@ -1,4 +1,5 @@
 import type { Prisma } from "../../prisma/generated/prisma/client";
+import type { SportCategory } from "@/lib/constants";
 
 type JsonObject = Record<string, unknown>;
 
@@ -12,6 +13,7 @@ type DailyHealthInput = {
 const ACTIVITY_FIELD_MAP: Record<string, keyof Prisma.ActivityUncheckedCreateInput> = {
   activityId: "garminActivityId",
   startTimeLocal: "activityDate",
+  startTimeGMT: "startTimeGmt",
   activityName: "activityName",
   distance: "distanceMeters",
   duration: "durationSeconds",
@@ -40,6 +42,31 @@ const RACE_PREDICTION_MAP: Record<
   timeMarathon: "predictedMarathonSeconds",
 };
 
+// Garmin typeKeys are checked in order, so "running" wins for keys like "trail_running".
+const SPORT_CATEGORY_PATTERNS: Array<[SportCategory, string[]]> = [
+  ["running", ["run"]],
+  ["cycling", ["cycling", "biking", "bmx"]],
+  ["swimming", ["swim"]],
+  ["strength", ["strength", "weight"]],
+  ["hiking", ["hiking", "mountaineering"]],
+  ["walking", ["walking"]],
+  [
+    "cardio",
+    [
+      "cardio",
+      "hiit",
+      "elliptical",
+      "stair",
+      "rowing",
+      "ski",
+      "paddl",
+      "skating",
+      "yoga",
+      "pilates",
+    ],
+  ],
+];
+
 function asObject(value: unknown): JsonObject | null {
   if (typeof value === "object" && value !== null && !Array.isArray(value)) {
     return value as JsonObject;
@@ -93,6 +120,16 @@ function asDateTime(value: unknown): Date | undefined {
   return parsed;
 }
 
+// Garmin writes startTimeGMT without a zone ("2024-05-01 06:30:00"); it is UTC, not server time.
+function asUtcDateTime(value: unknown): Date | undefined {
+  if (typeof value !== "string") {
+    return undefined;
+  }
+
+  const trimmed = value.trim().replace(" ", "T");
+  return asDateTime(/(Z|[+-]\d{2}:?\d{2})$/.test(trimmed) ? trimmed : `${trimmed}Z`);
+}
+
 function asDateOnly(value: string): Date {
   const parsed = new Date(`${value}T00:00:00.000Z`);
   if (Number.isNaN(parsed.getTime())) {
@@ -102,6 +139,31 @@ function asDateOnly(value: string): Date {
   return parsed;
 }
 
+function getActivityTypeKey(activity: JsonObject): string | undefined {
+  const activityTypeRaw = activity.activityType;
+  const activityTypeObject = asObject(activityTypeRaw);
+
+  return (
+    (activityTypeObject ? asString(activityTypeObject.typeKey) : undefined) ??
+    asString(activityTypeRaw)
+  );
+}
+
+export function mapSportCategory(activityType?: string | null): SportCategory {
+  const normalized = activityType?.toLowerCase();
+  if (!normalized) {
+    return "other";
+  }
+
+  for (const [category, patterns] of SPORT_CATEGORY_PATTERNS) {
+    if (patterns.some((pattern) => normalized.includes(pattern))) {
+      return category;
+    }
+  }
+
+  return "other";
+}
+
 export function mapActivity(raw: unknown): Partial<Prisma.ActivityUncheckedCreateInput> {
   const source = asObject(raw);
   if (!source) {
@@ -125,6 +187,14 @@ export function mapActivity(raw: unknown): Partial<Prisma.ActivityUncheckedCreat
       continue;
     }
 
+    if (prismaField === "startTimeGmt") {
+      const dateValue = asUtcDateTime(value);
+      if (dateValue) {
+        mapped.startTimeGmt = dateValue;
+      }
+      continue;
+    }
+
     if (prismaField === "garminActivityId") {
       const numericId = asNumber(value);
       if (numericId !== undefined) {
@@ -170,16 +240,11 @@ export function mapActivity(raw: unknown): Partial<Prisma.ActivityUncheckedCreat
     }
   }
 
-  const activityTypeRaw = source.activityType;
-  const activityTypeObj = asObject(activityTypeRaw);
-  if (activityTypeObj && typeof activityTypeObj.typeKey === "string") {
-    mapped.activityType = activityTypeObj.typeKey;
-  } else {
-    const activityTypeText = asString(activityTypeRaw);
-    if (activityTypeText) {
-      mapped.activityType = activityTypeText;
-    }
+  const activityType = getActivityTypeKey(source);
+  if (activityType) {
+    mapped.activityType = activityType;
   }
+  mapped.sportCategory = mapSportCategory(activityType);
 
   if (Array.isArray(source.splitSummaries)) {
     mapped.splitSummariesJson = source.splitSummaries as Prisma.InputJsonValue;
@@ -300,12 +365,16 @@ export function mapRacePredictions(
   return mapped;
 }
 
-export function mapRunningVolume(rawActivities: unknown[]): {
+export function mapTrainingVolume(rawActivities: unknown[]): {
   weeklyVolumeAvgKm?: number;
   longestRunKm?: number;
   runningDistanceAvgKm?: number;
+  weeklyTrainingMinutesAvg?: number;
+  weeklyCrossTrainingMinutesAvg?: number;
 } {
   const distancesMeters: number[] = [];
+  let totalSeconds = 0;
+  let crossTrainingSeconds = 0;
 
   for (const activity of rawActivities) {
     const activityObject = asObject(activity);
@@ -313,13 +382,17 @@ export function mapRunningVolume(rawActivities: unknown[]): {
       continue;
     }
 
-    const activityTypeRaw = activityObject.activityType;
-    const activityTypeObject = asObject(activityTypeRaw);
-    const typeKey =
-      (activityTypeObject ? asString(activityTypeObject.typeKey) : undefined) ??
-      asString(activityTypeRaw);
+    const isRun = mapSportCategory(getActivityTypeKey(activityObject)) === "running";
+
+    const durationSeconds = asNumber(activityObject.duration);
+    if (durationSeconds !== undefined && durationSeconds > 0) {
+      totalSeconds += durationSeconds;
+      if (!isRun) {
+        crossTrainingSeconds += durationSeconds;
+      }
+    }
 
-    if (!typeKey || !typeKey.toLowerCase().includes("running")) {
+    if (!isRun) {
       continue;
     }
 
@@ -329,8 +402,16 @@ export function mapRunningVolume(rawActivities: unknown[]): {
     }
   }
 
+  const timeMetrics =
+    totalSeconds > 0
+      ? {
+          weeklyTrainingMinutesAvg: Number((totalSeconds / 4 / 60).toFixed(1)),
+          weeklyCrossTrainingMinutesAvg: Number((crossTrainingSeconds / 4 / 60).toFixed(1)),
+        }
+      : {};
+
   if (distancesMeters.length === 0) {
-    return {};
+    return timeMetrics;
   }
 
   const sumMeters = distancesMeters.reduce((acc, distance) => acc + distance, 0);
@@ -338,6 +419,7 @@ export function mapRunningVolume(rawActivities: unknown[]): {
   const avgMeters = sumMeters / distancesMeters.length;
 
   return {
+    ...timeMetrics,
     weeklyVolumeAvgKm:
       sumMeters !== undefined ? Number((sumMeters / 4 / 1000).toFixed(2)) : undefined,
     longestRunKm: maxMeters !== undefined ? Number((maxMeters / 1000).toFixed(2)) : undefined,
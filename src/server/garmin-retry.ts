@@ -0,0 +1,232 @@
+type JsonObject = Record<string, unknown>;
+
+export type GarminRetryReason = "rate-limit" | "server" | "network";
+
+export type GarminRetryPolicy = {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Retry-After values above this are not waited out; the call fails instead of stalling a sync.
+  maxRetryAfterMs: number;
+  retryOn: GarminRetryReason[];
+};
+
+export const DEFAULT_GARMIN_RETRY_POLICY: GarminRetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 1_000,
+  maxDelayMs: 30_000,
+  maxRetryAfterMs: 120_000,
+  retryOn: ["rate-limit", "server", "network"],
+};
+
+type TokenBucket = {
+  tokens: number;
+  updatedAt: number;
+  blockedUntil: number;
+};
+
+// Sustained 1 request/second per user with bursts of 10, shared by every adapter for that user.
+const BUCKET_CAPACITY = 10;
+const BUCKET_REFILL_PER_SECOND = 1;
+
+const NETWORK_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "EPIPE",
+]);
+
+const globalForGarminRateLimit = globalThis as unknown as {
+  garminTokenBuckets: Map<number, TokenBucket> | undefined;
+};
+
+const tokenBuckets = globalForGarminRateLimit.garminTokenBuckets ?? new Map<number, TokenBucket>();
+globalForGarminRateLimit.garminTokenBuckets = tokenBuckets;
+
+function asObject(value: unknown): JsonObject | null {
+  if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+    return value as JsonObject;
+  }
+
+  return null;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function getBucket(userId: number, now: number): TokenBucket {
+  let bucket = tokenBuckets.get(userId);
+  if (!bucket) {
+    bucket = { tokens: BUCKET_CAPACITY, updatedAt: now, blockedUntil: 0 };
+    tokenBuckets.set(userId, bucket);
+    return bucket;
+  }
+
+  const elapsedSeconds = (now - bucket.updatedAt) / 1000;
+  bucket.tokens = Math.min(BUCKET_CAPACITY, bucket.tokens + elapsedSeconds * BUCKET_REFILL_PER_SECOND);
+  bucket.updatedAt = now;
+  return bucket;
+}
+
+async function acquireToken(userId: number): Promise<void> {
+  for (;;) {
+    const now = Date.now();
+    const bucket = getBucket(userId, now);
+
+    if (bucket.blockedUntil > now) {
+      await sleep(bucket.blockedUntil - now);
+      continue;
+    }
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return;
+    }
+
+    await sleep(Math.ceil(((1 - bucket.tokens) / BUCKET_REFILL_PER_SECOND) * 1000));
+  }
+}
+
+function blockBucket(userId: number, untilMs: number): void {
+  const bucket = getBucket(userId, Date.now());
+  bucket.blockedUntil = Math.max(bucket.blockedUntil, untilMs);
+  bucket.tokens = 0;
+}
+
+export function getGarminErrorStatus(error: unknown): number | null {
+  const response = asObject(asObject(error)?.response);
+  if (response && typeof response.status === "number") {
+    return response.status;
+  }
+
+  if (error instanceof Error) {
+    // garmin-connect rethrows HTTP failures as "ERROR: (429), Too Many Requests, ...".
+    const match = /^ERROR: \((\d{3})\)/.exec(error.message);
+    if (match) {
+      return Number(match[1]);
+    }
+  }
+
+  return null;
+}
+
+export function parseRetryAfter(value: unknown, now = Date.now()): number | null {
+  if (typeof value === "number" && Number.isFinite(value) && value >= 0) {
+    return value * 1000;
+  }
+
+  if (typeof value !== "string" || value.trim() === "") {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) {
+    return null;
+  }
+
+  return Math.max(0, date - now);
+}
+
+function getRetryAfterMs(error: unknown): number | null {
+  const errorObject = asObject(error);
+  if (!errorObject) {
+    return null;
+  }
+
+  if (typeof errorObject.retryAfterMs === "number") {
+    return errorObject.retryAfterMs;
+  }
+
+  const headers = asObject(asObject(errorObject.response)?.headers);
+  if (!headers) {
+    return null;
+  }
+
+  return parseRetryAfter(headers["retry-after"] ?? headers["Retry-After"]);
+}
+
+function classifyRetryReason(error: unknown): GarminRetryReason | null {
+  const status = getGarminErrorStatus(error);
+  if (status === 429) {
+    return "rate-limit";
+  }
+
+  if (status !== null) {
+    return status >= 500 && status !== 501 ? "server" : null;
+  }
+
+  const code = asObject(error)?.code;
+  if (typeof code === "string" && NETWORK_ERROR_CODES.has(code)) {
+    return "network";
+  }
+
+  if (error instanceof Error) {
+    const normalized = error.message.toLowerCase();
+    if (normalized.includes("too many requests")) {
+      return "rate-limit";
+    }
+    if (normalized.includes("socket hang up") || normalized.includes("network error")) {
+      return "network";
+    }
+  }
+
+  return null;
+}
+
+function getBackoffDelayMs(policy: GarminRetryPolicy, attempt: number): number {
+  // Full jitter: a random delay up to the exponential ceiling keeps parallel retries from lining up.
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+// Retries are not logged. A call that still fails says how many attempts it took in its message,
+// which the sync stage records on the job and the run.
+function withAttemptCount(error: unknown, operation: string, attempts: number): unknown {
+  if (attempts > 1 && error instanceof Error) {
+    error.message = `${error.message} (Garmin ${operation} failed after ${attempts} attempts.)`;
+  }
+
+  return error;
+}
+
+export async function withGarminRetry<T>(
+  options: { operation: string; userId?: number; policy: GarminRetryPolicy },
+  call: () => Promise<T>,
+): Promise<T> {
+  const { operation, userId, policy } = options;
+
+  for (let attempt = 1; ; attempt += 1) {
+    if (userId !== undefined) {
+      await acquireToken(userId);
+    }
+
+    try {
+      return await call();
+    } catch (error) {
+      const reason = classifyRetryReason(error);
+      if (!reason || !policy.retryOn.includes(reason) || attempt >= policy.maxAttempts) {
+        throw withAttemptCount(error, operation, attempt);
+      }
+
+      const retryAfterMs = getRetryAfterMs(error);
+      if (retryAfterMs !== null && retryAfterMs > policy.maxRetryAfterMs) {
+        throw withAttemptCount(error, operation, attempt);
+      }
+
+      const delayMs = Math.max(retryAfterMs ?? 0, getBackoffDelayMs(policy, attempt));
+      if (reason === "rate-limit" && userId !== undefined) {
+        blockBucket(userId, Date.now() + delayMs);
+      }
+
+      await sleep(delayMs);
+    }
+  }
+}
@@ -1,5 +1,10 @@
 import { prisma } from "@/lib/prisma";
 import { decryptTokenPayload, encryptTokenPayload } from "@/server/encryption";
+import {
+  DEFAULT_GARMIN_RETRY_POLICY,
+  withGarminRetry,
+  type GarminRetryPolicy,
+} from "@/server/garmin-retry";
 
 const GARMIN_CONNECT_MODULE = "garmin-connect";
 
@@ -12,19 +17,31 @@ type GarminCapability =
   | "hrv"
   | "restingHr"
   | "racePredictions"
-  | "uploadWorkout";
+  | "activityDetails"
+  | "uploadWorkout"
+  | "scheduleWorkout";
+
+type GarminSessionData = {
+  oauth1: JsonObject;
+  oauth2: JsonObject;
+};
 
 type StoredGarminPayload = {
   provider: "garmin-connect";
   connectedAt: string;
   credentials: {
     email: string;
-    password: string;
+    // Absent when the user opted out of password storage; the OAuth session is then the only way in.
+    password?: string;
   };
-  sessionData?: unknown;
+  sessionData?: GarminSessionData;
+  sessionUpdatedAt?: string;
   capabilities: GarminCapability[];
 };
 
+// Refresh a little before Garmin's expiry so a long sync does not start with a nearly dead token.
+const SESSION_REFRESH_MARGIN_SECONDS = 300;
+
 export type GarminConnectionResult =
   | { success: true; encryptedToken: Buffer }
   | { success: false; message: string; status?: number };
@@ -39,9 +56,33 @@ export interface GarminAdapter {
   getHrvData(date: string): Promise<unknown>;
   getRestingHeartRate(date: string): Promise<unknown>;
   getRacePredictions(): Promise<unknown>;
+  getActivityDetails(activityId: string): Promise<unknown>;
   uploadWorkout(workoutJson: unknown): Promise<unknown>;
+  scheduleWorkout(workoutId: string, date: string): Promise<unknown>;
+  unscheduleWorkout(scheduleId: string): Promise<unknown>;
 }
 
+export type GarminOperation = keyof GarminAdapter;
+
+export type GarminAdapterOptions = {
+  userId?: number;
+  retryPolicies?: Partial<Record<GarminOperation, Partial<GarminRetryPolicy>>>;
+};
+
+const GARMIN_RETRY_POLICIES: Record<GarminOperation, Partial<GarminRetryPolicy>> = {
+  getActivities: { maxAttempts: 5, maxDelayMs: 60_000 },
+  getSleepData: { maxAttempts: 3 },
+  getHrvData: { maxAttempts: 3 },
+  getRestingHeartRate: { maxAttempts: 3 },
+  getRacePredictions: {},
+  getActivityDetails: { maxAttempts: 3 },
+  // A failed upload may still have created the workout, so only retry when Garmin refused it outright.
+  uploadWorkout: { maxAttempts: 3, retryOn: ["rate-limit"] },
+  // Same for calendar entries: a failed call may still have placed the workout on the date.
+  scheduleWorkout: { maxAttempts: 3, retryOn: ["rate-limit"] },
+  unscheduleWorkout: { maxAttempts: 3 },
+};
+
 export class GarminCapabilityError extends Error {
   status: number;
   operation: string;
@@ -83,7 +124,7 @@ function classifyGarminError(error: unknown): { message: string; status: number
   }
 
   if (normalized.includes("too many") || normalized.includes("429")) {
-    return { message: "Garmin rate limit reached. Please retry later.", status: 500 };
+    return { message: "Garmin rate limit reached. Please retry later.", status: 429 };
   }
 
   if (normalized.includes("connect") || normalized.includes("network")) {
@@ -100,7 +141,9 @@ function detectCapabilities(client: RawGarminClient): GarminCapability[] {
     ["hrv", ["getHrvData", "getHRVData", "get_hrv_data"]],
     ["restingHr", ["getHeartRate", "getHeartRates", "get_heart_rates", "getRestingHeartRate"]],
     ["racePredictions", ["getRacePredictions", "get_race_predictions"]],
+    ["activityDetails", ["getActivityDetails", "get_activity_details"]],
     ["uploadWorkout", ["uploadWorkout", "upload_workout", "addWorkout"]],
+    ["scheduleWorkout", ["scheduleWorkout", "schedule_workout"]],
   ];
 
   const capabilities: GarminCapability[] = [];
@@ -114,25 +157,68 @@ function detectCapabilities(client: RawGarminClient): GarminCapability[] {
   return capabilities;
 }
 
-function extractSerializableSession(client: RawGarminClient): unknown {
+function toSessionData(value: unknown): GarminSessionData | undefined {
+  const session = asObject(value);
+  const oauth1 = asObject(session?.oauth1);
+  const oauth2 = asObject(session?.oauth2);
+  if (!oauth1 || !oauth2) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(JSON.stringify({ oauth1, oauth2 })) as GarminSessionData;
+  } catch {
+    return undefined;
+  }
+}
+
+function extractSerializableSession(client: RawGarminClient): GarminSessionData | undefined {
+  const exportToken = client.exportToken;
+  if (isFunction(exportToken)) {
+    try {
+      const session = toSessionData(exportToken.call(client));
+      if (session) {
+        return session;
+      }
+    } catch {
+      // exportToken throws when the client holds no tokens; fall through to the legacy shape.
+    }
+  }
+
   const garth = asObject(client.garth);
   if (!garth) {
     return undefined;
   }
 
-  const session = {
+  return toSessionData({
     oauth1: garth.oauth1_token ?? garth.oauth1Token,
     oauth2: garth.oauth2_token ?? garth.oauth2Token,
-  };
+  });
+}
 
-  try {
-    return JSON.parse(JSON.stringify(session));
-  } catch {
-    return undefined;
+function preserveHttpErrorDetails(client: RawGarminClient): void {
+  const httpClient = asObject(client.client);
+  if (!httpClient || !isFunction(httpClient.handleError)) {
+    return;
   }
+
+  // garmin-connect throws a bare Error for HTTP failures; keep the same message but retain
+  // the status and headers so the retry layer can honour Retry-After.
+  httpClient.handleError = (response: unknown) => {
+    const details = asObject(response) ?? {};
+    const error = new Error(
+      `ERROR: (${String(details.status)}), ${String(details.statusText)}, ${JSON.stringify(details.data)}`,
+    ) as Error & { response?: unknown };
+    error.response = { status: details.status, headers: details.headers };
+    throw error;
+  };
 }
 
 async function importGarminConnectModule(): Promise<JsonObject | null> {
+  if (process.env.GARMIN_ADAPTER?.trim() === "fake") {
+    return (await import("@/server/garmin-fake")) as unknown as JsonObject;
+  }
+
   try {
     return (await import(GARMIN_CONNECT_MODULE as string)) as JsonObject;
   } catch {
@@ -212,6 +298,7 @@ async function createRawGarminClient(
           ...args: unknown[]
         ) => RawGarminClient;
         const client = new GarminCtor(...constructorArgs);
+        preserveHttpErrorDetails(client);
 
         await tryLogin(client, email, password);
         return { success: true, client };
@@ -241,7 +328,7 @@ function parseStoredPayload(raw: string): StoredGarminPayload {
   const email = credentials.email;
   const password = credentials.password;
 
-  if (typeof email !== "string" || typeof password !== "string") {
+  if (typeof email !== "string" || (password !== undefined && typeof password !== "string")) {
     throw new Error("Stored Garmin credentials are malformed.");
   }
 
@@ -255,12 +342,124 @@ function parseStoredPayload(raw: string): StoredGarminPayload {
       typeof payload.connectedAt === "string"
         ? payload.connectedAt
         : new Date().toISOString(),
-    credentials: { email, password },
-    sessionData: payload.sessionData,
+    credentials: typeof password === "string" ? { email, password } : { email },
+    sessionData: toSessionData(payload.sessionData),
+    sessionUpdatedAt:
+      typeof payload.sessionUpdatedAt === "string" ? payload.sessionUpdatedAt : undefined,
     capabilities: capabilitiesRaw,
   };
 }
 
+function watchSessionRefresh(
+  client: RawGarminClient,
+  onRefresh: (session: GarminSessionData) => Promise<void>,
+): void {
+  const httpClient = asObject(client.client);
+  const refresh = httpClient?.refreshOauth2Token;
+  if (!httpClient || !isFunction(refresh)) {
+    return;
+  }
+
+  // garmin-connect also refreshes on its own after a 401, so hook the method itself rather
+  // than only the explicit refresh below; every new token gets written back.
+  httpClient.refreshOauth2Token = async () => {
+    await Promise.resolve(refresh.call(httpClient));
+
+    const session = extractSerializableSession(client);
+    if (session) {
+      await onRefresh(session);
+    }
+  };
+}
+
+async function ensureFreshSession(client: RawGarminClient): Promise<void> {
+  const httpClient = asObject(client.client);
+  const oauth2 = asObject(httpClient?.oauth2Token);
+  const expiresAt = typeof oauth2?.expires_at === "number" ? oauth2.expires_at : null;
+
+  if (expiresAt === null || expiresAt - SESSION_REFRESH_MARGIN_SECONDS > Date.now() / 1000) {
+    return;
+  }
+
+  const refresh = httpClient?.refreshOauth2Token;
+  if (!isFunction(refresh)) {
+    throw new Error("Garmin client cannot refresh its OAuth2 token.");
+  }
+
+  await Promise.resolve(refresh.call(httpClient));
+}
+
+async function restoreRawGarminClient(
+  payload: StoredGarminPayload,
+  onRefresh: (session: GarminSessionData) => Promise<void>,
+): Promise<RawGarminClient | null> {
+  const session = payload.sessionData;
+  const garminModule = session ? await importGarminConnectModule() : null;
+  if (!session || !garminModule) {
+    return null;
+  }
+
+  const candidateConstructors: unknown[] = [
+    garminModule.GarminConnect,
+    garminModule.Garmin,
+    garminModule.default,
+  ];
+
+  for (const Candidate of candidateConstructors) {
+    if (!isFunction(Candidate)) {
+      continue;
+    }
+
+    let client: RawGarminClient;
+    try {
+      const GarminCtor = Candidate as unknown as new (...args: unknown[]) => RawGarminClient;
+      // The constructor insists on credentials even though only the tokens are used here.
+      client = new GarminCtor({ username: payload.credentials.email, password: "" });
+    } catch {
+      continue;
+    }
+
+    const loadToken = client.loadToken;
+    if (!isFunction(loadToken)) {
+      continue;
+    }
+
+    try {
+      preserveHttpErrorDetails(client);
+      loadToken.call(client, session.oauth1, session.oauth2);
+      watchSessionRefresh(client, onRefresh);
+      await ensureFreshSession(client);
+      return client;
+    } catch {
+      return null;
+    }
+  }
+
+  return null;
+}
+
+async function saveSessionData(
+  userId: number,
+  payload: StoredGarminPayload,
+  session: GarminSessionData,
+): Promise<void> {
+  payload.sessionData = session;
+  payload.sessionUpdatedAt = new Date().toISOString();
+
+  try {
+    // updateMany with garminConnected guards against resurrecting a session the user just disconnected.
+    await prisma.user.updateMany({
+      where: { id: userId, garminConnected: true },
+      data: {
+        garminOauthToken: new Uint8Array(encryptTokenPayload(JSON.stringify(payload))),
+      },
+    });
+  } catch {
+    // The in-memory client already holds the new token; failing to save it only costs a refresh
+    // later, so it must not fail the call that triggered the refresh.
+  }
+}
+
 async function invokeMethod(
   client: RawGarminClient,
   methodNames: string[],
@@ -328,15 +527,51 @@ async function resolveClientDisplayName(client: RawGarminClient): Promise<string
 async function fallbackHttpRequest(
   client: RawGarminClient,
   operation: string,
-  options?: { date?: string },
+  options?: { date?: string; activityId?: string; workoutId?: string; scheduleId?: string },
 ): Promise<unknown> {
+  const baseUrl = getGarminApiBaseUrl(client);
+
+  if (operation === "schedule-workout") {
+    const postMethod = client.post;
+    if (!isFunction(postMethod)) {
+      throw new GarminCapabilityError(operation);
+    }
+    if (!options?.workoutId || !options.date) {
+      throw new GarminCapabilityError(
+        operation,
+        "Workout scheduling fallback requires a workout id and a date.",
+        500,
+      );
+    }
+
+    const url = `${baseUrl}/workout-service/schedule/${options.workoutId}`;
+    return await Promise.resolve(postMethod.call(client, url, { date: options.date }));
+  }
+
+  if (operation === "unschedule-workout") {
+    // garmin-connect only exposes DELETE on its inner HTTP client.
+    const httpClient = asObject(client.client);
+    const deleteMethod = httpClient?.delete;
+    if (!httpClient || !isFunction(deleteMethod)) {
+      throw new GarminCapabilityError(operation);
+    }
+    if (!options?.scheduleId) {
+      throw new GarminCapabilityError(
+        operation,
+        "Workout unscheduling fallback requires a schedule id.",
+        500,
+      );
+    }
+
+    const url = `${baseUrl}/workout-service/schedule/${options.scheduleId}`;
+    return await Promise.resolve(deleteMethod.call(httpClient, url));
+  }
+
   const getMethod = client.get;
   if (!isFunction(getMethod)) {
     throw new GarminCapabilityError(operation);
   }
 
-  const baseUrl = getGarminApiBaseUrl(client);
-
   if (operation === "race-predictions") {
     const displayName = await resolveClientDisplayName(client);
     if (!displayName) {
@@ -390,6 +625,24 @@ async function fallbackHttpRequest(
     );
   }
 
+  if (operation === "activity-details") {
+    if (!options?.activityId) {
+      throw new GarminCapabilityError(
+        operation,
+        "Activity details fallback requires an activity id.",
+        500,
+      );
+    }
+
+    // maxChartSize caps the number of samples Garmin returns; large enough for a multi-hour activity at 1 Hz.
+    const url = `${baseUrl}/activity-service/activity/${options.activityId}/details`;
+    return await Promise.resolve(
+      getMethod.call(client, url, {
+        params: { maxChartSize: 100_000, maxPolylineSize: 0 },
+      }),
+    );
+  }
+
   throw new GarminCapabilityError(operation);
 }
 
@@ -465,9 +718,8 @@ async function fetchActivitiesInDateRange(
       client,
       ["getActivities"],
       [
-        [offset, limit, "running"],
         [offset, limit],
-        [{ start: offset, limit, activityType: "running" }],
+        [{ start: offset, limit }],
       ],
     );
 
@@ -504,6 +756,40 @@ async function fetchActivitiesInDateRange(
   return collected;
 }
 
+async function searchActivitiesInDateRange(
+  client: RawGarminClient,
+  startDate: string,
+  endDate: string,
+): Promise<unknown[]> {
+  const getMethod = client.get;
+  if (!isFunction(getMethod)) {
+    throw new GarminCapabilityError("activities");
+  }
+
+  // The search endpoint filters by date on Garmin's side, so old months (backfill) do not
+  // require paging through everything newer first.
+  const url = `${getGarminApiBaseUrl(client)}/activitylist-service/activities/search/activities`;
+  const collected: unknown[] = [];
+  const limit = 100;
+
+  for (let page = 0; page < 50; page += 1) {
+    const response = await Promise.resolve(
+      getMethod.call(client, url, {
+        params: { startDate, endDate, start: page * limit, limit },
+      }),
+    );
+
+    const pageActivities = normalizeActivityResponse(response);
+    collected.push(...pageActivities);
+
+    if (pageActivities.length < limit) {
+      break;
+    }
+  }
+
+  return collected;
+}
+
 function normalizeActivityResponse(value: unknown): unknown[] {
   if (Array.isArray(value)) {
     return value;
@@ -525,7 +811,7 @@ function normalizeActivityResponse(value: unknown): unknown[] {
   return [];
 }
 
-function createGarminAdapter(client: RawGarminClient): GarminAdapter {
+function createBaseGarminAdapter(client: RawGarminClient): GarminAdapter {
   return {
     async getActivities(startDate, endDate) {
       try {
@@ -537,16 +823,19 @@ function createGarminAdapter(client: RawGarminClient): GarminAdapter {
             client,
             ["getActivitiesByDate", "get_activities_by_date"],
             [
-              [startDate, endDate, "running"],
               [startDate, endDate],
-              [{ startDate, endDate, activityType: "running" }],
+              [{ startDate, endDate }],
             ],
           );
 
           return normalizeActivityResponse(response);
         }
 
-        return fetchActivitiesInDateRange(client, startDate, endDate);
+        if (isFunction(client.get)) {
+          return await searchActivitiesInDateRange(client, startDate, endDate);
+        }
+
+        return await fetchActivitiesInDateRange(client, startDate, endDate);
       } catch (error) {
         if (isMissingCapabilityError(error)) {
           return (await fallbackHttpRequest(client, "activities")) as unknown[];
@@ -622,6 +911,21 @@ function createGarminAdapter(client: RawGarminClient): GarminAdapter {
       }
     },
 
+    async getActivityDetails(activityId) {
+      try {
+        return await invokeMethod(
+          client,
+          ["getActivityDetails", "get_activity_details"],
+          [[activityId], [{ activityId }]],
+        );
+      } catch (error) {
+        if (isMissingCapabilityError(error)) {
+          return await fallbackHttpRequest(client, "activity-details", { activityId });
+        }
+        throw error;
+      }
+    },
+
     async uploadWorkout(workoutJson) {
       try {
         return await invokeMethod(
@@ -636,23 +940,110 @@ function createGarminAdapter(client: RawGarminClient): GarminAdapter {
         throw error;
       }
     },
+
+    async scheduleWorkout(workoutId, date) {
+      try {
+        return await invokeMethod(
+          client,
+          ["scheduleWorkout", "schedule_workout"],
+          [[workoutId, date]],
+        );
+      } catch (error) {
+        if (isMissingCapabilityError(error)) {
+          return await fallbackHttpRequest(client, "schedule-workout", { workoutId, date });
+        }
+        throw error;
+      }
+    },
+
+    async unscheduleWorkout(scheduleId) {
+      try {
+        return await invokeMethod(
+          client,
+          ["unscheduleWorkout", "unschedule_workout", "deleteWorkoutSchedule"],
+          [[scheduleId]],
+        );
+      } catch (error) {
+        if (isMissingCapabilityError(error)) {
+          return await fallbackHttpRequest(client, "unschedule-workout", { scheduleId });
+        }
+        throw error;
+      }
+    },
+  };
+}
+
+function resolveRetryPolicy(
+  operation: GarminOperation,
+  overrides?: GarminAdapterOptions["retryPolicies"],
+): GarminRetryPolicy {
+  return {
+    ...DEFAULT_GARMIN_RETRY_POLICY,
+    ...GARMIN_RETRY_POLICIES[operation],
+    ...overrides?.[operation],
+  };
+}
+
+function createGarminAdapter(
+  client: RawGarminClient,
+  options: GarminAdapterOptions = {},
+): GarminAdapter {
+  const adapter = createBaseGarminAdapter(client);
+  const run = <T>(operation: GarminOperation, call: () => Promise<T>) =>
+    withGarminRetry(
+      {
+        operation,
+        userId: options.userId,
+        policy: resolveRetryPolicy(operation, options.retryPolicies),
+      },
+      call,
+    );
+
+  return {
+    getActivities: (startDate, endDate) =>
+      run("getActivities", () => adapter.getActivities(startDate, endDate)),
+    getSleepData: (date) => run("getSleepData", () => adapter.getSleepData(date)),
+    getHrvData: (date) => run("getHrvData", () => adapter.getHrvData(date)),
+    getRestingHeartRate: (date) =>
+      run("getRestingHeartRate", () => adapter.getRestingHeartRate(date)),
+    getRacePredictions: () => run("getRacePredictions", () => adapter.getRacePredictions()),
+    getActivityDetails: (activityId) =>
+      run("getActivityDetails", () => adapter.getActivityDetails(activityId)),
+    uploadWorkout: (workoutJson) => run("uploadWorkout", () => adapter.uploadWorkout(workoutJson)),
+    scheduleWorkout: (workoutId, date) =>
+      run("scheduleWorkout", () => adapter.scheduleWorkout(workoutId, date)),
+    unscheduleWorkout: (scheduleId) =>
+      run("unscheduleWorkout", () => adapter.unscheduleWorkout(scheduleId)),
   };
 }
 
 export async function createGarminConnection(
   email: string,
   password: string,
+  options: { storePassword?: boolean } = {},
 ): Promise<GarminConnectionResult> {
   const result = await createRawGarminClient(email, password);
   if (!result.success) {
     return result;
   }
 
+  const storePassword = options.storePassword ?? true;
+  const sessionData = extractSerializableSession(result.client);
+  if (!storePassword && !sessionData) {
+    return {
+      success: false,
+      message:
+        "Garmin did not return a reusable session. Allow password storage to stay connected.",
+      status: 500,
+    };
+  }
+
   const payload: StoredGarminPayload = {
     provider: "garmin-connect",
     connectedAt: new Date().toISOString(),
-    credentials: { email, password },
-    sessionData: extractSerializableSession(result.client),
+    credentials: storePassword ? { email, password } : { email },
+    sessionData,
+    sessionUpdatedAt: sessionData ? new Date().toISOString() : undefined,
     capabilities: detectCapabilities(result.client),
   };
 
@@ -662,7 +1053,10 @@ export async function createGarminConnection(
   };
 }
 
-export async function getGarminClientForUser(userId: number): Promise<GarminClientResult> {
+export async function getGarminClientForUser(
+  userId: number,
+  options: Omit<GarminAdapterOptions, "userId"> = {},
+): Promise<GarminClientResult> {
   const user = await prisma.user.findUnique({
     where: { id: userId },
     select: { garminOauthToken: true, garminConnected: true },
@@ -688,20 +1082,40 @@ export async function getGarminClientForUser(userId: number): Promise<GarminClie
     };
   }
 
-  const clientResult = await createRawGarminClient(
-    payload.credentials.email,
-    payload.credentials.password,
-  );
-  if (!clientResult.success) {
-    return {
-      success: false,
-      message: clientResult.message,
-      status: clientResult.status,
-    };
+  const persistSession = (session: GarminSessionData) => saveSessionData(userId, payload, session);
+
+  let rawClient = await restoreRawGarminClient(payload, persistSession);
+
+  if (!rawClient) {
+    const password = payload.credentials.password;
+    if (!password) {
+      return {
+        success: false,
+        message: "Garmin session expired. Please reconnect Garmin.",
+        status: 401,
+      };
+    }
+
+    const clientResult = await createRawGarminClient(payload.credentials.email, password);
+    if (!clientResult.success) {
+      return {
+        success: false,
+        message: clientResult.message,
+        status: clientResult.status,
+      };
+    }
+
+    rawClient = clientResult.client;
+    watchSessionRefresh(rawClient, persistSession);
+
+    const session = extractSerializableSession(rawClient);
+    if (session) {
+      await persistSession(session);
+    }
   }
 
   return {
     success: true,
-    client: createGarminAdapter(clientResult.client),
+    client: createGarminAdapter(rawClient, { ...options, userId }),
   };
 }
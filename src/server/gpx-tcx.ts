@@ -0,0 +1,346 @@
+// Reader and writer for the GPX 1.1 and Garmin TCX v2 formats. Both are simple enough that a
+// tag scanner is sufficient; namespace prefixes are ignored so files from any exporter parse.
+
+export type TrackPoint = {
+  time: Date | null;
+  latitude: number | null;
+  longitude: number | null;
+  elevation: number | null;
+  heartRate: number | null;
+  cadence: number | null;
+  power: number | null;
+  // Cumulative meters when the file records it (TCX); otherwise computed from positions.
+  distance: number | null;
+  speed: number | null;
+};
+
+export type TrackLap = {
+  startTime: Date | null;
+  totalTimeSeconds: number | null;
+  distanceMeters: number | null;
+  maxSpeed: number | null;
+  averageHeartRate: number | null;
+  maxHeartRate: number | null;
+};
+
+export type ParsedTrack = {
+  name: string | null;
+  // Sport as written in the file ("running", "Biking", ...), not yet normalized.
+  sport: string | null;
+  points: TrackPoint[];
+  laps: TrackLap[];
+};
+
+export type ExportableActivity = {
+  name: string;
+  activityType: string | null;
+  sportCategory: string | null;
+  startTime: Date;
+  durationSeconds: number | null;
+  distanceMeters: number | null;
+  averageHrBpm: number | null;
+  maxHrBpm: number | null;
+  points: TrackPoint[];
+};
+
+export class TrackFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TrackFileError";
+  }
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&apos;": "'",
+};
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(amp|lt|gt|quot|apos);/g, (entity) => XML_ENTITIES[entity] ?? entity);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function elementBlocks(xml: string, tag: string): Array<{ attributes: string; body: string }> {
+  const pattern = new RegExp(
+    `<(?:[\\w-]+:)?${tag}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>)`,
+    "g",
+  );
+  return Array.from(xml.matchAll(pattern), (match) => ({
+    attributes: match[1] ?? "",
+    body: match[2] ?? "",
+  }));
+}
+
+function elementText(xml: string, tag: string): string | null {
+  const match = new RegExp(`<(?:[\\w-]+:)?${tag}\\b[^>]*>([^<]*)<`).exec(xml);
+  if (!match) {
+    return null;
+  }
+
+  const text = decodeEntities(match[1]).trim();
+  return text === "" ? null : text;
+}
+
+function attributeValue(attributes: string, name: string): string | null {
+  const match = new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`).exec(attributes);
+  return match ? decodeEntities(match[1]).trim() : null;
+}
+
+function toNumber(value: string | null): number | null {
+  if (value === null) {
+    return null;
+  }
+
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function toDate(value: string | null): Date | null {
+  if (value === null) {
+    return null;
+  }
+
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+export function parseGpx(xml: string): ParsedTrack {
+  if (!/<(?:[\w-]+:)?gpx\b/.test(xml)) {
+    throw new TrackFileError("Not a GPX file (missing <gpx> root).");
+  }
+
+  const track = elementBlocks(xml, "trk")[0];
+  if (!track) {
+    throw new TrackFileError("GPX file has no track.");
+  }
+
+  const points = elementBlocks(track.body, "trkpt").map(({ attributes, body }) => ({
+    time: toDate(elementText(body, "time")),
+    latitude: toNumber(attributeValue(attributes, "lat")),
+    longitude: toNumber(attributeValue(attributes, "lon")),
+    elevation: toNumber(elementText(body, "ele")),
+    heartRate: toNumber(elementText(body, "hr")),
+    cadence: toNumber(elementText(body, "cad")),
+    power: toNumber(elementText(body, "power")),
+    distance: null,
+    speed: toNumber(elementText(body, "speed")),
+  }));
+
+  return {
+    name: elementText(track.body, "name"),
+    sport: elementText(track.body, "type"),
+    points,
+    laps: [],
+  };
+}
+
+export function parseTcx(xml: string): ParsedTrack {
+  if (!/<(?:[\w-]+:)?TrainingCenterDatabase\b/.test(xml)) {
+    throw new TrackFileError("Not a TCX file (missing <TrainingCenterDatabase> root).");
+  }
+
+  const activity = elementBlocks(xml, "Activity")[0];
+  if (!activity) {
+    throw new TrackFileError("TCX file has no activity.");
+  }
+
+  const laps: TrackLap[] = [];
+  const points: TrackPoint[] = [];
+
+  for (const lap of elementBlocks(activity.body, "Lap")) {
+    const averageHr = elementBlocks(lap.body, "AverageHeartRateBpm")[0];
+    const maxHr = elementBlocks(lap.body, "MaximumHeartRateBpm")[0];
+    // Lap-level DistanceMeters precedes the <Track>; trackpoints carry their own.
+    const lapHeader = lap.body.split(/<(?:[\w-]+:)?Track\b/)[0];
+
+    laps.push({
+      startTime: toDate(attributeValue(lap.attributes, "StartTime")),
+      totalTimeSeconds: toNumber(elementText(lapHeader, "TotalTimeSeconds")),
+      distanceMeters: toNumber(elementText(lapHeader, "DistanceMeters")),
+      maxSpeed: toNumber(elementText(lapHeader, "MaximumSpeed")),
+      averageHeartRate: averageHr ? toNumber(elementText(averageHr.body, "Value")) : null,
+      maxHeartRate: maxHr ? toNumber(elementText(maxHr.body, "Value")) : null,
+    });
+
+    for (const point of elementBlocks(lap.body, "Trackpoint")) {
+      const heartRate = elementBlocks(point.body, "HeartRateBpm")[0];
+      const runCadence = toNumber(elementText(point.body, "RunCadence"));
+
+      points.push({
+        time: toDate(elementText(point.body, "Time")),
+        latitude: toNumber(elementText(point.body, "LatitudeDegrees")),
+        longitude: toNumber(elementText(point.body, "LongitudeDegrees")),
+        elevation: toNumber(elementText(point.body, "AltitudeMeters")),
+        heartRate: heartRate ? toNumber(elementText(heartRate.body, "Value")) : null,
+        // RunCadence is per leg, like FIT; double it to steps per minute.
+        cadence: runCadence !== null ? runCadence * 2 : toNumber(elementText(point.body, "Cadence")),
+        power: toNumber(elementText(point.body, "Watts")),
+        distance: toNumber(elementText(point.body, "DistanceMeters")),
+        speed: toNumber(elementText(point.body, "Speed")),
+      });
+    }
+  }
+
+  return {
+    name: elementText(activity.body, "Notes"),
+    sport: attributeValue(activity.attributes, "Sport"),
+    points,
+    laps,
+  };
+}
+
+function formatNumber(value: number, decimals: number): string {
+  return Number(value.toFixed(decimals)).toString();
+}
+
+function pointTime(point: TrackPoint): string | null {
+  return point.time ? point.time.toISOString() : null;
+}
+
+export function buildGpx(activity: ExportableActivity): string {
+  const cadenceDivisor = activity.sportCategory === "running" ? 2 : 1;
+  const trackPoints = activity.points
+    .filter((point) => point.latitude !== null && point.longitude !== null)
+    .map((point) => {
+      const children: string[] = [];
+      if (point.elevation !== null) {
+        children.push(`<ele>${formatNumber(point.elevation, 1)}</ele>`);
+      }
+      const time = pointTime(point);
+      if (time) {
+        children.push(`<time>${time}</time>`);
+      }
+
+      const extensions: string[] = [];
+      if (point.heartRate !== null) {
+        extensions.push(`<gpxtpx:hr>${Math.round(point.heartRate)}</gpxtpx:hr>`);
+      }
+      if (point.cadence !== null) {
+        extensions.push(`<gpxtpx:cad>${Math.round(point.cadence / cadenceDivisor)}</gpxtpx:cad>`);
+      }
+      if (extensions.length > 0) {
+        children.push(
+          `<extensions><gpxtpx:TrackPointExtension>${extensions.join("")}</gpxtpx:TrackPointExtension></extensions>`,
+        );
+      }
+
+      return `      <trkpt lat="${formatNumber(point.latitude as number, 7)}" lon="${formatNumber(
+        point.longitude as number,
+        7,
+      )}">${children.join("")}</trkpt>`;
+    });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Evo Coach" xmlns="http://www.topografix.com/GPX/1/1" xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v1">',
+    `  <metadata><time>${activity.startTime.toISOString()}</time></metadata>`,
+    "  <trk>",
+    `    <name>${escapeXml(activity.name)}</name>`,
+    activity.activityType ? `    <type>${escapeXml(activity.activityType)}</type>` : null,
+    "    <trkseg>",
+    ...trackPoints,
+    "    </trkseg>",
+    "  </trk>",
+    "</gpx>",
+    "",
+  ]
+    .filter((line): line is string => line !== null)
+    .join("\n");
+}
+
+function tcxSport(sportCategory: string | null): string {
+  if (sportCategory === "running") {
+    return "Running";
+  }
+  if (sportCategory === "cycling") {
+    return "Biking";
+  }
+
+  return "Other";
+}
+
+export function buildTcx(activity: ExportableActivity): string {
+  const isRun = activity.sportCategory === "running";
+  const startTime = activity.startTime.toISOString();
+
+  const trackPoints = activity.points.map((point) => {
+    const children: string[] = [];
+    const time = pointTime(point);
+    if (time) {
+      children.push(`<Time>${time}</Time>`);
+    }
+    if (point.latitude !== null && point.longitude !== null) {
+      children.push(
+        `<Position><LatitudeDegrees>${formatNumber(point.latitude, 7)}</LatitudeDegrees><LongitudeDegrees>${formatNumber(point.longitude, 7)}</LongitudeDegrees></Position>`,
+      );
+    }
+    if (point.elevation !== null) {
+      children.push(`<AltitudeMeters>${formatNumber(point.elevation, 1)}</AltitudeMeters>`);
+    }
+    if (point.distance !== null) {
+      children.push(`<DistanceMeters>${formatNumber(point.distance, 1)}</DistanceMeters>`);
+    }
+    if (point.heartRate !== null) {
+      children.push(`<HeartRateBpm><Value>${Math.round(point.heartRate)}</Value></HeartRateBpm>`);
+    }
+    if (point.cadence !== null && !isRun) {
+      children.push(`<Cadence>${Math.round(point.cadence)}</Cadence>`);
+    }
+
+    const extensions: string[] = [];
+    if (point.speed !== null) {
+      extensions.push(`<ns3:Speed>${formatNumber(point.speed, 3)}</ns3:Speed>`);
+    }
+    if (point.cadence !== null && isRun) {
+      extensions.push(`<ns3:RunCadence>${Math.round(point.cadence / 2)}</ns3:RunCadence>`);
+    }
+    if (point.power !== null) {
+      extensions.push(`<ns3:Watts>${Math.round(point.power)}</ns3:Watts>`);
+    }
+    if (extensions.length > 0) {
+      children.push(`<Extensions><ns3:TPX>${extensions.join("")}</ns3:TPX></Extensions>`);
+    }
+
+    return `            <Trackpoint>${children.join("")}</Trackpoint>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2" xmlns:ns3="http://www.garmin.com/xmlschemas/ActivityExtension/v2">',
+    "  <Activities>",
+    `    <Activity Sport="${tcxSport(activity.sportCategory)}">`,
+    `      <Id>${startTime}</Id>`,
+    `      <Lap StartTime="${startTime}">`,
+    `        <TotalTimeSeconds>${activity.durationSeconds ?? 0}</TotalTimeSeconds>`,
+    `        <DistanceMeters>${formatNumber(activity.distanceMeters ?? 0, 1)}</DistanceMeters>`,
+    activity.averageHrBpm !== null
+      ? `        <AverageHeartRateBpm><Value>${activity.averageHrBpm}</Value></AverageHeartRateBpm>`
+      : null,
+    activity.maxHrBpm !== null
+      ? `        <MaximumHeartRateBpm><Value>${activity.maxHrBpm}</Value></MaximumHeartRateBpm>`
+      : null,
+    "        <Intensity>Active</Intensity>",
+    "        <TriggerMethod>Manual</TriggerMethod>",
+    "        <Track>",
+    ...trackPoints,
+    "        </Track>",
+    "      </Lap>",
+    `      <Notes>${escapeXml(activity.name)}</Notes>`,
+    "    </Activity>",
+    "  </Activities>",
+    "</TrainingCenterDatabase>",
+    "",
+  ]
+    .filter((line): line is string => line !== null)
+    .join("\n");
+}
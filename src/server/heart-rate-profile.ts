@@ -0,0 +1,175 @@
+import { Prisma } from "../../prisma/generated/prisma/client";
+import { prisma } from "@/lib/prisma";
+import { decodeStreams } from "@/server/activity-streams";
+import {
+  LTHR_EFFORT_SECONDS,
+  bestRollingAverageHeartRate,
+  calculateHrZones,
+  estimateLactateThresholdHeartRate,
+  estimateMaxHeartRate,
+  type HrZone,
+  type HrZoneMethod,
+} from "@/server/hr-zones";
+import { getUserSettings } from "@/server/user-settings";
+
+export type HeartRateProfile = {
+  method: HrZoneMethod | null;
+  maxHeartRate: number | null;
+  restingHeartRate: number | null;
+  lactateThresholdHeartRate: number | null;
+  zones: HrZone[] | null;
+};
+
+type HeartRateEstimates = {
+  estimatedMaxHr: number | null;
+  estimatedLthr: number | null;
+};
+
+const MAX_HR_WINDOW_DAYS = 365;
+const LTHR_WINDOW_DAYS = 180;
+
+// Decoding streams is the expensive part; the most recent hard runs are enough to find an effort.
+const LTHR_STREAM_LIMIT = 30;
+
+function daysAgo(days: number): Date {
+  return new Date(Date.now() - days * 86400000);
+}
+
+async function estimateHeartRateLimits(userId: number): Promise<HeartRateEstimates> {
+  const [maxima, runs] = await Promise.all([
+    prisma.activity.findMany({
+      where: {
+        userId,
+        activityDate: { gte: daysAgo(MAX_HR_WINDOW_DAYS) },
+        maxHrBpm: { not: null },
+      },
+      select: { maxHrBpm: true },
+    }),
+    prisma.activity.findMany({
+      where: {
+        userId,
+        sportCategory: "running",
+        activityDate: { gte: daysAgo(LTHR_WINDOW_DAYS) },
+        durationSeconds: { gte: LTHR_EFFORT_SECONDS },
+        averageHrBpm: { not: null },
+      },
+      orderBy: { activityDate: "desc" },
+      select: { id: true, averageHrBpm: true },
+    }),
+  ]);
+
+  const estimatedMaxHr = estimateMaxHeartRate(maxima.map((activity) => activity.maxHrBpm));
+
+  const streams = await prisma.activityStream.findMany({
+    where: {
+      userId,
+      activityId: { in: runs.map((run) => run.id) },
+      channels: { hasEvery: ["time", "heartRate"] },
+    },
+    orderBy: { activityId: "desc" },
+    take: LTHR_STREAM_LIMIT,
+    select: { data: true, encoding: true },
+  });
+
+  // A whole run's average HR is a lower bound for its best 20 minutes, so runs without streams
+  // still count.
+  const efforts = runs.flatMap((run) => (run.averageHrBpm ? [run.averageHrBpm] : []));
+  for (const stream of streams) {
+    try {
+      const decoded = decodeStreams(stream.data, stream.encoding);
+      const best = bestRollingAverageHeartRate(
+        decoded.time ?? [],
+        decoded.heartRate ?? [],
+        LTHR_EFFORT_SECONDS,
+      );
+      if (best !== null) {
+        efforts.push(best);
+      }
+    } catch {
+      // An unreadable stream only loses this run's detail; its summary average still counts.
+    }
+  }
+
+  return {
+    estimatedMaxHr,
+    estimatedLthr: estimateLactateThresholdHeartRate(efforts, estimatedMaxHr),
+  };
+}
+
+async function getLatestRestingHeartRate(userId: number): Promise<number | null> {
+  const reading = await prisma.dailyHealthReading.findFirst({
+    where: {
+      userId,
+      OR: [{ restingHr7dayAvg: { not: null } }, { restingHr: { not: null } }],
+    },
+    orderBy: { readingDate: "desc" },
+    select: { restingHr: true, restingHr7dayAvg: true },
+  });
+
+  return reading?.restingHr7dayAvg ?? reading?.restingHr ?? null;
+}
+
+// Rebuilds the zone table on the fitness profile from user settings, falling back to the stored
+// estimates for any heart rate the user left blank.
+export async function refreshHeartRateZones(userId: number): Promise<HeartRateProfile> {
+  const [settings, fitness, latestRestingHr] = await Promise.all([
+    getUserSettings(userId),
+    prisma.userRunningFitness.findUnique({
+      where: { userId },
+      select: { estimatedMaxHr: true, estimatedLthr: true },
+    }),
+    getLatestRestingHeartRate(userId),
+  ]);
+
+  const inputs = {
+    customHrZoneFloors: settings.customHrZoneFloors,
+    maxHeartRate: settings.maxHeartRate ?? fitness?.estimatedMaxHr ?? null,
+    restingHeartRate: settings.restingHeartRate ?? latestRestingHr,
+    lactateThresholdHeartRate:
+      settings.lactateThresholdHeartRate ?? fitness?.estimatedLthr ?? null,
+  };
+
+  // When the chosen method lacks its inputs, %max HR still gives usable zones.
+  let method: HrZoneMethod | null = settings.hrZoneMethod;
+  let zones = calculateHrZones({ ...inputs, hrZoneMethod: method });
+  if (!zones && method !== "max_hr") {
+    method = "max_hr";
+    zones = calculateHrZones({ ...inputs, hrZoneMethod: method });
+  }
+  if (!zones) {
+    method = null;
+  }
+
+  const profileFields = {
+    restingHr: latestRestingHr,
+    hrZoneMethod: method,
+    hrZonesJson: zones ?? Prisma.DbNull,
+  };
+
+  await prisma.userRunningFitness.upsert({
+    where: { userId },
+    create: { userId, ...profileFields, dataSource: "activities" },
+    update: profileFields,
+  });
+
+  return {
+    method,
+    maxHeartRate: inputs.maxHeartRate,
+    restingHeartRate: inputs.restingHeartRate,
+    lactateThresholdHeartRate: inputs.lactateThresholdHeartRate,
+    zones,
+  };
+}
+
+// Re-estimates max HR and LTHR from stored activities, then rebuilds the zone table.
+export async function updateHeartRateProfile(userId: number): Promise<HeartRateProfile> {
+  const estimates = await estimateHeartRateLimits(userId);
+
+  await prisma.userRunningFitness.upsert({
+    where: { userId },
+    create: { userId, ...estimates, dataSource: "activities" },
+    update: estimates,
+  });
+
+  return await refreshHeartRateZones(userId);
+}
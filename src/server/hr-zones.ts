@@ -0,0 +1,187 @@
+export type HrZoneMethod = "max_hr" | "hrr" | "lthr" | "custom";
+
+export const HR_ZONE_METHODS: HrZoneMethod[] = ["max_hr", "hrr", "lthr", "custom"];
+
+export type HrZone = {
+  zone: number;
+  minBpm: number;
+  maxBpm: number;
+};
+
+export type HrZoneSettings = {
+  hrZoneMethod: string;
+  maxHeartRate: number | null;
+  restingHeartRate: number | null;
+  lactateThresholdHeartRate: number | null;
+  customHrZoneFloors: number[];
+};
+
+export const HR_ZONE_COUNT = 5;
+
+// Garmin's default zone floors as a share of max HR.
+const MAX_HR_ZONE_FLOORS = [0.5, 0.6, 0.7, 0.8, 0.9];
+
+// Karvonen: the same shares, applied to heart rate reserve (max minus resting) on top of resting.
+const HRR_ZONE_FLOORS = [0.5, 0.6, 0.7, 0.8, 0.9];
+
+// Friel's running zones as a share of lactate threshold HR; zone 5 starts at threshold.
+const LTHR_ZONE_FLOORS = [0.65, 0.85, 0.9, 0.95, 1.0];
+
+// Without a known max HR, zone 5 under the LTHR method tops out at Friel's 5c boundary.
+const LTHR_ZONE_CEILING = 1.06;
+
+// Recorded values above this are strap or optical sensor spikes, not a real max.
+const MAX_PLAUSIBLE_HEART_RATE = 220;
+const MIN_PLAUSIBLE_MAX_HEART_RATE = 120;
+
+// Friel's 20-minute test: threshold sits about 5% below the average HR of an all-out
+// 20-minute effort.
+export const LTHR_EFFORT_SECONDS = 20 * 60;
+const LTHR_EFFORT_SHARE = 0.95;
+
+// Threshold is rarely below this share of max HR; a lower estimate means no hard effort was
+// recorded rather than a low threshold.
+const MIN_LTHR_SHARE_OF_MAX = 0.8;
+
+export function isHrZoneMethod(value: string): value is HrZoneMethod {
+  return HR_ZONE_METHODS.includes(value as HrZoneMethod);
+}
+
+function zonesFromFloors(floors: number[], ceiling: number): HrZone[] {
+  return floors.map((floor, index) => ({
+    zone: index + 1,
+    minBpm: floor,
+    maxBpm: index < floors.length - 1 ? floors[index + 1] - 1 : ceiling,
+  }));
+}
+
+// Null when the chosen method is missing the heart rate it is based on.
+export function calculateHrZones(settings: HrZoneSettings): HrZone[] | null {
+  const { maxHeartRate, lactateThresholdHeartRate } = settings;
+
+  if (settings.hrZoneMethod === "custom") {
+    const floors = settings.customHrZoneFloors;
+    if (floors.length !== HR_ZONE_COUNT) {
+      return null;
+    }
+    return zonesFromFloors(floors, maxHeartRate ?? floors[HR_ZONE_COUNT - 1] + 10);
+  }
+
+  if (settings.hrZoneMethod === "hrr") {
+    const { restingHeartRate } = settings;
+    if (!maxHeartRate || !restingHeartRate || restingHeartRate >= maxHeartRate) {
+      return null;
+    }
+    const reserve = maxHeartRate - restingHeartRate;
+    return zonesFromFloors(
+      HRR_ZONE_FLOORS.map((share) => Math.round(restingHeartRate + reserve * share)),
+      maxHeartRate,
+    );
+  }
+
+  if (settings.hrZoneMethod === "lthr") {
+    if (!lactateThresholdHeartRate) {
+      return null;
+    }
+    return zonesFromFloors(
+      LTHR_ZONE_FLOORS.map((share) => Math.round(lactateThresholdHeartRate * share)),
+      maxHeartRate ?? Math.round(lactateThresholdHeartRate * LTHR_ZONE_CEILING),
+    );
+  }
+
+  if (!maxHeartRate) {
+    return null;
+  }
+  return zonesFromFloors(
+    MAX_HR_ZONE_FLOORS.map((share) => Math.round(maxHeartRate * share)),
+    maxHeartRate,
+  );
+}
+
+export function parseHrZones(value: unknown): HrZone[] | null {
+  if (!Array.isArray(value) || value.length !== HR_ZONE_COUNT) {
+    return null;
+  }
+
+  const zones = value.filter(
+    (zone): zone is HrZone =>
+      typeof zone === "object" &&
+      zone !== null &&
+      typeof zone.zone === "number" &&
+      typeof zone.minBpm === "number" &&
+      typeof zone.maxBpm === "number",
+  );
+
+  return zones.length === HR_ZONE_COUNT ? zones : null;
+}
+
+// Highest plausible max HR recorded in any activity.
+export function estimateMaxHeartRate(recordedMaxima: Array<number | null>): number | null {
+  let max: number | null = null;
+  for (const value of recordedMaxima) {
+    if (
+      value !== null &&
+      value >= MIN_PLAUSIBLE_MAX_HEART_RATE &&
+      value <= MAX_PLAUSIBLE_HEART_RATE &&
+      value > (max ?? 0)
+    ) {
+      max = value;
+    }
+  }
+
+  return max;
+}
+
+// Highest average HR held over any window of windowSeconds, or null when the recording is shorter.
+export function bestRollingAverageHeartRate(
+  time: Array<number | null>,
+  heartRate: Array<number | null>,
+  windowSeconds: number,
+): number | null {
+  const samples: Array<{ time: number; heartRate: number }> = [];
+  for (let index = 0; index < Math.min(time.length, heartRate.length); index += 1) {
+    const sampleTime = time[index];
+    const sampleHeartRate = heartRate[index];
+    if (sampleTime !== null && sampleHeartRate !== null && sampleHeartRate > 0) {
+      samples.push({ time: sampleTime, heartRate: sampleHeartRate });
+    }
+  }
+
+  let best: number | null = null;
+  let start = 0;
+  let sum = 0;
+  for (let end = 0; end < samples.length; end += 1) {
+    sum += samples[end].heartRate;
+    while (samples[end].time - samples[start].time > windowSeconds) {
+      sum -= samples[start].heartRate;
+      start += 1;
+    }
+
+    if (samples[end].time - samples[start].time >= windowSeconds * 0.95) {
+      const average = sum / (end - start + 1);
+      best = Math.max(best ?? 0, average);
+    }
+  }
+
+  return best;
+}
+
+// bestEffortHeartRates are 20-minute (or longer) average HRs from hard sessions.
+export function estimateLactateThresholdHeartRate(
+  bestEffortHeartRates: number[],
+  maxHeartRate: number | null,
+): number | null {
+  if (bestEffortHeartRates.length === 0) {
+    return null;
+  }
+
+  const estimate = Math.round(Math.max(...bestEffortHeartRates) * LTHR_EFFORT_SHARE);
+  if (
+    maxHeartRate &&
+    (estimate >= maxHeartRate || estimate < maxHeartRate * MIN_LTHR_SHARE_OF_MAX)
+  ) {
+    return null;
+  }
+
+  return estimate;
+}
@@ -0,0 +1,352 @@
+import { prisma } from "@/lib/prisma";
+import {
+  calculateTrainingPaces,
+  calculateVdot,
+  calculateVdotFromRaceTimes,
+  isVdotRaceDuration,
+} from "@/server/vdot";
+import { applyPaceOverrides, getPinnedPaces, getUserSettings } from "@/server/user-settings";
+
+export const RACE_CONDITIONS = ["ideal", "hot", "cold", "windy", "wet"] as const;
+export const COURSE_PROFILES = ["flat", "rolling", "hilly", "trail"] as const;
+
+export type RaceCondition = (typeof RACE_CONDITIONS)[number];
+export type CourseProfile = (typeof COURSE_PROFILES)[number];
+
+// Where the stored training paces came from.
+export type VdotSource = "race_result" | "predictions";
+
+export type RaceResultInput = {
+  raceName: string | null;
+  raceDate: Date;
+  distanceMeters: number;
+  timeSeconds: number;
+  conditions: RaceCondition | null;
+  courseProfile: CourseProfile;
+  notes: string | null;
+};
+
+export type RaceResultRecord = {
+  id: number;
+  raceName: string | null;
+  raceDate: Date;
+  distanceMeters: number;
+  timeSeconds: number;
+  conditions: string | null;
+  courseProfile: string;
+  notes: string | null;
+  vdot: number | null;
+};
+
+export type RaceResultValidation =
+  | { success: true; input: RaceResultInput }
+  | { success: false; message: string };
+
+export type RaceResultMutationResult =
+  | { success: true; raceResult: RaceResultRecord }
+  | { success: false; message: string; status: number };
+
+type PaceVdot = {
+  vdot: number;
+  source: VdotSource;
+};
+
+export type PredictionVdot = {
+  vdot: number;
+  // Day the predictions last changed; null when that is unknown.
+  updatedAt: Date | null;
+};
+
+// A real race newer than the predictions beats them while it is this recent; after that
+// predictions track fitness changes the race can no longer reflect.
+const RACE_RESULT_TRUSTED_DAYS = 90;
+
+// Trail distance and footing make the time meaningless for road paces.
+const UNTRUSTED_COURSE_PROFILES: CourseProfile[] = ["trail"];
+
+const MAX_RACE_DISTANCE_METERS = 100_000;
+const MAX_NAME_LENGTH = 120;
+const MAX_NOTES_LENGTH = 1000;
+
+const RACE_RESULT_SELECT = {
+  id: true,
+  raceName: true,
+  raceDate: true,
+  distanceMeters: true,
+  timeSeconds: true,
+  conditions: true,
+  courseProfile: true,
+  notes: true,
+  vdot: true,
+} as const;
+
+function asObject(value: unknown): Record<string, unknown> | null {
+  if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+    return value as Record<string, unknown>;
+  }
+
+  return null;
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function parseDateOnly(value: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return null;
+  }
+
+  const parsed = new Date(`${value}T00:00:00.000Z`);
+  return Number.isNaN(parsed.getTime()) || formatDate(parsed) !== value ? null : parsed;
+}
+
+function optionalText(value: unknown, maxLength: number): string | null | undefined {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value !== "string" || value.length > maxLength) {
+    return undefined;
+  }
+
+  return value.trim() || null;
+}
+
+export function isRaceCondition(value: string): value is RaceCondition {
+  return RACE_CONDITIONS.includes(value as RaceCondition);
+}
+
+export function isCourseProfile(value: string): value is CourseProfile {
+  return COURSE_PROFILES.includes(value as CourseProfile);
+}
+
+export function validateRaceResultInput(body: unknown): RaceResultValidation {
+  const payload = asObject(body);
+  if (!payload) {
+    return { success: false, message: "Invalid request payload." };
+  }
+
+  const raceDate =
+    typeof payload.raceDate === "string" ? parseDateOnly(payload.raceDate) : null;
+  if (!raceDate) {
+    return { success: false, message: "raceDate must be a date in YYYY-MM-DD format." };
+  }
+  if (formatDate(raceDate) > formatDate(new Date())) {
+    return { success: false, message: "raceDate cannot be in the future." };
+  }
+
+  const distanceMeters = payload.distanceMeters;
+  if (
+    typeof distanceMeters !== "number" ||
+    !Number.isFinite(distanceMeters) ||
+    distanceMeters <= 0 ||
+    distanceMeters > MAX_RACE_DISTANCE_METERS
+  ) {
+    return {
+      success: false,
+      message: `distanceMeters must be a positive number up to ${MAX_RACE_DISTANCE_METERS}.`,
+    };
+  }
+
+  const timeSeconds = payload.timeSeconds;
+  if (typeof timeSeconds !== "number" || !Number.isInteger(timeSeconds) || timeSeconds <= 0) {
+    return { success: false, message: "timeSeconds must be a positive whole number." };
+  }
+
+  let conditions: RaceCondition | null = null;
+  if (payload.conditions !== undefined && payload.conditions !== null) {
+    if (typeof payload.conditions !== "string" || !isRaceCondition(payload.conditions)) {
+      return {
+        success: false,
+        message: `conditions must be one of: ${RACE_CONDITIONS.join(", ")}.`,
+      };
+    }
+    conditions = payload.conditions;
+  }
+
+  let courseProfile: CourseProfile = "flat";
+  if (payload.courseProfile !== undefined) {
+    if (typeof payload.courseProfile !== "string" || !isCourseProfile(payload.courseProfile)) {
+      return {
+        success: false,
+        message: `courseProfile must be one of: ${COURSE_PROFILES.join(", ")}.`,
+      };
+    }
+    courseProfile = payload.courseProfile;
+  }
+
+  const raceName = optionalText(payload.raceName, MAX_NAME_LENGTH);
+  if (raceName === undefined) {
+    return {
+      success: false,
+      message: `raceName must be text up to ${MAX_NAME_LENGTH} characters.`,
+    };
+  }
+
+  const notes = optionalText(payload.notes, MAX_NOTES_LENGTH);
+  if (notes === undefined) {
+    return {
+      success: false,
+      message: `notes must be text up to ${MAX_NOTES_LENGTH} characters.`,
+    };
+  }
+
+  return {
+    success: true,
+    input: { raceName, raceDate, distanceMeters, timeSeconds, conditions, courseProfile, notes },
+  };
+}
+
+// Null when the race is too short or too long for the VDOT curves.
+function calculateRaceVdot(input: RaceResultInput): number | null {
+  if (!isVdotRaceDuration(input.timeSeconds)) {
+    return null;
+  }
+
+  return Number(calculateVdot(input.distanceMeters, input.timeSeconds).toFixed(1));
+}
+
+export async function listRaceResults(userId: number): Promise<RaceResultRecord[]> {
+  return await prisma.raceResult.findMany({
+    where: { userId },
+    orderBy: [{ raceDate: "desc" }, { id: "desc" }],
+    select: RACE_RESULT_SELECT,
+  });
+}
+
+// Highest VDOT among trusted recent races run on or after `notBefore`; a race run in heat or on
+// hills simply scores lower.
+async function getBestRecentRaceVdot(
+  userId: number,
+  notBefore: Date | null,
+): Promise<number | null> {
+  let since = new Date(`${formatDate(new Date())}T00:00:00.000Z`);
+  since.setUTCDate(since.getUTCDate() - RACE_RESULT_TRUSTED_DAYS);
+  if (notBefore && notBefore > since) {
+    since = notBefore;
+  }
+
+  const best = await prisma.raceResult.findFirst({
+    where: {
+      userId,
+      raceDate: { gte: since },
+      courseProfile: { notIn: UNTRUSTED_COURSE_PROFILES },
+      vdot: { not: null },
+    },
+    orderBy: { vdot: "desc" },
+    select: { vdot: true },
+  });
+
+  return best?.vdot ?? null;
+}
+
+// Predictions that moved after a race already account for it, so only a race run on or after the
+// day they last changed replaces them.
+export async function resolvePaceVdot(
+  userId: number,
+  predictions: PredictionVdot | null,
+): Promise<PaceVdot | null> {
+  const raceVdot = await getBestRecentRaceVdot(userId, predictions?.updatedAt ?? null);
+  if (raceVdot !== null) {
+    return { vdot: raceVdot, source: "race_result" };
+  }
+
+  return predictions ? { vdot: predictions.vdot, source: "predictions" } : null;
+}
+
+// Re-derives stored paces after the race log or pace overrides change, falling back to the last
+// synced predictions.
+export async function refreshRunningFitnessPaces(userId: number): Promise<void> {
+  const fitness = await prisma.userRunningFitness.findUnique({
+    where: { userId },
+    select: {
+      predicted5kSeconds: true,
+      predicted10kSeconds: true,
+      predictedHalfSeconds: true,
+      predictedMarathonSeconds: true,
+      racePredictionsLastUpdate: true,
+    },
+  });
+
+  const predictionVdot = fitness ? calculateVdotFromRaceTimes(fitness) : null;
+  const [paceVdot, settings] = await Promise.all([
+    resolvePaceVdot(
+      userId,
+      predictionVdot !== null
+        ? { vdot: predictionVdot, updatedAt: fitness?.racePredictionsLastUpdate ?? null }
+        : null,
+    ),
+    getUserSettings(userId),
+  ]);
+  if (!paceVdot) {
+    // Calculated paces stay as they are, but no longer claim to come from a deleted race.
+    await prisma.userRunningFitness.updateMany({
+      where: { userId },
+      data: { vdotSource: null, paceVdot: null, ...getPinnedPaces(settings) },
+    });
+    return;
+  }
+
+  const paceFields = {
+    vo2Max: Math.round(paceVdot.vdot),
+    paceVdot: paceVdot.vdot,
+    vdotSource: paceVdot.source,
+    ...applyPaceOverrides(calculateTrainingPaces(paceVdot.vdot), settings),
+    lastUpdated: new Date(),
+  };
+
+  await prisma.userRunningFitness.upsert({
+    where: { userId },
+    create: { userId, ...paceFields, dataSource: "race_result" },
+    update: paceFields,
+  });
+}
+
+export async function createRaceResult(
+  userId: number,
+  input: RaceResultInput,
+): Promise<RaceResultRecord> {
+  const raceResult = await prisma.raceResult.create({
+    data: { ...input, userId, vdot: calculateRaceVdot(input) },
+    select: RACE_RESULT_SELECT,
+  });
+
+  await refreshRunningFitnessPaces(userId);
+  return raceResult;
+}
+
+export async function updateRaceResult(
+  userId: number,
+  raceResultId: number,
+  input: RaceResultInput,
+): Promise<RaceResultMutationResult> {
+  const existing = await prisma.raceResult.findFirst({
+    where: { id: raceResultId, userId },
+    select: { id: true },
+  });
+  if (!existing) {
+    return { success: false, message: "Race result not found.", status: 404 };
+  }
+
+  const raceResult = await prisma.raceResult.update({
+    where: { id: existing.id },
+    data: { ...input, vdot: calculateRaceVdot(input) },
+    select: RACE_RESULT_SELECT,
+  });
+
+  await refreshRunningFitnessPaces(userId);
+  return { success: true, raceResult };
+}
+
+export async function deleteRaceResult(
+  userId: number,
+  raceResultId: number,
+): Promise<{ success: true } | { success: false; message: string; status: number }> {
+  const deleted = await prisma.raceResult.deleteMany({ where: { id: raceResultId, userId } });
+  if (deleted.count === 0) {
+    return { success: false, message: "Race result not found.", status: 404 };
+  }
+
+  await refreshRunningFitnessPaces(userId);
+  return { success: true };
+}
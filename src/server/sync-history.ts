@@ -0,0 +1,76 @@
+import type { Prisma } from "../../prisma/generated/prisma/client";
+import { prisma } from "@/lib/prisma";
+
+export type SyncRunStatus = "running" | "succeeded" | "failed";
+
+export type SyncRunSummary = {
+  status: Exclude<SyncRunStatus, "running">;
+  activitiesSynced?: number;
+  healthDaysSynced?: number;
+  healthDaysExisting?: number;
+  healthDaysSkipped?: number;
+  fitnessSynced?: boolean;
+  stageResults?: unknown;
+  errorMessage?: string | null;
+};
+
+export async function startSyncRun(input: {
+  userId: number;
+  jobId?: number;
+  kind?: string;
+  trigger: string;
+  startDate: Date;
+  endDate: Date;
+}): Promise<{ id: number; startedAt: Date }> {
+  return prisma.syncRun.create({
+    data: {
+      userId: input.userId,
+      jobId: input.jobId ?? null,
+      kind: input.kind ?? "sync",
+      trigger: input.trigger,
+      status: "running",
+      startDate: input.startDate,
+      endDate: input.endDate,
+    },
+    select: { id: true, startedAt: true },
+  });
+}
+
+export async function finishSyncRun(
+  run: { id: number; startedAt: Date },
+  summary: SyncRunSummary,
+): Promise<void> {
+  const finishedAt = new Date();
+
+  await prisma.syncRun.update({
+    where: { id: run.id },
+    data: {
+      status: summary.status,
+      finishedAt,
+      durationMs: finishedAt.getTime() - run.startedAt.getTime(),
+      activitiesSynced: summary.activitiesSynced ?? null,
+      healthDaysSynced: summary.healthDaysSynced ?? null,
+      healthDaysExisting: summary.healthDaysExisting ?? null,
+      healthDaysSkipped: summary.healthDaysSkipped ?? null,
+      fitnessSynced: summary.fitnessSynced ?? null,
+      stageResultsJson:
+        summary.stageResults !== undefined
+          ? (summary.stageResults as Prisma.InputJsonValue)
+          : undefined,
+      errorMessage: summary.errorMessage ?? null,
+    },
+  });
+}
+
+// A worker that died mid-job leaves its run "running"; when the job is reclaimed that run is
+// closed as failed before a new one starts.
+export async function failOrphanedSyncRuns(jobId: number): Promise<void> {
+  await prisma.syncRun.updateMany({
+    where: { jobId, status: "running" },
+    data: {
+      status: "failed",
+      finishedAt: new Date(),
+      errorMessage: "The sync worker stopped before this run finished.",
+    },
+  });
+}
@@ -0,0 +1,761 @@
+import type { Prisma } from "../../prisma/generated/prisma/client";
+import { logError } from "@/lib/logger";
+import { prisma } from "@/lib/prisma";
+import { syncActivityStreams } from "@/server/activity-streams";
+import {
+  failOrphanedSyncRuns,
+  finishSyncRun,
+  startSyncRun,
+  type SyncRunSummary,
+} from "@/server/sync-history";
+import {
+  createSyncContext,
+  resolveIncrementalSyncRanges,
+  type SyncContext,
+  syncDailyHealthData,
+  syncUserActivities,
+  syncUserRunningFitness,
+} from "@/server/sync";
+import { updateHeartRateProfile } from "@/server/heart-rate-profile";
+import { recomputeTrainingLoad } from "@/server/training-load";
+
+export type SyncJobStatus = "queued" | "running" | "succeeded" | "failed";
+
+export type SyncJobKind = "sync" | "incremental" | "backfill";
+
+export type SyncStage = "activities" | "streams" | "health" | "fitness";
+
+export type SyncStageProgress = {
+  status: "pending" | "running" | "succeeded" | "failed";
+  message?: string;
+  synced?: number | boolean;
+  completed?: number;
+  total?: number;
+  skippedExisting?: number;
+  skippedUnavailable?: number;
+};
+
+export type BackfillProgress = {
+  monthsCompleted: number;
+  emptyMonths: number;
+  cursorDate: string | null;
+};
+
+export type SyncJobProgress = Record<SyncStage, SyncStageProgress> & {
+  backfill?: BackfillProgress;
+};
+
+export type SyncJobView = {
+  id: number;
+  kind: SyncJobKind;
+  status: SyncJobStatus;
+  trigger: string;
+  startDate: string;
+  endDate: string;
+  cursorDate: string | null;
+  currentStage: SyncStage | null;
+  progress: SyncJobProgress;
+  errorMessage: string | null;
+  attempts: number;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+};
+
+type SyncJobRecord = {
+  id: number;
+  userId: number;
+  kind: string;
+  status: string;
+  trigger: string;
+  startDate: Date;
+  endDate: Date;
+  cursorDate: Date | null;
+  currentStage: string | null;
+  progressJson: Prisma.JsonValue | null;
+  errorMessage: string | null;
+  attempts: number;
+  createdAt: Date;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+};
+
+const SYNC_STAGES: SyncStage[] = ["activities", "streams", "health", "fitness"];
+const SYNC_JOB_KINDS: SyncJobKind[] = ["sync", "incremental", "backfill"];
+const ACTIVE_JOB_STATUSES: SyncJobStatus[] = ["queued", "running"];
+const WORKER_POLL_INTERVAL_MS = 5_000;
+const STALE_JOB_LOCK_MINUTES = 15;
+const MAX_JOB_ATTEMPTS = 3;
+const BACKFILL_MAX_YEARS = 10;
+// Several consecutive months with nothing on Garmin means we walked past the start of the history.
+const BACKFILL_EMPTY_MONTH_LIMIT = 6;
+
+type SyncWorkerState = {
+  timer: ReturnType<typeof setInterval> | null;
+  draining: boolean;
+};
+
+const globalForSyncWorker = globalThis as unknown as {
+  syncWorker: SyncWorkerState | undefined;
+};
+
+const workerState: SyncWorkerState = globalForSyncWorker.syncWorker ?? {
+  timer: null,
+  draining: false,
+};
+globalForSyncWorker.syncWorker = workerState;
+
+function asObject(value: unknown): Record<string, unknown> | null {
+  if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+    return value as Record<string, unknown>;
+  }
+
+  return null;
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function parseDateOnly(value: string): Date {
+  return new Date(`${value}T00:00:00.000Z`);
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function addDays(base: Date, offsetDays: number): Date {
+  const copy = new Date(base);
+  copy.setUTCDate(copy.getUTCDate() + offsetDays);
+  return copy;
+}
+
+function startOfMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+function createInitialProgress(): SyncJobProgress {
+  return {
+    activities: { status: "pending" },
+    streams: { status: "pending" },
+    health: { status: "pending" },
+    fitness: { status: "pending" },
+  };
+}
+
+function parseProgress(value: Prisma.JsonValue | null): SyncJobProgress {
+  const progress = createInitialProgress();
+  const source = asObject(value);
+  if (!source) {
+    return progress;
+  }
+
+  for (const stage of SYNC_STAGES) {
+    const stageValue = asObject(source[stage]);
+    if (stageValue && typeof stageValue.status === "string") {
+      progress[stage] = stageValue as SyncStageProgress;
+    }
+  }
+
+  const backfill = asObject(source.backfill);
+  if (backfill && typeof backfill.monthsCompleted === "number") {
+    progress.backfill = backfill as BackfillProgress;
+  }
+
+  return progress;
+}
+
+function isSyncStage(value: string | null): value is SyncStage {
+  return value !== null && SYNC_STAGES.includes(value as SyncStage);
+}
+
+export function serializeSyncJob(job: SyncJobRecord): SyncJobView {
+  return {
+    id: job.id,
+    kind: SYNC_JOB_KINDS.includes(job.kind as SyncJobKind) ? (job.kind as SyncJobKind) : "sync",
+    status: job.status as SyncJobStatus,
+    trigger: job.trigger,
+    startDate: formatDate(job.startDate),
+    endDate: formatDate(job.endDate),
+    cursorDate: job.cursorDate ? formatDate(job.cursorDate) : null,
+    currentStage: isSyncStage(job.currentStage) ? job.currentStage : null,
+    progress: parseProgress(job.progressJson),
+    errorMessage: job.errorMessage,
+    attempts: job.attempts,
+    createdAt: job.createdAt.toISOString(),
+    startedAt: job.startedAt ? job.startedAt.toISOString() : null,
+    finishedAt: job.finishedAt ? job.finishedAt.toISOString() : null,
+  };
+}
+
+export async function enqueueSyncJob(
+  userId: number,
+  startDate: Date,
+  endDate: Date,
+  options: { kind?: Exclude<SyncJobKind, "backfill">; trigger?: string } = {},
+): Promise<{ job: SyncJobView; reused: boolean }> {
+  const activeJob = await prisma.syncJob.findFirst({
+    where: {
+      userId,
+      status: { in: ACTIVE_JOB_STATUSES },
+    },
+    orderBy: { createdAt: "desc" },
+  });
+
+  if (activeJob) {
+    return { job: serializeSyncJob(activeJob), reused: true };
+  }
+
+  const job = await prisma.syncJob.create({
+    data: {
+      userId,
+      kind: options.kind ?? "sync",
+      status: "queued",
+      trigger: options.trigger ?? "manual",
+      startDate,
+      endDate,
+      progressJson: createInitialProgress() as Prisma.InputJsonValue,
+    },
+  });
+
+  return { job: serializeSyncJob(job), reused: false };
+}
+
+export async function enqueueBackfillJob(
+  userId: number,
+  trigger = "manual",
+): Promise<{ job: SyncJobView; reused: boolean; resumed: boolean }> {
+  const activeJob = await prisma.syncJob.findFirst({
+    where: {
+      userId,
+      status: { in: ACTIVE_JOB_STATUSES },
+    },
+    orderBy: { createdAt: "desc" },
+  });
+
+  if (activeJob) {
+    return { job: serializeSyncJob(activeJob), reused: true, resumed: false };
+  }
+
+  // A failed backfill keeps its cursor, so the next one continues from the month it stopped in.
+  const lastBackfill = await prisma.syncJob.findFirst({
+    where: { userId, kind: "backfill" },
+    orderBy: { createdAt: "desc" },
+  });
+  const resumeFrom =
+    lastBackfill?.status === "failed" && lastBackfill.cursorDate ? lastBackfill : null;
+
+  let startDate: Date;
+  let endDate: Date;
+  if (resumeFrom) {
+    startDate = resumeFrom.startDate;
+    endDate = resumeFrom.endDate;
+  } else {
+    const today = new Date();
+    endDate = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate()));
+    startDate = new Date(
+      Date.UTC(endDate.getUTCFullYear() - BACKFILL_MAX_YEARS, endDate.getUTCMonth(), 1),
+    );
+  }
+
+  const progress = resumeFrom ? parseProgress(resumeFrom.progressJson) : createInitialProgress();
+  if (resumeFrom) {
+    for (const stage of SYNC_STAGES) {
+      if (progress[stage].status !== "succeeded") {
+        progress[stage] = { ...progress[stage], status: "pending", message: undefined };
+      }
+    }
+  }
+
+  const job = await prisma.syncJob.create({
+    data: {
+      userId,
+      kind: "backfill",
+      status: "queued",
+      trigger,
+      startDate,
+      endDate,
+      cursorDate: resumeFrom?.cursorDate ?? null,
+      progressJson: progress as Prisma.InputJsonValue,
+    },
+  });
+
+  return { job: serializeSyncJob(job), reused: false, resumed: resumeFrom !== null };
+}
+
+export async function getSyncJobForUser(
+  userId: number,
+  jobId: number,
+): Promise<SyncJobView | null> {
+  const job = await prisma.syncJob.findFirst({
+    where: { id: jobId, userId },
+  });
+
+  return job ? serializeSyncJob(job) : null;
+}
+
+async function claimNextSyncJob(): Promise<number | null> {
+  // SKIP LOCKED lets several workers poll the same table without double-claiming a job.
+  // Jobs left "running" by a crashed worker are reclaimed once their lock goes stale.
+  const rows = await prisma.$queryRaw<Array<{ id: number }>>`
+    UPDATE "sync_jobs"
+    SET "status" = 'running',
+        "locked_at" = NOW(),
+        "started_at" = COALESCE("started_at", NOW()),
+        "attempts" = "attempts" + 1
+    WHERE "id" = (
+      SELECT "id" FROM "sync_jobs"
+      WHERE "status" = 'queued'
+         OR ("status" = 'running'
+             AND "locked_at" < NOW() - make_interval(mins => ${STALE_JOB_LOCK_MINUTES}::int))
+      ORDER BY "created_at"
+      FOR UPDATE SKIP LOCKED
+      LIMIT 1
+    )
+    RETURNING "id"
+  `;
+
+  return rows[0]?.id ?? null;
+}
+
+async function saveProgress(
+  jobId: number,
+  progress: SyncJobProgress,
+  currentStage: SyncStage | null,
+): Promise<void> {
+  await prisma.syncJob.update({
+    where: { id: jobId },
+    data: {
+      currentStage,
+      lockedAt: new Date(),
+      progressJson: progress as Prisma.InputJsonValue,
+    },
+  });
+}
+
+function summarizeProgress(
+  progress: SyncJobProgress,
+  errorMessage: string | null,
+): SyncRunSummary {
+  const failed = SYNC_STAGES.some((stage) => progress[stage].status === "failed");
+  const asCount = (value: number | boolean | undefined) =>
+    typeof value === "number" ? value : undefined;
+
+  return {
+    status: failed || errorMessage ? "failed" : "succeeded",
+    activitiesSynced: asCount(progress.activities.synced),
+    healthDaysSynced: asCount(progress.health.synced),
+    healthDaysExisting: progress.health.skippedExisting,
+    healthDaysSkipped: progress.health.skippedUnavailable,
+    fitnessSynced:
+      typeof progress.fitness.synced === "boolean" ? progress.fitness.synced : undefined,
+    stageResults: progress,
+    errorMessage,
+  };
+}
+
+async function failJob(jobId: number, message: string, progress?: SyncJobProgress) {
+  await prisma.syncJob.update({
+    where: { id: jobId },
+    data: {
+      status: "failed",
+      currentStage: null,
+      lockedAt: null,
+      finishedAt: new Date(),
+      errorMessage: message,
+      progressJson: progress ? (progress as Prisma.InputJsonValue) : undefined,
+    },
+  });
+}
+
+function createFitnessRunner(job: SyncJobRecord, context: SyncContext) {
+  return async (): Promise<SyncStageProgress> => {
+    const result = await syncUserRunningFitness(job.userId, context);
+    return {
+      status: result.success ? "succeeded" : "failed",
+      message: result.message,
+      synced: result.synced,
+    };
+  };
+}
+
+async function runSyncStages(
+  job: SyncJobRecord,
+  context: SyncContext,
+  progress: SyncJobProgress,
+): Promise<void> {
+  const endDate = formatDate(job.endDate);
+  // Incremental jobs pick their start from the watermarks when they run, not when queued,
+  // so a job that waited behind another one does not refetch what that one just stored.
+  const ranges =
+    job.kind === "incremental"
+      ? await resolveIncrementalSyncRanges(job.userId, endDate)
+      : {
+          activities: { startDate: formatDate(job.startDate), endDate },
+          health: { startDate: formatDate(job.startDate), endDate, refetchFrom: endDate },
+        };
+
+  const stageRunners: Record<SyncStage, () => Promise<SyncStageProgress>> = {
+    activities: async () => {
+      const result = await syncUserActivities(
+        job.userId,
+        ranges.activities.startDate,
+        ranges.activities.endDate,
+        context,
+      );
+      return {
+        status: result.success ? "succeeded" : "failed",
+        message: result.message,
+        synced: result.synced,
+      };
+    },
+    streams: async () => {
+      // Per-second streams only come from Garmin's activity details endpoint.
+      if (!context.garminClient) {
+        return { status: "succeeded", message: "No provider with activity streams.", synced: 0 };
+      }
+
+      const result = await syncActivityStreams(
+        job.userId,
+        parseDateOnly(ranges.activities.startDate),
+        parseDateOnly(ranges.activities.endDate),
+        context.garminClient,
+      );
+      return {
+        status: result.success ? "succeeded" : "failed",
+        message: result.message,
+        synced: result.fetched,
+      };
+    },
+    health: async () => {
+      const result = await syncDailyHealthData(
+        job.userId,
+        ranges.health.startDate,
+        ranges.health.endDate,
+        context,
+        {
+          refetchFrom: ranges.health.refetchFrom,
+          onProgress: async (completed, total) => {
+            progress.health = { status: "running", completed, total };
+            await saveProgress(job.id, progress, "health");
+          },
+        },
+      );
+      return {
+        status: result.success ? "succeeded" : "failed",
+        message: result.message,
+        synced: result.synced,
+        skippedExisting: result.skippedExisting,
+        skippedUnavailable: result.skippedUnavailable,
+      };
+    },
+    fitness: createFitnessRunner(job, context),
+  };
+
+  for (const stage of SYNC_STAGES) {
+    if (progress[stage].status === "succeeded") {
+      continue;
+    }
+
+    progress[stage] = { status: "running" };
+    await saveProgress(job.id, progress, stage);
+
+    try {
+      progress[stage] = await stageRunners[stage]();
+    } catch (error) {
+      progress[stage] = { status: "failed", message: getErrorMessage(error) };
+    }
+
+    await saveProgress(job.id, progress, stage);
+  }
+}
+
+function countOf(value: number | boolean | undefined): number {
+  return typeof value === "number" ? value : 0;
+}
+
+async function runBackfillStages(
+  job: SyncJobRecord,
+  context: SyncContext,
+  progress: SyncJobProgress,
+): Promise<void> {
+  const backfill: BackfillProgress = progress.backfill ?? {
+    monthsCompleted: 0,
+    emptyMonths: 0,
+    cursorDate: null,
+  };
+  progress.backfill = backfill;
+
+  let cursor = job.cursorDate ?? job.endDate;
+
+  if (progress.activities.status !== "succeeded" || progress.health.status !== "succeeded") {
+    progress.activities = { ...progress.activities, status: "running" };
+    progress.health = { ...progress.health, status: "running" };
+
+    while (
+      cursor.getTime() >= job.startDate.getTime() &&
+      backfill.emptyMonths < BACKFILL_EMPTY_MONTH_LIMIT
+    ) {
+      const monthStart =
+        startOfMonth(cursor).getTime() < job.startDate.getTime()
+          ? job.startDate
+          : startOfMonth(cursor);
+      const windowStart = formatDate(monthStart);
+      const windowEnd = formatDate(cursor);
+
+      await saveProgress(job.id, progress, "activities");
+      const activities = await syncUserActivities(job.userId, windowStart, windowEnd, context);
+      if (!activities.success) {
+        progress.activities = {
+          ...progress.activities,
+          status: "failed",
+          message: `${windowStart} to ${windowEnd}: ${activities.message}`,
+        };
+        await saveProgress(job.id, progress, "activities");
+        return;
+      }
+
+      progress.activities = {
+        ...progress.activities,
+        synced: countOf(progress.activities.synced) + activities.synced,
+      };
+
+      await saveProgress(job.id, progress, "health");
+      const health = await syncDailyHealthData(
+        job.userId,
+        windowStart,
+        windowEnd,
+        context,
+        {
+          onProgress: async (completed, total) => {
+            progress.health = { ...progress.health, completed, total };
+            await saveProgress(job.id, progress, "health");
+          },
+        },
+      );
+      if (!health.success) {
+        progress.health = {
+          ...progress.health,
+          status: "failed",
+          message: `${windowStart} to ${windowEnd}: ${health.message}`,
+        };
+        await saveProgress(job.id, progress, "health");
+        return;
+      }
+
+      progress.health = {
+        ...progress.health,
+        synced: countOf(progress.health.synced) + health.synced,
+        skippedExisting: (progress.health.skippedExisting ?? 0) + health.skippedExisting,
+        skippedUnavailable: (progress.health.skippedUnavailable ?? 0) + health.skippedUnavailable,
+      };
+
+      const isEmptyMonth =
+        activities.synced === 0 && health.synced === 0 && health.skippedExisting === 0;
+      backfill.emptyMonths = isEmptyMonth ? backfill.emptyMonths + 1 : 0;
+      backfill.monthsCompleted += 1;
+
+      cursor = addDays(monthStart, -1);
+      backfill.cursorDate = formatDate(cursor);
+
+      await prisma.syncJob.update({
+        where: { id: job.id },
+        data: {
+          cursorDate: cursor,
+          lockedAt: new Date(),
+          progressJson: progress as Prisma.InputJsonValue,
+        },
+      });
+    }
+
+    const reachedLabel = `Backfilled ${backfill.monthsCompleted} month(s).`;
+    progress.activities = {
+      ...progress.activities,
+      status: "succeeded",
+      message: `${reachedLabel} Synced ${countOf(progress.activities.synced)} activities.`,
+    };
+    progress.health = {
+      ...progress.health,
+      status: "succeeded",
+      message: `${reachedLabel} Synced health data for ${countOf(progress.health.synced)} day(s).`,
+    };
+    // Streams for years of history would take thousands of calls; they are fetched on demand instead.
+    progress.streams = {
+      status: "succeeded",
+      message: "Streams for backfilled activities are fetched when first viewed.",
+      synced: 0,
+    };
+    await saveProgress(job.id, progress, "fitness");
+  }
+
+  if (progress.fitness.status !== "succeeded") {
+    progress.fitness = { status: "running" };
+    await saveProgress(job.id, progress, "fitness");
+
+    try {
+      progress.fitness = await createFitnessRunner(job, context)();
+    } catch (error) {
+      progress.fitness = { status: "failed", message: getErrorMessage(error) };
+    }
+
+    await saveProgress(job.id, progress, "fitness");
+  }
+}
+
+export async function processSyncJob(jobId: number): Promise<void> {
+  const job = await prisma.syncJob.findUnique({ where: { id: jobId } });
+  if (!job) {
+    return;
+  }
+
+  const progress = parseProgress(job.progressJson);
+
+  if (job.attempts > MAX_JOB_ATTEMPTS) {
+    await failJob(jobId, "Sync job exceeded the maximum number of attempts.", progress);
+    return;
+  }
+
+  await failOrphanedSyncRuns(jobId);
+  const run = await startSyncRun({
+    userId: job.userId,
+    jobId,
+    kind: job.kind,
+    trigger: job.trigger,
+    startDate: job.startDate,
+    endDate: job.endDate,
+  });
+
+  // The run is closed on every path, including a throw, so none is left "running" in the history.
+  let summary = summarizeProgress(progress, "Sync job stopped unexpectedly.");
+  try {
+    summary = await runSyncJob(job, progress);
+  } catch (error) {
+    summary = summarizeProgress(progress, getErrorMessage(error));
+    throw error;
+  } finally {
+    await finishSyncRun(run, summary);
+  }
+}
+
+async function runSyncJob(
+  job: SyncJobRecord,
+  progress: SyncJobProgress,
+): Promise<SyncRunSummary> {
+  const jobId = job.id;
+  const contextResult = await createSyncContext(job.userId);
+  if (!contextResult.success) {
+    await failJob(jobId, contextResult.message, progress);
+    return summarizeProgress(progress, contextResult.message);
+  }
+
+  try {
+    if (job.kind === "backfill") {
+      await runBackfillStages(job, contextResult.context, progress);
+    } else {
+      await runSyncStages(job, contextResult.context, progress);
+    }
+  } catch (error) {
+    const errorMessage = getErrorMessage(error);
+    await failJob(jobId, errorMessage, progress);
+    return summarizeProgress(progress, errorMessage);
+  }
+
+  // Rebuilt even after a partial failure: whatever activities were saved should count. Load is
+  // derived data, so a failure here must not fail the sync itself; it is only recorded on the job
+  // and the run.
+  const derivedErrors: string[] = [];
+  try {
+    await recomputeTrainingLoad(job.userId);
+  } catch (error) {
+    derivedErrors.push(`Training load recompute failed: ${getErrorMessage(error)}`);
+  }
+
+  try {
+    await updateHeartRateProfile(job.userId);
+  } catch (error) {
+    derivedErrors.push(`Heart rate zone update failed: ${getErrorMessage(error)}`);
+  }
+
+  const failedStages = SYNC_STAGES.filter((stage) => progress[stage].status === "failed");
+  if (failedStages.length > 0) {
+    const errorMessage = [
+      ...failedStages.map((stage) => `${stage}: ${progress[stage].message ?? "failed"}`),
+      ...derivedErrors,
+    ].join(" ");
+
+    await failJob(jobId, errorMessage, progress);
+    return summarizeProgress(progress, errorMessage);
+  }
+
+  const derivedError = derivedErrors.length > 0 ? derivedErrors.join(" ") : null;
+  const finishedAt = new Date();
+  await prisma.$transaction([
+    prisma.syncJob.update({
+      where: { id: jobId },
+      data: {
+        status: "succeeded",
+        currentStage: null,
+        lockedAt: null,
+        finishedAt,
+        errorMessage: derivedError,
+        progressJson: progress as Prisma.InputJsonValue,
+      },
+    }),
+    prisma.user.update({
+      where: { id: job.userId },
+      data: { lastSyncAt: finishedAt },
+    }),
+  ]);
+  return { ...summarizeProgress(progress, null), errorMessage: derivedError };
+}
+
+export async function drainSyncJobs(): Promise<void> {
+  if (workerState.draining) {
+    return;
+  }
+
+  workerState.draining = true;
+  try {
+    for (;;) {
+      const jobId = await claimNextSyncJob();
+      if (jobId === null) {
+        break;
+      }
+
+      try {
+        await processSyncJob(jobId);
+      } catch (error) {
+        await failJob(jobId, getErrorMessage(error)).catch((failError: unknown) => {
+          logError(
+            "sync-worker",
+            `Sync job ${jobId} failed (${getErrorMessage(error)}) and could not be marked failed.`,
+            failError,
+          );
+        });
+      }
+    }
+  } catch (error) {
+    // There is no job row to record this on; the next poll retries.
+    logError("sync-worker", "Failed to claim sync jobs.", error);
+  } finally {
+    workerState.draining = false;
+  }
+}
+
+export function startSyncWorker(): void {
+  if (workerState.timer) {
+    return;
+  }
+
+  workerState.timer = setInterval(() => {
+    void drainSyncJobs();
+  }, WORKER_POLL_INTERVAL_MS);
+  void drainSyncJobs();
+}
+
+export function wakeSyncWorker(): void {
+  if (workerState.timer) {
+    void drainSyncJobs();
+  }
+}
@@ -1,37 +1,84 @@
+import type { Prisma } from "../../prisma/generated/prisma/client";
 import { prisma } from "@/lib/prisma";
 import {
-  GarminCapabilityError,
-  type GarminAdapter,
-  getGarminClientForUser,
-} from "@/server/garmin";
+  createDataProvidersForUser,
+  type FitnessDataProvider,
+  isGarminDataProvider,
+  type ProviderHealthDay,
+  type ProviderRacePredictions,
+} from "@/server/data-providers";
+import { type GarminAdapter, getGarminClientForUser } from "@/server/garmin";
+import { mapActivity, mapTrainingVolume } from "@/server/garmin-field-mapper";
+import { resolvePaceVdot } from "@/server/race-results";
+import { applyPaceOverrides, getUserSettings } from "@/server/user-settings";
 import {
-  mapActivity,
-  mapDailyHealthReadings,
-  mapRacePredictions,
-  mapRunningVolume,
-} from "@/server/garmin-field-mapper";
-import { calculateTrainingPaces } from "@/server/vdot";
+  calculateEquivalentRaceTimes,
+  calculateTrainingPaces,
+  calculateVdotFromRaceTimes,
+} from "@/server/vdot";
 
 export type SyncContext = {
-  client: GarminAdapter;
+  // Linked providers, highest priority first.
+  providers: FitnessDataProvider[];
+  garminClient: GarminAdapter | null;
 };
 
 type SyncContextResult =
   | { success: true; context: SyncContext }
   | { success: false; message: string; status?: number };
 
-type SyncCountResult = {
+export type SyncCountResult = {
   success: boolean;
   synced: number;
   message: string;
 };
 
-type SyncFitnessResult = {
+export type SyncActivitiesResult = SyncCountResult & {
+  // Activities another provider with higher priority already reported.
+  skippedOverlap: number;
+};
+
+export type SyncHealthResult = SyncCountResult & {
+  skippedExisting: number;
+  skippedUnavailable: number;
+};
+
+export type SyncFitnessResult = {
   success: boolean;
   synced: boolean;
   message: string;
 };
 
+export type SyncProgressCallback = (completed: number, total: number) => Promise<void> | void;
+
+export type SyncHealthOptions = {
+  onProgress?: SyncProgressCallback;
+  // Days on or after this date are fetched again even when already stored. Defaults to endDate.
+  refetchFrom?: string;
+};
+
+// Garmin's local wall-clock start and the true UTC start; either may be unknown.
+export type ActivityStart = {
+  activityDate: Date | null;
+  startTimeGmt: Date | null;
+};
+
+export type IncrementalSyncRanges = {
+  activities: { startDate: string; endDate: string };
+  health: { startDate: string; endDate: string; refetchFrom: string };
+};
+
+const DEFAULT_SYNC_WINDOW_DAYS = 30;
+const DEFAULT_SYNC_OVERLAP_DAYS = 3;
+
+// Sources of activities uploaded as files rather than synced from a provider.
+export const FILE_IMPORT_SOURCES = ["fit", "gpx", "tcx"] as const;
+
+// Devices disagree by a few seconds on start time and by a few percent on distance.
+const DUPLICATE_START_TOLERANCE_MS = 2 * 60 * 1000;
+const DUPLICATE_DISTANCE_TOLERANCE_RATIO = 0.03;
+const DUPLICATE_DISTANCE_TOLERANCE_MIN_METERS = 100;
+
 function asObject(value: unknown): Record<string, unknown> | null {
   if (typeof value === "object" && value !== null && !Array.isArray(value)) {
     return value as Record<string, unknown>;
@@ -74,7 +121,13 @@ function addDays(base: Date, offsetDays: number): Date {
   return copy;
 }
 
-function calculatePaceSecondsPerKm(
+function getSyncOverlapDays(): number {
+  const raw = process.env.SYNC_OVERLAP_DAYS?.trim();
+  const parsed = raw ? Number(raw) : Number.NaN;
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : DEFAULT_SYNC_OVERLAP_DAYS;
+}
+
+export function calculatePaceSecondsPerKm(
   activityRaw: unknown,
   mappedDistance?: number,
   mappedDuration?: number,
@@ -98,51 +151,34 @@ function calculatePaceSecondsPerKm(
   return Math.round(mappedDuration / distanceKm);
 }
 
-function isRunningActivity(raw: unknown, mappedType?: string | null): boolean {
-  if (mappedType && mappedType.toLowerCase().includes("running")) {
-    return true;
-  }
-
-  const rawObject = asObject(raw);
-  if (!rawObject) {
-    return false;
-  }
-
-  const activityTypeRaw = rawObject.activityType;
-  const activityTypeObject = asObject(activityTypeRaw);
-  const typeKey =
-    (activityTypeObject && typeof activityTypeObject.typeKey === "string"
-      ? activityTypeObject.typeKey
-      : undefined) ??
-    (typeof activityTypeRaw === "string" ? activityTypeRaw : undefined);
-
-  return Boolean(typeKey && typeKey.toLowerCase().includes("running"));
-}
-
 function getErrorMessage(error: unknown): string {
   return error instanceof Error ? error.message : String(error);
 }
 
-function isRecoverableGarminDataError(error: unknown): boolean {
-  if (error instanceof GarminCapabilityError) {
-    return true;
+async function resolveProviders(
+  userId: number,
+  context?: SyncContext,
+): Promise<
+  { success: true; providers: FitnessDataProvider[] } | { success: false; message: string }
+> {
+  if (context) {
+    return { success: true, providers: context.providers };
+  }
+
+  const providersResult = await createDataProvidersForUser(userId);
+  if (!providersResult.success) {
+    return { success: false, message: providersResult.message };
   }
 
-  const message = getErrorMessage(error).toLowerCase();
-  return (
-    message.includes("404") ||
-    message.includes("not found") ||
-    message.includes("notfoundexception") ||
-    message.includes("missing garmin capability")
-  );
+  return { success: true, providers: providersResult.providers };
 }
 
 async function resolveGarminClient(
   userId: number,
   context?: SyncContext,
 ): Promise<{ success: true; client: GarminAdapter } | { success: false; message: string }> {
-  if (context?.client) {
-    return { success: true, client: context.client };
+  if (context?.garminClient) {
+    return { success: true, client: context.garminClient };
   }
 
   const clientResult = await getGarminClientForUser(userId);
@@ -160,145 +196,339 @@ async function resolveGarminClient(
 }
 
 export async function createSyncContext(userId: number): Promise<SyncContextResult> {
-  const clientResult = await getGarminClientForUser(userId);
-  if (!clientResult.success) {
+  const providersResult = await createDataProvidersForUser(userId);
+  if (!providersResult.success) {
     return {
       success: false,
-      message: clientResult.message,
-      status: clientResult.status,
+      message: providersResult.message,
+      status: providersResult.status,
     };
   }
 
+  const garmin = providersResult.providers.find(isGarminDataProvider);
+
   return {
     success: true,
-    context: { client: clientResult.client },
+    context: {
+      providers: providersResult.providers,
+      garminClient: garmin?.client ?? null,
+    },
+  };
+}
+
+function startWindow(start: Date): { gte: Date; lte: Date } {
+  return {
+    gte: new Date(start.getTime() - DUPLICATE_START_TOLERANCE_MS),
+    lte: new Date(start.getTime() + DUPLICATE_START_TOLERANCE_MS),
+  };
+}
+
+// Matches on the UTC start when both sides have one. Local start times are only compared for rows
+// stored before the UTC start was kept, since they differ from UTC by the athlete's offset.
+export async function findDuplicateActivity(
+  userId: number,
+  start: ActivityStart,
+  distanceMeters: number | null,
+  options: { sources?: string[] } = {},
+): Promise<{ id: number; source: string } | null> {
+  const { activityDate, startTimeGmt } = start;
+  const startMatches: Prisma.ActivityWhereInput[] = [];
+  if (startTimeGmt) {
+    startMatches.push({ startTimeGmt: startWindow(startTimeGmt) });
+  }
+  if (activityDate) {
+    startMatches.push(
+      startTimeGmt
+        ? { startTimeGmt: null, activityDate: startWindow(activityDate) }
+        : { activityDate: startWindow(activityDate) },
+    );
+  }
+  if (startMatches.length === 0) {
+    return null;
+  }
+
+  const candidates = await prisma.activity.findMany({
+    where: {
+      userId,
+      source: options.sources ? { in: options.sources } : undefined,
+      OR: startMatches,
+    },
+    select: { id: true, source: true, distanceMeters: true },
+  });
+
+  const duplicate = candidates.find((candidate) => {
+    if (distanceMeters === null || candidate.distanceMeters === null) {
+      return true;
+    }
+
+    const tolerance = Math.max(
+      DUPLICATE_DISTANCE_TOLERANCE_MIN_METERS,
+      distanceMeters * DUPLICATE_DISTANCE_TOLERANCE_RATIO,
+    );
+    return Math.abs(candidate.distanceMeters - distanceMeters) <= tolerance;
+  });
+
+  return duplicate ? { id: duplicate.id, source: duplicate.source } : null;
+}
+
+async function advanceActivityWatermark(userId: number): Promise<void> {
+  // Imported files must not move the Garmin watermark, or the next sync would skip Garmin activities.
+  const newest = await prisma.activity.findFirst({
+    where: { userId, source: "garmin", activityDate: { not: null } },
+    orderBy: [{ activityDate: "desc" }, { id: "desc" }],
+    select: { garminActivityId: true, activityDate: true },
+  });
+
+  if (!newest) {
+    return;
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      activityWatermarkId: newest.garminActivityId,
+      activityWatermarkDate: newest.activityDate,
+    },
+  });
+}
+
+async function advanceHealthWatermark(userId: number): Promise<void> {
+  // Today's reading is still filling in on Garmin's side, so only finished days count.
+  const today = parseDateOnly(formatDate(new Date()));
+  const newest = await prisma.dailyHealthReading.findFirst({
+    where: { userId, readingDate: { lt: today } },
+    orderBy: { readingDate: "desc" },
+    select: { readingDate: true },
+  });
+
+  if (!newest) {
+    return;
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { healthWatermarkDate: newest.readingDate },
+  });
+}
+
+export async function resolveIncrementalSyncRanges(
+  userId: number,
+  endDate: string,
+): Promise<IncrementalSyncRanges> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { activityWatermarkDate: true, healthWatermarkDate: true },
+  });
+
+  const end = parseDateOnly(endDate);
+  const overlapDays = getSyncOverlapDays();
+  const fallbackStart = addDays(end, -DEFAULT_SYNC_WINDOW_DAYS);
+  const clampToEnd = (date: Date) => (date.getTime() > end.getTime() ? end : date);
+
+  const activityStart = user?.activityWatermarkDate
+    ? clampToEnd(addDays(parseDateOnly(formatDate(user.activityWatermarkDate)), -overlapDays))
+    : fallbackStart;
+  const healthStart = user?.healthWatermarkDate
+    ? clampToEnd(addDays(user.healthWatermarkDate, 1 - overlapDays))
+    : fallbackStart;
+
+  return {
+    activities: { startDate: formatDate(activityStart), endDate },
+    health: {
+      startDate: formatDate(healthStart),
+      endDate,
+      // Without a watermark this is a first sync: keep stored days and only refresh the last one.
+      refetchFrom: user?.healthWatermarkDate ? formatDate(healthStart) : endDate,
+    },
   };
 }
 
+async function upsertProviderActivity(
+  userId: number,
+  source: string,
+  externalId: string,
+  summary: unknown,
+  mapped: ReturnType<typeof mapActivity>,
+): Promise<void> {
+  // Pace is a running metric; other sports keep distance and time only.
+  const averagePaceSecondsPerKm =
+    mapped.sportCategory === "running"
+      ? calculatePaceSecondsPerKm(
+          summary,
+          mapped.distanceMeters ?? undefined,
+          mapped.durationSeconds ?? undefined,
+        )
+      : undefined;
+
+  const {
+    activityDate,
+    startTimeGmt,
+    activityName,
+    activityType,
+    sportCategory,
+    activityDescription,
+    distanceMeters,
+    durationSeconds,
+    averageHrBpm,
+    maxHrBpm,
+    hrTimeInZone1,
+    hrTimeInZone2,
+    hrTimeInZone3,
+    hrTimeInZone4,
+    hrTimeInZone5,
+    aerobicTrainingEffect,
+    anaerobicTrainingEffect,
+    trainingEffectLabel,
+    elevationGain,
+    elevationLoss,
+    locationName,
+    splitSummariesJson,
+  } = mapped;
+
+  await prisma.activity.upsert({
+    where: { userId_source_externalId: { userId, source, externalId } },
+    create: {
+      userId,
+      source,
+      externalId,
+      // Only Garmin ids are Garmin ids; other providers reuse the summary shape, not the key.
+      garminActivityId: source === "garmin" ? mapped.garminActivityId ?? null : null,
+      activityDate: activityDate ?? null,
+      startTimeGmt: startTimeGmt ?? null,
+      activityName: activityName ?? null,
+      activityType: activityType ?? null,
+      sportCategory: sportCategory ?? null,
+      activityDescription: activityDescription ?? null,
+      distanceMeters: distanceMeters ?? null,
+      durationSeconds: durationSeconds ?? null,
+      averagePaceSecondsPerKm: averagePaceSecondsPerKm ?? null,
+      averageHrBpm: averageHrBpm ?? null,
+      maxHrBpm: maxHrBpm ?? null,
+      hrTimeInZone1: hrTimeInZone1 ?? null,
+      hrTimeInZone2: hrTimeInZone2 ?? null,
+      hrTimeInZone3: hrTimeInZone3 ?? null,
+      hrTimeInZone4: hrTimeInZone4 ?? null,
+      hrTimeInZone5: hrTimeInZone5 ?? null,
+      aerobicTrainingEffect: aerobicTrainingEffect ?? null,
+      anaerobicTrainingEffect: anaerobicTrainingEffect ?? null,
+      trainingEffectLabel: trainingEffectLabel ?? null,
+      elevationGain: elevationGain ?? null,
+      elevationLoss: elevationLoss ?? null,
+      locationName: locationName ?? null,
+      splitSummariesJson: splitSummariesJson ?? undefined,
+    },
+    update: {
+      activityDate: activityDate ?? null,
+      startTimeGmt: startTimeGmt ?? null,
+      activityName: activityName ?? null,
+      activityType: activityType ?? null,
+      sportCategory: sportCategory ?? null,
+      activityDescription: activityDescription ?? null,
+      distanceMeters: distanceMeters ?? null,
+      durationSeconds: durationSeconds ?? null,
+      averagePaceSecondsPerKm: averagePaceSecondsPerKm ?? null,
+      averageHrBpm: averageHrBpm ?? null,
+      maxHrBpm: maxHrBpm ?? null,
+      hrTimeInZone1: hrTimeInZone1 ?? null,
+      hrTimeInZone2: hrTimeInZone2 ?? null,
+      hrTimeInZone3: hrTimeInZone3 ?? null,
+      hrTimeInZone4: hrTimeInZone4 ?? null,
+      hrTimeInZone5: hrTimeInZone5 ?? null,
+      aerobicTrainingEffect: aerobicTrainingEffect ?? null,
+      anaerobicTrainingEffect: anaerobicTrainingEffect ?? null,
+      trainingEffectLabel: trainingEffectLabel ?? null,
+      elevationGain: elevationGain ?? null,
+      elevationLoss: elevationLoss ?? null,
+      locationName: locationName ?? null,
+      splitSummariesJson: splitSummariesJson ?? undefined,
+    },
+  });
+}
+
 export async function syncUserActivities(
   userId: number,
   startDate: string,
   endDate: string,
   context?: SyncContext,
-): Promise<SyncCountResult> {
-  const clientResult = await resolveGarminClient(userId, context);
-  if (!clientResult.success) {
+): Promise<SyncActivitiesResult> {
+  const providersResult = await resolveProviders(userId, context);
+  if (!providersResult.success) {
     return {
       success: false,
       synced: 0,
-      message: clientResult.message,
+      skippedOverlap: 0,
+      message: providersResult.message,
     };
   }
 
+  const providerIds: string[] = providersResult.providers.map((provider) => provider.id);
+
   try {
-    const rawActivities = await clientResult.client.getActivities(startDate, endDate);
     let synced = 0;
+    let skippedOverlap = 0;
 
-    for (const rawActivity of rawActivities) {
-      const mapped = mapActivity(rawActivity);
+    for (const [rank, provider] of providersResult.providers.entries()) {
+      const providerActivities = await provider.getActivities(startDate, endDate);
 
-      if (!isRunningActivity(rawActivity, mapped.activityType)) {
-        continue;
-      }
+      for (const { externalId, summary } of providerActivities) {
+        const mapped = mapActivity(summary);
+        const existing = await prisma.activity.findUnique({
+          where: { userId_source_externalId: { userId, source: provider.id, externalId } },
+          select: { id: true },
+        });
 
-      if (!mapped.garminActivityId) {
-        continue;
-      }
+        // Providers run in priority order, so an overlapping activity from a provider ranked
+        // higher is already stored; one from a provider ranked lower is replaced. A file import of
+        // the same activity is replaced too: the synced copy carries more detail and keeps being
+        // updated, and keeping both would count the session twice in training load and volume.
+        if (!existing && (mapped.activityDate || mapped.startTimeGmt)) {
+          const overlap = await findDuplicateActivity(
+            userId,
+            {
+              activityDate: mapped.activityDate ? new Date(mapped.activityDate) : null,
+              startTimeGmt: mapped.startTimeGmt ? new Date(mapped.startTimeGmt) : null,
+            },
+            mapped.distanceMeters ?? null,
+            {
+              sources: [
+                ...providerIds.filter((id) => id !== provider.id),
+                ...FILE_IMPORT_SOURCES,
+              ],
+            },
+          );
 
-      const averagePaceSecondsPerKm = calculatePaceSecondsPerKm(
-        rawActivity,
-        mapped.distanceMeters ?? undefined,
-        mapped.durationSeconds ?? undefined,
-      );
+          const overlapRank = overlap ? providerIds.indexOf(overlap.source) : -1;
+          if (overlap && overlapRank !== -1 && overlapRank < rank) {
+            skippedOverlap += 1;
+            continue;
+          }
 
-      const {
-        garminActivityId,
-        activityDate,
-        activityName,
-        activityType,
-        activityDescription,
-        distanceMeters,
-        durationSeconds,
-        averageHrBpm,
-        maxHrBpm,
-        hrTimeInZone1,
-        hrTimeInZone2,
-        hrTimeInZone3,
-        hrTimeInZone4,
-        hrTimeInZone5,
-        aerobicTrainingEffect,
-        anaerobicTrainingEffect,
-        trainingEffectLabel,
-        elevationGain,
-        elevationLoss,
-        locationName,
-        splitSummariesJson,
-      } = mapped;
-
-      await prisma.activity.upsert({
-        where: { garminActivityId },
-        create: {
-          userId,
-          garminActivityId,
-          activityDate: activityDate ?? null,
-          activityName: activityName ?? null,
-          activityType: activityType ?? null,
-          activityDescription: activityDescription ?? null,
-          distanceMeters: distanceMeters ?? null,
-          durationSeconds: durationSeconds ?? null,
-          averagePaceSecondsPerKm: averagePaceSecondsPerKm ?? null,
-          averageHrBpm: averageHrBpm ?? null,
-          maxHrBpm: maxHrBpm ?? null,
-          hrTimeInZone1: hrTimeInZone1 ?? null,
-          hrTimeInZone2: hrTimeInZone2 ?? null,
-          hrTimeInZone3: hrTimeInZone3 ?? null,
-          hrTimeInZone4: hrTimeInZone4 ?? null,
-          hrTimeInZone5: hrTimeInZone5 ?? null,
-          aerobicTrainingEffect: aerobicTrainingEffect ?? null,
-          anaerobicTrainingEffect: anaerobicTrainingEffect ?? null,
-          trainingEffectLabel: trainingEffectLabel ?? null,
-          elevationGain: elevationGain ?? null,
-          elevationLoss: elevationLoss ?? null,
-          locationName: locationName ?? null,
-          splitSummariesJson: splitSummariesJson ?? undefined,
-        },
-        update: {
-          activityDate: activityDate ?? null,
-          activityName: activityName ?? null,
-          activityType: activityType ?? null,
-          activityDescription: activityDescription ?? null,
-          distanceMeters: distanceMeters ?? null,
-          durationSeconds: durationSeconds ?? null,
-          averagePaceSecondsPerKm: averagePaceSecondsPerKm ?? null,
-          averageHrBpm: averageHrBpm ?? null,
-          maxHrBpm: maxHrBpm ?? null,
-          hrTimeInZone1: hrTimeInZone1 ?? null,
-          hrTimeInZone2: hrTimeInZone2 ?? null,
-          hrTimeInZone3: hrTimeInZone3 ?? null,
-          hrTimeInZone4: hrTimeInZone4 ?? null,
-          hrTimeInZone5: hrTimeInZone5 ?? null,
-          aerobicTrainingEffect: aerobicTrainingEffect ?? null,
-          anaerobicTrainingEffect: anaerobicTrainingEffect ?? null,
-          trainingEffectLabel: trainingEffectLabel ?? null,
-          elevationGain: elevationGain ?? null,
-          elevationLoss: elevationLoss ?? null,
-          locationName: locationName ?? null,
-          splitSummariesJson: splitSummariesJson ?? undefined,
-        },
-      });
+          if (overlap) {
+            await prisma.activity.delete({ where: { id: overlap.id } });
+          }
+        }
 
-      synced += 1;
+        await upsertProviderActivity(userId, provider.id, externalId, summary, mapped);
+        synced += 1;
+      }
     }
 
+    await advanceActivityWatermark(userId);
+
     return {
       success: true,
       synced,
-      message: `Synced ${synced} activities.`,
+      skippedOverlap,
+      message:
+        skippedOverlap > 0
+          ? `Synced ${synced} activities. Skipped ${skippedOverlap} already stored from a higher-priority provider.`
+          : `Synced ${synced} activities.`,
     };
   } catch (error) {
     return {
       success: false,
       synced: 0,
+      skippedOverlap: 0,
       message: error instanceof Error ? error.message : "Activity sync failed.",
     };
   }
@@ -309,16 +539,23 @@ export async function syncDailyHealthData(
   startDate: string,
   endDate: string,
   context?: SyncContext,
-): Promise<SyncCountResult> {
-  const clientResult = await resolveGarminClient(userId, context);
-  if (!clientResult.success) {
+  options: SyncHealthOptions = {},
+): Promise<SyncHealthResult> {
+  const { onProgress, refetchFrom = endDate } = options;
+  const providersResult = await resolveProviders(userId, context);
+  if (!providersResult.success) {
     return {
       success: false,
       synced: 0,
-      message: clientResult.message,
+      skippedExisting: 0,
+      skippedUnavailable: 0,
+      message: providersResult.message,
     };
   }
 
+  let skippedExisting = 0;
+  let skippedUnavailable = 0;
+
   try {
     const start = parseDateOnly(startDate);
     const end = parseDateOnly(endDate);
@@ -327,21 +564,26 @@ export async function syncDailyHealthData(
       return {
         success: false,
         synced: 0,
+        skippedExisting,
+        skippedUnavailable,
         message: "startDate must be before or equal to endDate.",
       };
     }
 
     let synced = 0;
-    let skippedUnavailable = 0;
     const totalDays = Math.floor((end.getTime() - start.getTime()) / 86400000);
 
     for (let offset = 0; offset <= totalDays; offset += 1) {
+      if (onProgress) {
+        await onProgress(offset, totalDays + 1);
+      }
+
       const current = addDays(start, offset);
       const currentDate = formatDate(current);
-      const isEndDate = currentDate === endDate;
+      const shouldRefetch = currentDate >= refetchFrom;
       const readingDate = parseDateOnly(currentDate);
 
-      if (!isEndDate) {
+      if (!shouldRefetch) {
         const existing = await prisma.dailyHealthReading.findUnique({
           where: {
             userId_readingDate: {
@@ -353,49 +595,35 @@ export async function syncDailyHealthData(
         });
 
         if (existing) {
+          skippedExisting += 1;
           continue;
         }
       }
 
-      const [sleepResult, hrvResult, restingHeartRateResult] = await Promise.allSettled([
-        clientResult.client.getSleepData(currentDate),
-        clientResult.client.getHrvData(currentDate),
-        clientResult.client.getRestingHeartRate(currentDate),
-      ]);
+      // One provider's reading per day: the highest-priority provider that has any metrics.
+      let chosen: { source: string; mapped: ProviderHealthDay["readings"] } | null = null;
+      let partial = false;
+
+      for (const provider of providersResult.providers) {
+        const day = await provider.getDailyHealth(currentDate);
+        partial = partial || day.partial;
 
-      for (const result of [sleepResult, hrvResult, restingHeartRateResult]) {
-        if (result.status === "rejected" && !isRecoverableGarminDataError(result.reason)) {
-          throw result.reason;
+        if (Object.keys(day.readings).some((key) => key !== "readingDate")) {
+          chosen = { source: provider.id, mapped: day.readings };
+          break;
         }
       }
 
-      const sleep = sleepResult.status === "fulfilled" ? sleepResult.value : undefined;
-      const hrv = hrvResult.status === "fulfilled" ? hrvResult.value : undefined;
-      const restingHeartRate =
-        restingHeartRateResult.status === "fulfilled"
-          ? restingHeartRateResult.value
-          : undefined;
-
-      if (
-        sleepResult.status === "rejected" ||
-        hrvResult.status === "rejected" ||
-        restingHeartRateResult.status === "rejected"
-      ) {
+      if (partial) {
         skippedUnavailable += 1;
       }
 
-      const mapped = mapDailyHealthReadings({
-        date: currentDate,
-        sleep,
-        hrv,
-        restingHeartRate,
-      });
-
-      const hasMetrics = Object.keys(mapped).some((key) => key !== "readingDate");
-      if (!hasMetrics) {
+      if (!chosen) {
         continue;
       }
 
+      const { source, mapped } = chosen;
+
       await prisma.dailyHealthReading.upsert({
         where: {
           userId_readingDate: {
@@ -417,6 +645,7 @@ export async function syncDailyHealthData(
           restingHr7dayAvg: mapped.restingHr7dayAvg ?? null,
           bodyBatteryStart: mapped.bodyBatteryStart ?? null,
           bodyBatteryEnd: mapped.bodyBatteryEnd ?? null,
+          source,
           dataSyncedAt: new Date(),
         },
         update: {
@@ -431,6 +660,7 @@ export async function syncDailyHealthData(
           restingHr7dayAvg: mapped.restingHr7dayAvg ?? null,
           bodyBatteryStart: mapped.bodyBatteryStart ?? null,
           bodyBatteryEnd: mapped.bodyBatteryEnd ?? null,
+          source,
           dataSyncedAt: new Date(),
         },
       });
@@ -438,18 +668,24 @@ export async function syncDailyHealthData(
       synced += 1;
     }
 
+    await advanceHealthWatermark(userId);
+
     return {
       success: true,
       synced,
+      skippedExisting,
+      skippedUnavailable,
       message:
         skippedUnavailable > 0
-          ? `Synced health data for ${synced} day(s). Skipped ${skippedUnavailable} day(s) with unavailable Garmin endpoints.`
+          ? `Synced health data for ${synced} day(s). Skipped ${skippedUnavailable} day(s) with unavailable provider endpoints.`
           : `Synced health data for ${synced} day(s).`,
     };
   } catch (error) {
     return {
       success: false,
       synced: 0,
+      skippedExisting,
+      skippedUnavailable,
       message: getErrorMessage(error) || "Health sync failed.",
     };
   }
@@ -459,110 +695,148 @@ export async function syncUserRunningFitness(
   userId: number,
   context?: SyncContext,
 ): Promise<SyncFitnessResult> {
-  const clientResult = await resolveGarminClient(userId, context);
-  if (!clientResult.success) {
+  const providersResult = await resolveProviders(userId, context);
+  if (!providersResult.success) {
     return {
       success: false,
       synced: false,
-      message: clientResult.message,
+      message: providersResult.message,
     };
   }
 
   try {
-    let predictionsRaw: unknown;
-    try {
-      predictionsRaw = await clientResult.client.getRacePredictions();
-    } catch (error) {
-      if (isRecoverableGarminDataError(error)) {
-        return {
-          success: true,
-          synced: false,
-          message:
-            "Running fitness data is unavailable from Garmin for this account.",
-        };
+    // The highest-priority provider with a usable race prediction supplies the whole fitness
+    // profile.
+    let source: FitnessDataProvider | null = null;
+    let mappedPredictions: ProviderRacePredictions = {};
+    let vdot: number | null = null;
+    let predictionsFound = false;
+
+    for (const provider of providersResult.providers) {
+      const predictions = await provider.getRacePredictions();
+      predictionsFound = predictionsFound || predictions !== null;
+
+      vdot = predictions ? calculateVdotFromRaceTimes(predictions) : null;
+      if (predictions && vdot !== null) {
+        source = provider;
+        mappedPredictions = predictions;
+        break;
       }
-
-      throw error;
-    }
-
-    const predictions = Array.isArray(predictionsRaw)
-      ? asObject(predictionsRaw[0])
-      : asObject(predictionsRaw);
-
-    if (!predictions) {
-      return {
-        success: true,
-        synced: false,
-        message: "No race prediction data returned by Garmin.",
-      };
     }
 
-    const mappedPredictions = mapRacePredictions(predictions);
-    const predicted10kSeconds = mappedPredictions.predicted10kSeconds;
-
-    if (!predicted10kSeconds) {
+    if (!source || vdot === null) {
       return {
         success: true,
         synced: false,
-        message: "Race predictions are missing 10K time.",
+        message: predictionsFound
+          ? "Race predictions have no usable race times."
+          : "Running fitness data is unavailable from the linked providers for this account.",
       };
     }
 
-    const paces = calculateTrainingPaces(predicted10kSeconds);
+    // Distances the provider did not predict are filled in from the same VDOT.
+    const equivalentTimes = calculateEquivalentRaceTimes(vdot);
+    const raceTimes = {
+      predicted5kSeconds:
+        mappedPredictions.predicted5kSeconds ?? equivalentTimes.predicted5kSeconds,
+      predicted10kSeconds:
+        mappedPredictions.predicted10kSeconds ?? equivalentTimes.predicted10kSeconds,
+      predictedHalfSeconds:
+        mappedPredictions.predictedHalfSeconds ?? equivalentTimes.predictedHalfSeconds,
+      predictedMarathonSeconds:
+        mappedPredictions.predictedMarathonSeconds ?? equivalentTimes.predictedMarathonSeconds,
+    };
 
-    let volumeMetrics: ReturnType<typeof mapRunningVolume> = {};
+    // racePredictionsLastUpdate is the day the predictions last moved, not the last sync, so a
+    // race logged since then keeps driving paces until the provider's numbers actually change.
+    const stored = await prisma.userRunningFitness.findUnique({
+      where: { userId },
+      select: {
+        predicted5kSeconds: true,
+        predicted10kSeconds: true,
+        predictedHalfSeconds: true,
+        predictedMarathonSeconds: true,
+        racePredictionsLastUpdate: true,
+      },
+    });
+    const predictionsUnchanged =
+      stored !== null &&
+      (Object.keys(raceTimes) as Array<keyof typeof raceTimes>).every(
+        (field) => stored[field] === raceTimes[field],
+      );
+    const predictionsUpdatedAt =
+      predictionsUnchanged && stored.racePredictionsLastUpdate
+        ? stored.racePredictionsLastUpdate
+        : parseDateOnly(formatDate(new Date()));
+
+    // A race run since the predictions last moved outranks them for paces.
+    const paceVdot = (await resolvePaceVdot(userId, {
+      vdot,
+      updatedAt: predictionsUpdatedAt,
+    })) ?? { vdot, source: "predictions" };
+    // Paces a coach pinned in settings survive every sync.
+    const paces = applyPaceOverrides(
+      calculateTrainingPaces(paceVdot.vdot),
+      await getUserSettings(userId),
+    );
+
+    let volumeMetrics: ReturnType<typeof mapTrainingVolume> = {};
     try {
       const lookbackEnd = new Date();
       const lookbackStart = addDays(lookbackEnd, -28);
-      const activities = await clientResult.client.getActivities(
+      const activities = await source.getActivities(
         formatDate(lookbackStart),
         formatDate(lookbackEnd),
       );
-      volumeMetrics = mapRunningVolume(activities);
+      volumeMetrics = mapTrainingVolume(activities.map((activity) => activity.summary));
     } catch {
       volumeMetrics = {};
     }
 
-    const todayDate = parseDateOnly(formatDate(new Date()));
-
     await prisma.userRunningFitness.upsert({
       where: { userId },
       create: {
         userId,
-        predicted5kSeconds: mappedPredictions.predicted5kSeconds ?? null,
-        predicted10kSeconds: mappedPredictions.predicted10kSeconds ?? null,
-        predictedHalfSeconds: mappedPredictions.predictedHalfSeconds ?? null,
-        predictedMarathonSeconds: mappedPredictions.predictedMarathonSeconds ?? null,
-        racePredictionsLastUpdate: todayDate,
+        ...raceTimes,
+        racePredictionsLastUpdate: predictionsUpdatedAt,
+        vo2Max: Math.round(paceVdot.vdot),
+        paceVdot: paceVdot.vdot,
+        vdotSource: paceVdot.source,
         easyPaceLow: paces.easyPaceLow,
         easyPaceHigh: paces.easyPaceHigh,
         tempoPace: paces.tempoPace,
         thresholdPace: paces.thresholdPace,
         intervalPace: paces.intervalPace,
         repetitionPace: paces.repetitionPace,
+        longRunPace: paces.longRunPace,
         weeklyVolumeAvgKm: volumeMetrics.weeklyVolumeAvgKm ?? null,
         longestRunKm: volumeMetrics.longestRunKm ?? null,
         runningDistanceAvgKm: volumeMetrics.runningDistanceAvgKm ?? null,
+        weeklyTrainingMinutesAvg: volumeMetrics.weeklyTrainingMinutesAvg ?? null,
+        weeklyCrossTrainingMinutesAvg: volumeMetrics.weeklyCrossTrainingMinutesAvg ?? null,
         lastUpdated: new Date(),
-        dataSource: "garmin",
+        dataSource: source.id,
       },
       update: {
-        predicted5kSeconds: mappedPredictions.predicted5kSeconds ?? null,
-        predicted10kSeconds: mappedPredictions.predicted10kSeconds ?? null,
-        predictedHalfSeconds: mappedPredictions.predictedHalfSeconds ?? null,
-        predictedMarathonSeconds: mappedPredictions.predictedMarathonSeconds ?? null,
-        racePredictionsLastUpdate: todayDate,
+        ...raceTimes,
+        racePredictionsLastUpdate: predictionsUpdatedAt,
+        vo2Max: Math.round(paceVdot.vdot),
+        paceVdot: paceVdot.vdot,
+        vdotSource: paceVdot.source,
         easyPaceLow: paces.easyPaceLow,
         easyPaceHigh: paces.easyPaceHigh,
         tempoPace: paces.tempoPace,
         thresholdPace: paces.thresholdPace,
         intervalPace: paces.intervalPace,
         repetitionPace: paces.repetitionPace,
+        longRunPace: paces.longRunPace,
         weeklyVolumeAvgKm: volumeMetrics.weeklyVolumeAvgKm ?? null,
         longestRunKm: volumeMetrics.longestRunKm ?? null,
         runningDistanceAvgKm: volumeMetrics.runningDistanceAvgKm ?? null,
+        weeklyTrainingMinutesAvg: volumeMetrics.weeklyTrainingMinutesAvg ?? null,
+        weeklyCrossTrainingMinutesAvg: volumeMetrics.weeklyCrossTrainingMinutesAvg ?? null,
         lastUpdated: new Date(),
-        dataSource: "garmin",
+        dataSource: source.id,
       },
     });
 
@@ -610,3 +884,63 @@ export async function uploadWorkoutToGarmin(
     };
   }
 }
+
+export async function scheduleWorkoutOnGarmin(
+  userId: number,
+  garminWorkoutId: string,
+  date: string,
+  context?: SyncContext,
+): Promise<{ success: boolean; message: string; scheduleId?: number }> {
+  const clientResult = await resolveGarminClient(userId, context);
+  if (!clientResult.success) {
+    return {
+      success: false,
+      message: clientResult.message,
+    };
+  }
+
+  try {
+    const response = await clientResult.client.scheduleWorkout(garminWorkoutId, date);
+    const responseObj = asObject(response);
+    const scheduleId = responseObj ? asNumber(responseObj.workoutScheduleId) : undefined;
+
+    return {
+      success: true,
+      message: `Workout scheduled on Garmin for ${date}.`,
+      scheduleId,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : "Workout scheduling failed.",
+    };
+  }
+}
+
+export async function unscheduleWorkoutOnGarmin(
+  userId: number,
+  scheduleId: string,
+  context?: SyncContext,
+): Promise<{ success: boolean; message: string }> {
+  const clientResult = await resolveGarminClient(userId, context);
+  if (!clientResult.success) {
+    return {
+      success: false,
+      message: clientResult.message,
+    };
+  }
+
+  try {
+    await clientResult.client.unscheduleWorkout(scheduleId);
+
+    return {
+      success: true,
+      message: "Workout removed from the Garmin calendar.",
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : "Workout unscheduling failed.",
+    };
+  }
+}
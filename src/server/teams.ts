@@ -0,0 +1,210 @@
+import { prisma } from "@/lib/prisma";
+
+export type TeamMemberRecord = {
+  userId: number;
+  email: string;
+  role: string;
+};
+
+export type TeamRecord = {
+  id: number;
+  name: string;
+  role: string;
+  members: TeamMemberRecord[];
+};
+
+export type TeamNameValidation =
+  | { success: true; name: string }
+  | { success: false; message: string };
+
+export type TeamMemberValidation =
+  | { success: true; email: string }
+  | { success: false; message: string };
+
+export type TeamMutationResult =
+  | { success: true; team: TeamRecord }
+  | { success: false; message: string; status: number };
+
+const MAX_TEAM_NAME_LENGTH = 80;
+
+function asObject(value: unknown): Record<string, unknown> | null {
+  if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+    return value as Record<string, unknown>;
+  }
+
+  return null;
+}
+
+export function validateTeamNameInput(body: unknown): TeamNameValidation {
+  const payload = asObject(body);
+  if (!payload) {
+    return { success: false, message: "Invalid request payload." };
+  }
+
+  const name = typeof payload.name === "string" ? payload.name.trim() : "";
+  if (name === "" || name.length > MAX_TEAM_NAME_LENGTH) {
+    return { success: false, message: `name must be 1 to ${MAX_TEAM_NAME_LENGTH} characters.` };
+  }
+
+  return { success: true, name };
+}
+
+export function validateTeamMemberInput(body: unknown): TeamMemberValidation {
+  const payload = asObject(body);
+  if (!payload) {
+    return { success: false, message: "Invalid request payload." };
+  }
+
+  const email = typeof payload.email === "string" ? payload.email.trim().toLowerCase() : "";
+  if (email === "" || !email.includes("@")) {
+    return { success: false, message: "email must be the address of an existing account." };
+  }
+
+  return { success: true, email };
+}
+
+async function loadTeam(userId: number, teamId: number): Promise<TeamRecord | null> {
+  const team = await prisma.team.findFirst({
+    where: { id: teamId, members: { some: { userId } } },
+    select: {
+      id: true,
+      name: true,
+      members: {
+        orderBy: [{ role: "desc" }, { createdAt: "asc" }],
+        select: { userId: true, role: true, user: { select: { email: true } } },
+      },
+    },
+  });
+  if (!team) {
+    return null;
+  }
+
+  return {
+    id: team.id,
+    name: team.name,
+    role: team.members.find((member) => member.userId === userId)?.role ?? "member",
+    members: team.members.map((member) => ({
+      userId: member.userId,
+      email: member.user.email,
+      role: member.role,
+    })),
+  };
+}
+
+// Teams the user belongs to, each with its members, owner first.
+export async function listTeams(userId: number): Promise<TeamRecord[]> {
+  const memberships = await prisma.teamMember.findMany({
+    where: { userId },
+    orderBy: [{ team: { name: "asc" } }, { teamId: "asc" }],
+    select: { teamId: true },
+  });
+
+  const teams = await Promise.all(
+    memberships.map((membership) => loadTeam(userId, membership.teamId)),
+  );
+  return teams.filter((team): team is TeamRecord => team !== null);
+}
+
+export async function isTeamMember(userId: number, teamId: number): Promise<boolean> {
+  const membership = await prisma.teamMember.findUnique({
+    where: { teamId_userId: { teamId, userId } },
+    select: { id: true },
+  });
+
+  return membership !== null;
+}
+
+// The creator becomes the team's owner.
+export async function createTeam(userId: number, name: string): Promise<TeamRecord> {
+  const team = await prisma.team.create({
+    data: { name, members: { create: { userId, role: "owner" } } },
+    select: { id: true },
+  });
+
+  return (await loadTeam(userId, team.id)) as TeamRecord;
+}
+
+async function findOwnedTeam(
+  userId: number,
+  teamId: number,
+): Promise<{ success: true } | { success: false; message: string; status: number }> {
+  const membership = await prisma.teamMember.findUnique({
+    where: { teamId_userId: { teamId, userId } },
+    select: { role: true },
+  });
+
+  if (!membership) {
+    return { success: false, message: "Team not found.", status: 404 };
+  }
+
+  if (membership.role !== "owner") {
+    return {
+      success: false,
+      message: "Only the team owner can change its members.",
+      status: 403,
+    };
+  }
+
+  return { success: true };
+}
+
+// Members are added by the email of their existing account; there are no invitations.
+export async function addTeamMember(
+  userId: number,
+  teamId: number,
+  email: string,
+): Promise<TeamMutationResult> {
+  const owned = await findOwnedTeam(userId, teamId);
+  if (!owned.success) {
+    return owned;
+  }
+
+  const member = await prisma.user.findUnique({ where: { email }, select: { id: true } });
+  if (!member) {
+    return { success: false, message: "No account uses that email.", status: 404 };
+  }
+
+  if (await isTeamMember(member.id, teamId)) {
+    return { success: false, message: "That account is already on the team.", status: 409 };
+  }
+
+  await prisma.teamMember.create({ data: { teamId, userId: member.id } });
+  return { success: true, team: (await loadTeam(userId, teamId)) as TeamRecord };
+}
+
+// Owners remove members; members may remove themselves. Templates the leaving member shared to
+// the team go back to being private, so nobody keeps seeing the work of someone who left.
+export async function removeTeamMember(
+  userId: number,
+  teamId: number,
+  memberUserId: number,
+): Promise<{ success: true } | { success: false; message: string; status: number }> {
+  if (memberUserId !== userId) {
+    const owned = await findOwnedTeam(userId, teamId);
+    if (!owned.success) {
+      return owned;
+    }
+  }
+
+  const membership = await prisma.teamMember.findUnique({
+    where: { teamId_userId: { teamId, userId: memberUserId } },
+    select: { id: true, role: true },
+  });
+  if (!membership) {
+    return { success: false, message: "Team member not found.", status: 404 };
+  }
+
+  if (membership.role === "owner") {
+    return { success: false, message: "The team owner cannot leave the team.", status: 400 };
+  }
+
+  await prisma.$transaction([
+    prisma.workoutTemplate.updateMany({
+      where: { teamId, userId: memberUserId },
+      data: { teamId: null },
+    }),
+    prisma.teamMember.delete({ where: { id: membership.id } }),
+  ]);
+
+  return { success: true };
+}
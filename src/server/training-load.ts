@@ -0,0 +1,254 @@
+import { prisma } from "@/lib/prisma";
+import { estimateMaxHeartRate } from "@/server/hr-zones";
+import { getUserSettings } from "@/server/user-settings";
+
+const ACUTE_WINDOW_DAYS = 7;
+const CHRONIC_WINDOW_DAYS = 28;
+const FITNESS_TIME_CONSTANT_DAYS = 42;
+const FATIGUE_TIME_CONSTANT_DAYS = 7;
+
+// Zone weights on the same 1-5 scale as Edwards TRIMP, used when an activity has no zone times.
+const SPORT_INTENSITY: Record<string, number> = {
+  running: 2.5,
+  cycling: 2,
+  swimming: 2.5,
+  strength: 2,
+  hiking: 1.5,
+  walking: 1,
+  cardio: 2.5,
+  other: 1.5,
+};
+
+const DEFAULT_INTENSITY = 1.5;
+
+export type LoadActivity = {
+  durationSeconds: number | null;
+  averageHrBpm: number | null;
+  sportCategory: string | null;
+  hrTimeInZone1: number | null;
+  hrTimeInZone2: number | null;
+  hrTimeInZone3: number | null;
+  hrTimeInZone4: number | null;
+  hrTimeInZone5: number | null;
+};
+
+export type TrainingLoadDay = {
+  date: string;
+  load: number;
+  activityCount: number;
+  acuteLoad: number;
+  chronicLoad: number;
+  acwr: number | null;
+  fitness: number;
+  fatigue: number;
+  form: number;
+};
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(date: Date, days: number): Date {
+  const next = new Date(date);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next;
+}
+
+function parseDateOnly(value: string): Date {
+  return new Date(`${value}T00:00:00.000Z`);
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+// Percent-of-max-HR bands that define the Edwards zones, so the fallback stays on the TRIMP scale.
+function intensityFromHeartRate(averageHrBpm: number, maxHeartRate: number): number {
+  const ratio = averageHrBpm / maxHeartRate;
+  if (ratio >= 0.9) {
+    return 5;
+  }
+  if (ratio >= 0.8) {
+    return 4;
+  }
+  if (ratio >= 0.7) {
+    return 3;
+  }
+  if (ratio >= 0.6) {
+    return 2;
+  }
+  return 1;
+}
+
+export function calculateActivityLoad(
+  activity: LoadActivity,
+  maxHeartRate: number | null,
+): number {
+  const zoneSeconds = [
+    activity.hrTimeInZone1,
+    activity.hrTimeInZone2,
+    activity.hrTimeInZone3,
+    activity.hrTimeInZone4,
+    activity.hrTimeInZone5,
+  ];
+
+  // Edwards TRIMP: minutes in each zone weighted by the zone number.
+  if (zoneSeconds.some((seconds) => (seconds ?? 0) > 0)) {
+    return zoneSeconds.reduce<number>(
+      (total, seconds, index) => total + ((seconds ?? 0) / 60) * (index + 1),
+      0,
+    );
+  }
+
+  const durationMinutes = (activity.durationSeconds ?? 0) / 60;
+  if (durationMinutes <= 0) {
+    return 0;
+  }
+
+  const intensity =
+    activity.averageHrBpm && maxHeartRate
+      ? intensityFromHeartRate(activity.averageHrBpm, maxHeartRate)
+      : (SPORT_INTENSITY[activity.sportCategory ?? ""] ?? DEFAULT_INTENSITY);
+
+  return durationMinutes * intensity;
+}
+
+// Daily loads must cover every day from startDate to endDate; missing days count as rest.
+export function buildTrainingLoadSeries(
+  dailyLoads: Map<string, { load: number; activityCount: number }>,
+  startDate: string,
+  endDate: string,
+): TrainingLoadDay[] {
+  const series: TrainingLoadDay[] = [];
+  const loads: number[] = [];
+  let fitness = 0;
+  let fatigue = 0;
+
+  for (
+    let day = parseDateOnly(startDate);
+    formatDate(day) <= endDate;
+    day = addDays(day, 1)
+  ) {
+    const date = formatDate(day);
+    const entry = dailyLoads.get(date) ?? { load: 0, activityCount: 0 };
+
+    // Form is read before today's session: it describes readiness going into the day.
+    const form = fitness - fatigue;
+    fitness += (entry.load - fitness) / FITNESS_TIME_CONSTANT_DAYS;
+    fatigue += (entry.load - fatigue) / FATIGUE_TIME_CONSTANT_DAYS;
+
+    loads.push(entry.load);
+    const sumLast = (days: number) =>
+      loads.slice(-days).reduce((total, load) => total + load, 0);
+    const acuteLoad = sumLast(ACUTE_WINDOW_DAYS) / ACUTE_WINDOW_DAYS;
+    const chronicLoad = sumLast(CHRONIC_WINDOW_DAYS) / CHRONIC_WINDOW_DAYS;
+
+    series.push({
+      date,
+      load: round(entry.load, 1),
+      activityCount: entry.activityCount,
+      acuteLoad: round(acuteLoad, 1),
+      chronicLoad: round(chronicLoad, 1),
+      // A chronic load over fewer than 28 days of history understates the base and inflates the
+      // ratio, so there is no ACWR until the window is full.
+      acwr:
+        loads.length >= CHRONIC_WINDOW_DAYS && chronicLoad > 0
+          ? round(acuteLoad / chronicLoad, 2)
+          : null,
+      fitness: round(fitness, 1),
+      fatigue: round(fatigue, 1),
+      form: round(form, 1),
+    });
+  }
+
+  return series;
+}
+
+export async function recomputeTrainingLoad(userId: number): Promise<number> {
+  const activities = await prisma.activity.findMany({
+    where: { userId, activityDate: { not: null } },
+    orderBy: { activityDate: "asc" },
+    select: {
+      activityDate: true,
+      durationSeconds: true,
+      averageHrBpm: true,
+      maxHrBpm: true,
+      sportCategory: true,
+      hrTimeInZone1: true,
+      hrTimeInZone2: true,
+      hrTimeInZone3: true,
+      hrTimeInZone4: true,
+      hrTimeInZone5: true,
+    },
+  });
+
+  if (activities.length === 0 || !activities[0].activityDate) {
+    await prisma.dailyTrainingLoad.deleteMany({ where: { userId } });
+    return 0;
+  }
+
+  // Highest plausible recorded HR stands in for max HR until the user sets one.
+  const settings = await getUserSettings(userId);
+  const maxHeartRate =
+    settings.maxHeartRate ?? estimateMaxHeartRate(activities.map((activity) => activity.maxHrBpm));
+
+  const dailyLoads = new Map<string, { load: number; activityCount: number }>();
+  for (const activity of activities) {
+    if (!activity.activityDate) {
+      continue;
+    }
+
+    const date = formatDate(activity.activityDate);
+    const entry = dailyLoads.get(date) ?? { load: 0, activityCount: 0 };
+    entry.load += calculateActivityLoad(activity, maxHeartRate);
+    entry.activityCount += 1;
+    dailyLoads.set(date, entry);
+  }
+
+  const startDate = formatDate(activities[0].activityDate);
+  const lastActivityDate = formatDate(activities[activities.length - 1].activityDate ?? new Date());
+  const today = formatDate(new Date());
+  const series = buildTrainingLoadSeries(
+    dailyLoads,
+    startDate,
+    lastActivityDate > today ? lastActivityDate : today,
+  );
+
+  await prisma.$transaction([
+    prisma.dailyTrainingLoad.deleteMany({ where: { userId } }),
+    prisma.dailyTrainingLoad.createMany({
+      data: series.map(({ date, ...day }) => ({
+        ...day,
+        userId,
+        loadDate: parseDateOnly(date),
+      })),
+    }),
+  ]);
+
+  return series.length;
+}
+
+export async function getTrainingLoadSeries(
+  userId: number,
+  days: number,
+): Promise<TrainingLoadDay[]> {
+  const rows = await prisma.dailyTrainingLoad.findMany({
+    where: { userId },
+    orderBy: { loadDate: "desc" },
+    take: days,
+    select: {
+      loadDate: true,
+      load: true,
+      activityCount: true,
+      acuteLoad: true,
+      chronicLoad: true,
+      acwr: true,
+      fitness: true,
+      fatigue: true,
+      form: true,
+    },
+  });
+
+  return rows.reverse().map(({ loadDate, ...day }) => ({ ...day, date: formatDate(loadDate) }));
+}
@@ -0,0 +1,742 @@
+import type { Prisma } from "../../prisma/generated/prisma/client";
+import { WORKOUT_TYPE_OPTIONS, type WorkoutType } from "@/lib/constants";
+import { prisma } from "@/lib/prisma";
+import { generateTrainingPlanBlocks } from "@/server/ai";
+import {
+  buildWorkout,
+  isBuilderStepType,
+  isWorkoutPace,
+  loadPaceTargets,
+  type WorkoutStepSpec,
+} from "@/server/workout-builder";
+
+export type PlanPhase = "base" | "build" | "peak" | "taper";
+
+export type PlanWeek = {
+  week: number;
+  startDate: string;
+  phase: PlanPhase;
+  targetDistanceKm: number;
+};
+
+export type TrainingPlanInput = {
+  goalRaceName: string | null;
+  goalRaceDate: Date;
+  goalDistanceMeters: number;
+  goalTimeSeconds: number | null;
+  availableDays: number[];
+  longRunDay: number | null;
+};
+
+export type TrainingPlanValidation =
+  | { success: true; input: TrainingPlanInput }
+  | { success: false; message: string };
+
+export type PlanWorkoutRecord = {
+  id: number;
+  title: string;
+  workoutType: string;
+  status: string;
+  aiDescription: string | null;
+  scheduledDate: Date | null;
+  planWeek: number | null;
+  totalDistanceKm: number | null;
+  estimatedDurationMinutes: number | null;
+};
+
+export type TrainingPlanRecord = {
+  id: number;
+  goalRaceName: string | null;
+  goalRaceDate: Date;
+  goalDistanceMeters: number;
+  goalTimeSeconds: number | null;
+  availableDays: number[];
+  longRunDay: number | null;
+  startDate: Date;
+  weeks: PlanWeek[];
+  workouts: PlanWorkoutRecord[];
+};
+
+export type TrainingPlanMutationResult =
+  | { success: true; planId: number; workoutCount: number }
+  | { success: false; message: string; status: number };
+
+type PlannedSession = {
+  date: string;
+  workoutType: WorkoutType;
+  title: string;
+  description: string | null;
+  steps: WorkoutStepSpec[];
+};
+
+const MIN_PLAN_WEEKS = 3;
+const MAX_PLAN_WEEKS = 24;
+const MIN_TRAINING_DAYS = 2;
+const MAX_RACE_DISTANCE_METERS = 100_000;
+const MAX_NAME_LENGTH = 120;
+const MAX_REPEAT_ITERATIONS = 20;
+
+// Weeks per model call; a whole plan in one response would not fit the output limit.
+const PLAN_BLOCK_WEEKS = 4;
+
+// Volume starts at the recent weekly average and grows about 7% a week, with every fourth base or
+// build week cut back for recovery and total growth capped well short of doubling.
+const DEFAULT_WEEKLY_DISTANCE_KM = 20;
+const MIN_WEEKLY_DISTANCE_KM = 10;
+const WEEKLY_GROWTH = 1.07;
+const RECOVERY_WEEK_INTERVAL = 4;
+const RECOVERY_WEEK_SHARE = 0.8;
+const MAX_VOLUME_GROWTH = 1.6;
+
+// Share of peak volume for each taper week, keyed by taper length; the last entry is race week.
+const TAPER_SHARES: Record<number, number[]> = {
+  1: [0.6],
+  2: [0.75, 0.55],
+  3: [0.8, 0.65, 0.5],
+};
+
+const WEEKDAY_NAMES = [
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+  "Sunday",
+];
+
+function asObject(value: unknown): Record<string, unknown> | null {
+  if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+    return value as Record<string, unknown>;
+  }
+
+  return null;
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function parseDateOnly(value: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return null;
+  }
+
+  const parsed = new Date(`${value}T00:00:00.000Z`);
+  return Number.isNaN(parsed.getTime()) || formatDate(parsed) !== value ? null : parsed;
+}
+
+function addDays(date: Date, days: number): Date {
+  const next = new Date(date);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next;
+}
+
+function todayUtc(): Date {
+  return new Date(`${formatDate(new Date())}T00:00:00.000Z`);
+}
+
+// 1 = Monday ... 7 = Sunday.
+function isoWeekday(date: Date): number {
+  return ((date.getUTCDay() + 6) % 7) + 1;
+}
+
+function startOfWeek(date: Date): Date {
+  return addDays(date, 1 - isoWeekday(date));
+}
+
+function formatRaceTime(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours}:${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}`;
+}
+
+function isWorkoutType(value: unknown): value is WorkoutType {
+  return WORKOUT_TYPE_OPTIONS.some((option) => option.value === value);
+}
+
+export function validateTrainingPlanInput(body: unknown): TrainingPlanValidation {
+  const payload = asObject(body);
+  if (!payload) {
+    return { success: false, message: "Invalid request payload." };
+  }
+
+  const goalRaceDate =
+    typeof payload.goalRaceDate === "string" ? parseDateOnly(payload.goalRaceDate) : null;
+  if (!goalRaceDate) {
+    return { success: false, message: "goalRaceDate must be a date in YYYY-MM-DD format." };
+  }
+
+  const weekCount = countPlanWeeks(todayUtc(), goalRaceDate);
+  if (goalRaceDate <= todayUtc() || weekCount < MIN_PLAN_WEEKS || weekCount > MAX_PLAN_WEEKS) {
+    return {
+      success: false,
+      message: `goalRaceDate must be between ${MIN_PLAN_WEEKS} and ${MAX_PLAN_WEEKS} weeks away.`,
+    };
+  }
+
+  const goalDistanceMeters = payload.goalDistanceMeters;
+  if (
+    typeof goalDistanceMeters !== "number" ||
+    !Number.isFinite(goalDistanceMeters) ||
+    goalDistanceMeters <= 0 ||
+    goalDistanceMeters > MAX_RACE_DISTANCE_METERS
+  ) {
+    return {
+      success: false,
+      message: `goalDistanceMeters must be a positive number up to ${MAX_RACE_DISTANCE_METERS}.`,
+    };
+  }
+
+  let goalTimeSeconds: number | null = null;
+  if (payload.goalTimeSeconds !== undefined && payload.goalTimeSeconds !== null) {
+    if (
+      typeof payload.goalTimeSeconds !== "number" ||
+      !Number.isInteger(payload.goalTimeSeconds) ||
+      payload.goalTimeSeconds <= 0
+    ) {
+      return { success: false, message: "goalTimeSeconds must be a positive whole number." };
+    }
+    goalTimeSeconds = payload.goalTimeSeconds;
+  }
+
+  const availableDays = payload.availableDays;
+  if (
+    !Array.isArray(availableDays) ||
+    availableDays.some((day) => !Number.isInteger(day) || day < 1 || day > 7) ||
+    new Set(availableDays).size !== availableDays.length ||
+    availableDays.length < MIN_TRAINING_DAYS
+  ) {
+    return {
+      success: false,
+      message:
+        `availableDays must list at least ${MIN_TRAINING_DAYS} different weekdays ` +
+        "(1 = Monday ... 7 = Sunday).",
+    };
+  }
+
+  let longRunDay: number | null = null;
+  if (payload.longRunDay !== undefined && payload.longRunDay !== null) {
+    if (typeof payload.longRunDay !== "number" || !availableDays.includes(payload.longRunDay)) {
+      return { success: false, message: "longRunDay must be one of availableDays." };
+    }
+    longRunDay = payload.longRunDay;
+  }
+
+  let goalRaceName: string | null = null;
+  if (payload.goalRaceName !== undefined && payload.goalRaceName !== null) {
+    if (typeof payload.goalRaceName !== "string" || payload.goalRaceName.length > MAX_NAME_LENGTH) {
+      return {
+        success: false,
+        message: `goalRaceName must be text up to ${MAX_NAME_LENGTH} characters.`,
+      };
+    }
+    goalRaceName = payload.goalRaceName.trim() || null;
+  }
+
+  return {
+    success: true,
+    input: {
+      goalRaceName,
+      goalRaceDate,
+      goalDistanceMeters,
+      goalTimeSeconds,
+      availableDays: [...(availableDays as number[])].sort((a, b) => a - b),
+      longRunDay,
+    },
+  };
+}
+
+function countPlanWeeks(startDate: Date, raceDate: Date): number {
+  const weekMs = 7 * 86400000;
+  return (
+    Math.round((startOfWeek(raceDate).getTime() - startOfWeek(startDate).getTime()) / weekMs) + 1
+  );
+}
+
+function assignPhases(weekCount: number, goalDistanceMeters: number): PlanPhase[] {
+  const taperLength = goalDistanceMeters >= 30_000 ? 3 : goalDistanceMeters >= 15_000 ? 2 : 1;
+  const taper = Math.min(taperLength, Math.max(1, weekCount - 2));
+  const remaining = weekCount - taper;
+  const peak = remaining >= 6 ? 2 : remaining >= 3 ? 1 : 0;
+  const build = Math.round((remaining - peak) / 2);
+  const base = remaining - peak - build;
+
+  return [
+    ...Array<PlanPhase>(base).fill("base"),
+    ...Array<PlanPhase>(build).fill("build"),
+    ...Array<PlanPhase>(peak).fill("peak"),
+    ...Array<PlanPhase>(taper).fill("taper"),
+  ];
+}
+
+export function buildPlanWeeks(
+  startDate: Date,
+  raceDate: Date,
+  goalDistanceMeters: number,
+  recentWeeklyDistanceKm: number | null,
+): PlanWeek[] {
+  const phases = assignPhases(countPlanWeeks(startDate, raceDate), goalDistanceMeters);
+  const startKm = Math.max(
+    MIN_WEEKLY_DISTANCE_KM,
+    recentWeeklyDistanceKm ?? DEFAULT_WEEKLY_DISTANCE_KM,
+  );
+  const capKm = startKm * MAX_VOLUME_GROWTH;
+  const taperShares = TAPER_SHARES[phases.filter((phase) => phase === "taper").length] ?? [];
+
+  let currentKm = startKm;
+  let taperIndex = 0;
+  const firstMonday = startOfWeek(startDate);
+
+  return phases.map((phase, index) => {
+    let targetKm = currentKm;
+    if (phase === "base" || phase === "build") {
+      if ((index + 1) % RECOVERY_WEEK_INTERVAL === 0) {
+        targetKm = currentKm * RECOVERY_WEEK_SHARE;
+      } else {
+        currentKm = index === 0 ? currentKm : Math.min(capKm, currentKm * WEEKLY_GROWTH);
+        targetKm = currentKm;
+      }
+    } else if (phase === "taper") {
+      targetKm = currentKm * (taperShares[taperIndex] ?? 1);
+      taperIndex += 1;
+    }
+
+    return {
+      week: index + 1,
+      startDate: formatDate(addDays(firstMonday, index * 7)),
+      phase,
+      targetDistanceKm: Math.round(targetKm),
+    };
+  });
+}
+
+export function parsePlanWeeks(value: unknown): PlanWeek[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.filter((week): week is PlanWeek => {
+    const object = asObject(week);
+    return (
+      object !== null &&
+      typeof object.week === "number" &&
+      typeof object.startDate === "string" &&
+      typeof object.phase === "string" &&
+      typeof object.targetDistanceKm === "number"
+    );
+  });
+}
+
+// Dates in the week the user can train on, from today up to the day before the race.
+function getAvailableDates(
+  week: PlanWeek,
+  input: TrainingPlanInput,
+  blockedDates: Set<string>,
+): string[] {
+  const monday = new Date(`${week.startDate}T00:00:00.000Z`);
+  const today = todayUtc();
+
+  return input.availableDays
+    .map((day) => addDays(monday, day - 1))
+    .filter((date) => date >= today && date < input.goalRaceDate)
+    .map(formatDate)
+    .filter((date) => !blockedDates.has(date));
+}
+
+function buildBlockPrompt(
+  input: TrainingPlanInput,
+  weeks: PlanWeek[],
+  block: Array<{ week: PlanWeek; dates: string[] }>,
+): string {
+  const goalName = input.goalRaceName ? `${input.goalRaceName}, ` : "";
+  const goalTime = input.goalTimeSeconds ? formatRaceTime(input.goalTimeSeconds) : "none given";
+  const longRunDay = input.longRunDay ? WEEKDAY_NAMES[input.longRunDay - 1] : "any available day";
+
+  const outline = weeks
+    .map(
+      (week) =>
+        `Week ${week.week} (from ${week.startDate}): ${week.phase}, ${week.targetDistanceKm} km`,
+    )
+    .join("\n");
+
+  const weeksToWrite = block
+    .map(
+      ({ week, dates }) =>
+        `Week ${week.week} (${week.phase}, target ${week.targetDistanceKm} km): ` +
+        dates.join(", "),
+    )
+    .join("\n");
+
+  const distanceKm = (input.goalDistanceMeters / 1000).toFixed(1);
+
+  return `## Goal Race
+${goalName}${distanceKm} km on ${formatDate(input.goalRaceDate)}. Target time: ${goalTime}.
+Long run day: ${longRunDay}.
+
+## Plan Outline
+${outline}
+
+## Weeks To Write
+Available dates per week:
+${weeksToWrite}`;
+}
+
+function parsePlannedStep(value: unknown, allowRepeat: boolean): WorkoutStepSpec | null {
+  const step = asObject(value);
+  if (!step) {
+    return null;
+  }
+
+  if (step.repeat !== undefined) {
+    const iterations = step.repeat;
+    if (
+      !allowRepeat ||
+      typeof iterations !== "number" ||
+      !Number.isInteger(iterations) ||
+      iterations < 2 ||
+      iterations > MAX_REPEAT_ITERATIONS ||
+      !Array.isArray(step.steps)
+    ) {
+      return null;
+    }
+
+    const steps = step.steps.map((nested) => parsePlannedStep(nested, false));
+    if (steps.length === 0 || steps.some((nested) => nested === null)) {
+      return null;
+    }
+
+    return { kind: "repeat", iterations, steps: steps as WorkoutStepSpec[] };
+  }
+
+  const distanceMeters =
+    typeof step.distanceMeters === "number" && step.distanceMeters > 0
+      ? Math.round(step.distanceMeters)
+      : null;
+  const durationSeconds =
+    typeof step.durationSeconds === "number" && step.durationSeconds > 0
+      ? Math.round(step.durationSeconds)
+      : null;
+  if (!isBuilderStepType(step.type) || (distanceMeters === null) === (durationSeconds === null)) {
+    return null;
+  }
+
+  return {
+    kind: "step",
+    stepType: step.type,
+    distanceMeters,
+    durationSeconds,
+    pace: isWorkoutPace(step.pace) ? step.pace : null,
+  };
+}
+
+// Sessions on dates outside the block (or a second session on one date) are dropped; a malformed
+// session fails the whole block so the plan never silently loses a workout.
+function parsePlannedSessions(block: unknown, allowedDates: Set<string>): PlannedSession[] {
+  const rawSessions = asObject(block)?.sessions;
+  if (!Array.isArray(rawSessions)) {
+    throw new Error("Training plan response is missing sessions.");
+  }
+
+  const sessions: PlannedSession[] = [];
+  const usedDates = new Set<string>();
+  for (const rawSession of rawSessions) {
+    const session = asObject(rawSession);
+    const date = typeof session?.date === "string" ? session.date : null;
+    if (!session || !date || !allowedDates.has(date) || usedDates.has(date)) {
+      continue;
+    }
+
+    const steps = Array.isArray(session.steps)
+      ? session.steps.map((step) => parsePlannedStep(step, true))
+      : [];
+    if (
+      !isWorkoutType(session.workoutType) ||
+      typeof session.title !== "string" ||
+      session.title.trim() === "" ||
+      steps.length === 0 ||
+      steps.some((step) => step === null)
+    ) {
+      throw new Error(`Training plan session on ${date} is invalid.`);
+    }
+
+    usedDates.add(date);
+    sessions.push({
+      date,
+      workoutType: session.workoutType,
+      title: session.title.trim(),
+      description:
+        typeof session.description === "string" ? session.description.trim() || null : null,
+      steps: steps as WorkoutStepSpec[],
+    });
+  }
+
+  return sessions;
+}
+
+// Asks the model for the given weeks in blocks and turns every session into a workout row.
+async function generatePlanWorkouts(
+  userId: number,
+  input: TrainingPlanInput,
+  weeks: PlanWeek[],
+  weeksToWrite: PlanWeek[],
+  blockedDates: Set<string>,
+): Promise<Prisma.WorkoutCreateManyInput[]> {
+  const weekDates = weeksToWrite
+    .map((week) => ({ week, dates: getAvailableDates(week, input, blockedDates) }))
+    .filter(({ dates }) => dates.length > 0);
+  if (weekDates.length === 0) {
+    return [];
+  }
+
+  const blocks: Array<typeof weekDates> = [];
+  for (let index = 0; index < weekDates.length; index += PLAN_BLOCK_WEEKS) {
+    blocks.push(weekDates.slice(index, index + PLAN_BLOCK_WEEKS));
+  }
+
+  // Paces are needed to build the workouts, which happens inside each block's parse so that a
+  // session the builder cannot use is sent back to the model like any other mistake.
+  const targets = await loadPaceTargets(userId);
+  const responses = await generateTrainingPlanBlocks(
+    userId,
+    blocks.map((block) => {
+      const weekByDate = new Map<string, number>();
+      for (const { week, dates } of block) {
+        for (const date of dates) {
+          weekByDate.set(date, week.week);
+        }
+      }
+
+      return {
+        prompt: buildBlockPrompt(input, weeks, block),
+        parse: (response: unknown): Prisma.WorkoutCreateManyInput[] =>
+          parsePlannedSessions(response, new Set(weekByDate.keys())).map((session) => {
+            const built = buildWorkout(
+              { name: session.title, description: session.description, steps: session.steps },
+              targets,
+            );
+            return {
+              userId,
+              workoutType: session.workoutType,
+              title: session.title,
+              aiDescription: session.description,
+              workoutJson: built.workout as Prisma.InputJsonValue,
+              totalDistanceKm: built.distanceKm,
+              estimatedDurationMinutes: built.durationMinutes,
+              status: "generated",
+              scheduledDate: new Date(`${session.date}T00:00:00.000Z`),
+              planWeek: weekByDate.get(session.date) ?? null,
+            };
+          }),
+      };
+    }),
+  );
+
+  // Every session of a block shares the answer it came from, and so its provider and attempts.
+  return responses.flatMap(({ result, provider, attempts }) =>
+    result.map((workout) => ({ ...workout, aiProvider: provider, generationAttempts: attempts })),
+  );
+}
+
+export async function getActiveTrainingPlan(userId: number): Promise<TrainingPlanRecord | null> {
+  const plan = await prisma.trainingPlan.findFirst({
+    where: { userId, status: "active" },
+    orderBy: { createdAt: "desc" },
+    select: {
+      id: true,
+      goalRaceName: true,
+      goalRaceDate: true,
+      goalDistanceMeters: true,
+      goalTimeSeconds: true,
+      availableDays: true,
+      longRunDay: true,
+      startDate: true,
+      weeksJson: true,
+      workouts: {
+        orderBy: [{ scheduledDate: "asc" }, { id: "asc" }],
+        select: {
+          id: true,
+          title: true,
+          workoutType: true,
+          status: true,
+          aiDescription: true,
+          scheduledDate: true,
+          planWeek: true,
+          totalDistanceKm: true,
+          estimatedDurationMinutes: true,
+        },
+      },
+    },
+  });
+  if (!plan) {
+    return null;
+  }
+
+  const { weeksJson, ...fields } = plan;
+  return { ...fields, weeks: parsePlanWeeks(weeksJson) };
+}
+
+export async function createTrainingPlan(
+  userId: number,
+  input: TrainingPlanInput,
+): Promise<TrainingPlanMutationResult> {
+  const fitness = await prisma.userRunningFitness.findUnique({
+    where: { userId },
+    select: { weeklyVolumeAvgKm: true },
+  });
+
+  const startDate = todayUtc();
+  const weeks = buildPlanWeeks(
+    startDate,
+    input.goalRaceDate,
+    input.goalDistanceMeters,
+    fitness?.weeklyVolumeAvgKm ?? null,
+  );
+  // Upcoming sessions the user accepted, uploaded or edited by hand survive the plan they came
+  // from, so the new plan leaves their days free.
+  const kept = await prisma.workout.findMany({
+    where: {
+      userId,
+      trainingPlan: { status: "active" },
+      scheduledDate: { gte: startDate },
+      OR: [{ status: { not: "generated" } }, { versions: { some: {} } }],
+    },
+    select: { scheduledDate: true },
+  });
+  const blockedDates = new Set(
+    kept.flatMap((workout) => (workout.scheduledDate ? [formatDate(workout.scheduledDate)] : [])),
+  );
+  const workouts = await generatePlanWorkouts(userId, input, weeks, weeks, blockedDates);
+
+  const plan = await prisma.$transaction(async (tx) => {
+    // A new plan replaces the active one; its sessions that were never accepted or edited go
+    // with it.
+    const previous = await tx.trainingPlan.findMany({
+      where: { userId, status: "active" },
+      select: { id: true },
+    });
+    const previousIds = previous.map((entry) => entry.id);
+    await tx.workout.deleteMany({
+      where: {
+        trainingPlanId: { in: previousIds },
+        status: "generated",
+        scheduledDate: { gte: startDate },
+        versions: { none: {} },
+      },
+    });
+    await tx.trainingPlan.updateMany({
+      where: { id: { in: previousIds } },
+      data: { status: "archived", updatedAt: new Date() },
+    });
+
+    const created = await tx.trainingPlan.create({
+      data: {
+        userId,
+        ...input,
+        startDate: startOfWeek(startDate),
+        weeksJson: weeks as Prisma.InputJsonValue,
+      },
+      select: { id: true },
+    });
+    await tx.workout.createMany({
+      data: workouts.map((workout) => ({ ...workout, trainingPlanId: created.id })),
+    });
+
+    return created;
+  });
+
+  return { success: true, planId: plan.id, workoutCount: workouts.length };
+}
+
+// Replaces the plan's not-yet-accepted sessions from fromWeek on. Accepted or uploaded workouts
+// and anything already in the past are kept, and their dates are not reused.
+export async function regenerateTrainingPlan(
+  userId: number,
+  planId: number,
+  fromWeek: number,
+): Promise<TrainingPlanMutationResult> {
+  const plan = await prisma.trainingPlan.findFirst({
+    where: { id: planId, userId, status: "active" },
+    select: {
+      id: true,
+      goalRaceName: true,
+      goalRaceDate: true,
+      goalDistanceMeters: true,
+      goalTimeSeconds: true,
+      availableDays: true,
+      longRunDay: true,
+      weeksJson: true,
+    },
+  });
+  if (!plan) {
+    return { success: false, message: "Training plan not found.", status: 404 };
+  }
+
+  const weeks = parsePlanWeeks(plan.weeksJson);
+  if (!Number.isInteger(fromWeek) || fromWeek < 1 || fromWeek > weeks.length) {
+    return {
+      success: false,
+      message: `fromWeek must be a week of the plan (1-${weeks.length}).`,
+      status: 400,
+    };
+  }
+
+  const today = todayUtc();
+  const kept = await prisma.workout.findMany({
+    where: {
+      trainingPlanId: plan.id,
+      planWeek: { gte: fromWeek },
+      // Hand-edited workouts (they have versions) are kept like accepted ones.
+      OR: [
+        { status: { not: "generated" } },
+        { scheduledDate: { lt: today } },
+        { versions: { some: {} } },
+      ],
+    },
+    select: { scheduledDate: true },
+  });
+  const blockedDates = new Set(
+    kept.flatMap((workout) => (workout.scheduledDate ? [formatDate(workout.scheduledDate)] : [])),
+  );
+
+  const input: TrainingPlanInput = {
+    goalRaceName: plan.goalRaceName,
+    goalRaceDate: plan.goalRaceDate,
+    goalDistanceMeters: plan.goalDistanceMeters,
+    goalTimeSeconds: plan.goalTimeSeconds,
+    availableDays: plan.availableDays,
+    longRunDay: plan.longRunDay,
+  };
+  const weeksToWrite = weeks.filter((week) => week.week >= fromWeek);
+  if (!weeksToWrite.some((week) => getAvailableDates(week, input, blockedDates).length > 0)) {
+    return {
+      success: false,
+      message: "No training days left to regenerate from that week.",
+      status: 400,
+    };
+  }
+
+  const workouts = await generatePlanWorkouts(userId, input, weeks, weeksToWrite, blockedDates);
+
+  await prisma.$transaction([
+    prisma.workout.deleteMany({
+      where: {
+        trainingPlanId: plan.id,
+        planWeek: { gte: fromWeek },
+        status: "generated",
+        scheduledDate: { gte: today },
+        versions: { none: {} },
+      },
+    }),
+    prisma.workout.createMany({
+      data: workouts.map((workout) => ({ ...workout, trainingPlanId: plan.id })),
+    }),
+    prisma.trainingPlan.update({
+      where: { id: plan.id },
+      data: { updatedAt: new Date() },
+    }),
+  ]);
+
+  return { success: true, planId: plan.id, workoutCount: workouts.length };
+}
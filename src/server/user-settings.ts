@@ -0,0 +1,275 @@
+import { prisma } from "@/lib/prisma";
+import {
+  HR_ZONE_COUNT,
+  HR_ZONE_METHODS,
+  type HrZoneMethod,
+  isHrZoneMethod,
+} from "@/server/hr-zones";
+import type { TrainingPaces } from "@/server/vdot";
+
+export type UserSettingsRecord = {
+  easyPaceLowOverride: number | null;
+  easyPaceHighOverride: number | null;
+  longRunPaceOverride: number | null;
+  tempoPaceOverride: number | null;
+  thresholdPaceOverride: number | null;
+  intervalPaceOverride: number | null;
+  repetitionPaceOverride: number | null;
+  hrZoneMethod: HrZoneMethod;
+  maxHeartRate: number | null;
+  restingHeartRate: number | null;
+  lactateThresholdHeartRate: number | null;
+  customHrZoneFloors: number[];
+};
+
+export type UserSettingsValidation =
+  | { success: true; input: UserSettingsRecord }
+  | { success: false; message: string };
+
+// Each stored pace and the settings column that pins it.
+const PACE_OVERRIDE_FIELDS: Record<keyof TrainingPaces, keyof UserSettingsRecord> = {
+  easyPaceLow: "easyPaceLowOverride",
+  easyPaceHigh: "easyPaceHighOverride",
+  longRunPace: "longRunPaceOverride",
+  tempoPace: "tempoPaceOverride",
+  thresholdPace: "thresholdPaceOverride",
+  intervalPace: "intervalPaceOverride",
+  repetitionPace: "repetitionPaceOverride",
+};
+
+const MIN_PACE_SECONDS_PER_KM = 120;
+const MAX_PACE_SECONDS_PER_KM = 900;
+const MIN_HEART_RATE = 40;
+const MAX_HEART_RATE = 230;
+const MIN_RESTING_HEART_RATE = 25;
+const MAX_RESTING_HEART_RATE = 120;
+
+export const DEFAULT_USER_SETTINGS: UserSettingsRecord = {
+  easyPaceLowOverride: null,
+  easyPaceHighOverride: null,
+  longRunPaceOverride: null,
+  tempoPaceOverride: null,
+  thresholdPaceOverride: null,
+  intervalPaceOverride: null,
+  repetitionPaceOverride: null,
+  hrZoneMethod: "max_hr",
+  maxHeartRate: null,
+  restingHeartRate: null,
+  lactateThresholdHeartRate: null,
+  customHrZoneFloors: [],
+};
+
+function asObject(value: unknown): Record<string, unknown> | null {
+  if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+    return value as Record<string, unknown>;
+  }
+
+  return null;
+}
+
+// undefined means the value is present but invalid.
+function optionalInteger(value: unknown, min: number, max: number): number | null | undefined {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value !== "number" || !Number.isInteger(value) || value < min || value > max) {
+    return undefined;
+  }
+
+  return value;
+}
+
+export async function getUserSettings(userId: number): Promise<UserSettingsRecord> {
+  const settings = await prisma.userSettings.findUnique({
+    where: { userId },
+    select: {
+      easyPaceLowOverride: true,
+      easyPaceHighOverride: true,
+      longRunPaceOverride: true,
+      tempoPaceOverride: true,
+      thresholdPaceOverride: true,
+      intervalPaceOverride: true,
+      repetitionPaceOverride: true,
+      hrZoneMethod: true,
+      maxHeartRate: true,
+      restingHeartRate: true,
+      lactateThresholdHeartRate: true,
+      customHrZoneFloors: true,
+    },
+  });
+
+  if (!settings) {
+    return DEFAULT_USER_SETTINGS;
+  }
+
+  return {
+    ...settings,
+    hrZoneMethod: isHrZoneMethod(settings.hrZoneMethod)
+      ? settings.hrZoneMethod
+      : DEFAULT_USER_SETTINGS.hrZoneMethod,
+  };
+}
+
+export function validateUserSettingsInput(body: unknown): UserSettingsValidation {
+  const payload = asObject(body);
+  if (!payload) {
+    return { success: false, message: "Invalid request payload." };
+  }
+
+  const input: UserSettingsRecord = { ...DEFAULT_USER_SETTINGS };
+
+  for (const field of Object.values(PACE_OVERRIDE_FIELDS)) {
+    const value = optionalInteger(
+      payload[field],
+      MIN_PACE_SECONDS_PER_KM,
+      MAX_PACE_SECONDS_PER_KM,
+    );
+    if (value === undefined) {
+      return {
+        success: false,
+        message:
+          `${field} must be whole seconds per km between ` +
+          `${MIN_PACE_SECONDS_PER_KM} and ${MAX_PACE_SECONDS_PER_KM}.`,
+      };
+    }
+    Object.assign(input, { [field]: value });
+  }
+
+  if (
+    input.easyPaceLowOverride !== null &&
+    input.easyPaceHighOverride !== null &&
+    input.easyPaceLowOverride > input.easyPaceHighOverride
+  ) {
+    return {
+      success: false,
+      message: "easyPaceLowOverride is the fast end of the easy range and cannot be slower.",
+    };
+  }
+
+  if (payload.hrZoneMethod !== undefined) {
+    if (typeof payload.hrZoneMethod !== "string" || !isHrZoneMethod(payload.hrZoneMethod)) {
+      return {
+        success: false,
+        message: `hrZoneMethod must be one of: ${HR_ZONE_METHODS.join(", ")}.`,
+      };
+    }
+    input.hrZoneMethod = payload.hrZoneMethod;
+  }
+
+  for (const field of ["maxHeartRate", "lactateThresholdHeartRate"] as const) {
+    const value = optionalInteger(payload[field], MIN_HEART_RATE, MAX_HEART_RATE);
+    if (value === undefined) {
+      return {
+        success: false,
+        message: `${field} must be whole bpm between ${MIN_HEART_RATE} and ${MAX_HEART_RATE}.`,
+      };
+    }
+    input[field] = value;
+  }
+
+  const restingHeartRate = optionalInteger(
+    payload.restingHeartRate,
+    MIN_RESTING_HEART_RATE,
+    MAX_RESTING_HEART_RATE,
+  );
+  if (restingHeartRate === undefined) {
+    return {
+      success: false,
+      message:
+        "restingHeartRate must be whole bpm between " +
+        `${MIN_RESTING_HEART_RATE} and ${MAX_RESTING_HEART_RATE}.`,
+    };
+  }
+  input.restingHeartRate = restingHeartRate;
+
+  if (
+    input.restingHeartRate !== null &&
+    [input.maxHeartRate, input.lactateThresholdHeartRate].some(
+      (heartRate) => heartRate !== null && heartRate <= (input.restingHeartRate ?? 0),
+    )
+  ) {
+    return {
+      success: false,
+      message: "restingHeartRate must be below maxHeartRate and lactateThresholdHeartRate.",
+    };
+  }
+
+  if (
+    input.maxHeartRate !== null &&
+    input.lactateThresholdHeartRate !== null &&
+    input.lactateThresholdHeartRate >= input.maxHeartRate
+  ) {
+    return {
+      success: false,
+      message: "lactateThresholdHeartRate must be below maxHeartRate.",
+    };
+  }
+
+  const floors = payload.customHrZoneFloors ?? [];
+  if (
+    !Array.isArray(floors) ||
+    (floors.length !== 0 && floors.length !== HR_ZONE_COUNT) ||
+    floors.some(
+      (floor, index) =>
+        optionalInteger(floor, MIN_HEART_RATE, MAX_HEART_RATE) == null ||
+        (index > 0 && floor <= floors[index - 1]),
+    )
+  ) {
+    return {
+      success: false,
+      message: `customHrZoneFloors must be ${HR_ZONE_COUNT} rising bpm values, one per zone.`,
+    };
+  }
+  input.customHrZoneFloors = floors as number[];
+
+  if (
+    input.maxHeartRate !== null &&
+    input.customHrZoneFloors.length > 0 &&
+    input.customHrZoneFloors[HR_ZONE_COUNT - 1] >= input.maxHeartRate
+  ) {
+    return { success: false, message: "Zone 5 must start below maxHeartRate." };
+  }
+
+  // Max, resting and threshold HR may be left blank for the estimates from activities and
+  // health data; custom floors have nothing to fall back on.
+  if (input.hrZoneMethod === "custom" && input.customHrZoneFloors.length === 0) {
+    return { success: false, message: 'hrZoneMethod "custom" needs customHrZoneFloors.' };
+  }
+
+  return { success: true, input };
+}
+
+export async function saveUserSettings(
+  userId: number,
+  input: UserSettingsRecord,
+): Promise<UserSettingsRecord> {
+  await prisma.userSettings.upsert({
+    where: { userId },
+    create: { userId, ...input },
+    update: { ...input, updatedAt: new Date() },
+  });
+
+  return input;
+}
+
+export function getPinnedPaces(settings: UserSettingsRecord): Partial<TrainingPaces> {
+  const pinned: Partial<TrainingPaces> = {};
+  for (const [pace, field] of Object.entries(PACE_OVERRIDE_FIELDS) as Array<
+    [keyof TrainingPaces, keyof UserSettingsRecord]
+  >) {
+    const value = settings[field];
+    if (typeof value === "number") {
+      pinned[pace] = value;
+    }
+  }
+
+  return pinned;
+}
+
+// Calculated paces with every pinned pace put back on top, so a sync never moves them.
+export function applyPaceOverrides(
+  paces: TrainingPaces,
+  settings: UserSettingsRecord,
+): TrainingPaces {
+  return { ...paces, ...getPinnedPaces(settings) };
+}
@@ -1,25 +1,208 @@
+// Jack Daniels' VDOT model (Daniels & Gilbert). A race performance gives the VO2 the runner
+// sustained and the share of VO2max a race of that duration allows; their ratio is VDOT. Training
+// paces are the speeds that cost a fixed share of VDOT, and equivalent race times invert the same
+// two curves.
+
+export type TrainingPaceRange = {
+  // Seconds per km; fast is the lower number.
+  fast: number;
+  slow: number;
+};
+
+export type TrainingPaceZones = {
+  easy: TrainingPaceRange;
+  marathon: TrainingPaceRange;
+  threshold: TrainingPaceRange;
+  interval: TrainingPaceRange;
+  repetition: TrainingPaceRange;
+};
+
+// Flat paces in the shape stored on UserRunningFitness.
 export type TrainingPaces = {
   easyPaceLow: number;
   easyPaceHigh: number;
+  longRunPace: number;
   tempoPace: number;
   thresholdPace: number;
   intervalPace: number;
   repetitionPace: number;
 };
 
-export function calculateTrainingPaces(predicted10kSeconds: number): TrainingPaces {
-  if (!Number.isFinite(predicted10kSeconds) || predicted10kSeconds <= 0) {
-    throw new Error("predicted10kSeconds must be a positive number.");
+export type EquivalentRaceTimes = {
+  predicted5kSeconds: number;
+  predicted10kSeconds: number;
+  predictedHalfSeconds: number;
+  predictedMarathonSeconds: number;
+};
+
+export type RaceTimes = {
+  predicted5kSeconds?: number | null;
+  predicted10kSeconds?: number | null;
+  predictedHalfSeconds?: number | null;
+  predictedMarathonSeconds?: number | null;
+};
+
+export const RACE_DISTANCES_METERS = {
+  predicted5kSeconds: 5000,
+  predicted10kSeconds: 10000,
+  predictedHalfSeconds: 21097.5,
+  predictedMarathonSeconds: 42195,
+} as const;
+
+// Share of VDOT each zone runs at. Midpoints reproduce the single paces in Daniels' Running Formula
+// tables (e.g. VDOT 50: M 4:31, T 4:15, I 3:55 per km).
+const ZONE_INTENSITY: Record<keyof TrainingPaceZones, { fast: number; slow: number }> = {
+  easy: { fast: 0.7, slow: 0.62 },
+  marathon: { fast: 0.84, slow: 0.79 },
+  threshold: { fast: 0.9, slow: 0.86 },
+  interval: { fast: 1.0, slow: 0.95 },
+  repetition: { fast: 1.1, slow: 1.02 },
+};
+
+// Long runs sit in the slower half of the easy range.
+const LONG_RUN_INTENSITY = 0.65;
+
+// Daniels' tables stop here; outside it the curves were never fitted.
+const MIN_RACE_MINUTES = 3.5;
+const MAX_RACE_MINUTES = 300;
+const MIN_VDOT = 20;
+const MAX_VDOT = 90;
+
+// Oxygen cost (ml/kg/min) of running at velocity in m/min.
+function oxygenCost(velocityMetersPerMinute: number): number {
+  return (
+    -4.6 +
+    0.182258 * velocityMetersPerMinute +
+    0.000104 * velocityMetersPerMinute * velocityMetersPerMinute
+  );
+}
+
+// Share of VO2max that can be sustained for a race lasting this many minutes.
+function sustainableFraction(minutes: number): number {
+  return (
+    0.8 +
+    0.1894393 * Math.exp(-0.012778 * minutes) +
+    0.2989558 * Math.exp(-0.1932605 * minutes)
+  );
+}
+
+// Inverse of oxygenCost: the velocity (m/min) that costs this much oxygen.
+function velocityForOxygenCost(vo2: number): number {
+  const a = 0.000104;
+  const b = 0.182258;
+  const c = -4.6 - vo2;
+  return (-b + Math.sqrt(b * b - 4 * a * c)) / (2 * a);
+}
+
+function paceForIntensity(vdot: number, intensity: number): number {
+  return Math.round(60000 / velocityForOxygenCost(vdot * intensity));
+}
+
+function assertVdot(vdot: number): void {
+  if (!Number.isFinite(vdot) || vdot <= 0) {
+    throw new Error("vdot must be a positive number.");
+  }
+}
+
+export function calculateVdot(distanceMeters: number, timeSeconds: number): number {
+  if (!Number.isFinite(distanceMeters) || distanceMeters <= 0) {
+    throw new Error("distanceMeters must be a positive number.");
+  }
+  if (!Number.isFinite(timeSeconds) || timeSeconds <= 0) {
+    throw new Error("timeSeconds must be a positive number.");
+  }
+
+  const minutes = timeSeconds / 60;
+  return oxygenCost(distanceMeters / minutes) / sustainableFraction(minutes);
+}
+
+export function isVdotRaceDuration(timeSeconds: number): boolean {
+  const minutes = timeSeconds / 60;
+  return minutes >= MIN_RACE_MINUTES && minutes <= MAX_RACE_MINUTES;
+}
+
+// Median VDOT over every usable time, so one optimistic prediction (typically the marathon for a
+// low-mileage runner) does not drag every pace with it. Null when no time is usable.
+export function calculateVdotFromRaceTimes(times: RaceTimes): number | null {
+  const vdots = (Object.keys(RACE_DISTANCES_METERS) as Array<keyof typeof RACE_DISTANCES_METERS>)
+    .flatMap((key) => {
+      const seconds = times[key];
+      return seconds && seconds > 0 && isVdotRaceDuration(seconds)
+        ? [calculateVdot(RACE_DISTANCES_METERS[key], seconds)]
+        : [];
+    })
+    .filter((vdot) => vdot >= MIN_VDOT && vdot <= MAX_VDOT)
+    .sort((a, b) => a - b);
+
+  if (vdots.length === 0) {
+    return null;
+  }
+
+  const middle = Math.floor(vdots.length / 2);
+  return vdots.length % 2 === 1 ? vdots[middle] : (vdots[middle - 1] + vdots[middle]) / 2;
+}
+
+export function calculateTrainingPaceZones(vdot: number): TrainingPaceZones {
+  assertVdot(vdot);
+
+  const zones = {} as TrainingPaceZones;
+  for (const zone of Object.keys(ZONE_INTENSITY) as Array<keyof TrainingPaceZones>) {
+    zones[zone] = {
+      fast: paceForIntensity(vdot, ZONE_INTENSITY[zone].fast),
+      slow: paceForIntensity(vdot, ZONE_INTENSITY[zone].slow),
+    };
   }
 
-  const base = predicted10kSeconds / 10;
+  return zones;
+}
+
+// Collapses the zones to the single paces stored on UserRunningFitness: easy keeps its range and
+// the others keep their midpoint. Marathon (M) pace is stored as tempoPace.
+export function calculateTrainingPaces(vdot: number): TrainingPaces {
+  const zones = calculateTrainingPaceZones(vdot);
+  const midpoint = (range: TrainingPaceRange) => Math.round((range.fast + range.slow) / 2);
+
+  return {
+    easyPaceLow: zones.easy.fast,
+    easyPaceHigh: zones.easy.slow,
+    longRunPace: paceForIntensity(vdot, LONG_RUN_INTENSITY),
+    tempoPace: midpoint(zones.marathon),
+    thresholdPace: midpoint(zones.threshold),
+    intervalPace: midpoint(zones.interval),
+    repetitionPace: midpoint(zones.repetition),
+  };
+}
+
+// Finish time at which calculateVdot(distance, time) equals vdot. VDOT falls as time grows, so a
+// bisection over the fitted range converges without needing a derivative.
+export function predictRaceTime(vdot: number, distanceMeters: number): number {
+  assertVdot(vdot);
+  if (!Number.isFinite(distanceMeters) || distanceMeters <= 0) {
+    throw new Error("distanceMeters must be a positive number.");
+  }
+
+  let fastSeconds = 60;
+  let slowSeconds = 24 * 3600;
+  for (let iteration = 0; iteration < 60; iteration += 1) {
+    const midSeconds = (fastSeconds + slowSeconds) / 2;
+    if (calculateVdot(distanceMeters, midSeconds) > vdot) {
+      fastSeconds = midSeconds;
+    } else {
+      slowSeconds = midSeconds;
+    }
+  }
+
+  return Math.round((fastSeconds + slowSeconds) / 2);
+}
 
+export function calculateEquivalentRaceTimes(vdot: number): EquivalentRaceTimes {
   return {
-    easyPaceLow: Math.floor(base * 1.24),
-    easyPaceHigh: Math.floor(base * 1.36),
-    tempoPace: Math.floor(base * 1.09),
-    thresholdPace: Math.floor(base * 1.03),
-    intervalPace: Math.floor(base * 0.95),
-    repetitionPace: Math.floor(base * 0.89),
+    predicted5kSeconds: predictRaceTime(vdot, RACE_DISTANCES_METERS.predicted5kSeconds),
+    predicted10kSeconds: predictRaceTime(vdot, RACE_DISTANCES_METERS.predicted10kSeconds),
+    predictedHalfSeconds: predictRaceTime(vdot, RACE_DISTANCES_METERS.predictedHalfSeconds),
+    predictedMarathonSeconds: predictRaceTime(
+      vdot,
+      RACE_DISTANCES_METERS.predictedMarathonSeconds,
+    ),
   };
 }
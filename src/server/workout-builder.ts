@@ -0,0 +1,737 @@
+import type { Prisma } from "../../prisma/generated/prisma/client";
+import {
+  DISTANCE_UNIT,
+  END_CONDITIONS,
+  SPORT_TYPE_RUNNING,
+  STEP_TYPES,
+  TARGET_TYPES,
+  WORKOUT_TYPE_OPTIONS,
+  type GarminStepTypeKey,
+  type GarminWorkoutJson,
+  type GarminWorkoutStep,
+  type WorkoutType,
+} from "@/lib/constants";
+import { prisma } from "@/lib/prisma";
+
+// Named paces; each maps onto one of the user's stored training paces.
+export type WorkoutPace =
+  | "easy"
+  | "long"
+  | "tempo"
+  | "threshold"
+  | "interval"
+  | "repetition"
+  | "recovery";
+
+// Slow and fast end of a pace window, in seconds per km.
+export type PaceRange = { slow: number; fast: number };
+
+// A named pace shifted by whole seconds per km, e.g. easy pace + 15s; positive is slower.
+export type RelativePace = { pace: WorkoutPace; offsetSeconds: number };
+
+export type PaceSpec = WorkoutPace | RelativePace | PaceRange;
+
+export type WorkoutStepSpec =
+  | {
+      kind: "step";
+      stepType: GarminStepTypeKey;
+      distanceMeters: number | null;
+      durationSeconds: number | null;
+      pace: PaceSpec | null;
+    }
+  | { kind: "repeat"; iterations: number; steps: WorkoutStepSpec[] };
+
+export type WorkoutDefinition = {
+  name: string;
+  description?: string | null;
+  steps: WorkoutStepSpec[];
+};
+
+export type PaceTargets = Partial<Record<WorkoutPace, PaceRange>>;
+
+export type StoredPaces = {
+  easyPaceLow: number | null;
+  easyPaceHigh: number | null;
+  longRunPace: number | null;
+  tempoPace: number | null;
+  thresholdPace: number | null;
+  intervalPace: number | null;
+  repetitionPace: number | null;
+};
+
+export type BuiltWorkout = {
+  workout: GarminWorkoutJson;
+  distanceKm: number;
+  durationMinutes: number;
+};
+
+export type WorkoutDslResult =
+  | { success: true; steps: WorkoutStepSpec[] }
+  | { success: false; message: string };
+
+export type BuildWorkoutInput = {
+  workoutType: WorkoutType;
+  title: string;
+  description: string | null;
+  definition: string;
+  steps: WorkoutStepSpec[];
+};
+
+export type BuildWorkoutValidation =
+  | { success: true; input: BuildWorkoutInput }
+  | { success: false; message: string };
+
+export type BuildWorkoutResult =
+  | { success: true; workoutId: number; workout: GarminWorkoutJson }
+  | { success: false; message: string; status: number };
+
+export const WORKOUT_PACES: WorkoutPace[] = [
+  "easy",
+  "long",
+  "tempo",
+  "threshold",
+  "interval",
+  "repetition",
+  "recovery",
+];
+
+const BUILDER_STEP_TYPES: GarminStepTypeKey[] = [
+  "warmup",
+  "interval",
+  "recovery",
+  "cooldown",
+  "rest",
+];
+
+// Short forms accepted after "@" in the text syntax, next to the full pace names.
+const PACE_ALIASES: Record<string, WorkoutPace> = {
+  e: "easy",
+  l: "long",
+  t: "threshold",
+  i: "interval",
+  r: "repetition",
+  rep: "repetition",
+  rec: "recovery",
+};
+
+const STEP_TYPE_ALIASES: Record<string, GarminStepTypeKey> = {
+  wu: "warmup",
+  warmup: "warmup",
+  "warm-up": "warmup",
+  cd: "cooldown",
+  cooldown: "cooldown",
+  "cool-down": "cooldown",
+  run: "interval",
+  int: "interval",
+  interval: "interval",
+  jog: "recovery",
+  rec: "recovery",
+  recovery: "recovery",
+  rest: "rest",
+};
+
+const DEFAULT_PACE_SECONDS_PER_KM = 360;
+const MAX_STEPS = 50;
+const MAX_REPEAT_ITERATIONS = 50;
+const MAX_STEP_DISTANCE_METERS = 100_000;
+const MAX_STEP_DURATION_SECONDS = 6 * 3600;
+const MIN_PACE_SECONDS_PER_KM = 120;
+const MAX_PACE_SECONDS_PER_KM = 900;
+const MAX_PACE_OFFSET_SECONDS = 120;
+const MAX_TITLE_LENGTH = 80;
+const MAX_DEFINITION_LENGTH = 2000;
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+function asObject(value: unknown): Record<string, unknown> | null {
+  if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+    return value as Record<string, unknown>;
+  }
+
+  return null;
+}
+
+function isWorkoutType(value: unknown): value is WorkoutType {
+  return WORKOUT_TYPE_OPTIONS.some((option) => option.value === value);
+}
+
+export function isWorkoutPace(value: unknown): value is WorkoutPace {
+  return WORKOUT_PACES.includes(value as WorkoutPace);
+}
+
+export function isBuilderStepType(value: unknown): value is GarminStepTypeKey {
+  return BUILDER_STEP_TYPES.includes(value as GarminStepTypeKey);
+}
+
+export function distanceStep(
+  stepType: GarminStepTypeKey,
+  distanceMeters: number,
+  pace: PaceSpec | null = null,
+): WorkoutStepSpec {
+  return { kind: "step", stepType, distanceMeters, durationSeconds: null, pace };
+}
+
+export function timeStep(
+  stepType: GarminStepTypeKey,
+  durationSeconds: number,
+  pace: PaceSpec | null = null,
+): WorkoutStepSpec {
+  return { kind: "step", stepType, distanceMeters: null, durationSeconds, pace };
+}
+
+export function repeat(iterations: number, steps: WorkoutStepSpec[]): WorkoutStepSpec {
+  return { kind: "repeat", iterations, steps };
+}
+
+export function buildPaceTargets(paces: StoredPaces | null): PaceTargets {
+  const targets: PaceTargets = {};
+  if (!paces) {
+    return targets;
+  }
+
+  // Single paces get the same 15-second window the workout prompt asks for.
+  const around = (pace: number | null) => (pace ? { slow: pace + 10, fast: pace - 5 } : undefined);
+
+  if (paces.easyPaceLow && paces.easyPaceHigh) {
+    targets.easy = { slow: paces.easyPaceHigh, fast: paces.easyPaceLow };
+    targets.recovery = { slow: paces.easyPaceHigh + 30, fast: paces.easyPaceHigh };
+  }
+  targets.long = around(paces.longRunPace);
+  // tempoPace holds the middle of the Daniels marathon (M) range, so `tempo` steps run at M pace.
+  targets.tempo = around(paces.tempoPace);
+  targets.threshold = around(paces.thresholdPace);
+  targets.interval = around(paces.intervalPace);
+  targets.repetition = around(paces.repetitionPace);
+
+  return targets;
+}
+
+// Stored paces already include any pinned overrides.
+export async function loadPaceTargets(userId: number): Promise<PaceTargets> {
+  const paces = await prisma.userRunningFitness.findUnique({
+    where: { userId },
+    select: {
+      easyPaceLow: true,
+      easyPaceHigh: true,
+      longRunPace: true,
+      tempoPace: true,
+      thresholdPace: true,
+      intervalPace: true,
+      repetitionPace: true,
+    },
+  });
+
+  return buildPaceTargets(paces);
+}
+
+function formatPace(paceSecondsPerKm: number): string {
+  const rounded = Math.round(paceSecondsPerKm);
+  return `${Math.floor(rounded / 60)}:${String(rounded % 60).padStart(2, "0")}`;
+}
+
+function resolveTarget(
+  pace: PaceSpec | null,
+  targets: PaceTargets,
+): PaceRange | undefined {
+  if (!pace) {
+    return undefined;
+  }
+
+  if (typeof pace === "string") {
+    return targets[pace];
+  }
+
+  if ("pace" in pace) {
+    const target = targets[pace.pace];
+    return target
+      ? { slow: target.slow + pace.offsetSeconds, fast: target.fast + pace.offsetSeconds }
+      : undefined;
+  }
+
+  return pace;
+}
+
+function namedPace(pace: PaceSpec | null): WorkoutPace | null {
+  if (!pace) {
+    return null;
+  }
+
+  if (typeof pace === "string") {
+    return pace;
+  }
+
+  return "pace" in pace ? pace.pace : null;
+}
+
+function describeStep(
+  step: Extract<WorkoutStepSpec, { kind: "step" }>,
+  target: PaceRange | undefined,
+): string {
+  const amount =
+    step.distanceMeters !== null
+      ? step.distanceMeters >= 1000
+        ? `${Number((step.distanceMeters / 1000).toFixed(2))} km`
+        : `${step.distanceMeters} m`
+      : `${Number(((step.durationSeconds ?? 0) / 60).toFixed(1))} min`;
+
+  if (!step.pace) {
+    return amount;
+  }
+
+  const range = target ? `${formatPace(target.fast)}-${formatPace(target.slow)}/km` : "";
+  const name = namedPace(step.pace);
+  if (!name) {
+    return `${amount} at ${range}`;
+  }
+
+  const offset =
+    typeof step.pace !== "string" && "pace" in step.pace && step.pace.offsetSeconds !== 0
+      ? ` ${step.pace.offsetSeconds > 0 ? "+" : "-"}${Math.abs(step.pace.offsetSeconds)}s`
+      : "";
+  return `${amount} at ${name} pace${offset}${range ? ` (${range})` : ""}`;
+}
+
+function toSpeed(paceSecondsPerKm: number): number {
+  return Number((1000 / paceSecondsPerKm).toFixed(3));
+}
+
+function toGarminStep(
+  step: WorkoutStepSpec,
+  stepOrder: number,
+  targets: PaceTargets,
+): { garminStep: GarminWorkoutStep; distanceMeters: number; durationSeconds: number } {
+  if (step.kind === "repeat") {
+    let distanceMeters = 0;
+    let durationSeconds = 0;
+    const workoutSteps = step.steps.map((nested, index) => {
+      const built = toGarminStep(nested, index + 1, targets);
+      distanceMeters += built.distanceMeters;
+      durationSeconds += built.durationSeconds;
+      return built.garminStep;
+    });
+
+    return {
+      garminStep: {
+        type: "RepeatGroupDTO",
+        stepOrder,
+        numberOfIterations: step.iterations,
+        smartRepeat: false,
+        endCondition: END_CONDITIONS.iterations,
+        endConditionValue: step.iterations,
+        workoutSteps,
+      },
+      distanceMeters: distanceMeters * step.iterations,
+      durationSeconds: durationSeconds * step.iterations,
+    };
+  }
+
+  const target = resolveTarget(step.pace, targets);
+  const paceSeconds = target ? (target.slow + target.fast) / 2 : DEFAULT_PACE_SECONDS_PER_KM;
+  const distanceMeters =
+    step.distanceMeters ?? ((step.durationSeconds ?? 0) / paceSeconds) * 1000;
+  const durationSeconds = step.durationSeconds ?? ((step.distanceMeters ?? 0) / 1000) * paceSeconds;
+
+  const garminStep: GarminWorkoutStep = {
+    type: "ExecutableStepDTO",
+    stepOrder,
+    stepType: STEP_TYPES[step.stepType],
+    description: describeStep(step, target),
+    ...(step.distanceMeters !== null
+      ? {
+          endCondition: END_CONDITIONS.distance,
+          endConditionValue: step.distanceMeters,
+          preferredEndConditionUnit: DISTANCE_UNIT,
+        }
+      : { endCondition: END_CONDITIONS.time, endConditionValue: step.durationSeconds ?? 0 }),
+    ...(target
+      ? {
+          targetType: TARGET_TYPES.pace_zone,
+          targetValueOne: toSpeed(target.slow),
+          targetValueTwo: toSpeed(target.fast),
+        }
+      : { targetType: TARGET_TYPES.no_target }),
+  };
+
+  return { garminStep, distanceMeters, durationSeconds };
+}
+
+// Turns step specs into Garmin JSON. Named paces the user has no stored value for end up without a
+// target, and their estimates use a default pace.
+export function buildWorkout(definition: WorkoutDefinition, targets: PaceTargets): BuiltWorkout {
+  let distanceMeters = 0;
+  let durationSeconds = 0;
+  const workoutSteps = definition.steps.map((step, index) => {
+    const built = toGarminStep(step, index + 1, targets);
+    distanceMeters += built.distanceMeters;
+    durationSeconds += built.durationSeconds;
+    return built.garminStep;
+  });
+
+  return {
+    workout: {
+      workoutName: definition.name,
+      description: definition.description ?? undefined,
+      sportType: SPORT_TYPE_RUNNING,
+      estimatedDurationInSecs: Math.round(durationSeconds),
+      estimatedDistanceInMeters: Math.round(distanceMeters),
+      workoutSegments: [{ segmentOrder: 1, sportType: SPORT_TYPE_RUNNING, workoutSteps }],
+    },
+    distanceKm: Number((distanceMeters / 1000).toFixed(2)),
+    durationMinutes: Math.max(1, Math.round(durationSeconds / 60)),
+  };
+}
+
+// Splits on ";" or "," outside parentheses. Returns null when the parentheses do not balance.
+function splitTopLevel(text: string): string[] | null {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+
+  for (const char of text) {
+    if (char === "(") {
+      depth += 1;
+    } else if (char === ")") {
+      depth -= 1;
+      if (depth < 0) {
+        return null;
+      }
+    }
+
+    if ((char === ";" || char === ",") && depth === 0) {
+      parts.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+
+  if (depth !== 0) {
+    return null;
+  }
+
+  parts.push(current.trim());
+  return parts.filter((part) => part !== "");
+}
+
+function parsePaceValue(value: string): number | null {
+  const match = value.match(/^(\d{1,2}):([0-5]\d)$/);
+  if (!match) {
+    return null;
+  }
+
+  const seconds = Number(match[1]) * 60 + Number(match[2]);
+  return seconds >= MIN_PACE_SECONDS_PER_KM && seconds <= MAX_PACE_SECONDS_PER_KM
+    ? seconds
+    : null;
+}
+
+function parseNamedPace(value: string): WorkoutPace | null {
+  if (isWorkoutPace(value)) {
+    return value;
+  }
+
+  return PACE_ALIASES[value] ?? null;
+}
+
+// "@E", "@threshold", "@E+15" (15 s/km slower than easy), "@4:30" (a 10-second window around it)
+// or "@4:20-4:35".
+function parsePaceToken(token: string): PaceSpec | null {
+  const value = token.slice(1).toLowerCase();
+  const named = parseNamedPace(value);
+  if (named) {
+    return named;
+  }
+
+  const relative = value.match(/^([a-z]+)([+-]\d{1,3})s?$/);
+  if (relative) {
+    const pace = parseNamedPace(relative[1]);
+    const offsetSeconds = Number(relative[2]);
+    if (!pace || Math.abs(offsetSeconds) > MAX_PACE_OFFSET_SECONDS) {
+      return null;
+    }
+
+    return offsetSeconds === 0 ? pace : { pace, offsetSeconds };
+  }
+
+  const [first, second, ...rest] = value.split("-");
+  const firstPace = parsePaceValue(first);
+  if (firstPace === null || rest.length > 0) {
+    return null;
+  }
+
+  if (second === undefined) {
+    return { slow: firstPace + 5, fast: firstPace - 5 };
+  }
+
+  const secondPace = parsePaceValue(second);
+  if (secondPace === null) {
+    return null;
+  }
+
+  return { slow: Math.max(firstPace, secondPace), fast: Math.min(firstPace, secondPace) };
+}
+
+// "2km", "800m", "1.5k", "10min", "90s", "1h" or "4:00" (minutes and seconds).
+function parseAmount(
+  token: string,
+): { distanceMeters: number | null; durationSeconds: number | null } | null {
+  const clock = token.match(/^(\d{1,3}):([0-5]\d)$/);
+  if (clock) {
+    return { distanceMeters: null, durationSeconds: Number(clock[1]) * 60 + Number(clock[2]) };
+  }
+
+  const match = token.toLowerCase().match(/^(\d+(?:\.\d+)?)(km|k|m|min|s|sec|h)$/);
+  if (!match) {
+    return null;
+  }
+
+  const value = Number(match[1]);
+  switch (match[2]) {
+    case "km":
+    case "k":
+      return { distanceMeters: Math.round(value * 1000), durationSeconds: null };
+    case "m":
+      return { distanceMeters: Math.round(value), durationSeconds: null };
+    case "h":
+      return { distanceMeters: null, durationSeconds: Math.round(value * 3600) };
+    case "min":
+      return { distanceMeters: null, durationSeconds: Math.round(value * 60) };
+    default:
+      return { distanceMeters: null, durationSeconds: Math.round(value) };
+  }
+}
+
+function parseDslStep(text: string): WorkoutStepSpec | string {
+  // "2 km" and "2km" are the same amount.
+  const tokens = text
+    .replace(/^(\d+(?:\.\d+)?)\s+(km|k|m|min|s|sec|h)\b/i, "$1$2")
+    .split(/\s+/);
+
+  const amount = parseAmount(tokens[0]);
+  if (!amount) {
+    return `"${text}" must start with a distance (2km, 800m) or a duration (10min, 90s, 4:00).`;
+  }
+
+  if (
+    (amount.distanceMeters !== null &&
+      (amount.distanceMeters <= 0 || amount.distanceMeters > MAX_STEP_DISTANCE_METERS)) ||
+    (amount.durationSeconds !== null &&
+      (amount.durationSeconds <= 0 || amount.durationSeconds > MAX_STEP_DURATION_SECONDS))
+  ) {
+    return `"${text}" has a distance or duration out of range.`;
+  }
+
+  let stepType: GarminStepTypeKey | null = null;
+  let pace: PaceSpec | null = null;
+  for (const token of tokens.slice(1)) {
+    if (token.startsWith("@")) {
+      const parsed = parsePaceToken(token);
+      if (!parsed || pace) {
+        return `"${text}" has an unknown or repeated pace "${token}".`;
+      }
+      pace = parsed;
+      continue;
+    }
+
+    const alias = STEP_TYPE_ALIASES[token.toLowerCase()];
+    if (!alias || stepType) {
+      return `"${text}" has an unknown or repeated step type "${token}".`;
+    }
+    stepType = alias;
+  }
+
+  return {
+    kind: "step",
+    stepType: stepType ?? "interval",
+    ...amount,
+    pace,
+  };
+}
+
+// Compiles the builder's text syntax, e.g. "2km WU @E; 6x(800m @I, 400m jog); 1.5km CD", into
+// step specs. Steps are separated by ";" or ","; "Nx(...)" or "Nx step" repeats; a step is an
+// amount, an optional step type (WU, CD, jog, rest...) and an optional "@pace".
+export function parseWorkoutDsl(text: string): WorkoutDslResult {
+  const items = splitTopLevel(text.replace(/\s+/g, " "));
+  if (!items) {
+    return { success: false, message: "Parentheses in the workout do not match." };
+  }
+
+  if (items.length === 0) {
+    return { success: false, message: "The workout has no steps." };
+  }
+
+  const steps: WorkoutStepSpec[] = [];
+  let stepCount = 0;
+  for (const item of items) {
+    const repeatMatch = item.match(/^(\d+)\s*x\s*(?:\((.*)\)|(.+))$/i);
+    if (repeatMatch) {
+      const iterations = Number(repeatMatch[1]);
+      if (iterations < 1 || iterations > MAX_REPEAT_ITERATIONS) {
+        return {
+          success: false,
+          message: `"${item}" must repeat between 1 and ${MAX_REPEAT_ITERATIONS} times.`,
+        };
+      }
+
+      const inner = repeatMatch[2] !== undefined ? splitTopLevel(repeatMatch[2]) : [repeatMatch[3]];
+      if (!inner || inner.length === 0) {
+        return { success: false, message: `"${item}" has no steps to repeat.` };
+      }
+
+      const nested: WorkoutStepSpec[] = [];
+      for (const nestedItem of inner) {
+        if (nestedItem.includes("(")) {
+          return {
+            success: false,
+            message: `"${item}" nests a repeat, which Garmin does not allow.`,
+          };
+        }
+
+        const step = parseDslStep(nestedItem);
+        if (typeof step === "string") {
+          return { success: false, message: step };
+        }
+        nested.push(step);
+      }
+
+      stepCount += nested.length;
+      steps.push(repeat(iterations, nested));
+      continue;
+    }
+
+    const step = parseDslStep(item);
+    if (typeof step === "string") {
+      return { success: false, message: step };
+    }
+
+    stepCount += 1;
+    steps.push(step);
+  }
+
+  if (stepCount > MAX_STEPS) {
+    return { success: false, message: `A workout can have at most ${MAX_STEPS} steps.` };
+  }
+
+  return { success: true, steps };
+}
+
+function collectNamedPaces(steps: WorkoutStepSpec[]): Set<WorkoutPace> {
+  const paces = new Set<WorkoutPace>();
+  for (const step of steps) {
+    if (step.kind === "repeat") {
+      collectNamedPaces(step.steps).forEach((pace) => paces.add(pace));
+    } else {
+      const pace = namedPace(step.pace);
+      if (pace) {
+        paces.add(pace);
+      }
+    }
+  }
+
+  return paces;
+}
+
+export function validateBuildWorkoutInput(body: unknown): BuildWorkoutValidation {
+  const payload = asObject(body);
+  if (!payload) {
+    return { success: false, message: "Invalid request payload." };
+  }
+
+  if (!isWorkoutType(payload.workoutType)) {
+    return {
+      success: false,
+      message: "workoutType must be one of: easy, tempo, interval, long-run, recovery.",
+    };
+  }
+
+  if (typeof payload.definition !== "string" || payload.definition.trim() === "") {
+    return { success: false, message: "definition is required." };
+  }
+
+  const definition = payload.definition.trim();
+  if (definition.length > MAX_DEFINITION_LENGTH) {
+    return {
+      success: false,
+      message: `definition must be at most ${MAX_DEFINITION_LENGTH} characters.`,
+    };
+  }
+
+  if (payload.title !== undefined && typeof payload.title !== "string") {
+    return { success: false, message: "title must be a string when provided." };
+  }
+
+  const title = payload.title?.trim() || `${payload.workoutType} workout`;
+  if (title.length > MAX_TITLE_LENGTH) {
+    return { success: false, message: `title must be at most ${MAX_TITLE_LENGTH} characters.` };
+  }
+
+  if (payload.description !== undefined && typeof payload.description !== "string") {
+    return { success: false, message: "description must be a string when provided." };
+  }
+
+  const description = payload.description?.trim() || null;
+  if (description && description.length > MAX_DESCRIPTION_LENGTH) {
+    return {
+      success: false,
+      message: `description must be at most ${MAX_DESCRIPTION_LENGTH} characters.`,
+    };
+  }
+
+  const parsed = parseWorkoutDsl(definition);
+  if (!parsed.success) {
+    return { success: false, message: parsed.message };
+  }
+
+  return {
+    success: true,
+    input: {
+      workoutType: payload.workoutType,
+      title,
+      description,
+      definition,
+      steps: parsed.steps,
+    },
+  };
+}
+
+// Compiles the workout with the user's paces and saves it as a generated workout, so it goes
+// through the same accept/reject flow as an AI workout.
+export async function createBuiltWorkout(
+  userId: number,
+  input: BuildWorkoutInput,
+): Promise<BuildWorkoutResult> {
+  const targets = await loadPaceTargets(userId);
+
+  const missing = [...collectNamedPaces(input.steps)].filter((pace) => !targets[pace]);
+  if (missing.length > 0) {
+    return {
+      success: false,
+      message:
+        `No stored ${missing.join(", ")} pace yet. Sync Garmin or pin paces in settings, ` +
+        "or use an explicit pace such as @4:30.",
+      status: 400,
+    };
+  }
+
+  const built = buildWorkout(
+    { name: input.title, description: input.description, steps: input.steps },
+    targets,
+  );
+
+  const workout = await prisma.workout.create({
+    data: {
+      userId,
+      workoutType: input.workoutType,
+      title: input.title,
+      aiDescription: input.description,
+      workoutJson: built.workout as Prisma.InputJsonValue,
+      totalDistanceKm: built.distanceKm,
+      estimatedDurationMinutes: built.durationMinutes,
+      userPrompt: input.definition,
+      status: "generated",
+    },
+    select: { id: true },
+  });
+
+  return { success: true, workoutId: workout.id, workout: built.workout };
+}
@@ -0,0 +1,335 @@
+import { prisma } from "@/lib/prisma";
+import { scheduleWorkoutOnGarmin, unscheduleWorkoutOnGarmin } from "@/server/sync";
+
+export const CALENDAR_VIEWS = ["week", "month"] as const;
+
+export type CalendarView = (typeof CALENDAR_VIEWS)[number];
+
+export type CalendarRange = {
+  view: CalendarView;
+  anchorDate: string;
+  startDate: string;
+  endDate: string;
+};
+
+export type CalendarWorkoutRecord = {
+  id: number;
+  title: string;
+  workoutType: string;
+  status: string;
+  scheduledDate: string | null;
+  totalDistanceKm: number | null;
+  estimatedDurationMinutes: number | null;
+};
+
+export type CalendarActivityRecord = {
+  id: number;
+  activityName: string | null;
+  sportCategory: string | null;
+  date: string;
+  distanceMeters: number | null;
+  durationSeconds: number | null;
+};
+
+export type CalendarWeekSummary = {
+  weekStart: string;
+  plannedDistanceKm: number;
+  completedDistanceKm: number;
+};
+
+export type CalendarData = {
+  workouts: CalendarWorkoutRecord[];
+  unscheduledWorkouts: CalendarWorkoutRecord[];
+  activities: CalendarActivityRecord[];
+  weeks: CalendarWeekSummary[];
+};
+
+export type WorkoutScheduleValidation =
+  | { success: true; scheduledDate: Date }
+  | { success: false; message: string };
+
+export type WorkoutScheduleResult =
+  | {
+      success: true;
+      workoutId: number;
+      scheduledDate: string | null;
+      // Set when the local date changed but Garmin's calendar could not follow.
+      garminWarning: string | null;
+    }
+  | { success: false; message: string; status: number };
+
+type GarminScheduledWorkout = {
+  id: number;
+  garminWorkoutId: bigint | null;
+  garminScheduleId: bigint | null;
+};
+
+// Rejected workouts are kept for history but never planned.
+const UNPLANNED_STATUSES = ["rejected"];
+
+const MAX_UNSCHEDULED_WORKOUTS = 20;
+
+const CALENDAR_WORKOUT_SELECT = {
+  id: true,
+  title: true,
+  workoutType: true,
+  status: true,
+  scheduledDate: true,
+  totalDistanceKm: true,
+  estimatedDurationMinutes: true,
+} as const;
+
+function asObject(value: unknown): Record<string, unknown> | null {
+  if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+    return value as Record<string, unknown>;
+  }
+
+  return null;
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function parseDateOnly(value: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return null;
+  }
+
+  const parsed = new Date(`${value}T00:00:00.000Z`);
+  return Number.isNaN(parsed.getTime()) || formatDate(parsed) !== value ? null : parsed;
+}
+
+function addDays(date: Date, days: number): Date {
+  const next = new Date(date);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next;
+}
+
+function todayUtc(): Date {
+  return new Date(`${formatDate(new Date())}T00:00:00.000Z`);
+}
+
+// Weeks start on Monday, like training plans.
+function startOfWeek(date: Date): Date {
+  return addDays(date, -((date.getUTCDay() + 6) % 7));
+}
+
+function roundDistance(km: number): number {
+  return Number(km.toFixed(1));
+}
+
+export function isCalendarView(value: string): value is CalendarView {
+  return CALENDAR_VIEWS.includes(value as CalendarView);
+}
+
+// Whole weeks covering the anchor's week, or every week that touches the anchor's month.
+export function resolveCalendarRange(
+  view: string | undefined,
+  anchor: string | undefined,
+): CalendarRange {
+  const resolvedView: CalendarView = view && isCalendarView(view) ? view : "week";
+  const anchorDate = (anchor ? parseDateOnly(anchor) : null) ?? todayUtc();
+
+  if (resolvedView === "week") {
+    const start = startOfWeek(anchorDate);
+    return {
+      view: resolvedView,
+      anchorDate: formatDate(anchorDate),
+      startDate: formatDate(start),
+      endDate: formatDate(addDays(start, 6)),
+    };
+  }
+
+  const monthStart = new Date(Date.UTC(anchorDate.getUTCFullYear(), anchorDate.getUTCMonth(), 1));
+  const monthEnd = new Date(Date.UTC(anchorDate.getUTCFullYear(), anchorDate.getUTCMonth() + 1, 0));
+
+  return {
+    view: resolvedView,
+    anchorDate: formatDate(anchorDate),
+    startDate: formatDate(startOfWeek(monthStart)),
+    endDate: formatDate(addDays(startOfWeek(monthEnd), 6)),
+  };
+}
+
+export async function getCalendarData(
+  userId: number,
+  range: CalendarRange,
+): Promise<CalendarData> {
+  const start = new Date(`${range.startDate}T00:00:00.000Z`);
+  const endExclusive = addDays(new Date(`${range.endDate}T00:00:00.000Z`), 1);
+
+  const [workoutsRaw, unscheduledRaw, activitiesRaw] = await Promise.all([
+    prisma.workout.findMany({
+      where: {
+        userId,
+        status: { notIn: UNPLANNED_STATUSES },
+        scheduledDate: { gte: start, lt: endExclusive },
+      },
+      orderBy: [{ scheduledDate: "asc" }, { id: "asc" }],
+      select: CALENDAR_WORKOUT_SELECT,
+    }),
+    prisma.workout.findMany({
+      where: { userId, status: { notIn: UNPLANNED_STATUSES }, scheduledDate: null },
+      orderBy: { createdAt: "desc" },
+      take: MAX_UNSCHEDULED_WORKOUTS,
+      select: CALENDAR_WORKOUT_SELECT,
+    }),
+    prisma.activity.findMany({
+      where: { userId, activityDate: { gte: start, lt: endExclusive } },
+      orderBy: { activityDate: "asc" },
+      select: {
+        id: true,
+        activityName: true,
+        sportCategory: true,
+        activityDate: true,
+        distanceMeters: true,
+        durationSeconds: true,
+      },
+    }),
+  ]);
+
+  const toWorkoutRecord = (workout: (typeof workoutsRaw)[number]): CalendarWorkoutRecord => ({
+    ...workout,
+    scheduledDate: workout.scheduledDate ? formatDate(workout.scheduledDate) : null,
+  });
+
+  const workouts = workoutsRaw.map(toWorkoutRecord);
+  const activities = activitiesRaw.flatMap(({ activityDate, ...activity }) =>
+    activityDate ? [{ ...activity, date: formatDate(activityDate) }] : [],
+  );
+
+  const weeks: CalendarWeekSummary[] = [];
+  for (let weekStart = start; weekStart < endExclusive; weekStart = addDays(weekStart, 7)) {
+    const from = formatDate(weekStart);
+    const to = formatDate(addDays(weekStart, 6));
+    const inWeek = (date: string | null) => date !== null && date >= from && date <= to;
+
+    // Planned workouts are runs, so only running activities count as done.
+    const completedMeters = activities
+      .filter((activity) => activity.sportCategory === "running" && inWeek(activity.date))
+      .reduce((total, activity) => total + (activity.distanceMeters ?? 0), 0);
+    const plannedKm = workouts
+      .filter((workout) => inWeek(workout.scheduledDate))
+      .reduce((total, workout) => total + (workout.totalDistanceKm ?? 0), 0);
+
+    weeks.push({
+      weekStart: from,
+      plannedDistanceKm: roundDistance(plannedKm),
+      completedDistanceKm: roundDistance(completedMeters / 1000),
+    });
+  }
+
+  return {
+    workouts,
+    unscheduledWorkouts: unscheduledRaw.map(toWorkoutRecord),
+    activities,
+    weeks,
+  };
+}
+
+export function validateScheduleInput(body: unknown): WorkoutScheduleValidation {
+  const payload = asObject(body);
+  if (!payload) {
+    return { success: false, message: "Invalid request payload." };
+  }
+
+  const scheduledDate =
+    typeof payload.scheduledDate === "string" ? parseDateOnly(payload.scheduledDate) : null;
+  if (!scheduledDate) {
+    return { success: false, message: "scheduledDate must be a date in YYYY-MM-DD format." };
+  }
+
+  return { success: true, scheduledDate };
+}
+
+// Moves an uploaded workout's Garmin calendar entry to scheduledDate, or removes it for null.
+// Returns a warning instead of failing: the workout's own date is the source of truth.
+export async function updateGarminSchedule(
+  userId: number,
+  workout: GarminScheduledWorkout,
+  scheduledDate: string | null,
+): Promise<string | null> {
+  if (workout.garminWorkoutId === null) {
+    return null;
+  }
+
+  let garminScheduleId = workout.garminScheduleId;
+  let warning: string | null = null;
+
+  // The new entry goes in before the old one comes out, so a failure never leaves no entry.
+  if (scheduledDate) {
+    const scheduled = await scheduleWorkoutOnGarmin(
+      userId,
+      workout.garminWorkoutId.toString(),
+      scheduledDate,
+    );
+    if (!scheduled.success) {
+      return `The Garmin calendar was not updated: ${scheduled.message}`;
+    }
+    // Without an id the new entry can never be moved or removed from here, so the old entry and
+    // its stored id stay as they are rather than losing track of both.
+    if (scheduled.scheduleId === undefined) {
+      return (
+        "Garmin added the workout on the new date but did not return the calendar entry's id. " +
+        "Remove the duplicate entry in Garmin Connect."
+      );
+    }
+    garminScheduleId = BigInt(Math.trunc(scheduled.scheduleId));
+  }
+
+  if (workout.garminScheduleId !== null) {
+    const removed = await unscheduleWorkoutOnGarmin(userId, workout.garminScheduleId.toString());
+    if (!removed.success) {
+      warning = `The old Garmin calendar entry could not be removed: ${removed.message}`;
+    } else if (!scheduledDate) {
+      garminScheduleId = null;
+    }
+  }
+
+  if (garminScheduleId !== workout.garminScheduleId) {
+    await prisma.workout.update({
+      where: { id: workout.id },
+      data: { garminScheduleId },
+    });
+  }
+
+  return warning;
+}
+
+// Pass null to take the workout off the calendar.
+export async function setWorkoutSchedule(
+  userId: number,
+  workoutId: number,
+  scheduledDate: Date | null,
+): Promise<WorkoutScheduleResult> {
+  const workout = await prisma.workout.findFirst({
+    where: { id: workoutId, userId },
+    select: {
+      id: true,
+      status: true,
+      scheduledDate: true,
+      garminWorkoutId: true,
+      garminScheduleId: true,
+    },
+  });
+  if (!workout) {
+    return { success: false, message: "Workout not found.", status: 404 };
+  }
+  if (scheduledDate && UNPLANNED_STATUSES.includes(workout.status)) {
+    return { success: false, message: "Rejected workouts cannot be scheduled.", status: 400 };
+  }
+
+  const nextDate = scheduledDate ? formatDate(scheduledDate) : null;
+  const previousDate = workout.scheduledDate ? formatDate(workout.scheduledDate) : null;
+
+  await prisma.workout.update({
+    where: { id: workout.id },
+    data: { scheduledDate },
+  });
+
+  const garminWarning =
+    nextDate !== previousDate ? await updateGarminSchedule(userId, workout, nextDate) : null;
+
+  return { success: true, workoutId: workout.id, scheduledDate: nextDate, garminWarning };
+}
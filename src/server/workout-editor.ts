@@ -0,0 +1,182 @@
+import type { Prisma } from "../../prisma/generated/prisma/client";
+import type { GarminWorkoutJson } from "@/lib/constants";
+import { prisma } from "@/lib/prisma";
+import {
+  validateGarminWorkout,
+  WorkoutValidationError,
+  type WorkoutValidationIssue,
+} from "@/server/workout-validator";
+
+export type WorkoutEditValidation =
+  | { success: true; workoutJson: unknown }
+  | { success: false; message: string };
+
+export type WorkoutEditResult =
+  | {
+      success: true;
+      workout: GarminWorkoutJson;
+      version: number;
+      totalDistanceKm: number | null;
+      estimatedDurationMinutes: number | null;
+    }
+  | { success: false; message: string; status: number; errors?: WorkoutValidationIssue[] };
+
+export type WorkoutVersionRecord = {
+  version: number;
+  workoutJson: unknown;
+  totalDistanceKm: number | null;
+  estimatedDurationMinutes: number | null;
+  createdAt: Date;
+};
+
+const MAX_LISTED_VERSIONS = 20;
+
+function asObject(value: unknown): Record<string, unknown> | null {
+  if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+    return value as Record<string, unknown>;
+  }
+
+  return null;
+}
+
+function getDistanceKm(workout: GarminWorkoutJson): number | null {
+  const distanceMeters = workout.estimatedDistanceInMeters;
+  if (typeof distanceMeters !== "number" || distanceMeters <= 0) {
+    return null;
+  }
+
+  return Number((distanceMeters / 1000).toFixed(2));
+}
+
+function getDurationMinutes(workout: GarminWorkoutJson): number | null {
+  const durationSeconds = workout.estimatedDurationInSecs;
+  if (typeof durationSeconds !== "number" || durationSeconds <= 0) {
+    return null;
+  }
+
+  return Math.max(1, Math.round(durationSeconds / 60));
+}
+
+export function validateWorkoutEditInput(body: unknown): WorkoutEditValidation {
+  const payload = asObject(body);
+  if (!payload) {
+    return { success: false, message: "Invalid request payload." };
+  }
+
+  if (!asObject(payload.workoutJson)) {
+    return { success: false, message: "workoutJson must be a workout object." };
+  }
+
+  return { success: true, workoutJson: payload.workoutJson };
+}
+
+// Replaces the steps of a workout that has not been uploaded yet. The edit goes through the same
+// validator as AI output, the totals are recomputed from the steps, and every saved edit is kept
+// as a numbered version so an earlier one can be brought back.
+export async function updateWorkoutSteps(
+  userId: number,
+  workoutId: number,
+  workoutJson: unknown,
+): Promise<WorkoutEditResult> {
+  const existing = await prisma.workout.findFirst({
+    where: { id: workoutId, userId },
+    select: {
+      id: true,
+      status: true,
+      workoutJson: true,
+      totalDistanceKm: true,
+      estimatedDurationMinutes: true,
+    },
+  });
+
+  if (!existing) {
+    return { success: false, message: "Workout not found.", status: 404 };
+  }
+
+  if (existing.status.toLowerCase() !== "generated") {
+    return {
+      success: false,
+      message: "Only generated workouts can be edited.",
+      status: 400,
+    };
+  }
+
+  const validation = validateGarminWorkout(workoutJson, { exactEstimates: true });
+  if (!validation.success) {
+    return {
+      success: false,
+      message: new WorkoutValidationError(validation.errors).message,
+      status: 400,
+      errors: validation.errors,
+    };
+  }
+
+  const workout = validation.workout;
+  const totalDistanceKm = getDistanceKm(workout);
+  const estimatedDurationMinutes = getDurationMinutes(workout);
+
+  const version = await prisma.$transaction(async (tx) => {
+    const latest = await tx.workoutVersion.findFirst({
+      where: { workoutId: existing.id },
+      orderBy: { version: "desc" },
+      select: { version: true },
+    });
+
+    // The first edit also records the workout as it was generated.
+    if (!latest) {
+      await tx.workoutVersion.create({
+        data: {
+          workoutId: existing.id,
+          version: 1,
+          workoutJson: existing.workoutJson as Prisma.InputJsonValue,
+          totalDistanceKm: existing.totalDistanceKm,
+          estimatedDurationMinutes: existing.estimatedDurationMinutes,
+        },
+      });
+    }
+
+    const next = (latest?.version ?? 1) + 1;
+    await tx.workoutVersion.create({
+      data: {
+        workoutId: existing.id,
+        version: next,
+        workoutJson: workout as Prisma.InputJsonValue,
+        totalDistanceKm,
+        estimatedDurationMinutes,
+      },
+    });
+
+    await tx.workout.update({
+      where: { id: existing.id },
+      data: {
+        title: workout.workoutName,
+        workoutJson: workout as Prisma.InputJsonValue,
+        totalDistanceKm,
+        estimatedDurationMinutes,
+      },
+    });
+
+    return next;
+  });
+
+  return { success: true, workout, version, totalDistanceKm, estimatedDurationMinutes };
+}
+
+// Newest first.
+export async function listWorkoutVersions(
+  userId: number,
+  workoutId: number,
+): Promise<WorkoutVersionRecord[]> {
+  return await prisma.workoutVersion.findMany({
+    where: { workoutId, workout: { userId } },
+    orderBy: { version: "desc" },
+    take: MAX_LISTED_VERSIONS,
+    select: {
+      version: true,
+      workoutJson: true,
+      totalDistanceKm: true,
+      estimatedDurationMinutes: true,
+      createdAt: true,
+    },
+  });
+}
@@ -0,0 +1,290 @@
+import { WORKOUT_TYPE_OPTIONS, type GarminWorkoutJson, type WorkoutType } from "@/lib/constants";
+import { prisma } from "@/lib/prisma";
+import { isTeamMember } from "@/server/teams";
+import { createBuiltWorkout, parseWorkoutDsl } from "@/server/workout-builder";
+
+export type WorkoutTemplateInput = {
+  name: string;
+  description: string | null;
+  workoutType: WorkoutType;
+  definition: string;
+  // Team the template is shared to; null keeps it private.
+  teamId: number | null;
+};
+
+export type WorkoutTemplateRecord = {
+  id: number;
+  name: string;
+  description: string | null;
+  workoutType: string;
+  definition: string;
+  teamId: number | null;
+  teamName: string | null;
+  isOwner: boolean;
+  updatedAt: Date;
+};
+
+export type WorkoutTemplateValidation =
+  | { success: true; input: WorkoutTemplateInput }
+  | { success: false; message: string };
+
+export type WorkoutTemplateMutationResult =
+  | { success: true; template: WorkoutTemplateRecord }
+  | { success: false; message: string; status: number };
+
+export type WorkoutTemplateInstantiateResult =
+  | { success: true; workoutId: number; workout: GarminWorkoutJson }
+  | { success: false; message: string; status: number };
+
+const MAX_NAME_LENGTH = 80;
+const MAX_DESCRIPTION_LENGTH = 1000;
+const MAX_DEFINITION_LENGTH = 2000;
+
+const WORKOUT_TEMPLATE_SELECT = {
+  id: true,
+  userId: true,
+  name: true,
+  description: true,
+  workoutType: true,
+  definition: true,
+  teamId: true,
+  team: { select: { name: true } },
+  updatedAt: true,
+} as const;
+
+function asObject(value: unknown): Record<string, unknown> | null {
+  if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+    return value as Record<string, unknown>;
+  }
+
+  return null;
+}
+
+function isWorkoutType(value: unknown): value is WorkoutType {
+  return WORKOUT_TYPE_OPTIONS.some((option) => option.value === value);
+}
+
+function toRecord(
+  userId: number,
+  template: { userId: number; team: { name: string } | null } & Omit<
+    WorkoutTemplateRecord,
+    "isOwner" | "teamName"
+  >,
+): WorkoutTemplateRecord {
+  const { userId: ownerId, team, ...rest } = template;
+  return { ...rest, teamName: team?.name ?? null, isOwner: ownerId === userId };
+}
+
+// A template is visible to its owner and to the members of the team it is shared to.
+function visibleTo(userId: number) {
+  return { OR: [{ userId }, { team: { members: { some: { userId } } } }] };
+}
+
+async function checkTeamAccess(
+  userId: number,
+  teamId: number | null,
+): Promise<{ success: true } | { success: false; message: string; status: number }> {
+  if (teamId !== null && !(await isTeamMember(userId, teamId))) {
+    return {
+      success: false,
+      message: "You can only share templates to your own teams.",
+      status: 403,
+    };
+  }
+
+  return { success: true };
+}
+
+export function validateWorkoutTemplateInput(body: unknown): WorkoutTemplateValidation {
+  const payload = asObject(body);
+  if (!payload) {
+    return { success: false, message: "Invalid request payload." };
+  }
+
+  const name = typeof payload.name === "string" ? payload.name.trim() : "";
+  if (name === "" || name.length > MAX_NAME_LENGTH) {
+    return { success: false, message: `name must be 1 to ${MAX_NAME_LENGTH} characters.` };
+  }
+
+  if (!isWorkoutType(payload.workoutType)) {
+    return {
+      success: false,
+      message: "workoutType must be one of: easy, tempo, interval, long-run, recovery.",
+    };
+  }
+
+  if (
+    payload.description !== undefined &&
+    payload.description !== null &&
+    typeof payload.description !== "string"
+  ) {
+    return { success: false, message: "description must be a string when provided." };
+  }
+
+  const description = payload.description?.trim() || null;
+  if (description && description.length > MAX_DESCRIPTION_LENGTH) {
+    return {
+      success: false,
+      message: `description must be at most ${MAX_DESCRIPTION_LENGTH} characters.`,
+    };
+  }
+
+  const definition = typeof payload.definition === "string" ? payload.definition.trim() : "";
+  if (definition === "" || definition.length > MAX_DEFINITION_LENGTH) {
+    return {
+      success: false,
+      message: `definition must be 1 to ${MAX_DEFINITION_LENGTH} characters.`,
+    };
+  }
+
+  // Syntax is checked now; paces are only resolved when someone uses the template.
+  const parsed = parseWorkoutDsl(definition);
+  if (!parsed.success) {
+    return { success: false, message: parsed.message };
+  }
+
+  if (
+    payload.teamId !== undefined &&
+    payload.teamId !== null &&
+    (typeof payload.teamId !== "number" || !Number.isInteger(payload.teamId) || payload.teamId <= 0)
+  ) {
+    return { success: false, message: "teamId must be a team id or null when provided." };
+  }
+
+  return {
+    success: true,
+    input: {
+      name,
+      description,
+      workoutType: payload.workoutType,
+      definition,
+      teamId: typeof payload.teamId === "number" ? payload.teamId : null,
+    },
+  };
+}
+
+// The user's own templates plus those shared to their teams, own ones first.
+export async function listWorkoutTemplates(userId: number): Promise<WorkoutTemplateRecord[]> {
+  const templates = await prisma.workoutTemplate.findMany({
+    where: visibleTo(userId),
+    orderBy: [{ name: "asc" }, { id: "asc" }],
+    select: WORKOUT_TEMPLATE_SELECT,
+  });
+
+  const records = templates.map((template) => toRecord(userId, template));
+  return [
+    ...records.filter((template) => template.isOwner),
+    ...records.filter((template) => !template.isOwner),
+  ];
+}
+
+export async function createWorkoutTemplate(
+  userId: number,
+  input: WorkoutTemplateInput,
+): Promise<WorkoutTemplateMutationResult> {
+  const access = await checkTeamAccess(userId, input.teamId);
+  if (!access.success) {
+    return access;
+  }
+
+  const template = await prisma.workoutTemplate.create({
+    data: { ...input, userId },
+    select: WORKOUT_TEMPLATE_SELECT,
+  });
+
+  return { success: true, template: toRecord(userId, template) };
+}
+
+// Team members can read a shared template but only its owner may change it.
+async function findOwnedTemplate(
+  userId: number,
+  templateId: number,
+): Promise<{ success: true; id: number } | { success: false; message: string; status: number }> {
+  const template = await prisma.workoutTemplate.findFirst({
+    where: { id: templateId, ...visibleTo(userId) },
+    select: { id: true, userId: true },
+  });
+
+  if (!template) {
+    return { success: false, message: "Workout template not found.", status: 404 };
+  }
+
+  if (template.userId !== userId) {
+    return {
+      success: false,
+      message: "Only the owner can change a shared workout template.",
+      status: 403,
+    };
+  }
+
+  return { success: true, id: template.id };
+}
+
+export async function updateWorkoutTemplate(
+  userId: number,
+  templateId: number,
+  input: WorkoutTemplateInput,
+): Promise<WorkoutTemplateMutationResult> {
+  const owned = await findOwnedTemplate(userId, templateId);
+  if (!owned.success) {
+    return owned;
+  }
+
+  const access = await checkTeamAccess(userId, input.teamId);
+  if (!access.success) {
+    return access;
+  }
+
+  const template = await prisma.workoutTemplate.update({
+    where: { id: owned.id },
+    data: { ...input, updatedAt: new Date() },
+    select: WORKOUT_TEMPLATE_SELECT,
+  });
+
+  return { success: true, template: toRecord(userId, template) };
+}
+
+export async function deleteWorkoutTemplate(
+  userId: number,
+  templateId: number,
+): Promise<{ success: true } | { success: false; message: string; status: number }> {
+  const owned = await findOwnedTemplate(userId, templateId);
+  if (!owned.success) {
+    return owned;
+  }
+
+  await prisma.workoutTemplate.delete({ where: { id: owned.id } });
+  return { success: true };
+}
+
+// Fills in the user's current paces and saves the result as a normal generated workout, ready for
+// the accept flow.
+export async function instantiateWorkoutTemplate(
+  userId: number,
+  templateId: number,
+): Promise<WorkoutTemplateInstantiateResult> {
+  const template = await prisma.workoutTemplate.findFirst({
+    where: { id: templateId, ...visibleTo(userId) },
+    select: WORKOUT_TEMPLATE_SELECT,
+  });
+  if (!template) {
+    return { success: false, message: "Workout template not found.", status: 404 };
+  }
+
+  const parsed = parseWorkoutDsl(template.definition);
+  if (!parsed.success) {
+    return {
+      success: false,
+      message: `The template's steps are no longer valid: ${parsed.message}`,
+      status: 422,
+    };
+  }
+
+  return await createBuiltWorkout(userId, {
+    workoutType: isWorkoutType(template.workoutType) ? template.workoutType : "easy",
+    title: template.name,
+    description: template.description,
+    definition: template.definition,
+    steps: parsed.steps,
+  });
+}
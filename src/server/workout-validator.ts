@@ -0,0 +1,613 @@
+import {
+  DISTANCE_UNIT,
+  END_CONDITIONS,
+  SPORT_TYPE_RUNNING,
+  STEP_TYPES,
+  TARGET_TYPES,
+  type GarminEndConditionValue,
+  type GarminTargetTypeValue,
+  type GarminWorkoutJson,
+  type GarminWorkoutStep,
+} from "@/lib/constants";
+
+export type WorkoutIssueCode = "required" | "invalid_type" | "unknown_value" | "out_of_range";
+
+export type WorkoutValidationIssue = {
+  // Dotted path into the workout, e.g. "workoutSegments[0].workoutSteps[2].targetValueOne".
+  path: string;
+  code: WorkoutIssueCode;
+  message: string;
+};
+
+export type WorkoutRepair = {
+  path: string;
+  message: string;
+};
+
+export type WorkoutValidationResult =
+  | { success: true; workout: GarminWorkoutJson; repairs: WorkoutRepair[] }
+  | { success: false; errors: WorkoutValidationIssue[]; repairs: WorkoutRepair[] };
+
+export type ValidateWorkoutOptions = {
+  // Always replace the estimates instead of keeping ones within the tolerance; used after a user
+  // edit, where the stored figures describe the steps before the change.
+  exactEstimates?: boolean;
+};
+
+type JsonObject = Record<string, unknown>;
+
+type ValidationState = {
+  errors: WorkoutValidationIssue[];
+  repairs: WorkoutRepair[];
+};
+
+type StepEstimate = {
+  distanceMeters: number;
+  durationSeconds: number;
+};
+
+const EXECUTABLE_STEP = "ExecutableStepDTO";
+const REPEAT_GROUP = "RepeatGroupDTO";
+
+const MAX_NAME_LENGTH = 80;
+const MAX_REPEAT_ITERATIONS = 50;
+const HR_ZONE_COUNT = 5;
+
+// Garmin pace targets are m/s. Anything outside this band is almost always seconds per km or
+// min/km written by mistake, which Garmin accepts and then shows as an absurd pace.
+const MIN_PACE_SPEED = 0.5;
+const MAX_PACE_SPEED = 10;
+const MIN_CADENCE = 60;
+const MAX_CADENCE = 250;
+
+// Used for estimates when neither the step nor the workout says how fast the runner goes.
+const DEFAULT_PACE_SECONDS_PER_KM = 360;
+const MIN_ESTIMATE_PACE_SECONDS_PER_KM = 150;
+const MAX_ESTIMATE_PACE_SECONDS_PER_KM = 900;
+// Untargeted steps make any estimate a guess, so one close to ours is left alone.
+const ESTIMATE_TOLERANCE = 0.1;
+
+const TARGET_FIELDS_BY_TYPE: Record<string, string[]> = {
+  "no.target": [],
+  "heart.rate.zone": ["zoneNumber"],
+  "pace.zone": ["targetValueOne", "targetValueTwo"],
+  cadence: ["targetValueOne", "targetValueTwo"],
+};
+
+const TARGET_FIELDS = ["zoneNumber", "targetValueOne", "targetValueTwo"];
+
+export class WorkoutValidationError extends Error {
+  errors: WorkoutValidationIssue[];
+
+  constructor(errors: WorkoutValidationIssue[]) {
+    super(
+      `Workout failed validation: ${errors
+        .slice(0, 3)
+        .map((error) => `${error.path}: ${error.message}`)
+        .join("; ")}${errors.length > 3 ? ` (and ${errors.length - 3} more)` : ""}`,
+    );
+    this.name = "WorkoutValidationError";
+    this.errors = errors;
+  }
+}
+
+function asObject(value: unknown): JsonObject | null {
+  if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+    return value as JsonObject;
+  }
+
+  return null;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return isFiniteNumber(value) && value > 0;
+}
+
+// Field-by-field so that key order in the model's JSON does not count as a difference.
+function isSameReference(value: unknown, reference: object): boolean {
+  const object = asObject(value);
+  if (!object) {
+    return false;
+  }
+
+  const entries = Object.entries(reference);
+  return (
+    Object.keys(object).length === entries.length &&
+    entries.every(([key, expected]) => object[key] === expected)
+  );
+}
+
+function joinPath(path: string, field: string): string {
+  return path ? `${path}.${field}` : field;
+}
+
+function addError(
+  state: ValidationState,
+  path: string,
+  code: WorkoutIssueCode,
+  message: string,
+): void {
+  state.errors.push({ path, code, message });
+}
+
+function addRepair(state: ValidationState, path: string, message: string): void {
+  state.repairs.push({ path, message });
+}
+
+// Matches a reference object by its key first and its id second, so `{"stepTypeKey":"warmup"}`
+// and `{"stepTypeId":1}` both resolve to the full constant.
+function findReference<T extends object>(
+  options: T[],
+  value: unknown,
+  idField: keyof T,
+  keyField: keyof T,
+): T | null {
+  const object = asObject(value);
+  const key = object ? object[keyField as string] : value;
+  const id = object ? object[idField as string] : undefined;
+
+  return (
+    options.find((option) => option[keyField] === key) ??
+    options.find((option) => id !== undefined && option[idField] === id) ??
+    null
+  );
+}
+
+// Puts the canonical constant in place of a partial or mistyped reference object.
+function normalizeReference<T extends object>(
+  state: ValidationState,
+  target: JsonObject,
+  field: string,
+  reference: T,
+  path: string,
+): void {
+  if (!isSameReference(target[field], reference)) {
+    target[field] = { ...reference };
+    addRepair(state, joinPath(path, field), `${field} normalized to the Garmin reference values.`);
+  }
+}
+
+function renumber(
+  state: ValidationState,
+  items: JsonObject[],
+  field: "stepOrder" | "segmentOrder",
+  path: string,
+): void {
+  const outOfOrder = items.some((item, index) => item[field] !== index + 1);
+  if (!outOfOrder) {
+    return;
+  }
+
+  items.forEach((item, index) => {
+    item[field] = index + 1;
+  });
+  addRepair(state, path, `${field} renumbered from 1.`);
+}
+
+function validateTarget(state: ValidationState, step: JsonObject, path: string): void {
+  if (step.targetType === undefined || step.targetType === null) {
+    step.targetType = { ...TARGET_TYPES.no_target };
+    addRepair(state, `${path}.targetType`, "Missing targetType set to no.target.");
+  }
+
+  const targetType = findReference<GarminTargetTypeValue>(
+    Object.values(TARGET_TYPES),
+    step.targetType,
+    "workoutTargetTypeId",
+    "workoutTargetTypeKey",
+  );
+  if (!targetType) {
+    addError(
+      state,
+      `${path}.targetType`,
+      "unknown_value",
+      "targetType must be no.target, cadence, heart.rate.zone or pace.zone.",
+    );
+    return;
+  }
+  normalizeReference(state, step, "targetType", targetType, path);
+
+  // Values left over from another target type confuse Garmin's step editor.
+  const allowed = TARGET_FIELDS_BY_TYPE[targetType.workoutTargetTypeKey];
+  for (const field of TARGET_FIELDS) {
+    if (!allowed.includes(field) && step[field] !== undefined) {
+      delete step[field];
+      addRepair(
+        state,
+        `${path}.${field}`,
+        `${field} removed; it does not apply to ${targetType.workoutTargetTypeKey} targets.`,
+      );
+    }
+  }
+
+  if (targetType.workoutTargetTypeKey === "heart.rate.zone") {
+    const zone = step.zoneNumber;
+    if (!isFiniteNumber(zone) || !Number.isInteger(zone) || zone < 1 || zone > HR_ZONE_COUNT) {
+      addError(
+        state,
+        `${path}.zoneNumber`,
+        zone === undefined ? "required" : "out_of_range",
+        `Heart rate zone targets need a zoneNumber from 1 to ${HR_ZONE_COUNT}.`,
+      );
+    }
+    return;
+  }
+
+  if (targetType.workoutTargetTypeKey === "no.target") {
+    return;
+  }
+
+  const [min, max, unit] =
+    targetType.workoutTargetTypeKey === "pace.zone"
+      ? [MIN_PACE_SPEED, MAX_PACE_SPEED, "m/s"]
+      : [MIN_CADENCE, MAX_CADENCE, "steps per minute"];
+
+  let bothValid = true;
+  for (const field of ["targetValueOne", "targetValueTwo"]) {
+    const value = step[field];
+    if (!isFiniteNumber(value)) {
+      addError(
+        state,
+        `${path}.${field}`,
+        value === undefined ? "required" : "invalid_type",
+        `${targetType.workoutTargetTypeKey} targets need ${field} as a number in ${unit}.`,
+      );
+      bothValid = false;
+    } else if (value < min || value > max) {
+      addError(
+        state,
+        `${path}.${field}`,
+        "out_of_range",
+        `${field} must be between ${min} and ${max} ${unit}.`,
+      );
+      bothValid = false;
+    }
+  }
+
+  // targetValueOne is the low end: the slower pace (lower m/s) or the lower cadence.
+  if (bothValid && (step.targetValueOne as number) > (step.targetValueTwo as number)) {
+    [step.targetValueOne, step.targetValueTwo] = [step.targetValueTwo, step.targetValueOne];
+    addRepair(
+      state,
+      path,
+      "targetValueOne and targetValueTwo swapped so the range runs low to high.",
+    );
+  }
+}
+
+function validateExecutableStep(state: ValidationState, step: JsonObject, path: string): void {
+  const stepType = findReference(
+    Object.values(STEP_TYPES),
+    step.stepType,
+    "stepTypeId",
+    "stepTypeKey",
+  );
+  if (!stepType) {
+    addError(
+      state,
+      `${path}.stepType`,
+      step.stepType === undefined ? "required" : "unknown_value",
+      "stepType must be one of warmup, cooldown, interval, recovery or rest.",
+    );
+  } else {
+    normalizeReference(state, step, "stepType", stepType, path);
+  }
+
+  const endCondition = findReference<GarminEndConditionValue>(
+    [END_CONDITIONS.time, END_CONDITIONS.distance],
+    step.endCondition,
+    "conditionTypeId",
+    "conditionTypeKey",
+  );
+  if (!endCondition) {
+    addError(
+      state,
+      `${path}.endCondition`,
+      step.endCondition === undefined ? "required" : "unknown_value",
+      "Executable steps must end on time or distance.",
+    );
+  } else {
+    normalizeReference(state, step, "endCondition", endCondition, path);
+
+    if (!isPositiveNumber(step.endConditionValue)) {
+      addError(
+        state,
+        `${path}.endConditionValue`,
+        step.endConditionValue === undefined ? "required" : "out_of_range",
+        endCondition.conditionTypeKey === "time"
+          ? "endConditionValue must be a positive number of seconds."
+          : "endConditionValue must be a positive number of meters.",
+      );
+    }
+
+    if (endCondition.conditionTypeKey === "distance") {
+      if (!isSameReference(step.preferredEndConditionUnit, DISTANCE_UNIT)) {
+        step.preferredEndConditionUnit = { ...DISTANCE_UNIT };
+        addRepair(
+          state,
+          `${path}.preferredEndConditionUnit`,
+          "Distance steps need preferredEndConditionUnit meters; set it.",
+        );
+      }
+    } else if (step.preferredEndConditionUnit !== undefined) {
+      delete step.preferredEndConditionUnit;
+      addRepair(
+        state,
+        `${path}.preferredEndConditionUnit`,
+        "preferredEndConditionUnit removed from a time step.",
+      );
+    }
+  }
+
+  validateTarget(state, step, path);
+}
+
+function validateRepeatGroup(
+  state: ValidationState,
+  step: JsonObject,
+  path: string,
+  depth: number,
+): void {
+  let iterations = step.numberOfIterations;
+  if (iterations === undefined && isFiniteNumber(step.endConditionValue)) {
+    iterations = step.endConditionValue;
+    step.numberOfIterations = iterations;
+    addRepair(
+      state,
+      `${path}.numberOfIterations`,
+      "numberOfIterations copied from endConditionValue.",
+    );
+  }
+
+  if (
+    !isFiniteNumber(iterations) ||
+    !Number.isInteger(iterations) ||
+    iterations < 1 ||
+    iterations > MAX_REPEAT_ITERATIONS
+  ) {
+    addError(
+      state,
+      `${path}.numberOfIterations`,
+      iterations === undefined ? "required" : "out_of_range",
+      `Repeat groups need numberOfIterations as a whole number from 1 to ${MAX_REPEAT_ITERATIONS}.`,
+    );
+  } else {
+    normalizeReference(state, step, "endCondition", END_CONDITIONS.iterations, path);
+    if (step.endConditionValue !== iterations) {
+      step.endConditionValue = iterations;
+      addRepair(
+        state,
+        `${path}.endConditionValue`,
+        "endConditionValue set to numberOfIterations.",
+      );
+    }
+  }
+
+  if (typeof step.smartRepeat !== "boolean") {
+    step.smartRepeat = false;
+    addRepair(state, `${path}.smartRepeat`, "smartRepeat set to false.");
+  }
+
+  validateStepList(state, step.workoutSteps, `${path}.workoutSteps`, depth + 1);
+}
+
+function validateStepList(
+  state: ValidationState,
+  value: unknown,
+  path: string,
+  depth: number,
+): void {
+  if (!Array.isArray(value) || value.length === 0) {
+    addError(
+      state,
+      path,
+      value === undefined ? "required" : "invalid_type",
+      "workoutSteps must be a non-empty list.",
+    );
+    return;
+  }
+
+  const steps: JsonObject[] = [];
+  value.forEach((item, index) => {
+    const step = asObject(item);
+    if (!step) {
+      addError(state, `${path}[${index}]`, "invalid_type", "Each step must be an object.");
+      return;
+    }
+    steps.push(step);
+  });
+  if (steps.length !== value.length) {
+    return;
+  }
+
+  renumber(state, steps, "stepOrder", path);
+
+  steps.forEach((step, index) => {
+    const stepPath = `${path}[${index}]`;
+
+    const inferredType = Array.isArray(step.workoutSteps) ? REPEAT_GROUP : EXECUTABLE_STEP;
+    if (step.type !== EXECUTABLE_STEP && step.type !== REPEAT_GROUP) {
+      step.type = inferredType;
+      addRepair(state, `${stepPath}.type`, `type set to ${inferredType} from the step's shape.`);
+    }
+
+    if (step.type === REPEAT_GROUP) {
+      if (depth > 0) {
+        addError(
+          state,
+          stepPath,
+          "invalid_type",
+          "Repeat groups cannot be nested inside another repeat group.",
+        );
+        return;
+      }
+      validateRepeatGroup(state, step, stepPath, depth);
+    } else {
+      validateExecutableStep(state, step, stepPath);
+    }
+  });
+}
+
+function paceFromTarget(step: GarminWorkoutStep, fallbackSecondsPerKm: number): number {
+  if (
+    step.targetType?.workoutTargetTypeKey === "pace.zone" &&
+    isPositiveNumber(step.targetValueOne) &&
+    isPositiveNumber(step.targetValueTwo)
+  ) {
+    return 1000 / ((step.targetValueOne + step.targetValueTwo) / 2);
+  }
+
+  return fallbackSecondsPerKm;
+}
+
+function estimateSteps(steps: GarminWorkoutStep[], fallbackSecondsPerKm: number): StepEstimate {
+  return steps.reduce<StepEstimate>(
+    (total, step) => {
+      if (step.type === REPEAT_GROUP) {
+        const nested = estimateSteps(step.workoutSteps ?? [], fallbackSecondsPerKm);
+        const iterations = step.numberOfIterations ?? 1;
+        return {
+          distanceMeters: total.distanceMeters + nested.distanceMeters * iterations,
+          durationSeconds: total.durationSeconds + nested.durationSeconds * iterations,
+        };
+      }
+
+      const value = step.endConditionValue ?? 0;
+      const paceSecondsPerKm = paceFromTarget(step, fallbackSecondsPerKm);
+      return step.endCondition?.conditionTypeKey === "distance"
+        ? {
+            distanceMeters: total.distanceMeters + value,
+            durationSeconds: total.durationSeconds + (value / 1000) * paceSecondsPerKm,
+          }
+        : {
+            distanceMeters: total.distanceMeters + (value / paceSecondsPerKm) * 1000,
+            durationSeconds: total.durationSeconds + value,
+          };
+    },
+    { distanceMeters: 0, durationSeconds: 0 },
+  );
+}
+
+// Steps without a pace target fall back to the pace implied by the model's own estimates.
+function resolveFallbackPace(workout: JsonObject): number {
+  const duration = workout.estimatedDurationInSecs;
+  const distance = workout.estimatedDistanceInMeters;
+  if (isPositiveNumber(duration) && isPositiveNumber(distance)) {
+    const pace = duration / (distance / 1000);
+    if (pace >= MIN_ESTIMATE_PACE_SECONDS_PER_KM && pace <= MAX_ESTIMATE_PACE_SECONDS_PER_KM) {
+      return pace;
+    }
+  }
+
+  return DEFAULT_PACE_SECONDS_PER_KM;
+}
+
+function recomputeEstimates(
+  state: ValidationState,
+  workout: GarminWorkoutJson,
+  tolerance: number,
+): void {
+  const fallbackPace = resolveFallbackPace(workout);
+  const totals = workout.workoutSegments.reduce<StepEstimate>(
+    (total, segment) => {
+      const estimate = estimateSteps(segment.workoutSteps ?? [], fallbackPace);
+      return {
+        distanceMeters: total.distanceMeters + estimate.distanceMeters,
+        durationSeconds: total.durationSeconds + estimate.durationSeconds,
+      };
+    },
+    { distanceMeters: 0, durationSeconds: 0 },
+  );
+
+  const estimates = {
+    estimatedDurationInSecs: Math.round(totals.durationSeconds),
+    estimatedDistanceInMeters: Math.round(totals.distanceMeters),
+  };
+  for (const [field, value] of Object.entries(estimates)) {
+    const current = workout[field];
+    if (isPositiveNumber(current) && Math.abs(current - value) <= value * tolerance) {
+      continue;
+    }
+
+    if (current !== value) {
+      addRepair(
+        state,
+        field,
+        `${field} recomputed from the steps (${String(workout[field] ?? "missing")} -> ${value}).`,
+      );
+      workout[field] = value;
+    }
+  }
+}
+
+// Checks AI or user supplied workout JSON against the Garmin shapes this app uploads, fixing
+// whatever has exactly one right answer (numbering, reference objects, units, range order,
+// estimates) and reporting the rest. The input is never modified.
+export function validateGarminWorkout(
+  value: unknown,
+  options: ValidateWorkoutOptions = {},
+): WorkoutValidationResult {
+  const state: ValidationState = { errors: [], repairs: [] };
+
+  const source = asObject(value);
+  if (!source) {
+    addError(state, "workout", "invalid_type", "Workout must be a JSON object.");
+    return { success: false, errors: state.errors, repairs: state.repairs };
+  }
+
+  const workout = JSON.parse(JSON.stringify(source)) as JsonObject;
+
+  if (typeof workout.workoutName !== "string" || workout.workoutName.trim() === "") {
+    addError(state, "workoutName", "required", "workoutName must be a non-empty string.");
+  } else if (workout.workoutName.trim().length > MAX_NAME_LENGTH) {
+    workout.workoutName = workout.workoutName.trim().slice(0, MAX_NAME_LENGTH).trim();
+    addRepair(state, "workoutName", `workoutName shortened to ${MAX_NAME_LENGTH} characters.`);
+  } else if (workout.workoutName !== workout.workoutName.trim()) {
+    workout.workoutName = workout.workoutName.trim();
+    addRepair(state, "workoutName", "Surrounding whitespace removed from workoutName.");
+  }
+
+  if (workout.description !== undefined && typeof workout.description !== "string") {
+    delete workout.description;
+    addRepair(state, "description", "Non-text description removed.");
+  }
+
+  // Every workout this app builds is a run.
+  normalizeReference(state, workout, "sportType", SPORT_TYPE_RUNNING, "");
+
+  const segmentsValue = workout.workoutSegments;
+  if (!Array.isArray(segmentsValue) || segmentsValue.length === 0) {
+    addError(
+      state,
+      "workoutSegments",
+      segmentsValue === undefined ? "required" : "invalid_type",
+      "workoutSegments must be a non-empty list.",
+    );
+  } else {
+    const segments = segmentsValue.map(asObject);
+    if (segments.some((segment) => segment === null)) {
+      addError(state, "workoutSegments", "invalid_type", "Each segment must be an object.");
+    } else {
+      const validSegments = segments as JsonObject[];
+      renumber(state, validSegments, "segmentOrder", "workoutSegments");
+      validSegments.forEach((segment, index) => {
+        const path = `workoutSegments[${index}]`;
+        normalizeReference(state, segment, "sportType", SPORT_TYPE_RUNNING, path);
+        validateStepList(state, segment.workoutSteps, `${path}.workoutSteps`, 0);
+      });
+    }
+  }
+
+  if (state.errors.length > 0) {
+    return { success: false, errors: state.errors, repairs: state.repairs };
+  }
+
+  const validWorkout = workout as GarminWorkoutJson;
+  recomputeEstimates(state, validWorkout, options.exactEstimates ? 0 : ESTIMATE_TOLERANCE);
+
+  return { success: true, workout: validWorkout, repairs: state.repairs };
+}